@@ -25,6 +25,20 @@ export interface ProxyParams {
   temperature?: number;
   maxTokens?: number;
   jsonMode?: boolean;
+  stream?: boolean; // true 时以 SSE 流式返回（见 streamToResponse）
+  tools?: unknown[]; // OpenAI function 格式的工具定义，原样转发给支持函数调用的服务商
+}
+
+/** 模型发起的一次工具调用；arguments 为模型给出的原始 JSON 字符串 */
+export interface ProxyToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ProviderReply {
+  content: string;
+  toolCalls?: ProxyToolCall[];
 }
 
 // OpenAI 兼容协议的服务商端点
@@ -41,11 +55,18 @@ const OPENAI_COMPATIBLE_ENDPOINTS: Record<string, string> = {
 const DASHSCOPE_ENDPOINT =
   'https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation';
 
-/**
- * 把一次对话转发到对应大模型服务，返回回复正文。失败时抛出带服务商信息的错误。
- */
-export async function callProvider(params: ProxyParams): Promise<string> {
-  const { provider, model, apiKey, messages, temperature, maxTokens, jsonMode } = params;
+interface UpstreamRequest {
+  label: string; // 错误信息中的服务商名
+  dashscope: boolean;
+  endpoint: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+/** 校验参数并组装发往服务商的请求；stream 为 true 时请求 SSE 流式输出。 */
+function buildUpstreamRequest(params: ProxyParams, stream: boolean): UpstreamRequest {
+  const { provider, model, apiKey, messages, temperature, maxTokens, jsonMode, tools } = params;
+  const hasTools = Array.isArray(tools) && tools.length > 0;
 
   if (!provider || !model) throw new Error('缺少 provider 或 model');
   if (!Array.isArray(messages) || messages.length === 0) throw new Error('缺少消息内容');
@@ -53,26 +74,29 @@ export async function callProvider(params: ProxyParams): Promise<string> {
 
   // 通义千问：原生端点，input.messages / parameters 结构
   if (provider === 'dashscope') {
-    const body = {
-      model,
-      input: { messages },
-      parameters: {
-        temperature: temperature ?? 0.7,
-        max_tokens: maxTokens ?? 4096,
-        result_format: 'message',
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    };
+    // 原生端点通过请求头开启 SSE；incremental_output 让每个事件只带新增部分
+    if (stream) headers['X-DashScope-SSE'] = 'enable';
+    return {
+      label: 'DashScope',
+      dashscope: true,
+      endpoint: DASHSCOPE_ENDPOINT,
+      headers,
+      body: {
+        model,
+        input: { messages },
+        parameters: {
+          temperature: temperature ?? 0.7,
+          max_tokens: maxTokens ?? 4096,
+          result_format: 'message',
+          ...(stream ? { incremental_output: true } : {}),
+          ...(hasTools ? { tools } : {}),
+        },
       },
     };
-    const r = await fetch(DASHSCOPE_ENDPOINT, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-      body: JSON.stringify(body),
-    });
-    if (!r.ok) {
-      const e = await r.json().catch(() => ({}));
-      throw new Error(`DashScope API 错误: ${r.status} - ${JSON.stringify(e)}`);
-    }
-    const data: any = await r.json();
-    return data.output?.choices?.[0]?.message?.content || data.output?.text || '';
   }
 
   // 其余服务商：OpenAI 兼容协议
@@ -86,21 +110,152 @@ export async function callProvider(params: ProxyParams): Promise<string> {
     max_tokens: maxTokens ?? 4096,
   };
   if (jsonMode) body.response_format = { type: 'json_object' };
+  if (stream) body.stream = true;
+  if (hasTools) body.tools = tools;
 
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
   if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
-  const r = await fetch(endpoint, {
+  return { label: provider, dashscope: false, endpoint, headers, body };
+}
+
+async function upstreamError(r: Response, label: string): Promise<Error> {
+  const e = await r.json().catch(() => ({}));
+  return new Error(`${label} API 错误: ${r.status} - ${JSON.stringify(e)}`);
+}
+
+/** 把服务商返回的 tool_calls（完整或流式累积后）整理成统一结构 */
+function toProxyToolCalls(raw: any[] | undefined): ProxyToolCall[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw
+    .filter((c) => c?.function?.name)
+    .map((c, i) => ({
+      id: c.id || `call_${i}`,
+      name: c.function.name,
+      arguments: c.function.arguments || '{}',
+    }));
+}
+
+/**
+ * 把一次对话转发到对应大模型服务，返回回复正文（及工具调用）。失败时抛出带服务商信息的错误。
+ */
+export async function callProvider(params: ProxyParams): Promise<ProviderReply> {
+  const up = buildUpstreamRequest(params, false);
+  const r = await fetch(up.endpoint, {
     method: 'POST',
-    headers,
-    body: JSON.stringify(body),
+    headers: up.headers,
+    body: JSON.stringify(up.body),
   });
-  if (!r.ok) {
-    const e = await r.json().catch(() => ({}));
-    throw new Error(`${provider} API 错误: ${r.status} - ${JSON.stringify(e)}`);
-  }
+  if (!r.ok) throw await upstreamError(r, up.label);
   const data: any = await r.json();
-  return data.choices?.[0]?.message?.content || '';
+  const message = up.dashscope ? data.output?.choices?.[0]?.message : data.choices?.[0]?.message;
+  return {
+    content: message?.content || (up.dashscope ? data.output?.text : '') || '',
+    toolCalls: toProxyToolCalls(message?.tool_calls),
+  };
+}
+
+/** 逐行读取 SSE 流，把每个 data 字段的内容交给 onData。 */
+async function readSSE(stream: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) onData(line.slice(5).trim());
+      }
+    }
+    if (buffer.startsWith('data:')) onData(buffer.slice(5).trim());
+  } catch (err) {
+    // onData 抛错时也要关掉上游连接
+    await reader.cancel().catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * 流式转发：每收到一段新增文本调用一次 onDelta，结束后返回完整正文（及工具调用）。
+ * signal 中止时同时中止对服务商的请求。
+ */
+export async function streamProvider(
+  params: ProxyParams,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  const up = buildUpstreamRequest(params, true);
+  const r = await fetch(up.endpoint, {
+    method: 'POST',
+    headers: up.headers,
+    body: JSON.stringify(up.body),
+    signal,
+  });
+  if (!r.ok) throw await upstreamError(r, up.label);
+  if (!r.body) throw new Error(`${up.label} 未返回数据流`);
+
+  let full = '';
+  // 工具调用按 index 分段到达，arguments 需要拼接
+  const toolCalls: any[] = [];
+  await readSSE(r.body, (data) => {
+    if (!data || data === '[DONE]') return;
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return; // 心跳等非 JSON 行
+    }
+    // DashScope 在流中以 code/message 报错
+    if (up.dashscope && event.code && !event.output) {
+      throw new Error(`DashScope API 错误: ${event.code} - ${event.message || ''}`);
+    }
+    const message = up.dashscope ? event.output?.choices?.[0]?.message : event.choices?.[0]?.delta;
+    const delta: string | undefined = message?.content ?? (up.dashscope ? event.output?.text : undefined);
+    if (delta) {
+      full += delta;
+      onDelta(delta);
+    }
+    for (const part of message?.tool_calls ?? []) {
+      const idx = part.index ?? toolCalls.length;
+      if (!toolCalls[idx]) toolCalls[idx] = { id: '', function: { name: '', arguments: '' } };
+      const acc = toolCalls[idx];
+      if (part.id) acc.id = part.id;
+      if (part.function?.name) acc.function.name += part.function.name;
+      if (part.function?.arguments) acc.function.arguments += part.function.arguments;
+    }
+  });
+  return { content: full, toolCalls: toProxyToolCalls(toolCalls.filter(Boolean)) };
+}
+
+/**
+ * 以 SSE 形式把流式回复写回浏览器：
+ * data: {"delta": "..."} 逐段输出，data: {"done": true, "toolCalls"?: [...]} 结束，data: {"error": "..."} 失败。
+ * 浏览器断开（取消）时中止上游请求。
+ */
+export async function streamToResponse(params: ProxyParams, res: any): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+  const send = (payload: Record<string, unknown>) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+
+  try {
+    const reply = await streamProvider(params, (delta) => send({ delta }), controller.signal);
+    send({ done: true, toolCalls: reply.toolCalls });
+  } catch (err: any) {
+    if (!controller.signal.aborted) send({ error: err?.message || '代理请求失败' });
+  }
+  res.end();
 }
 
 /**
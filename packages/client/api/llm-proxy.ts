@@ -1,14 +1,15 @@
 /**
  * Vercel Serverless Function：无状态 LLM 代理
  *
- * 浏览器 POST { provider, model, apiKey, messages, temperature?, maxTokens?, jsonMode? }
- * 成功 → 200 { content }
+ * 浏览器 POST { provider, model, apiKey, messages, temperature?, maxTokens?, jsonMode?, stream?, tools? }
+ * 成功 → 200 { content, toolCalls? }
  * 失败 → 4xx { error }
+ * stream 为 true 时 → 200 text/event-stream，事件格式见 streamToResponse
  *
  * 本地 dev 时由 vite.config.ts 的中间件复用同一份 callProvider 逻辑。
  */
 
-import { callProvider, readJsonBody } from './_provider';
+import { callProvider, readJsonBody, streamToResponse } from './_provider';
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
@@ -20,10 +21,14 @@ export default async function handler(req: any, res: any) {
 
   try {
     const body = await readJsonBody(req);
-    const content = await callProvider(body);
+    if (body.stream) {
+      await streamToResponse(body, res);
+      return;
+    }
+    const reply = await callProvider(body);
     res.statusCode = 200;
     res.setHeader('Content-Type', 'application/json');
-    res.end(JSON.stringify({ content }));
+    res.end(JSON.stringify(reply));
   } catch (err: any) {
     res.statusCode = 400;
     res.setHeader('Content-Type', 'application/json');
@@ -9,6 +9,7 @@ import Home from './pages/Home';
 import Editor from './pages/Editor';
 import ProjectList from './pages/ProjectList';
 import ProjectEditor from './pages/ProjectEditor';
+import StorageErrorBanner from './components/StorageErrorBanner';
 
 type View =
   | { type: 'home' }
@@ -43,7 +44,7 @@ export default function App() {
       case 'projects':
         return <ProjectList onSelectProject={handleSelectProject} />;
       case 'project-editor':
-        return <ProjectEditor projectId={view.projectId} onBack={handleBack} />;
+        return <ProjectEditor projectId={view.projectId} onBack={handleBack} onOpenProject={handleSelectProject} />;
       case 'home':
       default:
         return <Home onSelectGraph={handleSelectGraph} />;
@@ -53,6 +54,7 @@ export default function App() {
   return (
     <ThemeProvider>
       {renderContent()}
+      <StorageErrorBanner />
     </ThemeProvider>
   );
 }
@@ -12,14 +12,18 @@ import type {
   EdgeType,
   LLMStructuredResult
 } from '../types';
+import { loadSyncSettings } from '../services/sync/settings';
 
 const API_BASE = '/api';
 
 async function request<T>(url: string, options?: RequestInit): Promise<T> {
+  // 服务器 API 需要登录，沿用服务器同步中登录的账户
+  const { token } = loadSyncSettings();
   const response = await fetch(`${API_BASE}${url}`, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
       ...options?.headers,
     },
   });
@@ -118,11 +122,11 @@ export const nodeApi = {
     method: 'POST',
   }),
 
-  // 批量更新位置
-  updatePositions: (positions: Array<{ id: string; x: number; y: number }>) =>
+  // 批量更新决策图内节点的位置
+  updatePositions: (graphId: string, positions: Array<{ id: string; x: number; y: number }>) =>
     request<{ updated: number }>('/nodes/batch/positions', {
       method: 'PATCH',
-      body: JSON.stringify({ positions }),
+      body: JSON.stringify({ graphId, positions }),
     }),
 };
 
@@ -160,74 +164,6 @@ export const edgeApi = {
 
 // 分析 API
 export const analysisApi = {
-  // 获取下一步行动建议
-  getNextAction: (projectId: string) =>
-    request<{
-      rootGoals: GraphNode[];
-      blockingPoints: Array<{
-        node: GraphNode;
-        reason: string;
-        achievableActions: Array<{
-          action: GraphNode;
-          isExecutable: boolean;
-          blockedBy: GraphNode[];
-        }>;
-      }>;
-      suggestedAction: {
-        action: GraphNode;
-        priority: number;
-        unblocks: GraphNode[];
-        reason: string;
-      } | null;
-      followUpActions: Array<{
-        action: GraphNode;
-        priority: number;
-        unblocks: GraphNode[];
-        reason: string;
-      }>;
-      summary: string;
-    }>(`/projects/${projectId}/analyze/next-action`, {
-      method: 'POST',
-    }),
-
-  // 评估节点可行性
-  evaluateFeasibility: (projectId: string, nodeId: string) =>
-    request<{
-      targetNode: GraphNode;
-      feasibilityScore: number;
-      normalizedScore: number;
-      positiveEvidence: Array<{
-        node: GraphNode;
-        type: 'positive' | 'negative';
-        weight: number;
-        edgeType: string;
-        description?: string;
-      }>;
-      negativeEvidence: Array<{
-        node: GraphNode;
-        type: 'positive' | 'negative';
-        weight: number;
-        edgeType: string;
-        description?: string;
-      }>;
-      prerequisites: Array<{
-        node: GraphNode;
-        status: string;
-        achievableBy: GraphNode[];
-      }>;
-      risks: Array<{
-        type: string;
-        severity: 'low' | 'medium' | 'high';
-        node: GraphNode;
-        description: string;
-      }>;
-      verdict: 'highly_feasible' | 'feasible' | 'uncertain' | 'challenging' | 'infeasible';
-      summary: string;
-      suggestions: string[];
-    }>(`/projects/${projectId}/analyze/feasibility/${nodeId}`, {
-      method: 'POST',
-    }),
-
   // 获取权重配置
   getWeightConfig: (projectId: string) =>
     request<{
@@ -1,6 +1,9 @@
 /**
  * AI 智能分析面板 - 交互式版本
  * 支持结构化输出 + 可交互操作
+ * 对话按场景保存为线程（含结构化卡片和已处理的建议操作），可在历史对话中恢复继续
+ * 回复以流式输出，生成过程中可随时停止
+ * 开启「允许修改图」后，助手通过图编辑工具提出修改，以变更集形式审阅后再写入
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
@@ -16,6 +19,8 @@ import {
   MessageSquare,
   Trash2,
   Bot,
+  History,
+  MessageSquarePlus,
   MapPin,
   Plus,
   ArrowRight,
@@ -27,10 +32,14 @@ import {
   Wrench,
   Link2,
   Target,
+  HelpCircle,
+  Square,
 } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { analyzeScene, askSceneQuestion } from '../services/llm/client';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { analyzeScene, askSceneQuestion, askWithTools, isAbortError } from '../services/llm/client';
 import { getStatus } from '../services/llm/settings';
+import { useProjectStore } from '../store/projectStore';
+import ChangeSetCard from './ChangeSetCard';
 import type {
   LLMStructuredResult,
   RiskItem,
@@ -40,21 +49,14 @@ import type {
   SuggestedAction,
   SceneGraphNode,
   GraphEdge,
+  AIConversation,
+  AIConversationMessage,
+  AIActionOutcome,
 } from '../types';
 
 // 分析类型枚举
 type AnalysisType = 'risk' | 'next_step' | 'logic_check' | 'completion';
 
-// 对话记录（支持结构化数据）
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  type?: AnalysisType | 'free';
-  structuredData?: LLMStructuredResult; // 结构化数据
-}
-
 // 图操作回调
 interface GraphOperations {
   onLocateNode: (nodeId: string) => void;
@@ -66,12 +68,14 @@ interface GraphOperations {
 interface AIAssistantPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  sceneId?: string | null; // 当前场景 ID（null 为概览），对话按场景保存
   sceneName?: string;
   sceneDescription?: string;
   graphOperations?: GraphOperations;
   focusedNodeId?: string | null; // 当前聚焦的节点 ID
   nodes?: SceneGraphNode[]; // 当前场景的完整节点（用于发给 LLM + 查名称）
   edges?: GraphEdge[]; // 当前场景的完整关系（用于发给 LLM）
+  guidingQuestions?: string[]; // 项目来源模板的引导问题，点击填入输入框
 }
 
 // 分析按钮配置
@@ -217,10 +221,12 @@ function RiskCard({
   risk,
   onLocate,
   onAction,
+  isApplied,
 }: {
   risk: RiskItem;
   onLocate: (nodeId: string) => void;
-  onAction: (action: SuggestedAction, nodeId: string) => void;
+  onAction: (action: SuggestedAction, nodeId: string, actionIdx: number) => void;
+  isApplied: (actionIdx: number) => boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
 
@@ -299,23 +305,29 @@ function RiskCard({
           </button>
           {expanded && (
             <div className="mt-2 space-y-2">
-              {risk.suggestedActions.map((action, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => onAction(action, risk.nodeId)}
-                  className="w-full flex items-center gap-2 px-3 py-2 text-xs rounded transition-colors"
-                  style={{
-                    background: 'var(--color-surface)',
-                    border: '1px solid var(--color-border)',
-                    color: 'var(--color-text-secondary)',
-                  }}
-                >
-                  {action.type === 'changeStatus' && <Wrench size={14} />}
-                  {action.type === 'addNode' && <Plus size={14} />}
-                  {action.type === 'addRelation' && <Link2 size={14} />}
-                  <span>{action.label}</span>
-                </button>
-              ))}
+              {risk.suggestedActions.map((action, idx) => {
+                const applied = isApplied(idx);
+                return (
+                  <button
+                    key={idx}
+                    onClick={() => onAction(action, risk.nodeId, idx)}
+                    disabled={applied}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-xs rounded transition-colors disabled:cursor-default"
+                    style={{
+                      background: 'var(--color-surface)',
+                      border: '1px solid var(--color-border)',
+                      color: applied ? 'var(--color-success)' : 'var(--color-text-secondary)',
+                    }}
+                  >
+                    {applied && <Check size={14} />}
+                    {!applied && action.type === 'changeStatus' && <Wrench size={14} />}
+                    {!applied && action.type === 'addNode' && <Plus size={14} />}
+                    {!applied && action.type === 'addRelation' && <Link2 size={14} />}
+                    <span>{action.label}</span>
+                    {applied && <span className="ml-auto">已应用</span>}
+                  </button>
+                );
+              })}
             </div>
           )}
         </div>
@@ -329,10 +341,12 @@ function ActionQueueCard({
   action,
   onLocate,
   onStartAction,
+  applied,
 }: {
   action: ActionQueueItem;
   onLocate: (nodeId: string) => void;
   onStartAction: (nodeId: string, status: string) => void;
+  applied?: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
 
@@ -430,14 +444,15 @@ function ActionQueueCard({
             });
             onStartAction(action.nodeId, action.suggestedAction.newStatus || 'inProgress');
           }}
-          className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 text-xs rounded transition-colors"
+          disabled={applied}
+          className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 text-xs rounded transition-colors disabled:cursor-default"
           style={{
-            background: 'var(--color-primary)',
-            color: '#fff',
+            background: applied ? 'var(--color-success-bg)' : 'var(--color-primary)',
+            color: applied ? 'var(--color-success)' : '#fff',
           }}
         >
-          <ArrowRight size={14} />
-          <span>{action.suggestedAction.label}</span>
+          {applied ? <Check size={14} /> : <ArrowRight size={14} />}
+          <span>{applied ? `已应用：${action.suggestedAction.label}` : action.suggestedAction.label}</span>
         </button>
       )}
     </div>
@@ -449,10 +464,12 @@ function LogicIssueCard({
   issue,
   onLocate,
   onFix,
+  applied,
 }: {
   issue: LogicIssue;
   onLocate: (nodeId: string) => void;
   onFix: (issue: LogicIssue) => void;
+  applied?: boolean;
 }) {
   const getSeverityStyle = (severity: string) => {
     switch (severity) {
@@ -526,15 +543,16 @@ function LogicIssueCard({
       {issue.fix && (
         <button
           onClick={() => onFix(issue)}
-          className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 text-xs rounded transition-colors"
+          disabled={applied}
+          className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 text-xs rounded transition-colors disabled:cursor-default"
           style={{
             background: 'var(--color-surface)',
             border: '1px solid var(--color-border)',
-            color: 'var(--color-text-secondary)',
+            color: applied ? 'var(--color-success)' : 'var(--color-text-secondary)',
           }}
         >
-          <Wrench size={14} />
-          <span>{issue.fix.label}</span>
+          {applied ? <Check size={14} /> : <Wrench size={14} />}
+          <span>{applied ? `已应用：${issue.fix.label}` : issue.fix.label}</span>
         </button>
       )}
     </div>
@@ -544,15 +562,15 @@ function LogicIssueCard({
 /** 补全建议卡片 */
 function CompletionCard({
   suggestion,
+  outcome,
   onAccept,
   onReject,
 }: {
   suggestion: CompletionSuggestion;
+  outcome?: AIActionOutcome;
   onAccept: (suggestion: CompletionSuggestion) => Promise<void>;
   onReject: (suggestion: CompletionSuggestion) => void;
 }) {
-  const [rejected, setRejected] = useState(false);
-  const [accepted, setAccepted] = useState(false);
   const [accepting, setAccepting] = useState(false);
 
   const getImportanceStyle = (importance: string) => {
@@ -577,7 +595,7 @@ function CompletionCard({
     }
   };
 
-  if (accepted) {
+  if (outcome === 'applied') {
     return (
       <div
         className="border rounded-lg p-3"
@@ -594,7 +612,7 @@ function CompletionCard({
     );
   }
 
-  if (rejected) {
+  if (outcome === 'dismissed') {
     return (
       <div
         className="border rounded-lg p-3 opacity-50"
@@ -660,7 +678,6 @@ function CompletionCard({
             setAccepting(true);
             try {
               await onAccept(suggestion);
-              setAccepted(true);
             } catch (err) {
               console.error('接受建议失败:', err);
             } finally {
@@ -682,7 +699,7 @@ function CompletionCard({
           {accepting ? '添加中...' : '接受'}
         </button>
         <button
-          onClick={() => setRejected(true)}
+          onClick={() => onReject(suggestion)}
           disabled={accepting}
           className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs rounded transition-colors disabled:opacity-50"
           style={{
@@ -700,12 +717,20 @@ function CompletionCard({
 
 // ============ 结构化结果渲染 ============
 
+/**
+ * 渲染结构化结果卡片
+ * outcomes 记录卡片中已处理的操作（key 见 onOutcome 调用处），随对话一起保存，恢复后仍显示为已应用/已忽略
+ */
 function RenderStructuredResult({
   result,
   graphOps,
+  outcomes = {},
+  onOutcome,
 }: {
   result: LLMStructuredResult;
   graphOps?: GraphOperations;
+  outcomes?: Record<string, AIActionOutcome>;
+  onOutcome: (key: string, outcome: AIActionOutcome) => void;
 }) {
   const handleLocate = (nodeId: string) => {
     graphOps?.onLocateNode(nodeId);
@@ -766,7 +791,12 @@ function RenderStructuredResult({
                 key={idx}
                 risk={risk}
                 onLocate={handleLocate}
-                onAction={handleAction}
+                onAction={async (action, nodeId, actionIdx) => {
+                  if (!graphOps) return;
+                  await handleAction(action, nodeId);
+                  onOutcome(`risk:${idx}:${actionIdx}`, 'applied');
+                }}
+                isApplied={(actionIdx) => outcomes[`risk:${idx}:${actionIdx}`] === 'applied'}
               />
             ))
           )}
@@ -792,6 +822,7 @@ function RenderStructuredResult({
               <ActionQueueCard
                 key={idx}
                 action={action}
+                applied={outcomes[`action:${idx}`] === 'applied'}
                 onLocate={handleLocate}
                 onStartAction={(nodeId, status) => {
                   if (!graphOps) {
@@ -802,6 +833,7 @@ function RenderStructuredResult({
                   const normalizedStatus = normalizeStatus(status);
                   console.log('下一步操作 - 更新状态:', nodeId, status, '->', normalizedStatus);
                   graphOps.onUpdateNodeStatus(nodeId, normalizedStatus);
+                  onOutcome(`action:${idx}`, 'applied');
                 }}
               />
             ))
@@ -833,6 +865,7 @@ function RenderStructuredResult({
               <LogicIssueCard
                 key={idx}
                 issue={issue}
+                applied={outcomes[`issue:${idx}`] === 'applied'}
                 onLocate={handleLocate}
                 onFix={(iss) => {
                   if (!graphOps) return;
@@ -849,7 +882,10 @@ function RenderStructuredResult({
                       targetNodeId: iss.fix.data.targetNodeId,
                       type: normalizeEdgeType(iss.fix.data.relationType),
                     });
+                  } else {
+                    return;
                   }
+                  onOutcome(`issue:${idx}`, 'applied');
                 }}
               />
             ))
@@ -870,6 +906,7 @@ function RenderStructuredResult({
               <CompletionCard
                 key={suggestion.id}
                 suggestion={suggestion}
+                outcome={outcomes[`suggestion:${suggestion.id}`]}
                 onAccept={async (sug) => {
                   if (!graphOps) return;
                   // 转换可能的中文类型为英文
@@ -904,8 +941,9 @@ function RenderStructuredResult({
                       }
                     }
                   }
+                  onOutcome(`suggestion:${sug.id}`, 'applied');
                 }}
-                onReject={() => {}}
+                onReject={(sug) => onOutcome(`suggestion:${sug.id}`, 'dismissed')}
               />
             ))
           )}
@@ -917,30 +955,94 @@ function RenderStructuredResult({
   }
 }
 
+// 回复正文的 Markdown 样式（历史消息与流式输出共用）
+const MARKDOWN_COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-4 mb-2">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-4 mb-2">{children}</ol>,
+  li: ({ children }) => <li className="mb-1">{children}</li>,
+  h1: ({ children }) => <h3 className="font-bold text-base mb-2">{children}</h3>,
+  h2: ({ children }) => <h4 className="font-bold text-sm mb-2">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-semibold text-sm mb-1">{children}</h5>,
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  code: ({ children }) => (
+    <code className="px-1 rounded text-xs" style={{ background: 'var(--color-bg-secondary)' }}>{children}</code>
+  ),
+};
+
+// ============ 对话线程 ============
+
+// 发给模型的历史中，结构化结果只保留摘要；提出过的图修改附上处理情况
+function toHistoryContent(msg: AIConversationMessage): string {
+  if (msg.toolCalls && msg.toolCalls.length > 0) {
+    const appliedCount = msg.toolCalls.filter((c) => msg.actionOutcomes?.[`tool:${c.id}`] === 'applied').length;
+    return `${msg.content}\n（提出了 ${msg.toolCalls.length} 项图修改，用户已应用 ${appliedCount} 项）`;
+  }
+  if (!msg.structuredData) return msg.content;
+  const label = ANALYSIS_BUTTONS.find((b) => b.type === msg.structuredData!.type)?.label ?? '分析';
+  const appliedCount = Object.values(msg.actionOutcomes ?? {}).filter((o) => o === 'applied').length;
+  return `[${label}结果] ${msg.structuredData.data.summary}${appliedCount > 0 ? `（用户已应用其中 ${appliedCount} 项建议操作）` : ''}`;
+}
+
+function formatThreadTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false });
+}
+
+// 当前线程的元信息；第一条消息发出时才创建
+interface ThreadMeta {
+  id: string;
+  sceneId: string | null;
+  title: string;
+  createdAt: string;
+}
+
 // ============ 主组件 ============
 
 export default function AIAssistantPanel({
   isOpen,
   onClose,
+  sceneId = null,
   sceneName = '概览',
   sceneDescription,
   graphOperations,
   focusedNodeId,
   nodes = [],
   edges = [],
+  guidingQuestions = [],
 }: AIAssistantPanelProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<AIConversationMessage[]>([]);
   const [freeQuestion, setFreeQuestion] = useState('');
+  // 正在流式生成的回复（自由提问显示正文，分析只显示进度）
+  const [streaming, setStreaming] = useState<{ type: AnalysisType | 'free'; text: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [llmStatus, setLlmStatus] = useState<{
     configured: boolean;
     provider: string;
     model: string;
   } | null>(null);
+  const [showGuidingQuestions, setShowGuidingQuestions] = useState(true);
   // 跟踪是否曾经打开过，用于保持组件挂载状态
   const [hasEverOpened, setHasEverOpened] = useState(false);
 
+  // 对话线程
+  const projectId = useProjectStore((state) => state.currentProject?.id);
+  const fetchConversations = useProjectStore((state) => state.fetchConversations);
+  const saveConversation = useProjectStore((state) => state.saveConversation);
+  const deleteConversation = useProjectStore((state) => state.deleteConversation);
+  const scenes = useProjectStore((state) => state.scenes);
+  // 允许助手通过工具提出图修改
+  const [allowEdits, setAllowEdits] = useState(false);
+  const [threads, setThreads] = useState<AIConversation[]>([]);
+  const [showThreads, setShowThreads] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const threadRef = useRef<ThreadMeta | null>(null);
+  // 切换线程时递增，用于丢弃旧线程中尚未返回的请求结果
+  const threadTokenRef = useRef(0);
+  // 刚从存储载入的消息不需要回写
+  const skipSaveRef = useRef(false);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -958,7 +1060,82 @@ export default function AIAssistantPanel({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, scrollToBottom]);
+  }, [messages, streaming, scrollToBottom]);
+
+  // 打开一个线程（null 为新对话）
+  const openThread = useCallback((conversation: AIConversation | null) => {
+    threadTokenRef.current += 1;
+    abortRef.current?.abort();
+    setStreaming(null);
+    threadRef.current = conversation
+      ? {
+          id: conversation.id,
+          sceneId: conversation.sceneId,
+          title: conversation.title,
+          createdAt: conversation.createdAt,
+        }
+      : null;
+    skipSaveRef.current = true;
+    setActiveThreadId(conversation?.id ?? null);
+    setMessages(conversation?.messages ?? []);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  // 切换项目或场景时，恢复该场景最近的一次对话
+  useEffect(() => {
+    let cancelled = false;
+    setShowThreads(false);
+    fetchConversations(sceneId).then((list) => {
+      if (cancelled) return;
+      setThreads(list);
+      openThread(list[0] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, sceneId, fetchConversations, openThread]);
+
+  // 消息变化时保存当前线程
+  useEffect(() => {
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    const thread = threadRef.current;
+    if (!thread || messages.length === 0) return;
+    saveConversation({ ...thread, messages });
+  }, [messages, saveConversation]);
+
+  // 为当前线程追加消息；第一条消息时创建线程，标题取自该消息
+  const startMessage = useCallback((msg: AIConversationMessage) => {
+    if (!threadRef.current) {
+      const thread: ThreadMeta = {
+        id: crypto.randomUUID(),
+        sceneId,
+        title: msg.content.slice(0, 30),
+        createdAt: msg.createdAt,
+      };
+      threadRef.current = thread;
+      setActiveThreadId(thread.id);
+    }
+    setMessages(prev => [...prev, msg]);
+    return threadTokenRef.current;
+  }, [sceneId]);
+
+  // 请求返回后追加回复；期间已切换线程则丢弃
+  const appendReply = useCallback((token: number, msg: AIConversationMessage) => {
+    if (token !== threadTokenRef.current) return false;
+    setMessages(prev => [...prev, msg]);
+    return true;
+  }, []);
+
+  // 记录卡片操作的处理结果
+  const handleOutcome = useCallback((messageId: string, updates: Record<string, AIActionOutcome>) => {
+    setMessages(prev => prev.map(m =>
+      m.id === messageId ? { ...m, actionOutcomes: { ...m.actionOutcomes, ...updates } } : m
+    ));
+  }, []);
 
   // 检查 LLM 状态（读 localStorage，同步）
   useEffect(() => {
@@ -985,14 +1162,17 @@ export default function AIAssistantPanel({
     if (type === 'next_step' && focusedNodeId && focusedNodeName) {
       messageContent = `请针对「${focusedNodeName}」进行下一步分析`;
     }
-    const userMessage: ChatMessage = {
+    const userMessage: AIConversationMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
       content: messageContent,
-      timestamp: new Date(),
+      createdAt: new Date().toISOString(),
       type,
     };
-    setMessages(prev => [...prev, userMessage]);
+    const token = startMessage(userMessage);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming({ type, text: '' });
 
     try {
       // 只有下一步分析才传递聚焦节点
@@ -1007,35 +1187,40 @@ export default function AIAssistantPanel({
         nodes,
         edges,
         focusedNode,
+      }, {
+        signal: controller.signal,
+        onDelta: (_, text) => setStreaming({ type, text }),
       });
 
       // 添加 AI 回复（包含结构化数据）
-      const assistantMessage: ChatMessage = {
+      const assistantMessage: AIConversationMessage = {
         id: `assistant-${Date.now()}`,
         role: 'assistant',
         content: '', // 内容通过结构化数据渲染
-        timestamp: new Date(),
+        createdAt: new Date().toISOString(),
         type,
         structuredData: response,
       };
-      setMessages(prev => [...prev, assistantMessage]);
+      if (!appendReply(token, assistantMessage)) return;
     } catch (err) {
+      const aborted = isAbortError(err);
       const errorMessage = (err as Error).message || '分析失败，请稍后重试';
-      setError(errorMessage);
 
       // 添加错误消息
-      const errorAssistantMessage: ChatMessage = {
+      const errorAssistantMessage: AIConversationMessage = {
         id: `assistant-${Date.now()}`,
         role: 'assistant',
-        content: `抱歉，分析失败：${errorMessage}`,
-        timestamp: new Date(),
+        content: aborted ? '已停止分析' : `抱歉，分析失败：${errorMessage}`,
+        createdAt: new Date().toISOString(),
         type,
       };
-      setMessages(prev => [...prev, errorAssistantMessage]);
-    } finally {
-      setIsLoading(false);
+      if (!appendReply(token, errorAssistantMessage)) return;
+      if (!aborted) setError(errorMessage);
     }
-  }, [isLoading, sceneName, sceneDescription, nodes, edges, focusedNodeId, focusedNodeName]);
+    abortRef.current = null;
+    setStreaming(null);
+    setIsLoading(false);
+  }, [isLoading, sceneName, sceneDescription, nodes, edges, focusedNodeId, focusedNodeName, startMessage, appendReply]);
 
   // 发送自由提问
   const handleFreeQuestion = useCallback(async () => {
@@ -1047,65 +1232,103 @@ export default function AIAssistantPanel({
     setError(null);
 
     // 添加用户消息
-    const userMessage: ChatMessage = {
+    const userMessage: AIConversationMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
       content: question,
-      timestamp: new Date(),
+      createdAt: new Date().toISOString(),
       type: 'free',
     };
-    setMessages(prev => [...prev, userMessage]);
+    const token = startMessage(userMessage);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming({ type: 'free', text: '' });
+    let partial = '';
 
     try {
-      // 构建历史消息（最近 10 条对话）
+      // 构建历史消息（最近 10 条对话，结构化结果以摘要形式带上）
       const history = messages
-        .filter(m => m.type === 'free' || !m.structuredData) // 只包含纯文本对话
         .slice(-10)
-        .map(m => ({ role: m.role, content: m.content }));
-
-      const reply = await askSceneQuestion({
-        sceneName,
-        sceneDescription,
-        nodes,
-        edges,
-        question,
-        history,
-      });
+        .map(m => ({ role: m.role, content: toHistoryContent(m) }));
+
+      const params = { sceneName, sceneDescription, nodes, edges, question, history };
+      const stream = {
+        signal: controller.signal,
+        onDelta: (_: string, text: string) => {
+          partial = text;
+          setStreaming({ type: 'free', text });
+        },
+      };
+      const { reply, toolCalls } = allowEdits
+        ? await askWithTools({ ...params, scenes }, stream)
+        : { reply: await askSceneQuestion(params, stream), toolCalls: [] };
 
-      // 添加 AI 回复
-      const assistantMessage: ChatMessage = {
+      // 添加 AI 回复（提出的图修改作为变更集附在回复中）
+      const assistantMessage: AIConversationMessage = {
         id: `assistant-${Date.now()}`,
         role: 'assistant',
         content: reply,
-        timestamp: new Date(),
+        createdAt: new Date().toISOString(),
         type: 'free',
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
       };
-      setMessages(prev => [...prev, assistantMessage]);
+      if (!appendReply(token, assistantMessage)) return;
     } catch (err) {
+      const aborted = isAbortError(err);
       const errorMessage = (err as Error).message || '对话失败，请稍后重试';
-      setError(errorMessage);
 
-      // 添加错误消息
-      const errorAssistantMessage: ChatMessage = {
+      // 添加错误消息；停止生成时保留已输出的部分
+      const errorAssistantMessage: AIConversationMessage = {
         id: `assistant-${Date.now()}`,
         role: 'assistant',
-        content: `抱歉，对话失败：${errorMessage}`,
-        timestamp: new Date(),
+        content: aborted
+          ? (partial ? `${partial}\n\n*（已停止生成）*` : '已停止生成')
+          : `抱歉，对话失败：${errorMessage}`,
+        createdAt: new Date().toISOString(),
         type: 'free',
       };
-      setMessages(prev => [...prev, errorAssistantMessage]);
-    } finally {
-      setIsLoading(false);
-      inputRef.current?.focus();
+      if (!appendReply(token, errorAssistantMessage)) return;
+      if (!aborted) setError(errorMessage);
     }
-  }, [isLoading, freeQuestion, sceneName, sceneDescription, nodes, edges, messages]);
-
-  // 清空对话
-  const handleClearMessages = useCallback(() => {
-    setMessages([]);
-    setError(null);
+    abortRef.current = null;
+    setStreaming(null);
+    setIsLoading(false);
+    inputRef.current?.focus();
+  }, [isLoading, freeQuestion, sceneName, sceneDescription, nodes, edges, messages, startMessage, appendReply, allowEdits, scenes]);
+
+  // 停止生成：中止浏览器请求，代理随之中止上游请求
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
+  // 开始新对话（当前对话已自动保存）
+  const handleNewThread = useCallback(() => {
+    openThread(null);
+    setShowThreads(false);
+  }, [openThread]);
+
+  // 打开/关闭历史对话列表
+  const handleToggleThreads = useCallback(async () => {
+    if (showThreads) {
+      setShowThreads(false);
+      return;
+    }
+    setThreads(await fetchConversations(sceneId));
+    setShowThreads(true);
+  }, [showThreads, fetchConversations, sceneId]);
+
+  const handleResumeThread = useCallback((conversation: AIConversation) => {
+    openThread(conversation);
+    setShowThreads(false);
+  }, [openThread]);
+
+  const handleDeleteThread = useCallback(async (conversation: AIConversation) => {
+    if (!confirm(`确定要删除对话「${conversation.title}」吗？`)) return;
+    await deleteConversation(conversation.id);
+    if (conversation.id === threadRef.current?.id) openThread(null);
+    setThreads(await fetchConversations(sceneId));
+  }, [deleteConversation, fetchConversations, openThread, sceneId]);
+
   // 键盘事件处理
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -1150,14 +1373,22 @@ export default function AIAssistantPanel({
           </span>
         </div>
         <div className="flex items-center gap-1">
+          <button
+            onClick={handleToggleThreads}
+            className="p-1.5 rounded transition-colors"
+            style={{ color: showThreads ? 'var(--color-primary)' : 'var(--color-text-muted)' }}
+            title="历史对话"
+          >
+            <History size={16} />
+          </button>
           {messages.length > 0 && (
             <button
-              onClick={handleClearMessages}
+              onClick={handleNewThread}
               className="p-1.5 rounded transition-colors"
               style={{ color: 'var(--color-text-muted)' }}
-              title="清空对话"
+              title="新对话（当前对话已保存）"
             >
-              <Trash2 size={16} />
+              <MessageSquarePlus size={16} />
             </button>
           )}
           <button
@@ -1211,9 +1442,85 @@ export default function AIAssistantPanel({
         </div>
       </div>
 
+      {/* 模板引导问题 */}
+      {guidingQuestions.length > 0 && (
+        <div className="px-4 py-2" style={{ borderBottom: '1px solid var(--color-border-light)' }}>
+          <button
+            onClick={() => setShowGuidingQuestions(!showGuidingQuestions)}
+            className="w-full flex items-center justify-between text-xs font-medium"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            <span className="flex items-center gap-1">
+              <HelpCircle size={14} style={{ color: 'var(--color-primary)' }} />
+              模板引导问题 ({guidingQuestions.length})
+            </span>
+            {showGuidingQuestions ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+          {showGuidingQuestions && (
+            <div className="mt-2 space-y-1">
+              {guidingQuestions.map((question, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => {
+                    setFreeQuestion(question);
+                    inputRef.current?.focus();
+                  }}
+                  className="w-full text-left px-2 py-1.5 text-xs rounded transition-colors"
+                  style={{ background: 'var(--color-bg)', color: 'var(--color-text-secondary)' }}
+                  title="填入输入框，补充你的情况后发送"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 对话区域 */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4" style={{ background: 'var(--color-bg)' }}>
-        {messages.length === 0 ? (
+        {showThreads ? (
+          threads.length === 0 ? (
+            <div className="text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+              当前场景暂无历史对话
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {threads.map((thread) => (
+                <div
+                  key={thread.id}
+                  onClick={() => handleResumeThread(thread)}
+                  className="flex items-start gap-2 p-3 rounded-lg cursor-pointer transition-colors"
+                  style={{
+                    background: 'var(--color-bg-tertiary)',
+                    border: `1px solid ${thread.id === activeThreadId ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                  }}
+                  title="继续这段对话"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate" style={{ color: 'var(--color-text)' }}>
+                      {thread.title}
+                    </div>
+                    <div className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {formatThreadTime(thread.updatedAt)} · {thread.messages.length} 条消息
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteThread(thread);
+                    }}
+                    className="p-1 rounded"
+                    style={{ color: 'var(--color-error)' }}
+                    title="删除对话"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )
+        ) : messages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full" style={{ color: 'var(--color-text-muted)' }}>
             <MessageSquare size={48} className="mb-2 opacity-30" />
             <p className="text-sm">选择上方功能或输入问题开始对话</p>
@@ -1236,27 +1543,26 @@ export default function AIAssistantPanel({
                     <RenderStructuredResult
                       result={msg.structuredData}
                       graphOps={graphOperations}
+                      outcomes={msg.actionOutcomes}
+                      onOutcome={(key, outcome) => handleOutcome(msg.id, { [key]: outcome })}
                     />
                   ) : (
-                    <div className="prose prose-sm max-w-none" style={{ color: 'inherit' }}>
-                      <ReactMarkdown
-                        components={{
-                          p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                          ul: ({ children }) => <ul className="list-disc pl-4 mb-2">{children}</ul>,
-                          ol: ({ children }) => <ol className="list-decimal pl-4 mb-2">{children}</ol>,
-                          li: ({ children }) => <li className="mb-1">{children}</li>,
-                          h1: ({ children }) => <h3 className="font-bold text-base mb-2">{children}</h3>,
-                          h2: ({ children }) => <h4 className="font-bold text-sm mb-2">{children}</h4>,
-                          h3: ({ children }) => <h5 className="font-semibold text-sm mb-1">{children}</h5>,
-                          strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                          code: ({ children }) => (
-                            <code className="px-1 rounded text-xs" style={{ background: 'var(--color-bg-secondary)' }}>{children}</code>
-                          ),
-                        }}
-                      >
-                        {msg.content}
-                      </ReactMarkdown>
-                    </div>
+                    <>
+                      {msg.content && (
+                        <div className="prose prose-sm max-w-none" style={{ color: 'inherit' }}>
+                          <ReactMarkdown components={MARKDOWN_COMPONENTS}>
+                            {msg.content}
+                          </ReactMarkdown>
+                        </div>
+                      )}
+                      {msg.toolCalls && msg.toolCalls.length > 0 && (
+                        <ChangeSetCard
+                          calls={msg.toolCalls}
+                          outcomes={msg.actionOutcomes}
+                          onOutcomes={(updates) => handleOutcome(msg.id, updates)}
+                        />
+                      )}
+                    </>
                   )
                 ) : (
                   <p className="text-sm">{msg.content}</p>
@@ -1267,16 +1573,31 @@ export default function AIAssistantPanel({
         )}
 
         {/* 加载指示器 */}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div
-              className="rounded-lg px-3 py-2 flex items-center gap-2"
-              style={{ background: 'var(--color-bg-tertiary)' }}
-            >
-              <Loader2 size={16} className="animate-spin" style={{ color: 'var(--color-primary)' }} />
-              <span className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>AI 正在分析...</span>
+        {isLoading && !showThreads && (
+          streaming?.type === 'free' && streaming.text ? (
+            <div className="flex justify-start">
+              <div
+                className="max-w-[90%] rounded-lg px-3 py-2"
+                style={{ background: 'var(--color-bg-tertiary)', color: 'var(--color-text)' }}
+              >
+                <div className="prose prose-sm max-w-none" style={{ color: 'inherit' }}>
+                  <ReactMarkdown components={MARKDOWN_COMPONENTS}>{streaming.text}</ReactMarkdown>
+                </div>
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="flex justify-start">
+              <div
+                className="rounded-lg px-3 py-2 flex items-center gap-2"
+                style={{ background: 'var(--color-bg-tertiary)' }}
+              >
+                <Loader2 size={16} className="animate-spin" style={{ color: 'var(--color-primary)' }} />
+                <span className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                  AI 正在分析...{streaming?.text ? `（已生成 ${streaming.text.length} 字）` : ''}
+                </span>
+              </div>
+            </div>
+          )
         )}
 
         <div ref={messagesEndRef} />
@@ -1302,6 +1623,19 @@ export default function AIAssistantPanel({
             {error}
           </div>
         )}
+        <label
+          className="mb-2 flex items-center gap-1 text-xs cursor-pointer select-none"
+          style={{ color: allowEdits ? 'var(--color-primary)' : 'var(--color-text-muted)' }}
+          title="助手会以变更集的形式提出修改，确认后才会写入"
+        >
+          <input
+            type="checkbox"
+            checked={allowEdits}
+            onChange={(e) => setAllowEdits(e.target.checked)}
+          />
+          <Wrench size={12} />
+          允许 AI 修改图
+        </label>
         <div className="flex items-center gap-2">
           <input
             ref={inputRef}
@@ -1309,7 +1643,7 @@ export default function AIAssistantPanel({
             value={freeQuestion}
             onChange={(e) => setFreeQuestion(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="输入问题，按 Enter 发送..."
+                        placeholder={allowEdits ? '描述你想怎样修改图，按 Enter 发送...' : '输入问题，按 Enter 发送...'}
             disabled={isLoading || !!(llmStatus && !llmStatus.configured)}
             className="flex-1 px-3 py-2 rounded-lg text-sm focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
             style={{
@@ -1318,21 +1652,31 @@ export default function AIAssistantPanel({
               color: 'var(--color-text)',
             }}
           />
-          <button
-            onClick={handleFreeQuestion}
-            disabled={isLoading || !freeQuestion.trim() || !!(llmStatus && !llmStatus.configured)}
-            className="p-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            style={{
-              background: 'var(--color-primary)',
-              color: '#fff',
-            }}
-          >
-            {isLoading ? (
-              <Loader2 size={18} className="animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              className="p-2 rounded-lg transition-colors"
+              style={{
+                background: 'var(--color-error)',
+                color: '#fff',
+              }}
+              title="停止生成"
+            >
+              <Square size={18} />
+            </button>
+          ) : (
+            <button
+              onClick={handleFreeQuestion}
+              disabled={!freeQuestion.trim() || !!(llmStatus && !llmStatus.configured)}
+              className="p-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              style={{
+                background: 'var(--color-primary)',
+                color: '#fff',
+              }}
+            >
               <Send size={18} />
-            )}
-          </button>
+            </button>
+          )}
         </div>
         <p className="mt-2 text-xs text-center" style={{ color: 'var(--color-text-muted)' }}>
           AI 分析基于当前场景数据，点击卡片中的操作可直接修改图
@@ -1,9 +1,13 @@
 /**
  * 分析结果面板
  *
- * 显示两个分析模块的结果：
- * - 模块一：下一步行动建议
- * - 模块二：可行性评估
+ * 显示三个分析模块的结果：
+ * - 模块一：下一步行动建议（附带「先核实」：按核实价值排序的未确定事实/假设）
+ * - 模块二：可行性评估（目标/行动可进一步做敏感性分析，找出影响最大的输入）
+ * - 概率模拟：按置信度抽样未确定的事实/假设，统计目标可达成、行动可执行的概率
+ *
+ * 分析在浏览器内直接运行共享的 AnalysisEngine，数据取自 projectStore，
+ * 因此离线与只读示例项目下同样可用。
  */
 
 import { useState, useCallback } from 'react';
@@ -19,12 +23,31 @@ import {
   Lightbulb,
   RefreshCw,
   Loader2,
+  Dices,
+  BarChart3,
+  SearchCheck,
 } from 'lucide-react';
-import { analysisApi } from '../api';
-import type { GraphNode } from '../types';
+import {
+  analyzeNextAction,
+  analyzeFeasibility,
+  simulateOutcomes,
+  analyzeSensitivity,
+  rankVerifications,
+  NodeType,
+  SatisfactionStatus,
+} from '@solvechain/shared';
+import type {
+  NextActionResult,
+  FeasibilityResult,
+  MonteCarloResult,
+  OutcomeProbability,
+  SensitivityResult,
+  VerificationResult,
+} from '@solvechain/shared';
+import { useProjectStore } from '../store/projectStore';
+import type { GraphNode, GraphEdge, SceneGraphNode, EvidenceItem } from '../types';
 
 interface AnalysisPanelProps {
-  projectId: string;
   selectedNodeId: string | null;
   onNodeClick?: (nodeId: string) => void;
 }
@@ -45,26 +68,39 @@ const SEVERITY_CONFIG = {
   low: { label: '低', bgVar: '--color-warning-bg', colorVar: '--color-warning' },
 };
 
-type NextActionResult = Awaited<ReturnType<typeof analysisApi.getNextAction>>;
-type FeasibilityResult = Awaited<ReturnType<typeof analysisApi.evaluateFeasibility>>;
+// 概率模拟的抽样次数选项
+const SAMPLE_OPTIONS = [500, 1000, 5000];
+
+const formatPercent = (p: number) => `${Math.round(p * 100)}%`;
 
 export default function AnalysisPanel({
-  projectId,
   selectedNodeId,
   onNodeClick,
 }: AnalysisPanelProps) {
-  const [activeTab, setActiveTab] = useState<'next-action' | 'feasibility'>('next-action');
+  // 分析范围为整个项目（与场景无关），与原服务端接口一致
+  const nodes = useProjectStore((state) => state.nodes);
+  const edges = useProjectStore((state) => state.edges);
+
+  const [activeTab, setActiveTab] = useState<'next-action' | 'feasibility' | 'simulation'>('next-action');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // 模块一结果
-  const [nextActionResult, setNextActionResult] = useState<NextActionResult | null>(null);
+  const [nextActionResult, setNextActionResult] = useState<NextActionResult<SceneGraphNode> | null>(null);
+  const [verificationResult, setVerificationResult] = useState<VerificationResult<SceneGraphNode> | null>(null);
 
   // 模块二结果
-  const [feasibilityResult, setFeasibilityResult] = useState<FeasibilityResult | null>(null);
+  const [feasibilityResult, setFeasibilityResult] = useState<FeasibilityResult<SceneGraphNode> | null>(null);
+
+  // 敏感性分析结果（挂在可行性评估下）
+  const [sensitivityResult, setSensitivityResult] = useState<SensitivityResult<SceneGraphNode, GraphEdge> | null>(null);
+
+  // 概率模拟结果
+  const [simulationResult, setSimulationResult] = useState<MonteCarloResult<SceneGraphNode> | null>(null);
+  const [samples, setSamples] = useState(1000);
 
   // 展开/折叠状态
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['summary', 'blocking', 'risks']));
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['summary', 'blocking', 'risks', 'verify', 'sensitivity', 'mc-goals', 'mc-actions']));
 
   const toggleSection = (section: string) => {
     setExpandedSections(prev => {
@@ -79,32 +115,62 @@ export default function AnalysisPanel({
   };
 
   // 获取下一步行动建议
-  const fetchNextAction = useCallback(async () => {
+  const runNextAction = useCallback(() => {
     setLoading(true);
     setError(null);
     try {
-      const result = await analysisApi.getNextAction(projectId);
-      setNextActionResult(result);
+      setNextActionResult(analyzeNextAction(nodes, edges));
+      setVerificationResult(rankVerifications(nodes, edges));
     } catch (err) {
       setError((err as Error).message);
     } finally {
       setLoading(false);
     }
-  }, [projectId]);
+  }, [nodes, edges]);
 
   // 评估可行性
-  const fetchFeasibility = useCallback(async (nodeId: string) => {
+  const runFeasibility = useCallback((nodeId: string) => {
     setLoading(true);
     setError(null);
     try {
-      const result = await analysisApi.evaluateFeasibility(projectId, nodeId);
-      setFeasibilityResult(result);
+      setFeasibilityResult(analyzeFeasibility(nodes, edges, nodeId));
+      setSensitivityResult(null);  // 重新评估后旧的敏感性结果可能已过时
     } catch (err) {
       setError((err as Error).message);
     } finally {
       setLoading(false);
     }
-  }, [projectId]);
+  }, [nodes, edges]);
+
+  // 敏感性分析：每个上游输入要重新传播两次，同样先让加载状态渲染出来
+  const runSensitivity = useCallback((nodeId: string) => {
+    setLoading(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        setSensitivityResult(analyzeSensitivity(nodes, edges, nodeId));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    }, 0);
+  }, [nodes, edges]);
+
+  // 运行概率模拟（抽样较多时耗时明显，先让加载状态渲染出来）
+  const runSimulation = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        setSimulationResult(simulateOutcomes(nodes, edges, { samples }));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    }, 0);
+  }, [nodes, edges, samples]);
 
   // 渲染节点标签
   const renderNodeTag = (node: GraphNode) => (
@@ -120,6 +186,17 @@ export default function AnalysisPanel({
     </button>
   );
 
+  // 节点自身的证据条目（来源文字）
+  const renderEvidenceItem = (item: EvidenceItem) => (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded text-xs truncate max-w-[12rem]"
+      style={{ border: '1px dashed var(--color-border)', color: 'var(--color-text-secondary)' }}
+      title={item.date ? `${item.source}（${item.date}）` : item.source}
+    >
+      证据：{item.source}
+    </span>
+  );
+
   // 渲染模块一：下一步行动
   const renderNextAction = () => {
     if (!nextActionResult) {
@@ -127,7 +204,7 @@ export default function AnalysisPanel({
         <div className="p-4 text-center">
           <p className="mb-4" style={{ color: 'var(--color-text-muted)' }}>点击下方按钮分析当前项目</p>
           <button
-            onClick={fetchNextAction}
+            onClick={runNextAction}
             disabled={loading}
             className="inline-flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50"
             style={{
@@ -168,6 +245,39 @@ export default function AnalysisPanel({
           </div>
         )}
 
+        {/* 先核实：值得在行动前核实的事实/假设 */}
+        {verificationResult && verificationResult.items.length > 0 && (
+          <div style={{ borderBottom: '1px solid var(--color-border-light)' }}>
+            <button
+              onClick={() => toggleSection('verify')}
+              className="w-full px-4 py-2 flex items-center justify-between transition-colors"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <SearchCheck size={16} style={{ color: 'var(--color-info)' }} />
+                先核实 ({verificationResult.items.filter(i => i.value > 0).length})
+              </span>
+              {expandedSections.has('verify') ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            </button>
+            {expandedSections.has('verify') && (
+              <div className="px-4 pb-3 space-y-2">
+                <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>{verificationResult.summary}</p>
+                {verificationResult.items.filter(i => i.value > 0).slice(0, 5).map(item => (
+                  <div key={item.node.id} className="p-2 rounded text-sm" style={{ background: 'var(--color-info-bg)' }}>
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      {renderNodeTag(item.node)}
+                      <span className="text-xs flex-shrink-0" style={{ color: 'var(--color-text-muted)' }}>
+                        置信度 {item.confidence}% · 价值 {item.value.toFixed(2)}
+                      </span>
+                    </div>
+                    <p className="text-xs" style={{ color: 'var(--color-info)' }}>{item.reason}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* 根目标 */}
         <div style={{ borderBottom: '1px solid var(--color-border-light)' }}>
           <button
@@ -256,7 +366,7 @@ export default function AnalysisPanel({
         {/* 刷新按钮 */}
         <div className="p-3">
           <button
-            onClick={fetchNextAction}
+            onClick={runNextAction}
             disabled={loading}
             className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded transition-colors"
             style={{ color: 'var(--color-text-secondary)' }}
@@ -284,7 +394,7 @@ export default function AnalysisPanel({
         <div className="p-4 text-center">
           <p className="mb-4" style={{ color: 'var(--color-text-muted)' }}>评估选中节点的可行性</p>
           <button
-            onClick={() => fetchFeasibility(selectedNodeId)}
+            onClick={() => runFeasibility(selectedNodeId)}
             disabled={loading}
             className="inline-flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50"
             style={{
@@ -364,14 +474,14 @@ export default function AnalysisPanel({
                     <span
                       className="text-xs px-1.5 py-0.5 rounded"
                       style={{
-                        background: prereq.status === 'satisfied' ? 'var(--color-success-bg)' :
-                          prereq.status === 'pending' ? 'var(--color-warning-bg)' : 'var(--color-error-bg)',
-                        color: prereq.status === 'satisfied' ? 'var(--color-success)' :
-                          prereq.status === 'pending' ? 'var(--color-warning)' : 'var(--color-error)',
+                        background: prereq.status === SatisfactionStatus.SATISFIED ? 'var(--color-success-bg)' :
+                          prereq.status === SatisfactionStatus.PENDING ? 'var(--color-warning-bg)' : 'var(--color-error-bg)',
+                        color: prereq.status === SatisfactionStatus.SATISFIED ? 'var(--color-success)' :
+                          prereq.status === SatisfactionStatus.PENDING ? 'var(--color-warning)' : 'var(--color-error)',
                       }}
                     >
-                      {prereq.status === 'satisfied' ? '已满足' :
-                       prereq.status === 'pending' ? '待验证' : '未满足'}
+                      {prereq.status === SatisfactionStatus.SATISFIED ? '已满足' :
+                       prereq.status === SatisfactionStatus.PENDING ? '待验证' : '未满足'}
                     </span>
                   </div>
                 ))}
@@ -397,7 +507,7 @@ export default function AnalysisPanel({
               <div className="px-4 pb-3 space-y-1">
                 {feasibilityResult.positiveEvidence.map((ev, index) => (
                   <div key={index} className="flex items-center gap-2 text-sm">
-                    {renderNodeTag(ev.node)}
+                    {ev.item ? renderEvidenceItem(ev.item) : renderNodeTag(ev.node)}
                     <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>+{ev.weight.toFixed(2)}</span>
                   </div>
                 ))}
@@ -423,7 +533,7 @@ export default function AnalysisPanel({
               <div className="px-4 pb-3 space-y-1">
                 {feasibilityResult.negativeEvidence.map((ev, index) => (
                   <div key={index} className="flex items-center gap-2 text-sm">
-                    {renderNodeTag(ev.node)}
+                    {ev.item ? renderEvidenceItem(ev.item) : renderNodeTag(ev.node)}
                     <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>-{ev.weight.toFixed(2)}</span>
                   </div>
                 ))}
@@ -497,10 +607,14 @@ export default function AnalysisPanel({
           </div>
         )}
 
+        {/* 敏感性分析（仅目标/行动） */}
+        {(feasibilityResult.targetNode.type === NodeType.GOAL || feasibilityResult.targetNode.type === NodeType.ACTION) &&
+          renderSensitivity(selectedNodeId)}
+
         {/* 刷新按钮 */}
         <div className="p-3">
           <button
-            onClick={() => fetchFeasibility(selectedNodeId)}
+            onClick={() => runFeasibility(selectedNodeId)}
             disabled={loading}
             className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded transition-colors"
             style={{ color: 'var(--color-text-secondary)' }}
@@ -513,6 +627,245 @@ export default function AnalysisPanel({
     );
   };
 
+  // 龙卷风图的一行：在 0-100 的评分轴上画出两端之间的区间，竖线为当前评分
+  const renderSensitivityRow = (item: SensitivityResult<SceneGraphNode, GraphEdge>['items'][number], baseline: number) => {
+    const left = Math.min(item.low.score, item.high.score);
+    const right = Math.max(item.low.score, item.high.score);
+    const prefix = item.kind === 'edge' ? '关系 ' : item.kind === 'confidence' ? '置信度 ' : '';
+    return (
+      <div key={`${item.kind}-${item.edge?.id ?? item.node?.id}`} className="space-y-1">
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <button
+            onClick={() => onNodeClick?.(item.focusNodeId)}
+            className="truncate text-left"
+            style={{ color: 'var(--color-text-secondary)' }}
+            title={`${prefix}${item.label}`}
+          >
+            {prefix}{item.label}
+          </button>
+          {item.flipsOutcome && (
+            <span
+              className="px-1.5 py-0.5 rounded flex-shrink-0"
+              style={{ background: 'var(--color-error-bg)', color: 'var(--color-error)' }}
+            >
+              决定成败
+            </span>
+          )}
+        </div>
+        <div className="relative h-3 rounded" style={{ background: 'var(--color-bg-tertiary)' }}>
+          <div
+            className="absolute h-full rounded"
+            style={{
+              left: `${left}%`,
+              width: `${Math.max(1, right - left)}%`,
+              background: item.flipsOutcome ? 'var(--color-error)' : 'var(--color-primary)',
+              opacity: 0.6,
+            }}
+          />
+          <div className="absolute h-full w-px" style={{ left: `${baseline}%`, background: 'var(--color-text)' }} />
+        </div>
+        <div className="flex justify-between text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          <span>{item.low.label} {item.low.score}</span>
+          <span>{item.high.label} {item.high.score}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSensitivity = (nodeId: string) => {
+    const result = sensitivityResult?.targetNode.id === nodeId ? sensitivityResult : null;
+    return (
+      <div style={{ borderBottom: '1px solid var(--color-border-light)' }}>
+        <button
+          onClick={() => toggleSection('sensitivity')}
+          className="w-full px-4 py-2 flex items-center justify-between transition-colors"
+        >
+          <span className="flex items-center gap-2 text-sm font-medium" style={{ color: 'var(--color-primary)' }}>
+            <BarChart3 size={16} />
+            敏感性{result ? ` (${result.items.length})` : ''}
+          </span>
+          {expandedSections.has('sensitivity') ? <ChevronUp size={16} style={{ color: 'var(--color-text-muted)' }} /> : <ChevronDown size={16} style={{ color: 'var(--color-text-muted)' }} />}
+        </button>
+        {expandedSections.has('sensitivity') && (
+          <div className="px-4 pb-3 space-y-3">
+            {result ? (
+              <>
+                <p className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>{result.summary}</p>
+                {result.items.map(item => renderSensitivityRow(item, result.baseline.score))}
+              </>
+            ) : (
+              <button
+                onClick={() => runSensitivity(nodeId)}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded disabled:opacity-50"
+                style={{ background: 'var(--color-primary-light)', color: 'var(--color-primary)' }}
+              >
+                {loading ? <Loader2 className="animate-spin" size={14} /> : <BarChart3 size={14} />}
+                分析哪些输入影响最大
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // 单个目标/行动的概率条（浅色带为 95% 区间），点击展开可行性得分分布
+  const renderOutcome = (outcome: OutcomeProbability<SceneGraphNode>) => {
+    const key = `mc:${outcome.node.id}`;
+    const expanded = expandedSections.has(key);
+    const maxCount = Math.max(1, ...outcome.histogram.map(b => b.count));
+    const color = outcome.probability >= 0.6 ? 'var(--color-success)' :
+      outcome.probability >= 0.4 ? 'var(--color-warning)' : 'var(--color-error)';
+    return (
+      <div key={outcome.node.id} className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          {renderNodeTag(outcome.node)}
+          <button
+            onClick={() => toggleSection(key)}
+            className="flex items-center gap-1 text-xs flex-shrink-0"
+            style={{ color: 'var(--color-text-secondary)' }}
+            title="查看可行性得分分布"
+          >
+            {formatPercent(outcome.probability)}
+            {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+        </div>
+        <div className="relative h-2 rounded-full overflow-hidden" style={{ background: 'var(--color-bg-tertiary)' }}>
+          <div
+            className="absolute h-full opacity-30"
+            style={{
+              left: `${outcome.interval[0] * 100}%`,
+              width: `${(outcome.interval[1] - outcome.interval[0]) * 100}%`,
+              background: color,
+            }}
+          />
+          <div className="absolute h-full" style={{ width: `${outcome.probability * 100}%`, background: color }} />
+        </div>
+        <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          95% 区间 {formatPercent(outcome.interval[0])}–{formatPercent(outcome.interval[1])}
+          ，平均得分 {outcome.meanScore.toFixed(2)}
+        </div>
+        {expanded && outcome.histogram.length > 0 && (
+          <div className="pt-1">
+            <div className="flex items-end gap-px h-12">
+              {outcome.histogram.map((bin, index) => (
+                <div
+                  key={index}
+                  className="flex-1 rounded-t"
+                  style={{ height: `${(bin.count / maxCount) * 100}%`, background: 'var(--color-primary)', opacity: 0.7 }}
+                  title={`${bin.from.toFixed(2)} ~ ${bin.to.toFixed(2)}：${bin.count} 次`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
+              <span>{outcome.histogram[0].from.toFixed(2)}</span>
+              <span>可行性得分</span>
+              <span>{outcome.histogram[outcome.histogram.length - 1].to.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // 渲染概率模拟
+  const renderSimulation = () => {
+    const sampleSelect = (
+      <select
+        value={samples}
+        onChange={(e) => setSamples(Number(e.target.value))}
+        className="px-2 py-1 text-xs rounded outline-none"
+        style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+      >
+        {SAMPLE_OPTIONS.map(n => (
+          <option key={n} value={n}>抽样 {n} 次</option>
+        ))}
+      </select>
+    );
+
+    if (!simulationResult) {
+      return (
+        <div className="p-4 text-center">
+          <p className="mb-2" style={{ color: 'var(--color-text-muted)' }}>
+            按置信度随机取真假，估计每个目标可达成、每个行动可执行的概率
+          </p>
+          <div className="mb-4">{sampleSelect}</div>
+          <button
+            onClick={runSimulation}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50"
+            style={{
+              background: 'var(--color-primary)',
+              color: '#fff',
+            }}
+          >
+            {loading ? <Loader2 className="animate-spin" size={16} /> : <Dices size={16} />}
+            运行模拟
+          </button>
+        </div>
+      );
+    }
+
+    const sections = [
+      { key: 'mc-goals', label: '目标可达成概率', items: simulationResult.goals },
+      { key: 'mc-actions', label: '行动可执行概率', items: simulationResult.actions },
+    ];
+
+    return (
+      <div style={{ borderColor: 'var(--color-border-light)' }}>
+        {/* 摘要 */}
+        <div className="p-4" style={{ borderBottom: '1px solid var(--color-border-light)' }}>
+          <div className="flex items-start gap-2">
+            <Dices className="mt-0.5 flex-shrink-0" size={18} style={{ color: 'var(--color-primary)' }} />
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>{simulationResult.summary}</p>
+          </div>
+          {simulationResult.sampledNodes.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {simulationResult.sampledNodes.map(node => (
+                <span key={node.id}>{renderNodeTag(node)}</span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {sections.map(section => section.items.length > 0 && (
+          <div key={section.key} style={{ borderBottom: '1px solid var(--color-border-light)' }}>
+            <button
+              onClick={() => toggleSection(section.key)}
+              className="w-full px-4 py-2 flex items-center justify-between transition-colors"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              <span className="text-sm font-medium">
+                {section.label} ({section.items.length})
+              </span>
+              {expandedSections.has(section.key) ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            </button>
+            {expandedSections.has(section.key) && (
+              <div className="px-4 pb-3 space-y-3">
+                {section.items.map(renderOutcome)}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* 刷新按钮 */}
+        <div className="p-3 flex items-center gap-2">
+          {sampleSelect}
+          <button
+            onClick={runSimulation}
+            disabled={loading}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded transition-colors"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            {loading ? <Loader2 className="animate-spin" size={14} /> : <RefreshCw size={14} />}
+            重新模拟
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div
       className="w-80 flex flex-col h-full"
@@ -527,7 +880,7 @@ export default function AnalysisPanel({
       <div className="flex" style={{ borderBottom: '1px solid var(--color-border)' }}>
         <button
           onClick={() => setActiveTab('next-action')}
-          className="flex-1 px-4 py-3 text-sm font-medium transition-colors"
+          className="flex-1 px-2 py-3 text-sm font-medium transition-colors"
           style={{
             color: activeTab === 'next-action' ? 'var(--color-primary)' : 'var(--color-text-muted)',
             borderBottom: activeTab === 'next-action' ? '2px solid var(--color-primary)' : '2px solid transparent',
@@ -538,7 +891,7 @@ export default function AnalysisPanel({
         </button>
         <button
           onClick={() => setActiveTab('feasibility')}
-          className="flex-1 px-4 py-3 text-sm font-medium transition-colors"
+          className="flex-1 px-2 py-3 text-sm font-medium transition-colors"
           style={{
             color: activeTab === 'feasibility' ? 'var(--color-primary)' : 'var(--color-text-muted)',
             borderBottom: activeTab === 'feasibility' ? '2px solid var(--color-primary)' : '2px solid transparent',
@@ -547,6 +900,17 @@ export default function AnalysisPanel({
         >
           可行性评估
         </button>
+        <button
+          onClick={() => setActiveTab('simulation')}
+          className="flex-1 px-2 py-3 text-sm font-medium transition-colors"
+          style={{
+            color: activeTab === 'simulation' ? 'var(--color-primary)' : 'var(--color-text-muted)',
+            borderBottom: activeTab === 'simulation' ? '2px solid var(--color-primary)' : '2px solid transparent',
+            background: activeTab === 'simulation' ? 'var(--color-primary-light)' : 'transparent',
+          }}
+        >
+          概率模拟
+        </button>
       </div>
 
       {/* 错误提示 */}
@@ -564,7 +928,9 @@ export default function AnalysisPanel({
 
       {/* 内容区 */}
       <div className="flex-1 overflow-y-auto" style={{ background: 'var(--color-bg)' }}>
-        {activeTab === 'next-action' ? renderNextAction() : renderFeasibility()}
+        {activeTab === 'next-action' && renderNextAction()}
+        {activeTab === 'feasibility' && renderFeasibility()}
+        {activeTab === 'simulation' && renderSimulation()}
       </div>
     </div>
   );
@@ -0,0 +1,161 @@
+/**
+ * 画布导出选项
+ * 选择格式（SVG / PNG）、留白、倍率、是否带背景，以及导出整个画布还是聚焦节点的邻域
+ */
+
+import { useState } from 'react';
+import { ImageDown, X } from 'lucide-react';
+import type { CanvasExportFormat } from '../utils/canvasExport';
+
+export interface CanvasExportRequest {
+  format: CanvasExportFormat;
+  padding: number;
+  scale: number;
+  background: boolean;
+  scope: 'all' | 'focus';
+  depth: number; // scope 为 focus 时包含几跳以内的邻居
+}
+
+interface CanvasExportMenuProps {
+  hasFocus: boolean;
+  onExport: (request: CanvasExportRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const SCALE_OPTIONS = [1, 2, 3];
+const DEPTH_OPTIONS = [1, 2, 3];
+
+export default function CanvasExportMenu({ hasFocus, onExport, onClose }: CanvasExportMenuProps) {
+  const [request, setRequest] = useState<CanvasExportRequest>({
+    format: 'png',
+    padding: 40,
+    scale: 2,
+    background: true,
+    scope: hasFocus ? 'focus' : 'all',
+    depth: 1,
+  });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<CanvasExportRequest>) => setRequest(prev => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(request);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const segment = (active: boolean) => ({
+    background: active ? 'var(--color-primary)' : 'transparent',
+    color: active ? '#fff' : 'var(--color-text-secondary)',
+    border: '1px solid var(--color-border)',
+  });
+
+  return (
+    <div
+      className="absolute top-0 right-12 w-64 rounded-lg p-3 space-y-3 text-sm"
+      style={{ background: 'var(--color-surface)', boxShadow: 'var(--shadow)', color: 'var(--color-text)' }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-medium">导出画布</span>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: 'var(--color-text-muted)' }}>
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        {(['png', 'svg'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => update({ format })}
+            className="flex-1 py-1 rounded text-xs uppercase"
+            style={segment(request.format === format)}
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>范围</div>
+        <div className="flex gap-1">
+          <button onClick={() => update({ scope: 'all' })} className="flex-1 py-1 rounded text-xs" style={segment(request.scope === 'all')}>
+            全部节点
+          </button>
+          <button
+            onClick={() => update({ scope: 'focus' })}
+            disabled={!hasFocus}
+            className="flex-1 py-1 rounded text-xs disabled:opacity-40"
+            style={segment(request.scope === 'focus')}
+            title={hasFocus ? undefined : '先双击聚焦一个节点'}
+          >
+            聚焦节点邻域
+          </button>
+        </div>
+        {request.scope === 'focus' && (
+          <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+            <span>邻居范围</span>
+            <select
+              value={request.depth}
+              onChange={(e) => update({ depth: Number(e.target.value) })}
+              className="px-1 py-0.5 rounded"
+              style={{ background: 'var(--color-bg)', border: '1px solid var(--color-border)' }}
+            >
+              {DEPTH_OPTIONS.map(d => <option key={d} value={d}>{d} 跳</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+        <span className="w-10">留白</span>
+        <input
+          type="range"
+          min={0}
+          max={200}
+          step={10}
+          value={request.padding}
+          onChange={(e) => update({ padding: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{request.padding}</span>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+        <span className="w-10">倍率</span>
+        <div className="flex gap-1 flex-1">
+          {SCALE_OPTIONS.map(scale => (
+            <button key={scale} onClick={() => update({ scale })} className="flex-1 py-0.5 rounded" style={segment(request.scale === scale)}>
+              {scale}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: 'var(--color-text-secondary)' }}>
+        <input type="checkbox" checked={request.background} onChange={(e) => update({ background: e.target.checked })} />
+        保留画布背景
+      </label>
+
+      {error && <div className="text-xs" style={{ color: 'var(--color-error)' }}>{error}</div>}
+
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded text-white disabled:opacity-50"
+        style={{ background: 'var(--color-primary)' }}
+      >
+        <ImageDown size={14} />
+        {exporting ? '导出中...' : `导出 ${request.format.toUpperCase()}`}
+      </button>
+    </div>
+  );
+}
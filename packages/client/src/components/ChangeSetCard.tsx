@@ -0,0 +1,159 @@
+/**
+ * AI 变更集卡片
+ *
+ * 展示助手一次回复中提出的全部图修改（工具调用），逐项勾选后再写入项目。
+ * 处理结果（已应用 / 已忽略）随对话保存，key 为 tool:<调用 id>。
+ */
+
+import { useMemo, useState } from 'react';
+import { Check, Loader2, ListChecks, XCircle } from 'lucide-react';
+import { useProjectStore } from '../store/projectStore';
+import { previewToolCalls } from '../services/llm/tools';
+import type { AIActionOutcome, GraphToolCall } from '../types';
+
+interface ChangeSetCardProps {
+  calls: GraphToolCall[];
+  outcomes?: Record<string, AIActionOutcome>;
+  onOutcomes: (updates: Record<string, AIActionOutcome>) => void;
+}
+
+const toolOutcomeKey = (call: GraphToolCall) => `tool:${call.id}`;
+
+export default function ChangeSetCard({ calls, outcomes = {}, onOutcomes }: ChangeSetCardProps) {
+  const { nodes, edges, scenes, currentSceneId, isExample, readOnly, applyToolCalls } = useProjectStore();
+
+  const previews = useMemo(
+    () => previewToolCalls(calls, nodes, edges, scenes, currentSceneId),
+    [calls, nodes, edges, scenes, currentSceneId]
+  );
+  const pending = previews.filter((p) => !outcomes[toolOutcomeKey(p.call)]);
+
+  // 默认勾选所有校验通过、尚未处理的调用
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(pending.filter((p) => !p.error).map((p) => p.call.id))
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [applying, setApplying] = useState(false);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // 应用勾选的调用；未勾选的视为忽略，执行失败的保留待处理并显示原因
+  const handleApply = async () => {
+    const toApply = pending.filter((p) => selected.has(p.call.id)).map((p) => p.call);
+    if (toApply.length === 0) return;
+    setApplying(true);
+    try {
+      const results = await applyToolCalls(toApply);
+      const failed = Object.fromEntries(results.filter((r) => r.error).map((r) => [r.id, r.error!]));
+      const updates: Record<string, AIActionOutcome> = {};
+      for (const p of pending) {
+        if (failed[p.call.id]) continue;
+        updates[toolOutcomeKey(p.call)] = selected.has(p.call.id) ? 'applied' : 'dismissed';
+      }
+      setErrors(failed);
+      setSelected(new Set());
+      onOutcomes(updates);
+    } catch (err) {
+      console.error('应用变更失败:', err);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    onOutcomes(Object.fromEntries(pending.map((p) => [toolOutcomeKey(p.call), 'dismissed' as const])));
+  };
+
+  const selectedCount = pending.filter((p) => selected.has(p.call.id)).length;
+
+  return (
+    <div
+      className="mt-2 border rounded-lg p-3"
+      style={{ borderColor: 'var(--color-primary)', background: 'var(--color-surface)' }}
+    >
+      <div className="flex items-center gap-2 mb-2 text-xs font-medium" style={{ color: 'var(--color-text)' }}>
+        <ListChecks size={14} style={{ color: 'var(--color-primary)' }} />
+        建议修改 {calls.length} 项
+      </div>
+
+      <div className="space-y-1">
+        {previews.map((p) => {
+          const outcome = outcomes[toolOutcomeKey(p.call)];
+          const error = errors[p.call.id] ?? p.error;
+          return (
+            <label
+              key={p.call.id}
+              className="flex items-start gap-2 px-2 py-1.5 rounded text-xs"
+              style={{
+                background: 'var(--color-bg-tertiary)',
+                opacity: outcome === 'dismissed' ? 0.5 : 1,
+              }}
+            >
+              {outcome ? (
+                outcome === 'applied' ? (
+                  <Check size={14} className="flex-shrink-0" style={{ color: 'var(--color-success)' }} />
+                ) : (
+                  <XCircle size={14} className="flex-shrink-0" style={{ color: 'var(--color-text-muted)' }} />
+                )
+              ) : (
+                <input
+                  type="checkbox"
+                  checked={selected.has(p.call.id)}
+                  onChange={() => toggle(p.call.id)}
+                  disabled={!!p.error || applying || readOnly}
+                  className="mt-0.5"
+                />
+              )}
+              <span className="flex-1" style={{ color: 'var(--color-text-secondary)' }}>
+                {p.label}
+                {!outcome && error && (
+                  <span className="block mt-0.5" style={{ color: 'var(--color-error)' }}>{error}</span>
+                )}
+              </span>
+              {outcome && (
+                <span className="flex-shrink-0" style={{ color: 'var(--color-text-muted)' }}>
+                  {outcome === 'applied' ? '已应用' : '已忽略'}
+                </span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {pending.length > 0 && !readOnly && (
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={handleApply}
+            disabled={applying || selectedCount === 0}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs rounded transition-colors disabled:opacity-50"
+            style={{ background: 'var(--color-primary)', color: '#fff' }}
+          >
+            {applying ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+            应用所选 ({selectedCount})
+          </button>
+          <button
+            onClick={handleDismiss}
+            disabled={applying}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs rounded transition-colors disabled:opacity-50"
+            style={{ background: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)' }}
+          >
+            <XCircle size={14} />
+            全部忽略
+          </button>
+        </div>
+      )}
+      {readOnly && (
+        <p className="mt-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          {isExample ? '示例项目为只读' : '你在该项目中没有编辑权限'}，不能应用修改
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * 评论讨论串
+ *
+ * 列出某个节点或关系上的讨论串（未解决的在前），可以发起讨论、回复、解决/重新打开，
+ * 修改或删除自己的评论。正文中的 @名字 高亮显示；共享项目输入 @ 时提示项目成员。
+ * 查看者只能阅读；NodeEditPanel / EdgeEditPanel 的「评论」页签与查看模式下的评论面板共用本组件。
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, RotateCcw, Trash2, Pencil, Reply, Send } from 'lucide-react';
+import { useProjectStore } from '../store/projectStore';
+import { getSyncSettings } from '../services/sync';
+import { fetchProjectSharing } from '../services/sync/sharing';
+import { groupThreads, splitMentions, canModifyComment } from '../utils/comments';
+import type { CommentTargetType, GraphComment } from '../types';
+
+interface CommentThreadsProps {
+  targetType: CommentTargetType;
+  targetId: string;
+}
+
+// 正在输入的 @ 提及（光标前最后一个 @ 之后的文字）
+const PENDING_MENTION = /@([^\s@]*)$/;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false, month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words" style={{ color: 'var(--color-text)' }}>
+      {splitMentions(body).map((part, i) =>
+        part.mention ? (
+          <span key={i} className="font-medium" style={{ color: 'var(--color-primary)' }}>{part.text}</span>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/** 评论输入框；输入 @ 时列出匹配的成员，点击补全 */
+function CommentComposer({
+  placeholder,
+  initial = '',
+  submitLabel,
+  members,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  initial?: string;
+  submitLabel: string;
+  members: string[];
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initial);
+  const [sending, setSending] = useState(false);
+
+  const pending = body.match(PENDING_MENTION)?.[1];
+  const suggestions = pending === undefined ? [] : members.filter((name) => name.includes(pending) && name !== pending).slice(0, 5);
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setSending(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            void submit();
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full rounded-lg px-3 py-2 text-sm resize-none focus:outline-none"
+        style={{ background: 'var(--color-bg)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((name) => (
+            <button
+              key={name}
+              onClick={() => setBody(body.replace(PENDING_MENTION, `@${name} `))}
+              className="px-2 py-0.5 rounded-full text-xs"
+              style={{ background: 'var(--color-primary-light)', color: 'var(--color-primary)' }}
+            >
+              @{name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-2 py-1 rounded text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+            取消
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!body.trim() || sending}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-white disabled:opacity-50"
+          style={{ background: 'var(--color-primary)' }}
+        >
+          <Send size={12} />
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function CommentThreads({ targetType, targetId }: CommentThreadsProps) {
+  const { currentProject, isExample, comments, canComment, addComment, editComment, setCommentResolved, deleteComment } = useProjectStore();
+  const role = currentProject?.role ?? 'owner';
+  const { userId } = getSyncSettings();
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [members, setMembers] = useState<string[]>([]);
+
+  const threads = useMemo(() => groupThreads(comments, targetType, targetId), [comments, targetType, targetId]);
+
+  // 共享项目的成员名字，用于 @ 提示；项目未同步到服务器时只用评论过的人
+  useEffect(() => {
+    const authors = Array.from(new Set(comments.map((c) => c.authorName)));
+    setMembers(authors);
+    const settings = getSyncSettings();
+    if (!currentProject || !settings.enabled || !settings.token) return;
+    let cancelled = false;
+    fetchProjectSharing(currentProject.id)
+      .then((sharing) => {
+        if (!cancelled) setMembers(Array.from(new Set([...sharing.members.map((m) => m.name), ...authors])));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [currentProject?.id]);
+
+  // 删除第一条会连带删除回复，回复里有别人写的（自己无权删除）时不能删除整个讨论串
+  const renderComment = (comment: GraphComment, isRoot: boolean, deletable: boolean) => {
+    const mine = canModifyComment(comment, userId, role);
+    if (editingId === comment.id) {
+      return (
+        <CommentComposer
+          key={comment.id}
+          placeholder="修改评论"
+          initial={comment.body}
+          submitLabel="保存"
+          members={members}
+          onSubmit={async (body) => {
+            await editComment(comment.id, body);
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      );
+    }
+    return (
+      <div key={comment.id} className={isRoot ? '' : 'pl-3'} style={isRoot ? undefined : { borderLeft: '2px solid var(--color-border)' }}>
+        <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          <span className="font-medium" style={{ color: 'var(--color-text-secondary)' }}>{comment.authorName}</span>
+          <span>{formatTime(comment.createdAt)}</span>
+          {/* 第一条的 updatedAt 也随解决状态变化，只对回复标注 */}
+          {comment.updatedAt !== comment.createdAt && !isRoot && <span>（已修改）</span>}
+          {canComment && mine && (
+            <span className="ml-auto flex gap-1">
+              <button onClick={() => setEditingId(comment.id)} className="p-0.5 rounded" title="修改">
+                <Pencil size={12} />
+              </button>
+              {deletable && (
+                <button
+                  onClick={() => {
+                    if (!isRoot || window.confirm('删除这条评论会连同所有回复一起删除，确定吗？')) void deleteComment(comment.id);
+                  }}
+                  className="p-0.5 rounded"
+                  style={{ color: 'var(--color-error)' }}
+                  title={isRoot ? '删除讨论' : '删除'}
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+        <CommentBody body={comment.body} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      {threads.length === 0 && (
+        <p className="text-sm text-center" style={{ color: 'var(--color-text-muted)' }}>还没有评论</p>
+      )}
+
+      {threads.map(({ root, replies }) => (
+        <div
+          key={root.id}
+          className="rounded-lg p-3 space-y-2"
+          style={{
+            background: 'var(--color-bg-tertiary)',
+            border: `1px solid ${root.resolved ? 'var(--color-border)' : 'var(--color-primary)'}`,
+            opacity: root.resolved ? 0.75 : 1,
+          }}
+        >
+          {renderComment(root, true, replies.every((reply) => canModifyComment(reply, userId, role)))}
+          {replies.map((reply) => renderComment(reply, false, true))}
+
+          <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+            {root.resolved && (
+              <span className="flex items-center gap-1" style={{ color: 'var(--color-success)' }}>
+                <CheckCircle size={12} />
+                {root.resolvedBy ? `${root.resolvedBy} 已解决` : '已解决'}
+              </span>
+            )}
+            {canComment && (
+              <span className="ml-auto flex gap-2">
+                {!root.resolved && (
+                  <button onClick={() => setReplyingTo(root.id)} className="flex items-center gap-1" title="回复">
+                    <Reply size={12} />
+                    回复
+                  </button>
+                )}
+                <button
+                  onClick={() => setCommentResolved(root.id, !root.resolved)}
+                  className="flex items-center gap-1"
+                  title={root.resolved ? '重新打开' : '标记为已解决'}
+                >
+                  {root.resolved ? <RotateCcw size={12} /> : <CheckCircle size={12} />}
+                  {root.resolved ? '重新打开' : '解决'}
+                </button>
+              </span>
+            )}
+          </div>
+
+          {replyingTo === root.id && (
+            <CommentComposer
+              placeholder="回复（@名字 提及成员，Ctrl+Enter 发送）"
+              submitLabel="回复"
+              members={members}
+              onSubmit={async (body) => {
+                await addComment({ targetType, targetId, body, parentId: root.id });
+                setReplyingTo(null);
+              }}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+        </div>
+      ))}
+
+      {canComment ? (
+        <CommentComposer
+          placeholder="发起讨论（@名字 提及成员，Ctrl+Enter 发送）"
+          submitLabel="发表"
+          members={members}
+          onSubmit={async (body) => {
+            await addComment({ targetType, targetId, body });
+          }}
+        />
+      ) : (
+        <p className="text-xs text-center" style={{ color: 'var(--color-text-muted)' }}>
+          {isExample ? '示例项目不能评论' : '查看者只能阅读评论'}
+        </p>
+      )}
+    </div>
+  );
+}
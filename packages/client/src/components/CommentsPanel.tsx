@@ -0,0 +1,46 @@
+/**
+ * 评论面板（查看模式）
+ * 查看模式下没有编辑面板，点击节点上的评论角标或聚焦详情里的「评论」打开；
+ * 编辑模式下评论在 NodeEditPanel / EdgeEditPanel 的「评论」页签中
+ */
+
+import { X, MessageSquare } from 'lucide-react';
+import CommentThreads from './CommentThreads';
+import type { CommentTargetType } from '../types';
+
+interface CommentsPanelProps {
+  targetType: CommentTargetType;
+  targetId: string;
+  title: string; // 节点标题或「源 → 目标」
+  onClose: () => void;
+}
+
+export default function CommentsPanel({ targetType, targetId, title, onClose }: CommentsPanelProps) {
+  return (
+    <div
+      className="w-80 flex flex-col h-full"
+      style={{
+        background: 'var(--glass-bg, var(--color-surface))',
+        backdropFilter: 'var(--glass, none)',
+        WebkitBackdropFilter: 'var(--glass, none)',
+        borderLeft: '1px solid var(--glass-border, var(--color-border))',
+      }}
+    >
+      <div className="p-4 flex items-center justify-between" style={{ borderBottom: '1px solid var(--color-border)' }}>
+        <div className="min-w-0">
+          <h3 className="font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+            <MessageSquare size={16} />
+            评论
+          </h3>
+          <p className="text-xs truncate" style={{ color: 'var(--color-text-muted)' }}>
+            {targetType === 'node' ? '节点' : '关系'}：{title}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 rounded" title="关闭" style={{ color: 'var(--color-text-muted)' }}>
+          <X size={18} />
+        </button>
+      </div>
+      <CommentThreads targetType={targetType} targetId={targetId} />
+    </div>
+  );
+}
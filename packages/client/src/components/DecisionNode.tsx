@@ -4,8 +4,8 @@
 
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { NODE_TYPE_CONFIG, NodeType } from '../types';
-import { LogicState, getLogicStateColor, getLogicStateLabel } from '../utils/propagation';
+import { NODE_TYPE_CONFIG, NodeType, ComputedStatus } from '../types';
+import { getStatusIndicator } from '../utils/propagation';
 
 interface NodeData {
   type: NodeType;
@@ -15,11 +15,12 @@ interface NodeData {
   weight: number;
   calculatedScore?: number;
   isSelected?: boolean;
-  logicState?: LogicState;
+  computedStatus?: ComputedStatus;
 }
 
 function DecisionNode({ data, selected }: NodeProps<NodeData>) {
   const config = NODE_TYPE_CONFIG[data.type] || NODE_TYPE_CONFIG[NodeType.FACT];
+  const indicator = getStatusIndicator(data.computedStatus);
 
   return (
     <div
@@ -40,7 +41,7 @@ function DecisionNode({ data, selected }: NodeProps<NodeData>) {
         className="w-3 h-3 !bg-gray-400 border-2 border-white"
       />
 
-      {/* 节点类型标签和逻辑状态 */}
+      {/* 节点类型标签和计算状态 */}
       <div className="flex items-center justify-between mb-2">
         <div
           className="text-xs font-medium px-2 py-0.5 rounded-full inline-block"
@@ -52,17 +53,17 @@ function DecisionNode({ data, selected }: NodeProps<NodeData>) {
           {config.label}
         </div>
 
-        {/* 逻辑状态指示器 */}
-        {data.logicState && data.logicState !== LogicState.UNKNOWN && (
+        {/* 计算状态指示器 */}
+        {indicator && (
           <div
             className="text-xs font-medium px-2 py-0.5 rounded-full"
             style={{
-              backgroundColor: getLogicStateColor(data.logicState),
+              backgroundColor: indicator.color,
               color: 'white'
             }}
-            title={`逻辑状态: ${getLogicStateLabel(data.logicState)}`}
+            title={`计算状态: ${indicator.label}`}
           >
-            {getLogicStateLabel(data.logicState)}
+            {indicator.symbol} {indicator.label}
           </div>
         )}
       </div>
@@ -0,0 +1,373 @@
+/**
+ * 差异对比面板
+ *
+ * 对比两份项目数据（当前项目、快照或导出的 JSON 文件），逐项列出新增/删除/修改的节点和关系。
+ * 基准为当前项目时，受影响的节点和关系会在画布上高亮，并可逐项接受后合并进当前项目。
+ */
+
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { GitCompare, Plus, Minus, Pencil, GitMerge, Loader2 } from 'lucide-react';
+import { useProjectStore } from '../store/projectStore';
+import {
+  diffProjects,
+  getDiffHighlights,
+  sourceFromGraph,
+  sourceFromSnapshot,
+  sourceFromExport,
+  DiffKind,
+  DiffSource,
+  FieldChange,
+} from '../utils/projectDiff';
+import { readJsonFile, ExportedScene, ExportedProject } from '../utils/exportImport';
+import { NODE_TYPE_CONFIG, EDGE_TYPE_CONFIG, NodeType, getStatusOptionsForType } from '../types';
+
+interface DiffPanelProps {
+  // 从导入对话框带过来的文件，作为默认的对比方
+  initialFile?: ExportedScene | ExportedProject | null;
+  onNodeClick?: (nodeId: string) => void;
+  onHighlightsChange?: (highlights: ReturnType<typeof getDiffHighlights> | null) => void;
+}
+
+interface LoadedFile {
+  label: string;
+  source: DiffSource;
+}
+
+// 选项值：'current' | 'snapshot:<id>' | 'file:<index>'
+type SourceValue = string;
+
+const KIND_CONFIG: Record<DiffKind, { label: string; icon: typeof Plus; bgVar: string; colorVar: string }> = {
+  added: { label: '新增', icon: Plus, bgVar: '--color-success-bg', colorVar: '--color-success' },
+  removed: { label: '删除', icon: Minus, bgVar: '--color-error-bg', colorVar: '--color-error' },
+  changed: { label: '修改', icon: Pencil, bgVar: '--color-warning-bg', colorVar: '--color-warning' },
+};
+
+function fileLabel(data: ExportedScene | ExportedProject): string {
+  return data.exportType === 'scene' ? `文件：${data.scene.name}` : `文件：${data.project.title}`;
+}
+
+function formatValue(change: FieldChange, nodeType?: string): string {
+  const format = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '（空）';
+    if (change.field === 'type') return NODE_TYPE_CONFIG[value as string]?.label ?? String(value);
+    if (change.field === 'baseStatus' && nodeType) {
+      return getStatusOptionsForType(nodeType as NodeType).find(o => o.value === value)?.label ?? String(value);
+    }
+    const text = String(value);
+    return text.length > 20 ? text.slice(0, 20) + '…' : text;
+  };
+  return `${format(change.before)} → ${format(change.after)}`;
+}
+
+export default function DiffPanel({ initialFile, onNodeClick, onHighlightsChange }: DiffPanelProps) {
+  const { nodes, edges, snapshots, readOnly, applyDiff } = useProjectStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [files, setFiles] = useState<LoadedFile[]>(() =>
+    initialFile ? [{ label: fileLabel(initialFile), source: sourceFromExport(initialFile) }] : []
+  );
+  const [baseValue, setBaseValue] = useState<SourceValue>('current');
+  const [compareValue, setCompareValue] = useState<SourceValue>(
+    initialFile ? 'file:0' : snapshots[0] ? `snapshot:${snapshots[0].id}` : 'current'
+  );
+  // 选择「加载文件…」时，记录要填充的是哪一侧
+  const [pickingSide, setPickingSide] = useState<'base' | 'compare'>('compare');
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const resolveSource = (value: SourceValue): DiffSource | null => {
+    if (value === 'current') return sourceFromGraph(nodes, edges);
+    if (value.startsWith('snapshot:')) {
+      const snapshot = snapshots.find(s => s.id === value.slice('snapshot:'.length));
+      return snapshot ? sourceFromSnapshot(snapshot) : null;
+    }
+    if (value.startsWith('file:')) {
+      return files[Number(value.slice('file:'.length))]?.source ?? null;
+    }
+    return null;
+  };
+
+  const diff = useMemo(() => {
+    const base = resolveSource(baseValue);
+    const incoming = resolveSource(compareValue);
+    if (!base || !incoming || baseValue === compareValue) return null;
+    return diffProjects(base, incoming);
+  }, [baseValue, compareValue, nodes, edges, snapshots, files]);
+
+  const canMerge = baseValue === 'current' && !readOnly && !!diff;
+
+  // 对比结果变化时默认全部接受
+  useEffect(() => {
+    setAccepted(new Set(diff ? [...diff.nodes, ...diff.edges].map(d => d.key) : []));
+  }, [diff]);
+
+  // 基准为当前项目时在画布上高亮
+  useEffect(() => {
+    onHighlightsChange?.(diff && baseValue === 'current' ? getDiffHighlights(diff) : null);
+  }, [diff, baseValue, onHighlightsChange]);
+
+  useEffect(() => () => onHighlightsChange?.(null), [onHighlightsChange]);
+
+  const handleSelect = (side: 'base' | 'compare', value: SourceValue) => {
+    if (value === 'pick-file') {
+      setPickingSide(side);
+      fileInputRef.current?.click();
+      return;
+    }
+    (side === 'base' ? setBaseValue : setCompareValue)(value);
+    setMessage(null);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const data = await readJsonFile(file);
+      const value = `file:${files.length}`;
+      setFiles(prev => [...prev, { label: fileLabel(data), source: sourceFromExport(data) }]);
+      (pickingSide === 'base' ? setBaseValue : setCompareValue)(value);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const toggle = (key: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    if (!diff || accepted.size === 0) return;
+    setMerging(true);
+    setError(null);
+    try {
+      const result = await applyDiff(diff, accepted);
+      setMessage(`已合并 ${result.nodes} 个节点变更、${result.edges} 个关系变更`);
+    } catch (err: any) {
+      setError(err.message || '合并失败');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderSelect = (side: 'base' | 'compare', value: SourceValue) => (
+    <select
+      value={value}
+      onChange={(e) => handleSelect(side, e.target.value)}
+      className="w-full px-2 py-1.5 text-sm rounded"
+      style={{
+        background: 'var(--color-bg)',
+        border: '1px solid var(--color-border)',
+        color: 'var(--color-text)',
+      }}
+    >
+      <option value="current">当前项目</option>
+      {snapshots.map(s => (
+        <option key={s.id} value={`snapshot:${s.id}`}>
+          快照：{s.title}
+        </option>
+      ))}
+      {files.map((f, i) => (
+        <option key={i} value={`file:${i}`}>{f.label}</option>
+      ))}
+      <option value="pick-file">加载文件…</option>
+    </select>
+  );
+
+  const renderKind = (kind: DiffKind) => {
+    const config = KIND_CONFIG[kind];
+    const Icon = config.icon;
+    return (
+      <span
+        className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs flex-shrink-0"
+        style={{ background: `var(${config.bgVar})`, color: `var(${config.colorVar})` }}
+      >
+        <Icon size={10} />
+        {config.label}
+      </span>
+    );
+  };
+
+  const renderCheckbox = (key: string) =>
+    canMerge && (
+      <input
+        type="checkbox"
+        checked={accepted.has(key)}
+        onChange={() => toggle(key)}
+        className="mt-0.5 flex-shrink-0"
+        title="接受此变更"
+      />
+    );
+
+  const total = diff ? diff.nodes.length + diff.edges.length : 0;
+
+  return (
+    <div
+      className="w-96 flex flex-col h-full"
+      style={{
+        background: 'var(--glass-bg, var(--color-surface))',
+        backdropFilter: 'var(--glass, none)',
+        WebkitBackdropFilter: 'var(--glass, none)',
+        borderLeft: '1px solid var(--glass-border, var(--color-border))',
+      }}
+    >
+      {/* 头部：选择对比双方 */}
+      <div className="p-4 space-y-2" style={{ borderBottom: '1px solid var(--color-border)' }}>
+        <h3 className="font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <GitCompare size={18} />
+          差异对比
+        </h3>
+        <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>基准</div>
+        {renderSelect('base', baseValue)}
+        <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>对比</div>
+        {renderSelect('compare', compareValue)}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+
+        {diff && (
+          <div className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+            {total === 0 ? '两者没有差异' : `${diff.nodes.length} 个节点变更，${diff.edges.length} 个关系变更`}
+          </div>
+        )}
+      </div>
+
+      {/* 错误 / 结果提示 */}
+      {error && (
+        <div className="p-3 text-sm" style={{ background: 'var(--color-error-bg)', color: 'var(--color-error)' }}>
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 text-sm" style={{ background: 'var(--color-success-bg)', color: 'var(--color-success)' }}>
+          {message}
+        </div>
+      )}
+
+      {/* 变更列表 */}
+      <div className="flex-1 overflow-y-auto" style={{ background: 'var(--color-bg)' }}>
+        {!diff ? (
+          <div className="p-4 text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+            请选择两个不同的数据来源
+          </div>
+        ) : (
+          <>
+            {diff.nodes.length > 0 && (
+              <div className="px-4 pt-3 pb-1 text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
+                节点
+              </div>
+            )}
+            {diff.nodes.map(d => {
+              const node = d.after ?? d.before!;
+              return (
+                <div
+                  key={d.key}
+                  className="px-4 py-2 flex items-start gap-2"
+                  style={{ borderBottom: '1px solid var(--color-border-light)' }}
+                >
+                  {renderCheckbox(d.key)}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {renderKind(d.kind)}
+                      <button
+                        onClick={() => d.before && baseValue === 'current' && onNodeClick?.(d.before.id)}
+                        className="text-sm font-medium truncate text-left"
+                        style={{ color: 'var(--color-text)' }}
+                        title={node.title}
+                      >
+                        {node.title}
+                      </button>
+                      {d.matchedBy === 'title' && (
+                        <span className="text-xs flex-shrink-0" style={{ color: 'var(--color-text-muted)' }} title="id 不同，按标题匹配">
+                          按标题
+                        </span>
+                      )}
+                    </div>
+                    {d.changes.map(c => (
+                      <div key={c.field} className="mt-0.5 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                        {c.label}：{formatValue(c, node.type)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {diff.edges.length > 0 && (
+              <div className="px-4 pt-3 pb-1 text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
+                关系
+              </div>
+            )}
+            {diff.edges.map(d => {
+              const edge = d.after ?? d.before!;
+              const config = EDGE_TYPE_CONFIG[edge.type];
+              return (
+                <div
+                  key={d.key}
+                  className="px-4 py-2 flex items-start gap-2"
+                  style={{ borderBottom: '1px solid var(--color-border-light)' }}
+                >
+                  {renderCheckbox(d.key)}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-text)' }}>
+                      {renderKind(d.kind)}
+                      <span className="truncate" title={`${d.sourceTitle} ${config?.label ?? edge.type} ${d.targetTitle}`}>
+                        {d.sourceTitle}
+                        <span className="mx-1" style={{ color: config?.color }}>{config?.symbol ?? '→'}</span>
+                        {d.targetTitle}
+                      </span>
+                    </div>
+                    {d.changes.map(c => (
+                      <div key={c.field} className="mt-0.5 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                        {c.label}：{formatValue(c)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+
+      {/* 合并操作 */}
+      {canMerge && total > 0 && (
+        <div className="p-3 flex gap-2" style={{ borderTop: '1px solid var(--color-border)' }}>
+          <button
+            onClick={() => setAccepted(accepted.size === total ? new Set() : new Set([...diff!.nodes, ...diff!.edges].map(d => d.key)))}
+            className="px-3 py-1.5 text-sm rounded"
+            style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border)' }}
+          >
+            {accepted.size === total ? '全不选' : '全选'}
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={merging || accepted.size === 0}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-sm rounded disabled:opacity-50"
+            style={{ background: 'var(--color-primary)', color: '#fff' }}
+          >
+            {merging ? <Loader2 className="animate-spin" size={14} /> : <GitMerge size={14} />}
+            合并选中的 {accepted.size} 项
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
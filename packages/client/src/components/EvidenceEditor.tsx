@@ -0,0 +1,135 @@
+/**
+ * 证据编辑器
+ *
+ * 在节点编辑面板中编辑事实/假设节点的结构化证据：
+ * 方向（支持 / 反驳）、来源（文字或 URL）、可靠度 0-100、日期。
+ */
+
+import { Plus, Trash2, ExternalLink, ThumbsUp, ThumbsDown } from 'lucide-react';
+import type { EvidenceItem, EvidenceStance } from '../types';
+
+interface EvidenceEditorProps {
+  items: EvidenceItem[];
+  onChange: (items: EvidenceItem[]) => void;
+}
+
+const STANCE_CONFIG: Record<EvidenceStance, { label: string; colorVar: string; bgVar: string }> = {
+  supporting: { label: '支持', colorVar: '--color-success', bgVar: '--color-success-bg' },
+  refuting: { label: '反驳', colorVar: '--color-error', bgVar: '--color-error-bg' },
+};
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source.trim());
+}
+
+export default function EvidenceEditor({ items, onChange }: EvidenceEditorProps) {
+  const updateItem = (id: string, patch: Partial<EvidenceItem>) => {
+    onChange(items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const addItem = () => {
+    onChange([
+      ...items,
+      {
+        id: crypto.randomUUID(),
+        stance: 'supporting',
+        source: '',
+        reliability: 50,
+        date: new Date().toISOString().slice(0, 10),
+      },
+    ]);
+  };
+
+  const inputStyle = {
+    background: 'var(--color-bg)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => {
+        const stance = STANCE_CONFIG[item.stance];
+        return (
+          <div
+            key={item.id}
+            className="p-2 rounded-lg space-y-2"
+            style={{ background: 'var(--color-bg-secondary)', borderLeft: `3px solid var(${stance.colorVar})` }}
+          >
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => updateItem(item.id, { stance: item.stance === 'supporting' ? 'refuting' : 'supporting' })}
+                className="flex items-center gap-1 px-2 py-0.5 rounded text-xs flex-shrink-0"
+                style={{ background: `var(${stance.bgVar})`, color: `var(${stance.colorVar})` }}
+                title="切换支持 / 反驳"
+              >
+                {item.stance === 'supporting' ? <ThumbsUp size={12} /> : <ThumbsDown size={12} />}
+                {stance.label}
+              </button>
+              <input
+                type="date"
+                value={item.date ?? ''}
+                onChange={(e) => updateItem(item.id, { date: e.target.value || undefined })}
+                className="flex-1 min-w-0 px-1 py-0.5 text-xs rounded"
+                style={inputStyle}
+              />
+              <button
+                onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+                className="p-1 rounded flex-shrink-0"
+                style={{ color: 'var(--color-error)' }}
+                title="删除证据"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <input
+                value={item.source}
+                onChange={(e) => updateItem(item.id, { source: e.target.value })}
+                placeholder="来源：文字说明或链接"
+                className="flex-1 min-w-0 px-2 py-1 text-xs rounded"
+                style={inputStyle}
+              />
+              {isUrl(item.source) && (
+                <a
+                  href={item.source.trim()}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="p-1 flex-shrink-0"
+                  style={{ color: 'var(--color-primary)' }}
+                  title="打开链接"
+                >
+                  <ExternalLink size={12} />
+                </a>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              <span className="flex-shrink-0">可靠度 {item.reliability}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={item.reliability}
+                onChange={(e) => updateItem(item.id, { reliability: Number(e.target.value) })}
+                className="flex-1 h-1.5 rounded-lg appearance-none cursor-pointer"
+                style={{ background: 'var(--color-bg-tertiary)' }}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addItem}
+        className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-xs rounded-lg"
+        style={{ color: 'var(--color-primary)', border: '1px dashed var(--color-border)' }}
+      >
+        <Plus size={12} />
+        添加证据
+      </button>
+    </div>
+  );
+}
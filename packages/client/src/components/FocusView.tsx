@@ -3,17 +3,24 @@
  * 可缩放、可平移、可拖拽节点的关系图
  * 双击节点聚焦：高亮关系链接，显示详细内容（不改变位置）
  * 支持编辑模式：创建/编辑/删除节点和边
+ * 实时协作时显示在线的协作者，以及同一场景中协作者选中的节点
+ * 有评论的节点/关系显示评论数角标，点击打开讨论
  */
 
 import React, { useMemo, useCallback, useState, useRef, useEffect } from 'react';
 import { useGraphStore, EditorMode } from '../store/graphStore';
 import { usePropagationStore } from '../store/propagationStore';
-import { GraphNode, GraphEdge, NODE_TYPE_CONFIG, EDGE_TYPE_CONFIG, EdgeType } from '../types';
-import { ZoomIn, ZoomOut, Maximize2, LayoutGrid, X } from 'lucide-react';
+import { GraphNode, GraphEdge, NODE_TYPE_CONFIG, EDGE_TYPE_CONFIG, EdgeType, ComputedStatus } from '../types';
+import type { CommentTargetType, PresenceInfo } from '@solvechain/shared';
+import { ZoomIn, ZoomOut, Maximize2, LayoutGrid, X, ImageDown, MessageSquare } from 'lucide-react';
 import EdgeTypeSelector from './EdgeTypeSelector';
+import CanvasExportMenu, { CanvasExportRequest } from './CanvasExportMenu';
 import { hierarchicalLayout, radialLayout, forceDirectedRefinement } from '../utils/layoutAlgorithms';
-import { LogicState, getLogicStateColor } from '../utils/propagation';
+import { getStatusIndicator } from '../utils/propagation';
+import type { DiffKind } from '../utils/projectDiff';
+import type { WhatIfEffect } from '../utils/whatIf';
 import { useTheme } from '../themes/ThemeContext';
+import { buildCanvasSvg, svgToPngBlob, downloadBlob, getNeighborhood } from '../utils/canvasExport';
 
 // 连线状态类型
 interface ConnectingState {
@@ -40,6 +47,20 @@ interface FocusViewProps {
   onSaveLayout?: (positions: Array<{ id: string; x: number; y: number }>, sceneId?: string | null) => Promise<void>;
   // 更新待保存的布局位置（用于场景切换时自动保存）
   onUpdatePendingPositions?: (positions: Map<string, { x: number; y: number }>) => void;
+  // 差异对比高亮（节点/关系 id → 变更类型）
+  diffHighlights?: { nodes: Map<string, DiffKind>; edges: Map<string, DiffKind> } | null;
+  // 外部传入的计算状态（假设推演时使用推演结果，不读传播 store）
+  computedStatuses?: Map<string, ComputedStatus>;
+  // 假设推演高亮（节点 id → 变化方向；被修改强度的关系 id）
+  whatIfHighlights?: { nodes: Map<string, WhatIfEffect>; edges: Set<string> } | null;
+  // 导出画布时的文件名（不含扩展名）
+  exportName?: string;
+  // 在线协作者（不含自己）及场景名称（场景 ID → 名称）
+  presence?: PresenceInfo[];
+  sceneNames?: Map<string, string>;
+  // 评论数（节点/关系 id → 评论总数与未解决的讨论串数）及打开讨论的回调
+  commentCounts?: Map<string, { total: number; open: number }>;
+  onOpenComments?: (targetType: CommentTargetType, targetId: string) => void;
 }
 
 interface NodePosition {
@@ -55,6 +76,21 @@ const NODE_HEIGHT = 60;
 const CENTER_X = CANVAS_WIDTH / 2;
 const CENTER_Y = CANVAS_HEIGHT / 2;
 
+// 差异高亮颜色
+const DIFF_COLORS: Record<DiffKind, string> = {
+  added: '#22c55e',   // green-500
+  changed: '#f59e0b', // amber-500
+  removed: '#ef4444', // red-500
+};
+
+// 假设推演高亮颜色
+const WHAT_IF_COLORS: Record<WhatIfEffect, string> = {
+  overridden: '#8b5cf6', // violet-500
+  improved: '#22c55e',   // green-500
+  worsened: '#ef4444',   // red-500
+  changed: '#f59e0b',    // amber-500
+};
+
 export default function FocusView({
   focusedNodeId,
   onNodeClick,
@@ -69,10 +105,18 @@ export default function FocusView({
   currentSceneId,
   onCreateEdge,
   onSaveLayout,
-  onUpdatePendingPositions
+  onUpdatePendingPositions,
+  diffHighlights,
+  computedStatuses,
+  whatIfHighlights,
+  exportName = '画布',
+  presence = [],
+  sceneNames,
+  commentCounts,
+  onOpenComments,
 }: FocusViewProps) {
   const graphStore = useGraphStore();
-  const { getNodeLogicState } = usePropagationStore();
+  const { getComputedStatus } = usePropagationStore();
   const { theme } = useTheme();
   const canvasColors = theme.colors;
   const nodes = propNodes ?? graphStore.nodes;
@@ -190,6 +234,7 @@ export default function FocusView({
 
   // 布局保存提示状态
   const [showSaveToast, setShowSaveToast] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
   // 追踪上一次的节点数量和场景，用于判断是否需要重新布局
@@ -198,6 +243,16 @@ export default function FocusView({
 
   const isEditMode = editorMode === 'edit';
 
+  // 与自己在同一视图的协作者选中的节点（节点 id → 协作者）
+  const presenceByNode = useMemo(() => {
+    const map = new Map<string, PresenceInfo[]>();
+    presence.forEach((p) => {
+      if (!p.selectedNodeId || p.sceneId !== (currentSceneId ?? null)) return;
+      map.set(p.selectedNodeId, [...(map.get(p.selectedNodeId) ?? []), p]);
+    });
+    return map;
+  }, [presence, currentSceneId]);
+
   // 获取聚焦节点及其相邻节点信息
   const focusInfo = useMemo(() => {
     if (!focusedNodeId) return null;
@@ -516,6 +571,30 @@ export default function FocusView({
     });
   }, []);
 
+  // 导出画布为 SVG / PNG
+  const handleExportCanvas = useCallback(async (request: CanvasExportRequest) => {
+    if (!svgRef.current) return;
+    const nodeIds = request.scope === 'focus' && focusedNodeId
+      ? getNeighborhood(focusedNodeId, edges, request.depth)
+      : undefined;
+    const { svg, width, height } = buildCanvasSvg(
+      svgRef.current,
+      {
+        positions: nodePositions,
+        edges,
+        edgeColor: getEdgeColor,
+        backgroundColor: canvasColors.canvasBg,
+        fontFamily: getComputedStyle(svgRef.current).fontFamily,
+      },
+      { padding: request.padding, scale: request.scale, background: request.background, nodeIds }
+    );
+    const filename = `${exportName}_${new Date().toISOString().slice(0, 10)}.${request.format}`;
+    const blob = request.format === 'svg'
+      ? new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
+      : await svgToPngBlob(svg, width, height);
+    downloadBlob(blob, filename);
+  }, [focusedNodeId, edges, nodePositions, getEdgeColor, canvasColors, exportName]);
+
   // 自动布局：使用智能布局算法
   const handleAutoLayout = useCallback(() => {
     if (nodes.length === 0) return;
@@ -949,8 +1028,52 @@ export default function FocusView({
     if (isEditMode) {
       setSelectedEdgeId(edgeId);
       onEditEdge?.(edgeId);
+    } else if (commentCounts?.has(edgeId)) {
+      // 查看模式：有评论的关系点击打开讨论
+      onOpenComments?.('edge', edgeId);
     }
-  }, [isEditMode, onEditEdge]);
+  }, [isEditMode, onEditEdge, commentCounts, onOpenComments]);
+
+  // 评论数角标：有未解决的讨论时用主题色，全部解决后变灰
+  const renderCommentBadge = (targetType: CommentTargetType, targetId: string, x: number, y: number) => {
+    const count = commentCounts?.get(targetId);
+    if (!count || !onOpenComments) return null;
+    return (
+      <g
+        transform={`translate(${x}, ${y})`}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          onOpenComments(targetType, targetId);
+        }}
+        style={{ cursor: 'pointer' }}
+      >
+        <title>{count.open > 0 ? `${count.total} 条评论，${count.open} 个讨论未解决` : `${count.total} 条评论（已全部解决）`}</title>
+        <rect
+          x={-13}
+          y={-8}
+          width={26}
+          height={16}
+          rx={8}
+          fill={count.open > 0 ? canvasColors.primary : canvasColors.textMuted}
+          stroke="white"
+          strokeWidth={1.5}
+        />
+        <MessageSquare x={-10} y={-4} size={8} color="white" strokeWidth={3} style={{ pointerEvents: 'none' }} />
+        <text
+          x={4}
+          textAnchor="middle"
+          dy={3.5}
+          fontSize={9}
+          fill="white"
+          fontWeight="bold"
+          style={{ pointerEvents: 'none', userSelect: 'none' }}
+        >
+          {count.total > 9 ? '9+' : count.total}
+        </text>
+      </g>
+    );
+  };
 
   // 渲染节点
   const renderNode = (node: GraphNode) => {
@@ -968,15 +1091,18 @@ export default function FocusView({
     const isConnectSource = connectingState?.sourceNodeId === node.id;
     const canBeConnectTarget = !!connectingState && !isConnectSource;
 
-    // 获取逻辑状态
-    const logicState = getNodeLogicState(node.id);
-    const hasLogicState = logicState !== LogicState.UNKNOWN;
-    const logicStateColor = getLogicStateColor(logicState);
-
+    // 获取计算状态指示器
+    const statusIndicator = getStatusIndicator(
+      computedStatuses ? computedStatuses.get(node.id) : getComputedStatus(node.id)
+    );
+    const diffKind = diffHighlights?.nodes.get(node.id);
+    const whatIfEffect = whatIfHighlights?.nodes.get(node.id);
+    const selectedBy = presenceByNode.get(node.id);
 
     return (
       <g
         key={node.id}
+        data-node-id={node.id}
         transform={`translate(${pos.x}, ${pos.y})`}
         onMouseDown={(e) => handleNodeMouseDown(e, node.id)}
         onDoubleClick={(e) => handleNodeDoubleClick(e, node.id)}
@@ -1045,6 +1171,56 @@ export default function FocusView({
           />
         )}
 
+        {/* 差异对比高亮 */}
+        {diffKind && (
+          <rect
+            x={-84}
+            y={-39}
+            width={168}
+            height={78}
+            rx={14}
+            fill="none"
+            stroke={DIFF_COLORS[diffKind]}
+            strokeWidth={3}
+            strokeDasharray={diffKind === 'removed' ? '6,4' : undefined}
+          />
+        )}
+
+        {/* 假设推演高亮（被修改的节点用虚线） */}
+        {whatIfEffect && (
+          <rect
+            x={-84}
+            y={-39}
+            width={168}
+            height={78}
+            rx={14}
+            fill={WHAT_IF_COLORS[whatIfEffect]}
+            fillOpacity={0.08}
+            stroke={WHAT_IF_COLORS[whatIfEffect]}
+            strokeWidth={3}
+            strokeDasharray={whatIfEffect === 'overridden' ? '6,4' : undefined}
+          />
+        )}
+
+        {/* 协作者选中的节点：外圈用第一位协作者的颜色，上方列出名字 */}
+        {selectedBy && (
+          <g style={{ pointerEvents: 'none' }}>
+            <rect
+              x={-88}
+              y={-43}
+              width={176}
+              height={86}
+              rx={16}
+              fill="none"
+              stroke={selectedBy[0].color}
+              strokeWidth={2.5}
+            />
+            <text x={-86} y={-49} fontSize={11} fontWeight={600} fill={selectedBy[0].color}>
+              {selectedBy.map((p) => p.name).join('、')}
+            </text>
+          </g>
+        )}
+
         {/* ============ 暗夜模式(neon)节点效果 ============ */}
         {/* 节点阴影层 - 创造深度感 */}
         {theme.nodeStyle === 'neon' && !isUnrelated && (
@@ -1193,12 +1369,13 @@ export default function FocusView({
           {node.title.length > 12 ? node.title.slice(0, 12) + '...' : node.title}
         </text>
 
-        {/* 逻辑状态指示器 */}
-        {hasLogicState && (
+        {/* 计算状态指示器 */}
+        {statusIndicator && (
           <g transform="translate(55, -25)">
+            <title>{statusIndicator.label}</title>
             <circle
               r={8}
-              fill={logicStateColor}
+              fill={statusIndicator.color}
               stroke="white"
               strokeWidth={2}
             />
@@ -1210,12 +1387,13 @@ export default function FocusView({
               fontWeight="bold"
               style={{ pointerEvents: 'none', userSelect: 'none' }}
             >
-              {logicState === LogicState.TRUE ? 'T' :
-               logicState === LogicState.FALSE ? 'F' :
-               logicState === LogicState.CONFLICT ? '!' : '?'}
+              {statusIndicator.symbol}
             </text>
           </g>
         )}
+
+        {/* 评论数 */}
+        {renderCommentBadge('node', node.id, -55, -30)}
       </g>
     );
   };
@@ -1232,6 +1410,8 @@ export default function FocusView({
     const isRelatedToFocus = focusInfo?.relatedEdgeIds.has(edge.id) ?? false;
     const isUnrelated = focusedNodeId && !isRelatedToFocus;
     const isSelected = selectedEdgeId === edge.id;
+    const diffKind = diffHighlights?.edges.get(edge.id);
+    const isWhatIfEdge = whatIfHighlights?.edges.has(edge.id) ?? false;
 
     const dx = targetPos.x - sourcePos.x;
     const dy = targetPos.y - sourcePos.y;
@@ -1354,9 +1534,10 @@ export default function FocusView({
     return (
       <g
         key={edge.id}
+        data-edge-id={edge.id}
         opacity={isUnrelated ? 0.15 : 1}
         onClick={(e) => handleEdgeClick(e, edge.id)}
-        style={{ cursor: isEditMode ? 'pointer' : 'default' }}
+        style={{ cursor: isEditMode || commentCounts?.has(edge.id) ? 'pointer' : 'default' }}
       >
         {/* 透明的粗线用于更容易点击 */}
         {isEditMode && (
@@ -1370,6 +1551,34 @@ export default function FocusView({
           />
         )}
 
+        {/* 差异对比高亮 */}
+        {diffKind && (
+          <line
+            x1={startX}
+            y1={startY}
+            x2={endX}
+            y2={endY}
+            stroke={DIFF_COLORS[diffKind]}
+            strokeWidth={8}
+            opacity={0.35}
+            strokeLinecap="round"
+          />
+        )}
+
+        {/* 假设推演中修改了强度的关系 */}
+        {isWhatIfEdge && (
+          <line
+            x1={startX}
+            y1={startY}
+            x2={endX}
+            y2={endY}
+            stroke={WHAT_IF_COLORS.overridden}
+            strokeWidth={8}
+            opacity={0.35}
+            strokeLinecap="round"
+          />
+        )}
+
         {/* 暗夜模式(neon) - 霓虹发光效果 */}
         {isNeonMode && !isUnrelated && (
           <line
@@ -1624,6 +1833,9 @@ export default function FocusView({
             </text>
           </g>
         )}
+
+        {/* 评论数 */}
+        {renderCommentBadge('edge', edge.id, (startX + endX) / 2, (startY + endY) / 2 + 10)}
       </g>
     );
   };
@@ -1681,6 +1893,23 @@ export default function FocusView({
           </button>
         </div>
 
+        {/* 顶部居中：在线协作者及其所在场景 */}
+        {presence.length > 0 && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex flex-wrap justify-center gap-1.5 max-w-[50%]">
+            {presence.map((p) => (
+              <span
+                key={p.clientId}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-full text-xs"
+                style={{ background: 'var(--color-surface)', boxShadow: 'var(--shadow)', color: 'var(--color-text-secondary)' }}
+                title={p.sceneId === (currentSceneId ?? null) ? '与你在同一视图' : undefined}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ background: p.color }} />
+                {p.name} · {p.sceneId ? sceneNames?.get(p.sceneId) ?? '场景' : '概览'}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* 布局保存成功提示 (Ctrl+S 手动保存时显示) */}
         {showSaveToast && (
           <div
@@ -1705,6 +1934,21 @@ export default function FocusView({
           <button onClick={handleResetView} className="p-2 rounded" style={{ color: 'var(--color-text-secondary)' }} title="重置视图">
             <Maximize2 size={18} />
           </button>
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            className="p-2 rounded"
+            style={{ color: showExportMenu ? 'var(--color-primary)' : 'var(--color-text-secondary)' }}
+            title="导出为 SVG / PNG"
+          >
+            <ImageDown size={18} />
+          </button>
+          {showExportMenu && (
+            <CanvasExportMenu
+              hasFocus={!!focusedNodeId}
+              onExport={handleExportCanvas}
+              onClose={() => setShowExportMenu(false)}
+            />
+          )}
         </div>
 
         {/* 缩放比例 */}
@@ -2003,17 +2247,17 @@ export default function FocusView({
             </defs>
 
             {/* 画布背景 */}
-            <rect x={0} y={0} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} fill={canvasColors.canvasBg} stroke={canvasColors.canvasBorder} strokeWidth={3} rx={12} />
-            <rect x={0} y={0} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} fill="url(#grid)" />
+            <rect data-export="background" x={0} y={0} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} fill={canvasColors.canvasBg} stroke={canvasColors.canvasBorder} strokeWidth={3} rx={12} />
+            <rect data-export="grid" x={0} y={0} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} fill="url(#grid)" />
 
             {/* 渲染边 */}
             <g>{edges.map(renderEdge)}</g>
 
             {/* 渲染正在创建的连线 */}
-            {renderConnectingLine()}
+            <g data-export="transient">{renderConnectingLine()}</g>
 
             {/* 渲染节点 */}
-            <g>{nodes.map(renderNode)}</g>
+            <g data-export="nodes">{nodes.map(renderNode)}</g>
           </svg>
         </div>
 
@@ -2071,6 +2315,16 @@ export default function FocusView({
                 <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>{focusInfo.node.content}</p>
               )}
             </div>
+            {onOpenComments && (
+              <button
+                onClick={() => onOpenComments('node', focusInfo.node.id)}
+                className="mt-2 flex items-center gap-1 text-xs"
+                style={{ color: 'var(--color-primary)' }}
+              >
+                <MessageSquare size={12} />
+                评论{commentCounts?.get(focusInfo.node.id) ? ` (${commentCounts.get(focusInfo.node.id)!.total})` : ''}
+              </button>
+            )}
           </div>
 
           {/* 相邻节点列表 */}
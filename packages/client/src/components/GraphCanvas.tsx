@@ -24,8 +24,7 @@ import 'reactflow/dist/style.css';
 import DecisionNode from './DecisionNode';
 import { useGraphStore } from '../store/graphStore';
 import { usePropagationStore } from '../store/propagationStore';
-import { EDGE_TYPE_CONFIG, EdgeType, GraphNode, GraphEdge } from '../types';
-import { LogicState } from '../utils/propagation';
+import { EDGE_TYPE_CONFIG, EdgeType, GraphNode, GraphEdge, ComputedStatus } from '../types';
 
 // 自定义节点类型
 const nodeTypes = {
@@ -33,7 +32,7 @@ const nodeTypes = {
 };
 
 // 将后端数据转换为 ReactFlow 格式
-function toReactFlowNode(node: GraphNode, logicState?: LogicState): Node {
+function toReactFlowNode(node: GraphNode, computedStatus?: ComputedStatus): Node {
   return {
     id: node.id,
     type: 'decision',
@@ -45,7 +44,7 @@ function toReactFlowNode(node: GraphNode, logicState?: LogicState): Node {
       confidence: node.confidence,
       weight: node.weight,
       calculatedScore: node.calculatedScore,
-      logicState,
+      computedStatus,
     },
   };
 }
@@ -93,10 +92,10 @@ export default function GraphCanvas({ onNodeClick, onEdgeClick, onPaneClick }: G
   } = useGraphStore();
 
   const {
-    nodeStates,
+    computedStatuses,
     autoPropagate,
     runPropagation,
-    getNodeLogicState,
+    getComputedStatus,
   } = usePropagationStore();
 
   // 运行状态传播
@@ -106,10 +105,10 @@ export default function GraphCanvas({ onNodeClick, onEdgeClick, onPaneClick }: G
     }
   }, [storeNodes, storeEdges, autoPropagate, runPropagation]);
 
-  // 转换为 ReactFlow 格式，包含逻辑状态
+  // 转换为 ReactFlow 格式，包含计算状态
   const initialNodes = useMemo(
-    () => storeNodes.map((node) => toReactFlowNode(node, getNodeLogicState(node.id))),
-    [storeNodes, nodeStates]
+    () => storeNodes.map((node) => toReactFlowNode(node, getComputedStatus(node.id))),
+    [storeNodes, computedStatuses]
   );
   const initialEdges = useMemo(() => storeEdges.map(toReactFlowEdge), [storeEdges]);
 
@@ -118,8 +117,8 @@ export default function GraphCanvas({ onNodeClick, onEdgeClick, onPaneClick }: G
 
   // 同步 store 变化
   useEffect(() => {
-    setNodes(storeNodes.map((node) => toReactFlowNode(node, getNodeLogicState(node.id))));
-  }, [storeNodes, nodeStates, setNodes, getNodeLogicState]);
+    setNodes(storeNodes.map((node) => toReactFlowNode(node, getComputedStatus(node.id))));
+  }, [storeNodes, computedStatuses, setNodes, getComputedStatus]);
 
   useEffect(() => {
     setEdges(storeEdges.map(toReactFlowEdge));
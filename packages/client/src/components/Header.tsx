@@ -3,6 +3,7 @@
  */
 
 import { ArrowLeft, Settings, Save } from 'lucide-react';
+import SyncMenu from './SyncMenu';
 
 interface HeaderProps {
   title?: string;
@@ -54,6 +55,7 @@ export default function Header({ title, onBack, onSave, onSettings }: HeaderProp
             保存
           </button>
         )}
+        <SyncMenu />
         <button
           onClick={onSettings}
           className="p-2 rounded-lg transition-colors hover:bg-gray-100"
@@ -1,18 +1,37 @@
 /**
  * 导入对话框组件
  * 处理导入文件选择、冲突检测和解决选项
+ * 除 JSON 导出文件外，也可以粘贴（或选择）文本导出格式、Mermaid 流程图或 DOT，解析结果实时预览；
+ * 图表中无法识别的形状需先指定节点类型
  */
 
 import { useState, useRef, useCallback } from 'react';
-import { X, Upload, AlertTriangle, FileJson, Check } from 'lucide-react';
+import { X, Upload, AlertTriangle, FileJson, FileText, Check, GitCompare } from 'lucide-react';
 import {
   ExportedScene,
   ExportedProject,
   ConflictResolution,
+  TextParseResult,
+  TextImportFormat,
   readJsonFile,
+  readTextFile,
+  parseImportText,
+  applyShapeMapping,
   findConflictingNodes,
 } from '../utils/exportImport';
-import { SceneGraphNode, Scene } from '../types';
+import { SceneGraphNode, Scene, NodeType, NODE_TYPE_CONFIG, EDGE_TYPE_CONFIG, getStatusOptionsForType } from '../types';
+
+// 预览中最多列出的解析错误数
+const MAX_LISTED_ERRORS = 8;
+
+const FORMAT_LABELS: Record<TextImportFormat, string> = {
+  text: '文本',
+  mermaid: 'Mermaid',
+  dot: 'DOT',
+};
+
+// 未识别形状可映射的节点类型（不含废弃类型）
+const MAPPABLE_NODE_TYPES = Object.entries(NODE_TYPE_CONFIG).filter(([, config]) => !config.deprecated);
 
 interface ImportDialogProps {
   isOpen: boolean;
@@ -25,6 +44,8 @@ interface ImportDialogProps {
       newSceneName?: string;
     }
   ) => Promise<void>;
+  // 不直接导入，而是与当前项目逐项对比后再合并
+  onCompare?: (data: ExportedScene | ExportedProject) => void;
   existingNodes: SceneGraphNode[];
   existingScenes: Scene[];
   currentSceneId: string | null;
@@ -34,6 +55,7 @@ export default function ImportDialog({
   isOpen,
   onClose,
   onImport,
+  onCompare,
   existingNodes,
   existingScenes,
   currentSceneId,
@@ -41,6 +63,10 @@ export default function ImportDialog({
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // 状态
+  const [mode, setMode] = useState<'file' | 'text'>('file');
+  const [text, setText] = useState('');
+  const [textResult, setTextResult] = useState<TextParseResult | null>(null);
+  const [shapeMapping, setShapeMapping] = useState<Record<string, string>>({});
   const [importData, setImportData] = useState<ExportedScene | ExportedProject | null>(null);
   const [conflictCount, setConflictCount] = useState(0);
   const [conflictResolution, setConflictResolution] = useState<ConflictResolution>('keepBoth');
@@ -50,6 +76,60 @@ export default function ImportDialog({
   const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // 载入待导入的数据：检测冲突并设置默认场景名
+  const loadImportData = useCallback((data: ExportedScene | ExportedProject) => {
+    setImportData(data);
+
+    // 检测冲突
+    const conflicts = findConflictingNodes(data.nodes, existingNodes);
+    setConflictCount(conflicts.size);
+
+    // 设置默认场景名
+    if (data.exportType === 'scene') {
+      setNewSceneName(data.scene.name + ' (导入)');
+    } else {
+      setNewSceneName('导入的项目');
+    }
+  }, [existingNodes]);
+
+  // 有错误、没有节点或还有形状未指定类型时不可导入
+  const refreshTextImport = useCallback((result: TextParseResult | null, mapping: Record<string, string>) => {
+    const ready = result
+      && result.errors.length === 0
+      && result.scene.nodes.length > 0
+      && result.unknownShapes.every(u => mapping[u.shape]);
+    if (ready) {
+      loadImportData(result.unknownShapes.length > 0 ? applyShapeMapping(result, mapping) : result.scene);
+    } else {
+      setImportData(null);
+    }
+  }, [loadImportData]);
+
+  // 文本变化时重新解析
+  const handleTextChange = useCallback((value: string) => {
+    setText(value);
+    const result = value.trim() ? parseImportText(value) : null;
+    setTextResult(result);
+    refreshTextImport(result, shapeMapping);
+  }, [shapeMapping, refreshTextImport]);
+
+  const handleShapeMappingChange = useCallback((shape: string, type: string) => {
+    const mapping = { ...shapeMapping, [shape]: type };
+    setShapeMapping(mapping);
+    refreshTextImport(textResult, mapping);
+  }, [shapeMapping, textResult, refreshTextImport]);
+
+  // 切换导入方式
+  const handleModeChange = useCallback((next: 'file' | 'text') => {
+    setMode(next);
+    setError(null);
+    if (next === 'text') {
+      handleTextChange(text);
+    } else {
+      setImportData(null);
+    }
+  }, [text, handleTextChange]);
+
   // 处理文件选择
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -58,18 +138,12 @@ export default function ImportDialog({
     setError(null);
 
     try {
-      const data = await readJsonFile(file);
-      setImportData(data);
-
-      // 检测冲突
-      const conflicts = findConflictingNodes(data.nodes, existingNodes);
-      setConflictCount(conflicts.size);
-
-      // 设置默认场景名
-      if (data.exportType === 'scene') {
-        setNewSceneName(data.scene.name + ' (导入)');
+      if (file.name.toLowerCase().endsWith('.json')) {
+        loadImportData(await readJsonFile(file));
       } else {
-        setNewSceneName('导入的项目');
+        // 文本导出文件：切到文本模式，便于预览和修改
+        setMode('text');
+        handleTextChange(await readTextFile(file));
       }
     } catch (err: any) {
       setError(err.message);
@@ -80,7 +154,7 @@ export default function ImportDialog({
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, [existingNodes]);
+  }, [loadImportData, handleTextChange]);
 
   // 执行导入
   const handleImport = useCallback(async () => {
@@ -116,6 +190,10 @@ export default function ImportDialog({
 
   // 关闭对话框
   const handleClose = useCallback(() => {
+    setMode('file');
+    setText('');
+    setTextResult(null);
+    setShapeMapping({});
     setImportData(null);
     setConflictCount(0);
     setConflictResolution('keepBoth');
@@ -144,46 +222,91 @@ export default function ImportDialog({
 
         {/* 内容区 */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* 导入方式 */}
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+            {([
+              { key: 'file', label: '选择文件', icon: FileJson },
+              { key: 'text', label: '粘贴文本', icon: FileText },
+            ] as const).map(({ key, label, icon: Icon }) => (
+              <button
+                key={key}
+                onClick={() => handleModeChange(key)}
+                className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 text-sm rounded-md transition-colors ${
+                  mode === key ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+          </div>
+
           {/* 文件选择区 */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              选择导出文件
-            </label>
-            <div
-              onClick={() => fileInputRef.current?.click()}
-              className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors"
-            >
-              {importData ? (
-                <div className="flex items-center justify-center gap-3">
-                  <FileJson size={24} className="text-blue-500" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-800">
-                      {importData.exportType === 'scene'
-                        ? importData.scene.name
-                        : importData.project.title}
-                    </p>
-                    <p className="text-sm text-gray-500">
-                      {importData.nodes.length} 个节点，{importData.edges.length} 条关系
-                    </p>
+          {mode === 'file' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                选择导出文件
+              </label>
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors"
+              >
+                {importData ? (
+                  <div className="flex items-center justify-center gap-3">
+                    <FileJson size={24} className="text-blue-500" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-800">
+                        {importData.exportType === 'scene'
+                          ? importData.scene.name
+                          : importData.project.title}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {importData.nodes.length} 个节点，{importData.edges.length} 条关系
+                      </p>
+                    </div>
+                    <Check size={20} className="text-green-500 ml-2" />
                   </div>
-                  <Check size={20} className="text-green-500 ml-2" />
-                </div>
-              ) : (
-                <div>
-                  <Upload size={32} className="mx-auto text-gray-400 mb-2" />
-                  <p className="text-gray-600">点击选择 JSON 文件</p>
-                  <p className="text-sm text-gray-400 mt-1">支持 .json 格式</p>
-                </div>
+                ) : (
+                  <div>
+                    <Upload size={32} className="mx-auto text-gray-400 mb-2" />
+                    <p className="text-gray-600">点击选择导出文件</p>
+                    <p className="text-sm text-gray-400 mt-1">支持 .json、文本导出（.txt / .md）、Mermaid（.mmd）和 DOT（.dot / .gv）</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* 文本输入区：格式与「导出为文本」一致 */}
+          {mode === 'text' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                粘贴文本
+              </label>
+              <textarea
+                value={text}
+                onChange={(e) => handleTextChange(e.target.value)}
+                placeholder={'支持文本导出格式、Mermaid 流程图和 Graphviz DOT\n\n# 场景名\n## 节点\n事实:市场需求大[存疑]\n行动:开发 MVP[待执行]\n目标:上线产品\n## 关系\n市场需求大 -促成-> 开发 MVP\n开发 MVP -实现-> 上线产品'}
+                spellCheck={false}
+                className="w-full h-40 px-3 py-2 border rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              {textResult && (
+                <TextPreview
+                  result={textResult}
+                  shapeMapping={shapeMapping}
+                  onShapeMappingChange={handleShapeMappingChange}
+                />
               )}
             </div>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".json"
-              onChange={handleFileSelect}
-              className="hidden"
-            />
-          </div>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.txt,.md,.mmd,.mermaid,.dot,.gv"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
 
           {/* 错误提示 */}
           {error && (
@@ -339,6 +462,21 @@ export default function ImportDialog({
           >
             取消
           </button>
+          {onCompare && (
+            <button
+              onClick={() => {
+                if (!importData) return;
+                onCompare(importData);
+                handleClose();
+              }}
+              disabled={!importData || isImporting}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              title="与当前项目逐项对比，选择要合并的变更"
+            >
+              <GitCompare size={16} />
+              对比差异
+            </button>
+          )}
           <button
             onClick={handleImport}
             disabled={!importData || isImporting || (targetOption === 'select' && !selectedSceneId)}
@@ -361,3 +499,109 @@ export default function ImportDialog({
     </div>
   );
 }
+
+/**
+ * 文本解析结果预览：逐行列出错误，无错误时列出将导入的节点和关系，
+ * 图表中无法识别的形状在这里指定节点类型
+ */
+function TextPreview({
+  result,
+  shapeMapping,
+  onShapeMappingChange,
+}: {
+  result: TextParseResult;
+  shapeMapping: Record<string, string>;
+  onShapeMappingChange: (shape: string, type: string) => void;
+}) {
+  const { format, errors, scene, sceneHeadings, unknownShapes } = result;
+
+  if (errors.length > 0) {
+    return (
+      <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs space-y-1">
+        {errors.slice(0, MAX_LISTED_ERRORS).map((err, i) => (
+          <p key={i}>
+            <span className="font-medium">第 {err.line} 行：</span>
+            {err.message}
+          </p>
+        ))}
+        {errors.length > MAX_LISTED_ERRORS && (
+          <p className="text-red-500">还有 {errors.length - MAX_LISTED_ERRORS} 个错误</p>
+        )}
+      </div>
+    );
+  }
+
+  if (scene.nodes.length === 0) {
+    return <p className="mt-2 text-xs text-gray-500">没有解析到节点</p>;
+  }
+
+  const titleOf = new Map(scene.nodes.map(n => [n.id, n.title]));
+  const shapeOf = new Map(unknownShapes.flatMap(u => u.nodeIds.map(id => [id, u.shape] as const)));
+  const statusLabel = (type: string, value?: string) =>
+    getStatusOptionsForType(type as NodeType).find(o => o.value === value)?.label;
+
+  return (
+    <div className="mt-2 border rounded-lg text-xs">
+      {unknownShapes.length > 0 && (
+        <div className="p-3 border-b bg-amber-50 space-y-2">
+          <p className="flex items-center gap-1.5 text-amber-700">
+            <AlertTriangle size={14} />
+            以下形状无法对应节点类型，请指定：
+          </p>
+          {unknownShapes.map(({ shape, nodeIds }) => (
+            <div key={shape} className="flex items-center gap-2">
+              <span className="flex-1 text-gray-700">
+                {shape}
+                <span className="text-gray-400 ml-1">（{nodeIds.length} 个节点）</span>
+              </span>
+              <select
+                value={shapeMapping[shape] || ''}
+                onChange={(e) => onShapeMappingChange(shape, e.target.value)}
+                className="px-2 py-1 border rounded text-xs bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">选择类型</option>
+                {MAPPABLE_NODE_TYPES.map(([type, config]) => (
+                  <option key={type} value={type}>{config.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-gray-50 text-gray-600">
+        <span>
+          {FORMAT_LABELS[format]}预览：{scene.nodes.length} 个节点，{scene.edges.length} 条关系
+        </span>
+        {sceneHeadings.length > 1 && (
+          <span className="text-gray-400">{sceneHeadings.length} 个场景将合并导入</span>
+        )}
+      </div>
+      <div className="max-h-40 overflow-y-auto p-3 space-y-1">
+        {scene.nodes.map(node => {
+          // 未识别形状的节点按当前映射预览
+          const type = node.type || shapeMapping[shapeOf.get(node.id) ?? ''] || '';
+          const config = NODE_TYPE_CONFIG[type];
+          const status = statusLabel(type, node.baseStatus);
+          return (
+            <div key={node.id} className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: config?.color }} />
+              <span className="text-gray-400">{config?.label ?? '待指定'}</span>
+              <span className="text-gray-800 truncate">{node.title}</span>
+              {status && <span className="text-gray-400 ml-auto flex-shrink-0">{status}</span>}
+            </div>
+          );
+        })}
+        {scene.edges.length > 0 && <div className="border-t my-2" />}
+        {scene.edges.map((edge, i) => (
+          <div key={i} className="text-gray-600 truncate">
+            {titleOf.get(edge.sourceNodeId)}
+            <span className="mx-1" style={{ color: EDGE_TYPE_CONFIG[edge.type]?.color }}>
+              -{EDGE_TYPE_CONFIG[edge.type]?.label}→
+            </span>
+            {titleOf.get(edge.targetNodeId)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
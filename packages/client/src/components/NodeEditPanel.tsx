@@ -2,11 +2,17 @@
  * 节点编辑面板 (v2.2)
  * 用于创建和编辑节点的属性
  * 支持 baseStatus 设置和 computedStatus 显示
+ * 「历史」页签按时间线展示节点的字段变更及变更原因，「评论」页签为节点上的讨论串
+ * 事实/假设节点可挂结构化证据，假设节点有证据时置信度由证据计算
+ * 编辑期间节点在别处（另一个标签页或 AI 助手）被修改时，有未保存的修改则先提示，不直接覆盖表单
  */
 
 import { useState, useEffect } from 'react';
-import { X, Save, Trash2, Zap, AlertTriangle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { X, Save, Trash2, Zap, AlertTriangle, CheckCircle, XCircle, Clock, History, MessageSquare } from 'lucide-react';
+import { computeEvidenceConfidence } from '@solvechain/shared';
 import { useGraphStore } from '../store/graphStore';
+import EvidenceEditor from './EvidenceEditor';
+import CommentThreads from './CommentThreads';
 import {
   GraphNode,
   NodeType,
@@ -14,6 +20,9 @@ import {
   getStatusOptionsForType,
   DEFAULT_BASE_STATUS,
   BaseStatus,
+  FactStatus,
+  NodeHistoryEntry,
+  EvidenceItem,
 } from '../types';
 
 interface NodeEditPanelProps {
@@ -22,7 +31,81 @@ interface NodeEditPanelProps {
   onDelete?: (nodeId: string) => void;
   // 支持外部传入数据（v2.0 项目模式）
   nodes?: GraphNode[];
-  onUpdateNode?: (nodeId: string, data: Partial<GraphNode>) => Promise<void>;
+  onUpdateNode?: (nodeId: string, data: Partial<GraphNode>, reason?: string) => Promise<void>;
+  // 提供时显示「历史」页签
+  onFetchHistory?: (nodeId: string) => Promise<NodeHistoryEntry[]>;
+  // 提供时显示「评论」页签（项目模式），值为节点上的评论数
+  commentCount?: number;
+}
+
+// 历史记录中的字段名
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  type: '类型',
+  title: '标题',
+  content: '内容',
+  baseStatus: '状态',
+  confidence: '置信度',
+  weight: '权重',
+  autoUpdate: '自动更新',
+  evidence: '证据',
+};
+
+// 所有类型的状态值 → 中文标签（历史记录里的旧状态可能属于另一种节点类型）
+const STATUS_LABELS: Record<string, string> = Object.fromEntries(
+  Object.values(NodeType).flatMap((t) => getStatusOptionsForType(t).map((o) => [o.value, o.label]))
+);
+
+function formatHistoryValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '（空）';
+  if (field === 'type') return NODE_TYPE_CONFIG[value as NodeType]?.label ?? String(value);
+  if (field === 'baseStatus') return STATUS_LABELS[String(value)] ?? String(value);
+  if (field === 'confidence') return `${value}%`;
+  if (field === 'autoUpdate') return value ? '开' : '关';
+  if (field === 'evidence') return Array.isArray(value) ? `${value.length} 条` : String(value);
+  if (typeof value === 'number') return value.toFixed(1);
+  return String(value);
+}
+
+// 同一次保存写入的多条记录 createdAt 相同，合并为时间线上的一项
+function groupHistory(entries: NodeHistoryEntry[]): NodeHistoryEntry[][] {
+  const groups: NodeHistoryEntry[][] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].createdAt === entry.createdAt) last.push(entry);
+    else groups.push([entry]);
+  }
+  return groups;
+}
+
+// 表单对应的节点字段；用于判断本地是否有未保存的修改、节点是否在别处被修改
+interface FormValues {
+  title: string;
+  content: string;
+  type: NodeType;
+  confidence: number;
+  weight: number | null;
+  baseStatus: string;
+  autoUpdate: boolean;
+  evidence: EvidenceItem[];
+}
+
+function formValuesOf(node: GraphNode): FormValues {
+  return {
+    title: node.title,
+    content: node.content || '',
+    type: node.type,
+    confidence: node.confidence,
+    // 旧版 0-100 的权重使用默认值
+    weight: node.weight > 2 ? null : node.weight || null,
+    // v2.2: baseStatus
+    baseStatus: node.baseStatus || DEFAULT_BASE_STATUS[node.type],
+    autoUpdate: node.autoUpdate ?? false,
+    evidence: node.evidence ?? [],
+  };
+}
+
+function sameValues(a: FormValues, b: FormValues): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
 }
 
 export default function NodeEditPanel({
@@ -30,7 +113,9 @@ export default function NodeEditPanel({
   onClose,
   onDelete,
   nodes: propNodes,
-  onUpdateNode: propUpdateNode
+  onUpdateNode: propUpdateNode,
+  onFetchHistory,
+  commentCount,
 }: NodeEditPanelProps) {
   const graphStore = useGraphStore();
 
@@ -47,7 +132,14 @@ export default function NodeEditPanel({
   const [weight, setWeight] = useState<number | null>(null);  // null 表示使用默认值
   const [baseStatus, setBaseStatus] = useState<string>('');
   const [autoUpdate, setAutoUpdate] = useState(false);  // 只有约束/结论节点使用
+  const [evidence, setEvidence] = useState<EvidenceItem[]>([]);  // 只有事实/假设节点使用
   const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState('');
+  const [tab, setTab] = useState<'edit' | 'history' | 'comments'>('edit');
+  const [history, setHistory] = useState<NodeHistoryEntry[]>([]);
+  // 表单载入时的节点内容，以及编辑期间在别处被修改后的新内容
+  const [loaded, setLoaded] = useState<{ id: string; values: FormValues } | null>(null);
+  const [conflict, setConflict] = useState<FormValues | null>(null);
 
   // 默认权重配置
   const DEFAULT_WEIGHTS: Record<NodeType, number> = {
@@ -78,29 +170,44 @@ export default function NodeEditPanel({
   // 记录初始类型，用于判断类型是否由用户改变
   const [initialType, setInitialType] = useState<NodeType | null>(null);
 
+  const loadForm = (id: string, values: FormValues) => {
+    setTitle(values.title);
+    setContent(values.content);
+    setType(values.type);
+    setInitialType(values.type);  // 记录初始类型
+    setConfidence(values.confidence);
+    setWeight(values.weight);
+    setBaseStatus(values.baseStatus);
+    setAutoUpdate(values.autoUpdate);
+    setEvidence(values.evidence);
+    setReason('');
+    setLoaded({ id, values });
+    setConflict(null);
+  };
+
   // 加载节点数据
   useEffect(() => {
-    if (node) {
-      setTitle(node.title);
-      setContent(node.content || '');
-      setType(node.type);
-      setInitialType(node.type);  // 记录初始类型
-      setConfidence(node.confidence);
-      // 权重：如果节点有自定义权重则使用，否则为 null（使用默认）
-      const nodeWeight = node.weight;
-      // 判断是否是旧版 0-100 的权重，如果是则转换
-      if (nodeWeight > 2) {
-        setWeight(null);  // 旧数据使用默认值
-      } else {
-        setWeight(nodeWeight || null);
+    if (!node) return;
+    const incoming = formValuesOf(node);
+    if (loaded && loaded.id === node.id) {
+      // 可编辑的字段没有变化（如只是位置变了），保留表单
+      if (sameValues(incoming, loaded.values)) return;
+      const current: FormValues = { title, content, type, confidence, weight, baseStatus, autoUpdate, evidence };
+      if (!saving && !sameValues(current, loaded.values)) {
+        setConflict(incoming);
+        return;
       }
-      // v2.2: 加载 baseStatus
-      setBaseStatus(node.baseStatus || DEFAULT_BASE_STATUS[node.type]);
-      // 加载 autoUpdate
-      setAutoUpdate(node.autoUpdate ?? false);
     }
+    loadForm(node.id, incoming);
   }, [node]);
 
+  // 切换节点或节点被更新后重新读取历史
+  useEffect(() => {
+    if (!node || !onFetchHistory) return;
+    // 读取失败由 store 的 error 提示，这里不处理
+    void onFetchHistory(node.id).then(setHistory);
+  }, [node, onFetchHistory]);
+
   // 当类型改变时，重置 baseStatus 为该类型的默认值
   // 只有当用户主动改变类型时才重置（排除初始加载）
   useEffect(() => {
@@ -112,6 +219,21 @@ export default function NodeEditPanel({
 
   if (!node) return null;
 
+  // 事实/假设节点的证据；来源为空的条目不保存、不参与计算
+  const hasEvidence = type === NodeType.FACT || type === NodeType.ASSUMPTION;
+  const cleanedEvidence = evidence
+    .map((e) => ({ ...e, source: e.source.trim() }))
+    .filter((e) => e.source);
+  // 有证据时假设的置信度由证据计算，滑块只读
+  const evidenceConfidence = type === NodeType.ASSUMPTION ? computeEvidenceConfidence(cleanedEvidence) : null;
+
+  // 事实被否定、假设状态改变时，提示填写变更原因（可选）
+  const originalStatus = node.baseStatus || DEFAULT_BASE_STATUS[node.type];
+  const askReason =
+    type === node.type &&
+    baseStatus !== originalStatus &&
+    ((type === NodeType.FACT && baseStatus === FactStatus.DENIED) || type === NodeType.ASSUMPTION);
+
   const handleSave = async () => {
     if (!title.trim()) return;
 
@@ -121,8 +243,8 @@ export default function NodeEditPanel({
         title: title.trim(),
         content: content.trim() || undefined,
         type,
-        // 只有假设节点保存 confidence
-        confidence: type === NodeType.ASSUMPTION ? confidence : node.confidence,
+        // 只有假设节点保存 confidence（有证据时保存由证据计算的值）
+        confidence: type === NodeType.ASSUMPTION ? evidenceConfidence ?? confidence : node.confidence,
         // 权重使用实际值
         weight: getActualWeight(),
         // v2.2: 保存 baseStatus
@@ -131,7 +253,11 @@ export default function NodeEditPanel({
         autoUpdate: [NodeType.CONSTRAINT, NodeType.CONCLUSION, NodeType.INFERENCE].includes(type)
           ? autoUpdate
           : node.autoUpdate,
-      });
+        // 只有事实/假设节点保存证据
+        evidence: hasEvidence
+          ? (cleanedEvidence.length > 0 ? cleanedEvidence : undefined)
+          : node.evidence,
+      }, reason.trim() || undefined);
       onClose();
     } catch (error) {
       console.error('Failed to save node:', error);
@@ -164,7 +290,32 @@ export default function NodeEditPanel({
         className="p-4 flex items-center justify-between"
         style={{ borderBottom: '1px solid var(--color-border)' }}
       >
-        <h3 className="font-semibold" style={{ color: 'var(--color-text)' }}>编辑节点</h3>
+        <div className="flex items-center gap-3">
+          <h3 className="font-semibold" style={{ color: 'var(--color-text)' }}>编辑节点</h3>
+          {(onFetchHistory || commentCount !== undefined) && (
+            <div className="flex text-xs rounded overflow-hidden" style={{ border: '1px solid var(--color-border)' }}>
+              {(['edit', 'history', 'comments'] as const)
+                .filter((t) => (t !== 'history' || onFetchHistory) && (t !== 'comments' || commentCount !== undefined))
+                .map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className="px-2 py-1"
+                  style={{
+                    background: tab === t ? 'var(--color-primary-light)' : 'transparent',
+                    color: tab === t ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+                  }}
+                >
+                  {t === 'edit'
+                    ? '编辑'
+                    : t === 'history'
+                      ? `历史${history.length > 0 ? ` (${groupHistory(history).length})` : ''}`
+                      : `评论${commentCount ? ` (${commentCount})` : ''}`}
+                </button>
+                ))}
+            </div>
+          )}
+        </div>
         <button
           onClick={onClose}
           className="p-1 rounded"
@@ -175,343 +326,471 @@ export default function NodeEditPanel({
         </button>
       </div>
 
-      {/* 内容 */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {/* 节点类型 */}
-        <div>
-          <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
-            节点类型
-          </label>
-          <select
-            value={type}
-            onChange={(e) => setType(e.target.value as NodeType)}
-            className="w-full rounded-lg px-3 py-2 focus:outline-none"
-            style={{
-              background: 'var(--color-bg)',
-              border: '1px solid var(--color-border)',
-              color: 'var(--color-text)',
-            }}
-          >
-            {/* v2.1 只显示新类型，不显示废弃类型 */}
-            {Object.entries(NODE_TYPE_CONFIG)
-              .filter(([, cfg]) => !cfg.deprecated)
-              .map(([key, cfg]) => (
-                <option key={key} value={key}>
-                  {cfg.label}
-                </option>
-              ))}
-          </select>
-          <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
-            {NODE_TYPE_CONFIG[type]?.description || ''}
-          </p>
-        </div>
-
-        {/* 标题 */}
-        <div>
-          <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
-            标题 <span style={{ color: 'var(--color-error)' }}>*</span>
-          </label>
-          <input
-            type="text"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            placeholder="简短描述这个节点"
-            className="w-full rounded-lg px-3 py-2 focus:outline-none"
-            style={{
-              background: 'var(--color-bg)',
-              border: '1px solid var(--color-border)',
-              color: 'var(--color-text)',
-            }}
-            maxLength={100}
-          />
-        </div>
-
-        {/* 内容 */}
-        <div>
-          <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
-            详细内容
-          </label>
-          <textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="详细描述或解释..."
-            rows={4}
-            className="w-full rounded-lg px-3 py-2 resize-none focus:outline-none"
-            style={{
-              background: 'var(--color-bg)',
-              border: '1px solid var(--color-border)',
-              color: 'var(--color-text)',
-            }}
-          />
-        </div>
-
-        {/* 权重 (0.1 - 2.0) */}
-        <div>
-          <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
-            权重: {getActualWeight().toFixed(1)} ({getWeightLabel(getActualWeight())})
-            {weight === null && (
-              <span className="text-xs ml-2" style={{ color: 'var(--color-text-muted)' }}>默认</span>
+      {tab === 'history' && onFetchHistory ? (
+        <HistoryTimeline entries={history} />
+      ) : tab === 'comments' && commentCount !== undefined ? (
+        <CommentThreads targetType="node" targetId={node.id} />
+      ) : (
+        <>
+          {/* 内容 */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* 编辑冲突提示 */}
+            {conflict && (
+              <div
+                className="rounded-lg p-3 text-xs space-y-2"
+                style={{ background: 'var(--color-warning-bg)', border: '1px solid var(--color-warning)', color: 'var(--color-text)' }}
+              >
+                <div className="flex items-center gap-1.5 font-medium" style={{ color: 'var(--color-warning)' }}>
+                  <AlertTriangle size={14} />
+                  节点已在别处被修改
+                </div>
+                <p style={{ color: 'var(--color-text-secondary)' }}>
+                  另一个标签页或 AI 助手刚刚修改了这个节点，而这里还有未保存的修改。
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => loadForm(node.id, conflict)}
+                    className="px-2 py-1 rounded"
+                    style={{ background: 'var(--color-warning)', color: '#fff' }}
+                  >
+                    载入最新内容
+                  </button>
+                  <button
+                    onClick={() => {
+                      setLoaded({ id: node.id, values: conflict });
+                      setConflict(null);
+                    }}
+                    className="px-2 py-1 rounded"
+                    style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+                  >
+                    保留我的修改
+                  </button>
+                </div>
+              </div>
             )}
-          </label>
-          <input
-            type="range"
-            min={0.1}
-            max={2.0}
-            step={0.1}
-            value={getActualWeight()}
-            onChange={(e) => setWeight(Number(e.target.value))}
-            className="w-full h-2 rounded-lg appearance-none cursor-pointer"
-            style={{ background: 'var(--color-bg-tertiary)' }}
-          />
-          <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
-            <span>0.1 很低</span>
-            <span>1.0 标准</span>
-            <span>2.0 很高</span>
-          </div>
-          {weight !== null && (
-            <button
-              onClick={() => setWeight(null)}
-              className="mt-1 text-xs"
-              style={{ color: 'var(--color-primary)' }}
-            >
-              恢复默认 ({DEFAULT_WEIGHTS[type].toFixed(1)})
-            </button>
-          )}
-        </div>
 
-        {/* 置信度 - 只有假设节点显示 */}
-        {type === NodeType.ASSUMPTION && (
-          <div>
-            <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
-              置信度: {confidence}%
-              <span className="text-xs ml-2" style={{ color: 'var(--color-text-muted)' }}>（认为它为真的概率）</span>
-            </label>
-            <input
-              type="range"
-              min={0}
-              max={100}
-              value={confidence}
-              onChange={(e) => setConfidence(Number(e.target.value))}
-              className="w-full h-2 rounded-lg appearance-none cursor-pointer"
-              style={{ background: 'var(--color-bg-tertiary)' }}
-            />
-            <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
-              <span>0% 不可能</span>
-              <span>50% 不确定</span>
-              <span>100% 确定</span>
-            </div>
-          </div>
-        )}
-
-        {/* 自动更新开关 - 只有约束和结论节点显示 */}
-        {[NodeType.CONSTRAINT, NodeType.CONCLUSION, NodeType.INFERENCE].includes(type) && (
-          <div
-            className="flex items-center justify-between p-3 rounded-lg"
-            style={{ background: 'var(--color-bg-secondary)' }}
-          >
+            {/* 节点类型 */}
             <div>
-              <label className="text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
-                自动更新
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                节点类型
               </label>
-              <p className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
-                {type === NodeType.CONSTRAINT
-                  ? '由行动状态自动计算'
-                  : '由导致关系自动计算'}
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as NodeType)}
+                className="w-full rounded-lg px-3 py-2 focus:outline-none"
+                style={{
+                  background: 'var(--color-bg)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+              >
+                {/* v2.1 只显示新类型，不显示废弃类型 */}
+                {Object.entries(NODE_TYPE_CONFIG)
+                  .filter(([, cfg]) => !cfg.deprecated)
+                  .map(([key, cfg]) => (
+                    <option key={key} value={key}>
+                      {cfg.label}
+                    </option>
+                  ))}
+              </select>
+              <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {NODE_TYPE_CONFIG[type]?.description || ''}
               </p>
             </div>
-            <button
-              onClick={() => setAutoUpdate(!autoUpdate)}
-              className="relative w-11 h-6 rounded-full transition-colors"
-              style={{ background: autoUpdate ? 'var(--color-primary)' : 'var(--color-bg-tertiary)' }}
-            >
-              <span
-                className="absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform"
-                style={{ transform: autoUpdate ? 'translateX(20px)' : 'translateX(0)' }}
+
+            {/* 标题 */}
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                标题 <span style={{ color: 'var(--color-error)' }}>*</span>
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="简短描述这个节点"
+                className="w-full rounded-lg px-3 py-2 focus:outline-none"
+                style={{
+                  background: 'var(--color-bg)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+                maxLength={100}
               />
-            </button>
-          </div>
-        )}
-
-        {/* v2.2: 基础状态选择器 */}
-        <div>
-          <label className="block text-sm font-medium mb-2" style={{ color: 'var(--color-text-secondary)' }}>
-            <span className="flex items-center gap-1">
-              <Zap size={14} />
-              状态
-            </span>
-          </label>
-          <div className="grid grid-cols-2 gap-2">
-            {getStatusOptionsForType(type).map((option) => (
-              <button
-                key={option.value}
-                onClick={() => setBaseStatus(option.value)}
-                className="px-3 py-2 rounded-lg text-sm font-medium transition-all"
+            </div>
+
+            {/* 内容 */}
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                详细内容
+              </label>
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="详细描述或解释..."
+                rows={4}
+                className="w-full rounded-lg px-3 py-2 resize-none focus:outline-none"
                 style={{
-                  background: baseStatus === option.value ? 'var(--color-primary-light)' : 'var(--color-bg)',
-                  color: baseStatus === option.value ? 'var(--color-primary)' : 'var(--color-text-secondary)',
-                  border: `1px solid ${baseStatus === option.value ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                  background: 'var(--color-bg)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
                 }}
-              >
-                {option.label}
-              </button>
-            ))}
-          </div>
-        </div>
+              />
+            </div>
 
-        {/* v2.2: 计算状态显示 */}
-        {node.computedStatus && (
-          <div className="space-y-2">
-            <label className="block text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
-              系统分析
-            </label>
+            {/* 权重 (0.1 - 2.0) */}
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                权重: {getActualWeight().toFixed(1)} ({getWeightLabel(getActualWeight())})
+                {weight === null && (
+                  <span className="text-xs ml-2" style={{ color: 'var(--color-text-muted)' }}>默认</span>
+                )}
+              </label>
+              <input
+                type="range"
+                min={0.1}
+                max={2.0}
+                step={0.1}
+                value={getActualWeight()}
+                onChange={(e) => setWeight(Number(e.target.value))}
+                className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+                style={{ background: 'var(--color-bg-tertiary)' }}
+              />
+              <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
+                <span>0.1 很低</span>
+                <span>1.0 标准</span>
+                <span>2.0 很高</span>
+              </div>
+              {weight !== null && (
+                <button
+                  onClick={() => setWeight(null)}
+                  className="mt-1 text-xs"
+                  style={{ color: 'var(--color-primary)' }}
+                >
+                  恢复默认 ({DEFAULT_WEIGHTS[type].toFixed(1)})
+                </button>
+              )}
+            </div>
 
-            {/* 被阻塞 */}
-            {node.computedStatus.blocked && (
-              <div
-                className="flex items-start gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-warning-bg)', border: '1px solid var(--color-warning)', color: 'var(--color-warning)' }}
-              >
-                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
-                <div>
-                  <div className="font-medium">被阻塞</div>
-                  {node.computedStatus.blockedBy.length > 0 && (
-                    <div className="mt-1">
-                      阻塞来源: {node.computedStatus.blockedBy.map(id => {
-                        const n = nodes.find(x => x.id === id);
-                        return n?.title || id;
-                      }).join(', ')}
-                    </div>
-                  )}
+            {/* 置信度 - 只有假设节点显示 */}
+            {type === NodeType.ASSUMPTION && (
+              <div>
+                <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                  置信度: {evidenceConfidence ?? confidence}%
+                  <span className="text-xs ml-2" style={{ color: 'var(--color-text-muted)' }}>
+                    {evidenceConfidence !== null ? '（由证据计算）' : '（认为它为真的概率）'}
+                  </span>
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={evidenceConfidence ?? confidence}
+                  onChange={(e) => setConfidence(Number(e.target.value))}
+                  disabled={evidenceConfidence !== null}
+                  className="w-full h-2 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{ background: 'var(--color-bg-tertiary)' }}
+                />
+                <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
+                  <span>0% 不可能</span>
+                  <span>50% 不确定</span>
+                  <span>100% 确定</span>
                 </div>
               </div>
             )}
 
-            {/* 存在冲突 */}
-            {node.computedStatus.conflicted && (
+            {/* 证据 - 只有事实和假设节点显示 */}
+            {hasEvidence && (
+              <div>
+                <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                  证据 ({evidence.length})
+                </label>
+                <EvidenceEditor items={evidence} onChange={setEvidence} />
+              </div>
+            )}
+
+            {/* 自动更新开关 - 只有约束和结论节点显示 */}
+            {[NodeType.CONSTRAINT, NodeType.CONCLUSION, NodeType.INFERENCE].includes(type) && (
               <div
-                className="flex items-start gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-error-bg)', border: '1px solid var(--color-error)', color: 'var(--color-error)' }}
+                className="flex items-center justify-between p-3 rounded-lg"
+                style={{ background: 'var(--color-bg-secondary)' }}
               >
-                <XCircle size={14} className="mt-0.5 flex-shrink-0" />
                 <div>
-                  <div className="font-medium">存在矛盾</div>
-                  {node.computedStatus.conflictWith.length > 0 && (
-                    <div className="mt-1">
-                      冲突节点: {node.computedStatus.conflictWith.map(id => {
-                        const n = nodes.find(x => x.id === id);
-                        return n?.title || id;
-                      }).join(', ')}
-                    </div>
-                  )}
+                  <label className="text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+                    自动更新
+                  </label>
+                  <p className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
+                    {type === NodeType.CONSTRAINT
+                      ? '由行动状态自动计算'
+                      : '由导致关系自动计算'}
+                  </p>
                 </div>
+                <button
+                  onClick={() => setAutoUpdate(!autoUpdate)}
+                  className="relative w-11 h-6 rounded-full transition-colors"
+                  style={{ background: autoUpdate ? 'var(--color-primary)' : 'var(--color-bg-tertiary)' }}
+                >
+                  <span
+                    className="absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform"
+                    style={{ transform: autoUpdate ? 'translateX(20px)' : 'translateX(0)' }}
+                  />
+                </button>
               </div>
             )}
 
-            {/* 可执行 (行动节点) */}
-            {node.type === NodeType.ACTION && node.computedStatus.executable && (
-              <div
-                className="flex items-center gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-success-bg)', border: '1px solid var(--color-success)', color: 'var(--color-success)' }}
-              >
-                <CheckCircle size={14} />
-                <span className="font-medium">可执行</span>
+            {/* v2.2: 基础状态选择器 */}
+            <div>
+              <label className="block text-sm font-medium mb-2" style={{ color: 'var(--color-text-secondary)' }}>
+                <span className="flex items-center gap-1">
+                  <Zap size={14} />
+                  状态
+                </span>
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {getStatusOptionsForType(type).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setBaseStatus(option.value)}
+                    className="px-3 py-2 rounded-lg text-sm font-medium transition-all"
+                    style={{
+                      background: baseStatus === option.value ? 'var(--color-primary-light)' : 'var(--color-bg)',
+                      color: baseStatus === option.value ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+                      border: `1px solid ${baseStatus === option.value ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
               </div>
-            )}
+              {askReason && (
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={type === NodeType.FACT ? '为什么否定这个事实？（可选）' : '为什么改变这个假设？（可选）'}
+                  rows={2}
+                  className="mt-2 w-full rounded-lg px-3 py-2 text-sm resize-none focus:outline-none"
+                  style={{
+                    background: 'var(--color-bg)',
+                    border: '1px solid var(--color-border)',
+                    color: 'var(--color-text)',
+                  }}
+                />
+              )}
+            </div>
 
-            {/* 可达成 (目标节点) */}
-            {node.type === NodeType.GOAL && node.computedStatus.achievable && (
-              <div
-                className="flex items-center gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-success-bg)', border: '1px solid var(--color-success)', color: 'var(--color-success)' }}
-              >
-                <CheckCircle size={14} />
-                <span className="font-medium">可达成</span>
+            {/* v2.2: 计算状态显示 */}
+            {node.computedStatus && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+                  系统分析
+                </label>
+
+                {/* 被阻塞 */}
+                {node.computedStatus.blocked && (
+                  <div
+                    className="flex items-start gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-warning-bg)', border: '1px solid var(--color-warning)', color: 'var(--color-warning)' }}
+                  >
+                    <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                    <div>
+                      <div className="font-medium">被阻塞</div>
+                      {node.computedStatus.blockedBy.length > 0 && (
+                        <div className="mt-1">
+                          阻塞来源: {node.computedStatus.blockedBy.map(id => {
+                            const n = nodes.find(x => x.id === id);
+                            return n?.title || id;
+                          }).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* 存在冲突 */}
+                {node.computedStatus.conflicted && (
+                  <div
+                    className="flex items-start gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-error-bg)', border: '1px solid var(--color-error)', color: 'var(--color-error)' }}
+                  >
+                    <XCircle size={14} className="mt-0.5 flex-shrink-0" />
+                    <div>
+                      <div className="font-medium">存在矛盾</div>
+                      {node.computedStatus.conflictWith.length > 0 && (
+                        <div className="mt-1">
+                          冲突节点: {node.computedStatus.conflictWith.map(id => {
+                            const n = nodes.find(x => x.id === id);
+                            return n?.title || id;
+                          }).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* 可执行 (行动节点) */}
+                {node.type === NodeType.ACTION && node.computedStatus.executable && (
+                  <div
+                    className="flex items-center gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-success-bg)', border: '1px solid var(--color-success)', color: 'var(--color-success)' }}
+                  >
+                    <CheckCircle size={14} />
+                    <span className="font-medium">可执行</span>
+                  </div>
+                )}
+
+                {/* 可达成 (目标节点) */}
+                {node.type === NodeType.GOAL && node.computedStatus.achievable && (
+                  <div
+                    className="flex items-center gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-success-bg)', border: '1px solid var(--color-success)', color: 'var(--color-success)' }}
+                  >
+                    <CheckCircle size={14} />
+                    <span className="font-medium">可达成</span>
+                  </div>
+                )}
+
+                {/* 受威胁 */}
+                {node.computedStatus.threatened && (
+                  <div
+                    className="flex items-center gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-warning-bg)', border: '1px solid var(--color-warning)', color: 'var(--color-warning)' }}
+                  >
+                    <AlertTriangle size={14} />
+                    <span>可行性得分: {node.computedStatus.feasibilityScore.toFixed(2)}</span>
+                  </div>
+                )}
+
+                {/* 状态来源 */}
+                {node.computedStatus.statusSource && (
+                  <div
+                    className="flex items-center gap-2 p-2 rounded-lg text-xs"
+                    style={{ background: 'var(--color-bg-secondary)', color: 'var(--color-text-muted)' }}
+                  >
+                    <Clock size={14} />
+                    <span>{node.computedStatus.statusSource}</span>
+                  </div>
+                )}
               </div>
             )}
 
-            {/* 受威胁 */}
-            {node.computedStatus.threatened && (
+            {/* 预览 */}
+            <div>
+              <label className="block text-sm font-medium mb-2" style={{ color: 'var(--color-text-secondary)' }}>
+                预览
+              </label>
               <div
-                className="flex items-center gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-warning-bg)', border: '1px solid var(--color-warning)', color: 'var(--color-warning)' }}
+                className="p-3 rounded-lg border-l-4"
+                style={{
+                  backgroundColor: config.bgColor,
+                  borderLeftColor: config.color
+                }}
               >
-                <AlertTriangle size={14} />
-                <span>可行性得分: {node.computedStatus.feasibilityScore.toFixed(2)}</span>
+                <div className="flex items-center gap-2 mb-1">
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full text-white"
+                    style={{ backgroundColor: config.color }}
+                  >
+                    {config.label}
+                  </span>
+                </div>
+                <h4 className="font-medium" style={{ color: 'var(--color-text)' }}>
+                  {title || '节点标题'}
+                </h4>
+                {content && (
+                  <p className="text-sm mt-1" style={{ color: 'var(--color-text-secondary)' }}>{content}</p>
+                )}
               </div>
-            )}
+            </div>
+          </div>
 
-            {/* 状态来源 */}
-            {node.computedStatus.statusSource && (
-              <div
-                className="flex items-center gap-2 p-2 rounded-lg text-xs"
-                style={{ background: 'var(--color-bg-secondary)', color: 'var(--color-text-muted)' }}
+          {/* 底部按钮 */}
+          <div className="p-4 flex gap-2" style={{ borderTop: '1px solid var(--color-border)' }}>
+            {onDelete && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg transition-colors"
+                style={{ color: 'var(--color-error)' }}
+                title="删除节点"
               >
-                <Clock size={14} />
-                <span>{node.computedStatus.statusSource}</span>
-              </div>
+                <Trash2 size={16} />
+              </button>
             )}
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 rounded-lg transition-colors"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!title.trim() || saving}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              <Save size={16} />
+              {saving ? '保存中...' : '保存'}
+            </button>
           </div>
-        )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function HistoryTimeline({ entries }: { entries: NodeHistoryEntry[] }) {
+  if (entries.length === 0) {
+    return (
+      <div className="flex-1 p-4 text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+        暂无变更记录
+      </div>
+    );
+  }
 
-        {/* 预览 */}
-        <div>
-          <label className="block text-sm font-medium mb-2" style={{ color: 'var(--color-text-secondary)' }}>
-            预览
-          </label>
+  return (
+    <div className="flex-1 overflow-y-auto p-4">
+      {groupHistory(entries).map((group) => {
+        const reason = group.find((e) => e.reason)?.reason;
+        return (
           <div
-            className="p-3 rounded-lg border-l-4"
-            style={{
-              backgroundColor: config.bgColor,
-              borderLeftColor: config.color
-            }}
+            key={group[0].id}
+            className="relative pl-4 pb-4"
+            style={{ borderLeft: '2px solid var(--color-border)' }}
           >
-            <div className="flex items-center gap-2 mb-1">
-              <span
-                className="text-xs px-2 py-0.5 rounded-full text-white"
-                style={{ backgroundColor: config.color }}
-              >
-                {config.label}
-              </span>
+            <span
+              className="absolute -left-[5px] top-1 w-2 h-2 rounded-full"
+              style={{ background: 'var(--color-primary)' }}
+            />
+            <div className="flex items-center gap-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              <History size={12} />
+              {new Date(group[0].createdAt).toLocaleString('zh-CN', { hour12: false })}
             </div>
-            <h4 className="font-medium" style={{ color: 'var(--color-text)' }}>
-              {title || '节点标题'}
-            </h4>
-            {content && (
-              <p className="text-sm mt-1" style={{ color: 'var(--color-text-secondary)' }}>{content}</p>
+            <div className="mt-1 space-y-1">
+              {group.map((entry) => (
+                <div key={entry.id} className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                  <span className="font-medium" style={{ color: 'var(--color-text)' }}>
+                    {HISTORY_FIELD_LABELS[entry.field] ?? entry.field}
+                  </span>
+                  ：
+                  <span className="line-through" style={{ color: 'var(--color-text-muted)' }}>
+                    {formatHistoryValue(entry.field, entry.oldValue)}
+                  </span>
+                  {' → '}
+                  <span>{formatHistoryValue(entry.field, entry.newValue)}</span>
+                </div>
+              ))}
+            </div>
+            {reason && (
+              <div
+                className="mt-2 flex items-start gap-1 p-2 rounded text-xs"
+                style={{ background: 'var(--color-bg-secondary)', color: 'var(--color-text-secondary)' }}
+              >
+                <MessageSquare size={12} className="mt-0.5 flex-shrink-0" />
+                <span className="whitespace-pre-wrap">{reason}</span>
+              </div>
             )}
           </div>
-        </div>
-      </div>
-
-      {/* 底部按钮 */}
-      <div className="p-4 flex gap-2" style={{ borderTop: '1px solid var(--color-border)' }}>
-        {onDelete && (
-          <button
-            onClick={handleDelete}
-            className="flex items-center gap-1 px-3 py-2 rounded-lg transition-colors"
-            style={{ color: 'var(--color-error)' }}
-            title="删除节点"
-          >
-            <Trash2 size={16} />
-          </button>
-        )}
-        <button
-          onClick={onClose}
-          className="flex-1 px-4 py-2 rounded-lg transition-colors"
-          style={{ color: 'var(--color-text-secondary)' }}
-        >
-          取消
-        </button>
-        <button
-          onClick={handleSave}
-          disabled={!title.trim() || saving}
-          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          style={{ background: 'var(--color-primary)' }}
-        >
-          <Save size={16} />
-          {saving ? '保存中...' : '保存'}
-        </button>
-      </div>
+        );
+      })}
     </div>
   );
 }
@@ -1,7 +1,7 @@
 /**
  * 状态传播面板
  *
- * 显示传播事件历史和检测到的冲突
+ * 显示基础状态的自动更新记录、检测到的冲突和循环依赖
  */
 
 import { useState } from 'react';
@@ -9,8 +9,8 @@ import { AlertTriangle, Activity, ChevronDown, ChevronUp, RefreshCw, ToggleLeft,
 import { usePropagationStore } from '../store/propagationStore';
 import { useProjectStore } from '../store/projectStore';
 import { useGraphStore } from '../store/graphStore';
-import { getLogicStateLabel, getLogicStateColor } from '../utils/propagation';
-import type { GraphNode, GraphEdge } from '../types';
+import { getStatusOptionsForType } from '../types';
+import type { GraphNode, GraphEdge, BaseStatus } from '../types';
 
 interface PropagationPanelProps {
   nodes?: GraphNode[];
@@ -33,8 +33,9 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
   const nodes = propNodes ?? (displayNodes.length > 0 ? displayNodes : graphStore.nodes);
   const edges = propEdges ?? (displayEdges.length > 0 ? displayEdges : graphStore.edges);
   const {
-    events,
+    updates,
     conflicts,
+    cyclicDependencies,
     result,
     autoPropagate,
     setAutoPropagate,
@@ -58,8 +59,17 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
     return node?.title || nodeId.slice(0, 8);
   };
 
-  // 取最近的20个事件
-  const recentEvents = events.slice(-20).reverse();
+  const getStatusLabel = (nodeId: string, status: BaseStatus) => {
+    const node = nodes.find(n => n.id === nodeId);
+    const option = node && getStatusOptionsForType(node.type).find(o => o.value === status);
+    return option?.label || status;
+  };
+
+  const blockedCount = result?.nodes.filter(n => n.computedStatus.blocked).length ?? 0;
+  const warningCount = conflicts.length + cyclicDependencies.length;
+
+  // 取最近的20条更新
+  const recentUpdates = updates.slice(-20).reverse();
 
   return (
     <div className="bg-white border-l border-gray-200 w-80 flex flex-col h-full">
@@ -94,17 +104,17 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
         {result && (
           <div className="mt-2 text-xs text-gray-500 space-y-1">
             <div className="flex justify-between">
-              <span>迭代次数:</span>
-              <span className="font-medium">{result.iterations}</span>
+              <span>自动更新:</span>
+              <span className="font-medium">{updates.length}</span>
             </div>
             <div className="flex justify-between">
-              <span>执行时间:</span>
-              <span className="font-medium">{result.executionTime.toFixed(2)}ms</span>
+              <span>受阻节点:</span>
+              <span className="font-medium">{blockedCount}</span>
             </div>
             <div className="flex justify-between">
-              <span>收敛状态:</span>
-              <span className={`font-medium ${result.converged ? 'text-green-600' : 'text-amber-600'}`}>
-                {result.converged ? '已收敛' : '未收敛'}
+              <span>循环依赖:</span>
+              <span className={`font-medium ${cyclicDependencies.length > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                {cyclicDependencies.length > 0 ? `${cyclicDependencies.length} 个` : '无'}
               </span>
             </div>
           </div>
@@ -132,7 +142,7 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
       {/* 内容区 */}
       <div className="flex-1 overflow-y-auto">
         {/* 冲突警告 */}
-        {conflicts.length > 0 && (
+        {warningCount > 0 && (
           <div className="border-b border-gray-200">
             <button
               onClick={() => setShowConflicts(!showConflicts)}
@@ -140,7 +150,7 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
             >
               <span className="flex items-center gap-2 font-medium">
                 <AlertTriangle size={16} />
-                冲突 ({conflicts.length})
+                冲突 ({warningCount})
               </span>
               {showConflicts ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
             </button>
@@ -149,14 +159,27 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
               <div className="p-2 space-y-2">
                 {conflicts.map((conflict, index) => (
                   <div
-                    key={index}
+                    key={`conflict-${index}`}
+                    className="p-2 bg-amber-50 border border-amber-200 rounded text-sm"
+                  >
+                    <div className="font-medium text-amber-800 mb-1">
+                      矛盾的两个节点同时成立
+                    </div>
+                    <div className="text-xs text-amber-700">
+                      {getNodeTitle(conflict.nodeA)} ⊥ {getNodeTitle(conflict.nodeB)}
+                    </div>
+                  </div>
+                ))}
+                {cyclicDependencies.map((cycle, index) => (
+                  <div
+                    key={`cycle-${index}`}
                     className="p-2 bg-amber-50 border border-amber-200 rounded text-sm"
                   >
                     <div className="font-medium text-amber-800 mb-1">
-                      {conflict.reason}
+                      循环依赖
                     </div>
                     <div className="text-xs text-amber-700">
-                      相关节点: {conflict.nodeIds.map(id => getNodeTitle(id)).join(', ')}
+                      {[...cycle, cycle[0]].map(id => getNodeTitle(id)).join(' → ')}
                     </div>
                   </div>
                 ))}
@@ -165,7 +188,7 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
           </div>
         )}
 
-        {/* 传播事件历史 */}
+        {/* 状态自动更新记录 */}
         <div>
           <button
             onClick={() => setShowEvents(!showEvents)}
@@ -173,57 +196,43 @@ export default function PropagationPanel({ nodes: propNodes, edges: propEdges }:
           >
             <span className="flex items-center gap-2 font-medium">
               <Activity size={16} />
-              传播事件 ({events.length})
+              自动更新 ({updates.length})
             </span>
             {showEvents ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
           </button>
 
           {showEvents && (
             <div className="divide-y divide-gray-100">
-              {recentEvents.length === 0 ? (
+              {recentUpdates.length === 0 ? (
                 <div className="p-4 text-center text-gray-400 text-sm">
-                  暂无传播事件
+                  暂无状态自动更新
                 </div>
               ) : (
-                recentEvents.map((event, index) => (
+                recentUpdates.map((update, index) => (
                   <div key={index} className="p-3 hover:bg-gray-50">
                     <div className="flex items-center gap-2 text-sm">
-                      <span className="font-medium text-gray-700 truncate max-w-[100px]" title={getNodeTitle(event.fromNodeId)}>
-                        {getNodeTitle(event.fromNodeId)}
+                      <span className="font-medium text-gray-700 truncate max-w-[100px]" title={getNodeTitle(update.sourceNodeId)}>
+                        {getNodeTitle(update.sourceNodeId)}
                       </span>
                       <span className="text-gray-400">→</span>
-                      <span className="font-medium text-gray-700 truncate max-w-[100px]" title={getNodeTitle(event.toNodeId)}>
-                        {getNodeTitle(event.toNodeId)}
+                      <span className="font-medium text-gray-700 truncate max-w-[100px]" title={getNodeTitle(update.nodeId)}>
+                        {getNodeTitle(update.nodeId)}
                       </span>
                     </div>
 
                     <div className="mt-1 flex items-center gap-2 text-xs">
-                      <span
-                        className="px-1.5 py-0.5 rounded"
-                        style={{
-                          backgroundColor: getLogicStateColor(event.oldState) + '20',
-                          color: getLogicStateColor(event.oldState),
-                        }}
-                      >
-                        {getLogicStateLabel(event.oldState)}
+                      <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                        {getStatusLabel(update.nodeId, update.oldStatus)}
                       </span>
                       <span className="text-gray-400">→</span>
-                      <span
-                        className="px-1.5 py-0.5 rounded"
-                        style={{
-                          backgroundColor: getLogicStateColor(event.newState) + '20',
-                          color: getLogicStateColor(event.newState),
-                        }}
-                      >
-                        {getLogicStateLabel(event.newState)}
+                      <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-700">
+                        {getStatusLabel(update.nodeId, update.newStatus)}
                       </span>
                     </div>
 
-                    {event.reason && (
-                      <div className="mt-1 text-xs text-gray-500 truncate" title={event.reason}>
-                        {event.reason}
-                      </div>
-                    )}
+                    <div className="mt-1 text-xs text-gray-500 truncate" title={update.reason}>
+                      {update.reason}
+                    </div>
                   </div>
                 ))
               )}
@@ -0,0 +1,192 @@
+/**
+ * 另存为模板对话框
+ *
+ * 把当前项目（或当前场景）的结构保存为模板，状态、置信度和证据不会写入模板。
+ * 引导问题每行一个，从模板创建项目后在 AI 面板中显示。
+ */
+
+import { useState } from 'react';
+import { X, LayoutTemplate, Loader2 } from 'lucide-react';
+import { useProjectStore } from '../store/projectStore';
+
+interface SaveTemplateDialogProps {
+  onClose: () => void;
+  defaultName: string;
+  currentSceneId: string | null;
+  currentSceneName?: string;
+}
+
+export default function SaveTemplateDialog({
+  onClose,
+  defaultName,
+  currentSceneId,
+  currentSceneName,
+}: SaveTemplateDialogProps) {
+  const saveAsTemplate = useProjectStore((state) => state.saveAsTemplate);
+
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [questions, setQuestions] = useState('');
+  const [sceneOnly, setSceneOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await saveAsTemplate(
+        {
+          name: name.trim(),
+          description: description.trim() || undefined,
+          category: category.trim() || undefined,
+          guidingQuestions: questions
+            .split('\n')
+            .map((q) => q.trim())
+            .filter(Boolean),
+        },
+        sceneOnly ? currentSceneId : null
+      );
+      setSaved(true);
+    } catch (err) {
+      console.error('保存模板失败:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = {
+    background: 'var(--color-bg)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div
+        className="w-full max-w-md mx-4"
+        style={{
+          background: 'var(--color-surface)',
+          borderRadius: 'var(--border-radius)',
+          boxShadow: 'var(--shadow)',
+        }}
+      >
+        <div className="flex items-center justify-between px-6 py-4" style={{ borderBottom: '1px solid var(--color-border)' }}>
+          <h2 className="text-lg font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+            <LayoutTemplate size={18} />
+            另存为模板
+          </h2>
+          <button onClick={onClose} className="p-1 rounded" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {saved ? (
+          <div className="p-6 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            模板「{name.trim()}」已保存，新建项目时可以选择它。
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                模板名称
+              </label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg outline-none"
+                style={inputStyle}
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                  分类（可选）
+                </label>
+                <input
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder="我的模板"
+                  className="w-full px-3 py-2 rounded-lg outline-none"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                  范围
+                </label>
+                <select
+                  value={sceneOnly ? 'scene' : 'project'}
+                  onChange={(e) => setSceneOnly(e.target.value === 'scene')}
+                  className="w-full px-3 py-2 rounded-lg outline-none"
+                  style={inputStyle}
+                >
+                  <option value="project">整个项目</option>
+                  {currentSceneId && <option value="scene">当前场景：{currentSceneName}</option>}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                描述（可选）
+              </label>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="这个模板适合什么样的决策"
+                className="w-full px-3 py-2 rounded-lg outline-none"
+                style={inputStyle}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+                引导问题（每行一个，可选）
+              </label>
+              <textarea
+                value={questions}
+                onChange={(e) => setQuestions(e.target.value)}
+                placeholder={'你最看重的结果是什么？\n哪些信息还需要核实？'}
+                rows={4}
+                className="w-full px-3 py-2 rounded-lg outline-none resize-none text-sm"
+                style={inputStyle}
+              />
+            </div>
+
+            <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              只保存节点、关系和场景结构；状态、置信度和证据不会写入模板。
+            </p>
+          </div>
+        )}
+
+        <div
+          className="flex justify-end gap-2 px-6 py-4 rounded-b-lg"
+          style={{ background: 'var(--color-bg-secondary)' }}
+        >
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg transition-colors"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            {saved ? '关闭' : '取消'}
+          </button>
+          {!saved && (
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || saving}
+              className="flex items-center gap-1 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              保存
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
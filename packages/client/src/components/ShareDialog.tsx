@@ -0,0 +1,240 @@
+/**
+ * 项目共享对话框
+ *
+ * 列出项目成员及角色；所有者可以按邮箱邀请或生成分享码、修改成员角色、移除成员和撤销邀请。
+ * 共享依赖服务器账户：需要开启同步并登录，且项目已同步到服务器。
+ */
+
+import { useEffect, useState } from 'react';
+import { X, Users, Loader2, Copy, Check, Trash2 } from 'lucide-react';
+import { PROJECT_ROLE_LABELS, type MemberRole, type ProjectSharing } from '@solvechain/shared';
+import type { Project } from '../types';
+import { getSyncSettings } from '../services/sync';
+import {
+  fetchProjectSharing,
+  createInvite,
+  revokeInvite,
+  updateMemberRole,
+  removeMember,
+} from '../services/sync/sharing';
+
+interface ShareDialogProps {
+  project: Project;
+  onClose: () => void;
+}
+
+const MEMBER_ROLES: MemberRole[] = ['viewer', 'commenter', 'editor'];
+
+const ROLE_HINTS: Record<MemberRole, string> = {
+  viewer: '只能查看',
+  commenter: '可以查看和评论',
+  editor: '可以修改节点、关系和场景',
+};
+
+export default function ShareDialog({ project, onClose }: ShareDialogProps) {
+  const settings = getSyncSettings();
+  const available = settings.enabled && !!settings.token;
+  const isOwner = (project.role ?? 'owner') === 'owner';
+
+  const [sharing, setSharing] = useState<ProjectSharing | null>(null);
+  const [loading, setLoading] = useState(available);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setSharing(await fetchProjectSharing(project.id));
+      setError(null);
+    } catch (err) {
+      const message = (err as Error).message;
+      setError(message === '项目不存在' ? '项目尚未同步到服务器，同步完成后再试' : message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (available) void reload();
+  }, [project.id]);
+
+  // 执行一次修改，完成后刷新列表
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    await run(() => createInvite(project.id, { email: email.trim() || undefined, role }));
+    setEmail('');
+    setInviting(false);
+  };
+
+  const handleCopy = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    setCopiedCode(code);
+    setTimeout(() => setCopiedCode(null), 1500);
+  };
+
+  const inputStyle = {
+    background: 'var(--color-bg)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div
+        className="w-full max-w-lg mx-4"
+        style={{
+          background: 'var(--color-surface)',
+          borderRadius: 'var(--border-radius)',
+          boxShadow: 'var(--shadow)',
+        }}
+      >
+        <div className="flex items-center justify-between px-6 py-4" style={{ borderBottom: '1px solid var(--color-border)' }}>
+          <h2 className="text-lg font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+            <Users size={18} />
+            共享「{project.title}」
+          </h2>
+          <button onClick={onClose} className="p-1 rounded" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm max-h-[70vh] overflow-y-auto" style={{ color: 'var(--color-text)' }}>
+          {!available ? (
+            <p style={{ color: 'var(--color-text-secondary)' }}>
+              共享需要服务器账户：请先在右上角的同步菜单中开启同步并登录，项目同步到服务器后即可邀请他人。
+            </p>
+          ) : loading ? (
+            <div className="flex items-center gap-2" style={{ color: 'var(--color-text-muted)' }}>
+              <Loader2 size={14} className="animate-spin" />
+              加载中...
+            </div>
+          ) : (
+            <>
+              {error && <div className="text-xs" style={{ color: 'var(--color-error)' }}>{error}</div>}
+
+              {sharing && (
+                <div className="space-y-2">
+                  <div className="text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>成员</div>
+                  {sharing.members.map((member) => (
+                    <div key={member.userId} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{member.name}</div>
+                        <div className="text-xs truncate" style={{ color: 'var(--color-text-muted)' }}>{member.email}</div>
+                      </div>
+                      {isOwner && member.role !== 'owner' ? (
+                        <>
+                          <select
+                            value={member.role}
+                            onChange={(e) => run(() => updateMemberRole(project.id, member.userId, e.target.value as MemberRole))}
+                            className="px-2 py-1 rounded text-xs"
+                            style={inputStyle}
+                          >
+                            {MEMBER_ROLES.map((r) => (
+                              <option key={r} value={r}>{PROJECT_ROLE_LABELS[r]}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => run(() => removeMember(project.id, member.userId))}
+                            className="p-1 rounded"
+                            style={{ color: 'var(--color-error)' }}
+                            title="移除成员"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                          {PROJECT_ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isOwner && sharing && (
+                <div className="space-y-2 pt-3" style={{ borderTop: '1px solid var(--color-border)' }}>
+                  <div className="text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>邀请</div>
+                  <div className="flex gap-2">
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="对方邮箱（留空则生成分享码）"
+                      className="flex-1 min-w-0 px-2 py-1.5 rounded"
+                      style={inputStyle}
+                    />
+                    <select
+                      value={role}
+                      onChange={(e) => setRole(e.target.value as MemberRole)}
+                      className="px-2 py-1.5 rounded"
+                      style={inputStyle}
+                      title={ROLE_HINTS[role]}
+                    >
+                      {MEMBER_ROLES.map((r) => (
+                        <option key={r} value={r}>{PROJECT_ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleInvite}
+                      disabled={inviting}
+                      className="px-3 py-1.5 rounded text-white disabled:opacity-50"
+                      style={{ background: 'var(--color-primary)' }}
+                    >
+                      {email.trim() ? '邀请' : '生成分享码'}
+                    </button>
+                  </div>
+                  <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {PROJECT_ROLE_LABELS[role]}{ROLE_HINTS[role]}。对方在同步菜单中输入邀请码加入；邮箱邀请也会出现在对方的待接受列表中。
+                  </p>
+
+                  {sharing.invites.map((invite) => (
+                    <div
+                      key={invite.id}
+                      className="flex items-center gap-2 p-2 rounded"
+                      style={{ background: 'var(--color-bg)', border: '1px solid var(--color-border)' }}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-xs">
+                          {invite.email ?? '分享码（任何人可用）'} · {PROJECT_ROLE_LABELS[invite.role]}
+                        </div>
+                        <code className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>{invite.code}</code>
+                      </div>
+                      <button
+                        onClick={() => handleCopy(invite.code)}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-text-secondary)' }}
+                        title="复制邀请码"
+                      >
+                        {copiedCode === invite.code ? <Check size={14} /> : <Copy size={14} />}
+                      </button>
+                      <button
+                        onClick={() => run(() => revokeInvite(project.id, invite.id))}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-error)' }}
+                        title="撤销邀请"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * 版本历史面板
+ *
+ * 列出当前项目的快照（手动保存，或在 AI 修改、导入、恢复之前自动保存），
+ * 支持恢复到某个快照，或以快照为起点分支出一个新项目。
+ */
+
+import { useState } from 'react';
+import { History, Save, RotateCcw, GitBranch, Trash2, Loader2 } from 'lucide-react';
+import { useProjectStore } from '../store/projectStore';
+import type { ProjectSnapshot, SnapshotTrigger } from '../types';
+
+interface SnapshotPanelProps {
+  onRestored?: () => void;                  // 恢复完成后回调（如清空撤销历史）
+  onOpenProject?: (projectId: string) => void; // 分支出的新项目
+}
+
+// 触发来源标签 - 使用 CSS 变量样式
+const TRIGGER_CONFIG: Record<SnapshotTrigger, { label: string; bgVar: string; colorVar: string }> = {
+  manual: { label: '手动', bgVar: '--color-primary-light', colorVar: '--color-primary' },
+  ai: { label: 'AI 修改前', bgVar: '--color-info-bg', colorVar: '--color-info' },
+  import: { label: '导入前', bgVar: '--color-warning-bg', colorVar: '--color-warning' },
+  restore: { label: '恢复前', bgVar: '--color-bg-tertiary', colorVar: '--color-text-secondary' },
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false });
+}
+
+export default function SnapshotPanel({ onRestored, onOpenProject }: SnapshotPanelProps) {
+  const {
+    snapshots,
+    isExample,
+    readOnly,
+    createSnapshot,
+    deleteSnapshot,
+    restoreSnapshot,
+    branchFromSnapshot,
+  } = useProjectStore();
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setBusyId('new');
+    try {
+      await createSnapshot({
+        title: title.trim() || `快照 ${formatTime(new Date().toISOString())}`,
+        description: description.trim() || undefined,
+      });
+      setTitle('');
+      setDescription('');
+    } catch (err) {
+      console.error('保存快照失败:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async (snapshot: ProjectSnapshot) => {
+    if (!confirm(`确定要恢复到「${snapshot.title}」吗？当前内容会先自动保存为一个快照。`)) return;
+    setBusyId(snapshot.id);
+    try {
+      await restoreSnapshot(snapshot.id);
+      onRestored?.();
+    } catch (err) {
+      console.error('恢复快照失败:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBranch = async (snapshot: ProjectSnapshot) => {
+    const branchTitle = prompt('新项目名称', `${snapshot.data.project.title}（${snapshot.title}）`);
+    if (branchTitle === null) return;
+    setBusyId(snapshot.id);
+    try {
+      const projectId = await branchFromSnapshot(snapshot.id, branchTitle.trim() || undefined);
+      onOpenProject?.(projectId);
+    } catch (err) {
+      console.error('分支项目失败:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshot) => {
+    if (!confirm(`确定要删除快照「${snapshot.title}」吗？`)) return;
+    await deleteSnapshot(snapshot.id);
+  };
+
+  return (
+    <div
+      className="w-80 flex flex-col h-full"
+      style={{
+        background: 'var(--glass-bg, var(--color-surface))',
+        backdropFilter: 'var(--glass, none)',
+        WebkitBackdropFilter: 'var(--glass, none)',
+        borderLeft: '1px solid var(--glass-border, var(--color-border))',
+      }}
+    >
+      {/* 头部 */}
+      <div className="p-4" style={{ borderBottom: '1px solid var(--color-border)' }}>
+        <h3 className="font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <History size={18} />
+          版本历史
+        </h3>
+
+        {isExample ? (
+          <p className="mt-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+            示例项目为只读，不能保存快照
+          </p>
+        ) : (
+          <div className="mt-3 space-y-2">
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="快照名称（如：决定辞职前）"
+              className="w-full px-2 py-1.5 text-sm rounded"
+              style={{
+                background: 'var(--color-bg)',
+                border: '1px solid var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="备注：当时做了什么决定、为什么（可选）"
+              rows={2}
+              className="w-full px-2 py-1.5 text-sm rounded resize-none"
+              style={{
+                background: 'var(--color-bg)',
+                border: '1px solid var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+            />
+            <button
+              onClick={handleCreate}
+              disabled={busyId !== null}
+              className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-sm rounded disabled:opacity-50"
+              style={{ background: 'var(--color-primary)', color: '#fff' }}
+            >
+              {busyId === 'new' ? <Loader2 className="animate-spin" size={14} /> : <Save size={14} />}
+              保存快照
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 快照列表 */}
+      <div className="flex-1 overflow-y-auto" style={{ background: 'var(--color-bg)' }}>
+        {snapshots.length === 0 ? (
+          <div className="p-4 text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+            暂无快照
+          </div>
+        ) : (
+          snapshots.map((snapshot) => {
+            const trigger = TRIGGER_CONFIG[snapshot.trigger] ?? TRIGGER_CONFIG.manual;
+            const busy = busyId === snapshot.id;
+            return (
+              <div
+                key={snapshot.id}
+                className="p-3"
+                style={{ borderBottom: '1px solid var(--color-border-light)' }}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className="px-1.5 py-0.5 rounded text-xs flex-shrink-0"
+                    style={{ background: `var(${trigger.bgVar})`, color: `var(${trigger.colorVar})` }}
+                  >
+                    {trigger.label}
+                  </span>
+                  <span
+                    className="text-sm font-medium truncate"
+                    style={{ color: 'var(--color-text)' }}
+                    title={snapshot.title}
+                  >
+                    {snapshot.title}
+                  </span>
+                </div>
+
+                <div className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                  {formatTime(snapshot.createdAt)} · {snapshot.nodeCount} 节点 · {snapshot.edgeCount} 关系
+                </div>
+
+                {snapshot.description && (
+                  <p className="mt-1 text-xs whitespace-pre-wrap" style={{ color: 'var(--color-text-secondary)' }}>
+                    {snapshot.description}
+                  </p>
+                )}
+
+                {!isExample && (
+                  <div className="mt-2 flex gap-1">
+                    {!readOnly && (
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={busyId !== null}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded disabled:opacity-50"
+                      style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border)' }}
+                      title="把当前项目恢复到此快照"
+                    >
+                      {busy ? <Loader2 className="animate-spin" size={12} /> : <RotateCcw size={12} />}
+                      恢复
+                    </button>
+                    )}
+                    <button
+                      onClick={() => handleBranch(snapshot)}
+                      disabled={busyId !== null}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded disabled:opacity-50"
+                      style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border)' }}
+                      title="以此快照为起点创建新项目"
+                    >
+                      <GitBranch size={12} />
+                      分支
+                    </button>
+                    <button
+                      onClick={() => handleDelete(snapshot)}
+                      disabled={busyId !== null}
+                      className="ml-auto flex items-center px-2 py-1 text-xs rounded disabled:opacity-50"
+                      style={{ color: 'var(--color-error)' }}
+                      title="删除快照"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * 本地存储错误提示
+ * 数据库打不开或写入失败（如空间不足）时常驻页面顶部，直到用户关闭或之后写入成功
+ */
+
+import { useSyncExternalStore } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { getStorageError, subscribeStorageError, dismissStorageError } from '../store/localStore';
+
+export default function StorageErrorBanner() {
+  const error = useSyncExternalStore(subscribeStorageError, getStorageError);
+  if (!error) return null;
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-2 px-4 py-2 rounded-lg text-sm"
+      style={{
+        background: 'var(--color-error-bg)',
+        border: '1px solid var(--color-error)',
+        color: 'var(--color-error)',
+        boxShadow: 'var(--shadow)',
+      }}
+    >
+      <AlertTriangle size={16} />
+      <span>{error}</span>
+      <button onClick={dismissStorageError} className="p-0.5 rounded" title="关闭">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * 服务器同步菜单
+ * 按钮显示同步状态；面板中开关同步、填写服务器地址、登录账户、手动同步，并逐个处理节点冲突；
+ * 登录后可以用邀请码加入别人共享的项目，或接受发给自己邮箱的邀请
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { PROJECT_ROLE_LABELS, type ProjectInvite } from '@solvechain/shared';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, LogOut } from 'lucide-react';
+import {
+  getSyncStatus,
+  getSyncSettings,
+  subscribeSync,
+  syncNow,
+  resolveConflict,
+  updateSyncSettings,
+  signIn,
+  signOut,
+  type SyncState,
+} from '../services/sync';
+import { listMyInvites, acceptInvite } from '../services/sync/sharing';
+
+const STATE_LABELS: Record<SyncState, string> = {
+  off: '未开启同步',
+  signedOut: '未登录服务器账户',
+  idle: '已同步',
+  syncing: '同步中...',
+  offline: '离线，恢复联网后自动同步',
+  error: '同步失败',
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function SyncMenu() {
+  const status = useSyncExternalStore(subscribeSync, getSyncStatus);
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState(getSyncSettings);
+  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [credentials, setCredentials] = useState({ email: '', password: '', name: '' });
+  const [authPending, setAuthPending] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [joinMessage, setJoinMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const needsAttention = status.state === 'error' || status.state === 'signedOut' || status.conflicts.length > 0;
+  const signedIn = status.state !== 'signedOut' && !!settings.token;
+  const icon =
+    status.state === 'syncing' ? <RefreshCw size={18} className="animate-spin" />
+    : needsAttention ? <AlertTriangle size={18} />
+    : status.state === 'off' || status.state === 'offline' ? <CloudOff size={18} />
+    : <Cloud size={18} />;
+
+  // 打开面板时查看发给自己的邀请
+  useEffect(() => {
+    if (!isOpen || !settings.enabled || !signedIn) return;
+    listMyInvites().then(setInvites, () => setInvites([]));
+  }, [isOpen, settings.enabled, signedIn]);
+
+  const handleJoin = async (code: string) => {
+    setJoinMessage(null);
+    try {
+      const joined = await acceptInvite(code);
+      setInviteCode('');
+      setInvites((prev) => prev.filter((invite) => invite.code !== code));
+      setJoinMessage({
+        text: `已加入「${joined.projectTitle ?? '共享项目'}」（${PROJECT_ROLE_LABELS[joined.role]}）`,
+        isError: false,
+      });
+    } catch (err) {
+      setJoinMessage({ text: (err as Error).message, isError: true });
+    }
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    setSettings((prev) => ({ ...prev, enabled }));
+    updateSyncSettings({ enabled });
+  };
+
+  const handleServerUrlBlur = () => {
+    if (settings.serverUrl === getSyncSettings().serverUrl) return;
+    updateSyncSettings({ serverUrl: settings.serverUrl });
+    setSettings(getSyncSettings());
+  };
+
+  const handleSignIn = async () => {
+    setAuthPending(true);
+    setAuthError(null);
+    try {
+      await signIn(authMode, credentials);
+      setCredentials({ email: '', password: '', name: '' });
+      setSettings(getSyncSettings());
+    } catch (err) {
+      setAuthError((err as Error).message);
+    } finally {
+      setAuthPending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setSettings(getSyncSettings());
+  };
+
+  const inputStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', color: 'var(--color-text)' };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg transition-colors"
+        style={{ color: needsAttention ? 'var(--color-warning)' : 'var(--color-text-secondary)' }}
+        title={STATE_LABELS[status.state]}
+      >
+        {icon}
+        {status.pending > 0 && status.state !== 'off' && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full text-[10px] leading-4 text-white"
+            style={{ background: 'var(--color-primary)' }}
+          >
+            {status.pending > 99 ? '99+' : status.pending}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div
+            className="absolute right-0 top-full mt-2 w-80 rounded-xl z-50 p-4 space-y-3 text-sm"
+            style={{
+              background: 'var(--color-surface)',
+              border: '1px solid var(--color-border)',
+              boxShadow: 'var(--shadow)',
+              color: 'var(--color-text)',
+            }}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">服务器同步</span>
+              <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: 'var(--color-text-secondary)' }}>
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => handleToggle(e.target.checked)} />
+                开启
+              </label>
+            </div>
+
+            <p className="text-xs leading-relaxed" style={{ color: 'var(--color-text-muted)' }}>
+              数据始终先保存在本机，离线时照常编辑；开启后修改会在联网时同步到服务器，并拉取其他设备上的修改。
+            </p>
+
+            <div className="space-y-1">
+              <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>服务器地址</div>
+              <input
+                value={settings.serverUrl}
+                onChange={(e) => setSettings((prev) => ({ ...prev, serverUrl: e.target.value }))}
+                onBlur={handleServerUrlBlur}
+                placeholder="留空则使用当前站点"
+                className="w-full px-2 py-1.5 rounded text-sm"
+                style={inputStyle}
+              />
+            </div>
+
+            {settings.enabled && signedIn && (
+              <div className="flex items-center justify-between text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                <span className="truncate">账户：{settings.email}</span>
+                <button onClick={handleSignOut} className="flex items-center gap-1 px-2 py-1 rounded" title="退出登录">
+                  <LogOut size={12} />
+                  退出
+                </button>
+              </div>
+            )}
+
+            {settings.enabled && !signedIn && (
+              <div className="space-y-2">
+                <div className="flex gap-1">
+                  {(['login', 'register'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setAuthMode(mode)}
+                      className="flex-1 py-1 rounded text-xs"
+                      style={{
+                        background: authMode === mode ? 'var(--color-primary)' : 'transparent',
+                        color: authMode === mode ? '#fff' : 'var(--color-text-secondary)',
+                        border: '1px solid var(--color-border)',
+                      }}
+                    >
+                      {mode === 'login' ? '登录' : '注册'}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="email"
+                  value={credentials.email}
+                  onChange={(e) => setCredentials((prev) => ({ ...prev, email: e.target.value }))}
+                  placeholder="邮箱"
+                  className="w-full px-2 py-1.5 rounded text-sm"
+                  style={inputStyle}
+                />
+                {authMode === 'register' && (
+                  <input
+                    value={credentials.name}
+                    onChange={(e) => setCredentials((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="昵称（可选）"
+                    className="w-full px-2 py-1.5 rounded text-sm"
+                    style={inputStyle}
+                  />
+                )}
+                <input
+                  type="password"
+                  value={credentials.password}
+                  onChange={(e) => setCredentials((prev) => ({ ...prev, password: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && void handleSignIn()}
+                  placeholder={authMode === 'register' ? '密码（至少 8 位）' : '密码'}
+                  className="w-full px-2 py-1.5 rounded text-sm"
+                  style={inputStyle}
+                />
+                {authError && <div className="text-xs" style={{ color: 'var(--color-error)' }}>{authError}</div>}
+                <button
+                  onClick={handleSignIn}
+                  disabled={authPending || !credentials.email || !credentials.password}
+                  className="w-full py-1.5 rounded text-white disabled:opacity-50"
+                  style={{ background: 'var(--color-primary)' }}
+                >
+                  {authPending ? '请稍候...' : authMode === 'login' ? '登录并同步' : '注册并同步'}
+                </button>
+              </div>
+            )}
+
+            {settings.enabled && signedIn && (
+              <div className="flex items-center justify-between text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                <span>
+                  {STATE_LABELS[status.state]}
+                  {status.pending > 0 && ` · ${status.pending} 条待上传`}
+                  {status.lastSyncedAt && status.state === 'idle' && ` · ${formatTime(status.lastSyncedAt)}`}
+                </span>
+                <button
+                  onClick={() => void syncNow()}
+                  disabled={status.state === 'syncing'}
+                  className="flex items-center gap-1 px-2 py-1 rounded disabled:opacity-50"
+                  style={{ border: '1px solid var(--color-border)' }}
+                >
+                  <RefreshCw size={12} />
+                  立即同步
+                </button>
+              </div>
+            )}
+
+            {settings.enabled && signedIn && (
+              <div className="space-y-2 pt-3" style={{ borderTop: '1px solid var(--color-border)' }}>
+                <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>加入共享项目</div>
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate">
+                      「{invite.projectTitle}」邀请你成为{PROJECT_ROLE_LABELS[invite.role]}
+                    </span>
+                    <button
+                      onClick={() => void handleJoin(invite.code)}
+                      className="flex-shrink-0 px-2 py-1 rounded text-white"
+                      style={{ background: 'var(--color-primary)' }}
+                    >
+                      接受
+                    </button>
+                  </div>
+                ))}
+                <div className="flex gap-1">
+                  <input
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && inviteCode.trim() && void handleJoin(inviteCode.trim())}
+                    placeholder="邀请码或分享码"
+                    className="flex-1 min-w-0 px-2 py-1.5 rounded text-sm"
+                    style={inputStyle}
+                  />
+                  <button
+                    onClick={() => void handleJoin(inviteCode.trim())}
+                    disabled={!inviteCode.trim()}
+                    className="px-2 py-1 rounded text-xs disabled:opacity-50"
+                    style={{ border: '1px solid var(--color-border)' }}
+                  >
+                    加入
+                  </button>
+                </div>
+                {joinMessage && (
+                  <div className="text-xs" style={{ color: joinMessage.isError ? 'var(--color-error)' : 'var(--color-text-secondary)' }}>
+                    {joinMessage.text}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {status.message && (
+              <div className="text-xs" style={{ color: status.state === 'offline' ? 'var(--color-text-muted)' : 'var(--color-error)' }}>
+                {status.message}
+              </div>
+            )}
+
+            {status.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium" style={{ color: 'var(--color-warning)' }}>
+                  以下节点在本机和服务器上都被修改过，请选择保留哪一边：
+                </div>
+                {status.conflicts.map((server) => (
+                  <div
+                    key={server.id}
+                    className="p-2 rounded space-y-1.5"
+                    style={{ background: 'var(--color-bg)', border: '1px solid var(--color-border)' }}
+                  >
+                    <div className="text-xs truncate">服务器版本：{String(server.title ?? server.id)}</div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => resolveConflict(server.id, 'server')}
+                        className="flex-1 py-1 rounded text-xs"
+                        style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+                      >
+                        用服务器版本
+                      </button>
+                      <button
+                        onClick={() => resolveConflict(server.id, 'local')}
+                        className="flex-1 py-1 rounded text-xs text-white"
+                        style={{ background: 'var(--color-primary)' }}
+                      >
+                        保留本地
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
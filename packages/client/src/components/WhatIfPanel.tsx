@@ -0,0 +1,326 @@
+/**
+ * 假设推演面板
+ *
+ * 临时修改事实/假设的状态、假设的置信度和关系强度，对比推演前后各节点的计算状态。
+ * 修改只保存在面板状态中，点击「提交」后才写入项目。
+ */
+
+import { useState } from 'react';
+import { FlaskConical, RotateCcw, Check, Loader2 } from 'lucide-react';
+import { computeEvidenceConfidence } from '@solvechain/shared';
+import { useProjectStore } from '../store/projectStore';
+import {
+  NodeType,
+  EdgeType,
+  NODE_TYPE_CONFIG,
+  EDGE_TYPE_CONFIG,
+  DEFAULT_BASE_STATUS,
+  getStatusOptionsForType,
+} from '../types';
+import type { GraphNode, GraphEdge, BaseStatus } from '../types';
+import {
+  hasWhatIfOverrides,
+  WhatIfOverrides,
+  WhatIfResult,
+  WhatIfEffect,
+  WhatIfChange,
+} from '../utils/whatIf';
+
+interface WhatIfPanelProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  overrides: WhatIfOverrides;
+  result: WhatIfResult | null;
+  onChange: (overrides: WhatIfOverrides) => void;
+  onCommit: () => Promise<void>;
+  onNodeClick?: (nodeId: string) => void;
+}
+
+// 参与可行性得分计算、强度会影响推演结果的关系类型
+const STRENGTH_EDGE_TYPES = new Set<string>([EdgeType.SUPPORTS, EdgeType.HINDERS, EdgeType.ACHIEVES]);
+
+const EFFECT_CONFIG: Record<WhatIfEffect, { label: string; colorVar: string }> = {
+  overridden: { label: '已修改', colorVar: '--color-primary' },
+  improved: { label: '变好', colorVar: '--color-success' },
+  worsened: { label: '变差', colorVar: '--color-error' },
+  changed: { label: '有变化', colorVar: '--color-warning' },
+};
+
+function formatValue(value: boolean | number): string {
+  if (typeof value === 'number') return value.toFixed(2);
+  return value ? '是' : '否';
+}
+
+export default function WhatIfPanel({
+  nodes,
+  edges,
+  overrides,
+  result,
+  onChange,
+  onCommit,
+  onNodeClick,
+}: WhatIfPanelProps) {
+  const isExample = useProjectStore((state) => state.isExample);
+  const readOnly = useProjectStore((state) => state.readOnly);
+  const [committing, setCommitting] = useState(false);
+
+  const nodeTitle = (id: string) => nodes.find((n) => n.id === id)?.title ?? id.slice(0, 8);
+  const adjustableNodes = nodes.filter((n) => n.type === NodeType.FACT || n.type === NodeType.ASSUMPTION);
+  const adjustableEdges = edges.filter((e) => STRENGTH_EDGE_TYPES.has(e.type));
+  const dirty = hasWhatIfOverrides(overrides);
+
+  // 与原值相同的覆盖直接去掉，保证「已修改」标记准确
+  const setNodeOverride = (node: GraphNode, patch: { baseStatus?: BaseStatus; confidence?: number }) => {
+    const next = { ...overrides.nodes[node.id], ...patch };
+    const baseStatus = node.baseStatus ?? DEFAULT_BASE_STATUS[node.type];
+    if (next.baseStatus === baseStatus) delete next.baseStatus;
+    if (next.confidence === node.confidence) delete next.confidence;
+    const nodesOverrides = { ...overrides.nodes, [node.id]: next };
+    if (Object.keys(next).length === 0) delete nodesOverrides[node.id];
+    onChange({ ...overrides, nodes: nodesOverrides });
+  };
+
+  const setEdgeStrength = (edge: GraphEdge, strength: number) => {
+    const edgesOverrides = { ...overrides.edges, [edge.id]: { strength } };
+    if (strength === edge.strength) delete edgesOverrides[edge.id];
+    onChange({ ...overrides, edges: edgesOverrides });
+  };
+
+  const resetNode = (id: string) => {
+    const { [id]: _removed, ...rest } = overrides.nodes;
+    onChange({ ...overrides, nodes: rest });
+  };
+
+  const resetEdge = (id: string) => {
+    const { [id]: _removed, ...rest } = overrides.edges;
+    onChange({ ...overrides, edges: rest });
+  };
+
+  const handleCommit = async () => {
+    if (!dirty) return;
+    setCommitting(true);
+    try {
+      await onCommit();
+    } catch (err) {
+      console.error('提交推演失败:', err);
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const renderReset = (onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className="p-0.5 rounded flex-shrink-0"
+      style={{ color: 'var(--color-text-muted)' }}
+      title="恢复原值"
+    >
+      <RotateCcw size={12} />
+    </button>
+  );
+
+  const renderChange = (c: WhatIfChange) => (
+    <div key={c.field} className="flex items-center justify-between text-xs">
+      <span style={{ color: 'var(--color-text-secondary)' }}>{c.label}</span>
+      <span style={{ color: c.better ? 'var(--color-success)' : 'var(--color-error)' }}>
+        {formatValue(c.before)} → {formatValue(c.after)}
+      </span>
+    </div>
+  );
+
+  const deltas = result?.deltas ?? [];
+
+  return (
+    <div
+      className="w-80 flex flex-col h-full"
+      style={{
+        background: 'var(--glass-bg, var(--color-surface))',
+        backdropFilter: 'var(--glass, none)',
+        WebkitBackdropFilter: 'var(--glass, none)',
+        borderLeft: '1px solid var(--glass-border, var(--color-border))',
+      }}
+    >
+      {/* 头部 */}
+      <div className="p-4" style={{ borderBottom: '1px solid var(--color-border)' }}>
+        <h3 className="font-semibold flex items-center gap-2" style={{ color: 'var(--color-text)' }}>
+          <FlaskConical size={18} />
+          假设推演
+        </h3>
+        <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          调整下方的状态和强度，画布按推演结果显示；提交前不会保存。
+        </p>
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={handleCommit}
+            disabled={!dirty || committing || readOnly}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-50"
+            style={{ background: 'var(--color-primary)', color: '#fff' }}
+            title={readOnly ? (isExample ? '示例项目为只读' : '你在该项目中没有编辑权限') : '把推演中的修改写入项目'}
+          >
+            {committing ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+            提交
+          </button>
+          <button
+            onClick={() => onChange({ nodes: {}, edges: {} })}
+            disabled={!dirty || committing}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-50"
+            style={{ background: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)' }}
+          >
+            <RotateCcw size={14} />
+            全部重置
+          </button>
+        </div>
+      </div>
+
+      {/* 可调整项 */}
+      <div className="flex-1 overflow-y-auto" style={{ background: 'var(--color-bg)' }}>
+        <div className="px-4 pt-3 pb-1 text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
+          事实与假设
+        </div>
+        {adjustableNodes.length === 0 && (
+          <div className="px-4 py-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>当前视图没有事实或假设节点</div>
+        )}
+        {adjustableNodes.map((node) => {
+          const override = overrides.nodes[node.id];
+          const baseStatus = override?.baseStatus ?? node.baseStatus ?? DEFAULT_BASE_STATUS[node.type];
+          const evidenceConfidence = computeEvidenceConfidence(node.evidence);
+          const confidence = override?.confidence ?? node.confidence;
+          return (
+            <div
+              key={node.id}
+              className="px-4 py-2 space-y-1.5"
+              style={{ borderBottom: '1px solid var(--color-border-light)' }}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs flex-shrink-0" style={{ color: NODE_TYPE_CONFIG[node.type].color }}>
+                  {NODE_TYPE_CONFIG[node.type].label}
+                </span>
+                <button
+                  onClick={() => onNodeClick?.(node.id)}
+                  className="flex-1 text-sm text-left truncate"
+                  style={{ color: override ? 'var(--color-primary)' : 'var(--color-text)' }}
+                  title={node.title}
+                >
+                  {node.title}
+                </button>
+                {override && renderReset(() => resetNode(node.id))}
+              </div>
+              <select
+                value={baseStatus}
+                onChange={(e) => setNodeOverride(node, { baseStatus: e.target.value as BaseStatus })}
+                className="w-full px-2 py-1 text-xs rounded outline-none"
+                style={{
+                  background: 'var(--color-surface)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+              >
+                {getStatusOptionsForType(node.type).map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+              {node.type === NodeType.ASSUMPTION && (
+                <div>
+                  <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    置信度: {evidenceConfidence ?? confidence}%{evidenceConfidence !== null && '（由证据计算）'}
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={evidenceConfidence ?? confidence}
+                    onChange={(e) => setNodeOverride(node, { confidence: Number(e.target.value) })}
+                    disabled={evidenceConfidence !== null}
+                    className="w-full h-2 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                    style={{ background: 'var(--color-bg-tertiary)' }}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="px-4 pt-3 pb-1 text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
+          关系强度
+        </div>
+        {adjustableEdges.length === 0 && (
+          <div className="px-4 py-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>当前视图没有促成、实现或阻碍关系</div>
+        )}
+        {adjustableEdges.map((edge) => {
+          const override = overrides.edges[edge.id];
+          const strength = override?.strength ?? edge.strength;
+          return (
+            <div
+              key={edge.id}
+              className="px-4 py-2"
+              style={{ borderBottom: '1px solid var(--color-border-light)' }}
+            >
+              <div className="flex items-center gap-2 text-xs">
+                <span
+                  className="flex-1 truncate"
+                  style={{ color: override ? 'var(--color-primary)' : 'var(--color-text-secondary)' }}
+                >
+                  {nodeTitle(edge.sourceNodeId)} —{EDGE_TYPE_CONFIG[edge.type].label}→ {nodeTitle(edge.targetNodeId)}
+                </span>
+                <span className="flex-shrink-0" style={{ color: 'var(--color-text-muted)' }}>{strength.toFixed(1)}</span>
+                {override && renderReset(() => resetEdge(edge.id))}
+              </div>
+              <input
+                type="range"
+                min={0.1}
+                max={2.0}
+                step={0.1}
+                value={strength}
+                onChange={(e) => setEdgeStrength(edge, Number(e.target.value))}
+                className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+                style={{ background: 'var(--color-bg-tertiary)' }}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 推演结果 */}
+      <div
+        className="max-h-[45%] overflow-y-auto"
+        style={{ borderTop: '1px solid var(--color-border)', background: 'var(--color-surface)' }}
+      >
+        <div className="px-4 pt-3 pb-1 text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
+          影响（{deltas.length}）
+        </div>
+        {!dirty ? (
+          <div className="px-4 pb-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>还没有修改</div>
+        ) : deltas.length === 0 ? (
+          <div className="px-4 pb-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>计算状态没有变化</div>
+        ) : (
+          deltas.map((d) => {
+            const effect = EFFECT_CONFIG[d.effect];
+            return (
+              <div
+                key={d.nodeId}
+                className="px-4 py-2 space-y-0.5"
+                style={{ borderBottom: '1px solid var(--color-border-light)' }}
+              >
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onNodeClick?.(d.nodeId)}
+                    className="flex-1 text-sm text-left truncate"
+                    style={{ color: 'var(--color-text)' }}
+                    title={d.title}
+                  >
+                    {d.title}
+                  </button>
+                  <span className="text-xs flex-shrink-0" style={{ color: `var(${effect.colorVar})` }}>
+                    {effect.label}
+                  </span>
+                </div>
+                {d.changes.map(renderChange)}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
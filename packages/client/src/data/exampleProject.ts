@@ -1,8 +1,8 @@
 /**
- * 预置只读示例项目（方案一：静态数据，永不写入 localStorage）
+ * 预置只读示例项目（方案一：静态数据，永不写入本地存储）
  *
  * 这份数据完全脱离 localStore：列表层把它作为一个特殊条目展示，
- * 打开后 projectStore 直接从这里取数（不读 localStorage），
+ * 打开后 projectStore 直接从这里取数（不读本地存储），
  * 且在「示例上下文」下所有写操作都会被 store 短路为 no-op，
  * 因此无论用户如何拖动/点击，都不会污染真实的 solvechain-data。
  *
@@ -0,0 +1,187 @@
+/**
+ * 内置项目模板库（静态数据，不写入本地存储）
+ *
+ * 每个模板只给出常见决策的骨架：目标、候选行动、需要核实的事实/假设与约束，
+ * 以及填写时在 AI 面板中显示的引导问题。节点状态在创建项目时统一取默认值。
+ * 用户自建模板存放在 localStore 中，与这里的内置模板一起在新建项目时供选择。
+ */
+
+import { NodeType, EdgeType, ProjectTemplate } from '../types';
+
+// 固定时间戳，避免每次渲染产生新值
+const TS = '2026-01-01T00:00:00.000Z';
+
+/** 模板规格：节点坐标同时用作概览坐标与场景内坐标 */
+interface TemplateSpec {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  sceneName: string;
+  guidingQuestions: string[];
+  nodes: Array<{ id: string; type: NodeType; title: string; content: string; x: number; y: number }>;
+  edges: Array<[source: string, target: string, type: EdgeType]>;
+}
+
+function buildTemplate(spec: TemplateSpec): ProjectTemplate {
+  return {
+    id: spec.id,
+    name: spec.name,
+    description: spec.description,
+    category: spec.category,
+    guidingQuestions: spec.guidingQuestions,
+    builtIn: true,
+    createdAt: TS,
+    data: {
+      scenes: [
+        {
+          name: spec.sceneName,
+          color: '#6366f1',
+          members: spec.nodes.map((n) => ({ nodeId: n.id, positionX: n.x, positionY: n.y })),
+        },
+      ],
+      nodes: spec.nodes.map((n) => ({
+        id: n.id,
+        type: n.type,
+        title: n.title,
+        content: n.content,
+        positionX: n.x,
+        positionY: n.y,
+      })),
+      edges: spec.edges.map(([sourceNodeId, targetNodeId, type]) => ({ sourceNodeId, targetNodeId, type })),
+    },
+  };
+}
+
+const TEMPLATE_SPECS: TemplateSpec[] = [
+  {
+    id: 'builtin-job-change',
+    name: '要不要换工作',
+    description: '对比留下与跳槽，理清收入、成长、风险和现实约束',
+    category: '职业',
+    sceneName: '去留对比',
+    guidingQuestions: [
+      '你最想通过换工作解决的问题是什么？收入、成长、环境还是生活平衡？',
+      '如果留下，有没有可能在现公司解决这个问题？',
+      '新机会里哪些信息是你确认过的，哪些只是你的猜测？',
+      '你的存款能支撑多长时间的空窗期？',
+      '一年后回头看，哪种结果会让你最后悔？',
+    ],
+    nodes: [
+      { id: 'g', type: NodeType.GOAL, title: '找到更满意的工作状态', content: '写下你最看重的一两点，例如收入提升 30%、有晋升空间。', x: 2000, y: 1180 },
+      { id: 'a1', type: NodeType.ACTION, title: '留在现公司', content: '可以争取调岗、加薪或新项目。', x: 1740, y: 1480 },
+      { id: 'a2', type: NodeType.ACTION, title: '跳槽到新公司', content: '写下目标公司或岗位。', x: 2260, y: 1480 },
+      { id: 'f1', type: NodeType.FACT, title: '当前的收入与成长空间', content: '写下已经确认的现状。', x: 1520, y: 1820 },
+      { id: 's1', type: NodeType.ASSUMPTION, title: '新公司的前景和团队靠谱', content: '还没验证的判断，找内部的人聊聊再更新状态。', x: 1980, y: 1880 },
+      { id: 'c1', type: NodeType.CONSTRAINT, title: '最多能接受的空窗期', content: '例如：三个月内必须有收入。', x: 2440, y: 1820 },
+    ],
+    edges: [
+      ['a1', 'g', EdgeType.ACHIEVES],
+      ['a2', 'g', EdgeType.ACHIEVES],
+      ['a1', 'a2', EdgeType.CONFLICTS],
+      ['f1', 'a2', EdgeType.SUPPORTS],
+      ['s1', 'a2', EdgeType.SUPPORTS],
+      ['c1', 'a2', EdgeType.HINDERS],
+    ],
+  },
+  {
+    id: 'builtin-purchase',
+    name: '大件购买决策',
+    description: '买房、买车、买设备：比较候选方案，核实需求与预算',
+    category: '生活',
+    sceneName: '方案对比',
+    guidingQuestions: [
+      '买它是为了解决什么问题？不买的话问题会怎样？',
+      '你的预算上限是多少？超出一点是否能接受？',
+      '哪些需求是必须满足的，哪些只是加分项？',
+      '候选方案的评价和参数，哪些是你亲自核实过的？',
+      '有没有租赁、二手或等待下一代之类的替代方案？',
+    ],
+    nodes: [
+      { id: 'g', type: NodeType.GOAL, title: '买到满足需求、不超预算的东西', content: '写下它要满足的核心需求。', x: 2000, y: 1180 },
+      { id: 'a1', type: NodeType.ACTION, title: '方案 A', content: '写下候选型号或选项。', x: 1740, y: 1480 },
+      { id: 'a2', type: NodeType.ACTION, title: '方案 B', content: '写下另一个候选。', x: 2260, y: 1480 },
+      { id: 'f1', type: NodeType.FACT, title: '核心使用场景', content: '平时主要怎么用、用多久。', x: 1520, y: 1820 },
+      { id: 's1', type: NodeType.ASSUMPTION, title: '方案 A 的口碑属实', content: '看过哪些评测？是否亲自体验过？', x: 1980, y: 1880 },
+      { id: 'c1', type: NodeType.CONSTRAINT, title: '预算上限', content: '写下金额和付款方式。', x: 2440, y: 1820 },
+    ],
+    edges: [
+      ['a1', 'g', EdgeType.ACHIEVES],
+      ['a2', 'g', EdgeType.ACHIEVES],
+      ['a1', 'a2', EdgeType.CONFLICTS],
+      ['f1', 'a1', EdgeType.SUPPORTS],
+      ['s1', 'a1', EdgeType.SUPPORTS],
+      ['c1', 'a1', EdgeType.HINDERS],
+    ],
+  },
+  {
+    id: 'builtin-product-launch',
+    name: '产品上线',
+    description: '梳理上线前的依赖、风险和验证项，判断能否按期发布',
+    category: '工作',
+    sceneName: '上线计划',
+    guidingQuestions: [
+      '这次上线成功的衡量标准是什么？',
+      '哪些功能是上线必须的，哪些可以延后？',
+      '用户需求是否经过验证？依据是什么？',
+      '上线依赖哪些外部团队或资源？它们的进度确认了吗？',
+      '如果上线后出现严重问题，回滚方案是什么？',
+    ],
+    nodes: [
+      { id: 'g', type: NodeType.GOAL, title: '按期上线并达到目标指标', content: '写下上线日期和衡量指标。', x: 2000, y: 1180 },
+      { id: 'a1', type: NodeType.ACTION, title: '完成核心功能开发', content: '列出必须上线的功能。', x: 1740, y: 1480 },
+      { id: 'a2', type: NodeType.ACTION, title: '完成测试与灰度', content: '测试范围和灰度比例。', x: 2260, y: 1480 },
+      { id: 's1', type: NodeType.ASSUMPTION, title: '用户确实需要这个功能', content: '有哪些调研或数据支持？', x: 1520, y: 1820 },
+      { id: 'c1', type: NodeType.CONSTRAINT, title: '依赖方按时交付', content: '写下依赖的团队和时间点。', x: 1980, y: 1880 },
+      { id: 'f1', type: NodeType.FACT, title: '当前团队人力', content: '可投入的人和时间。', x: 2440, y: 1820 },
+      { id: 'r', type: NodeType.CONCLUSION, title: '是否能按期发布', content: '根据上面的因素得出结论。', x: 2460, y: 1220 },
+    ],
+    edges: [
+      ['a1', 'g', EdgeType.ACHIEVES],
+      ['a2', 'g', EdgeType.ACHIEVES],
+      ['a2', 'a1', EdgeType.DEPENDS],
+      ['s1', 'g', EdgeType.SUPPORTS],
+      ['c1', 'a1', EdgeType.HINDERS],
+      ['f1', 'a1', EdgeType.SUPPORTS],
+      ['a2', 'r', EdgeType.CAUSES],
+    ],
+  },
+  {
+    id: 'builtin-hiring',
+    name: '招聘决策',
+    description: '评估候选人与岗位的匹配度，决定是否发 offer',
+    category: '工作',
+    sceneName: '候选人评估',
+    guidingQuestions: [
+      '这个岗位最关键的两三项能力是什么？',
+      '候选人在这些能力上有哪些具体证据（项目、作品、面试表现）？',
+      '哪些判断还只是面试印象，需要背调或试用来验证？',
+      '薪资期望与预算的差距有多大？',
+      '如果不招这个人，岗位空缺会带来什么影响？',
+    ],
+    nodes: [
+      { id: 'g', type: NodeType.GOAL, title: '招到能胜任岗位的人', content: '写下岗位和到岗时间。', x: 2000, y: 1180 },
+      { id: 'a1', type: NodeType.ACTION, title: '发 offer', content: '薪资与职级。', x: 1740, y: 1480 },
+      { id: 'a2', type: NodeType.ACTION, title: '继续面试其他候选人', content: '还有多少候选人在流程中。', x: 2260, y: 1480 },
+      { id: 'f1', type: NodeType.FACT, title: '候选人的核心能力表现', content: '面试和作品中确认过的能力。', x: 1520, y: 1820 },
+      { id: 's1', type: NodeType.ASSUMPTION, title: '候选人能融入团队', content: '依据是什么？是否需要背调？', x: 1980, y: 1880 },
+      { id: 'c1', type: NodeType.CONSTRAINT, title: '薪资预算', content: '岗位的薪资范围。', x: 2440, y: 1820 },
+    ],
+    edges: [
+      ['a1', 'g', EdgeType.ACHIEVES],
+      ['a2', 'g', EdgeType.ACHIEVES],
+      ['a1', 'a2', EdgeType.CONFLICTS],
+      ['f1', 'a1', EdgeType.SUPPORTS],
+      ['s1', 'a1', EdgeType.SUPPORTS],
+      ['c1', 'a1', EdgeType.HINDERS],
+    ],
+  },
+];
+
+/** 内置模板，按展示顺序排列 */
+export const BUILTIN_TEMPLATES: ProjectTemplate[] = TEMPLATE_SPECS.map(buildTemplate);
+
+/** 是否为内置模板 ID */
+export function isBuiltinTemplateId(id: string | null | undefined): boolean {
+  return !!id && BUILTIN_TEMPLATES.some((t) => t.id === id);
+}
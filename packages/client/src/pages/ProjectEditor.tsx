@@ -3,7 +3,7 @@
  * 支持场景切换的决策图编辑
  */
 
-import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { useProjectStore, EditorMode } from '../store/projectStore';
 import { useUndoStore } from '../store/undoStore';
 import Header from '../components/Header';
@@ -11,14 +11,21 @@ import NodeLibrary from '../components/NodeLibrary';
 import FocusView from '../components/FocusView';
 import NodeEditPanel from '../components/NodeEditPanel';
 import EdgeEditPanel from '../components/EdgeEditPanel';
+import CommentsPanel from '../components/CommentsPanel';
 import PropagationPanel from '../components/PropagationPanel';
 import AnalysisPanel from '../components/AnalysisPanel';
+import SnapshotPanel from '../components/SnapshotPanel';
+import DiffPanel from '../components/DiffPanel';
 import AIAssistantPanel from '../components/AIAssistantPanel';
+import WhatIfPanel from '../components/WhatIfPanel';
 import SceneTabs from '../components/SceneTabs';
 import ImportDialog from '../components/ImportDialog';
 import SettingsDialog from '../components/SettingsDialog';
-import { NodeType, EdgeType } from '../types';
-import { Edit3, Eye, Download, Upload, FileText, Copy, Check, Activity, Brain, Bot } from 'lucide-react';
+import SaveTemplateDialog from '../components/SaveTemplateDialog';
+import ShareDialog from '../components/ShareDialog';
+import { NodeType, EdgeType, BaseStatus } from '../types';
+import { Edit3, Eye, Download, Upload, FileText, Copy, Check, Activity, Brain, Bot, History, GitCompare, LayoutTemplate, FlaskConical, FileBarChart, Users } from 'lucide-react';
+import { PROJECT_ROLE_LABELS } from '@solvechain/shared';
 import {
   exportScene,
   exportProject,
@@ -31,17 +38,26 @@ import {
   generateNonConflictingTitle,
   exportSceneAsText,
   exportProjectAsText,
+  exportSceneAsMermaid,
+  exportSceneAsDot,
   downloadText,
   copyToClipboard,
 } from '../utils/exportImport';
 import { loadAll, importProject } from '../store/localStore';
+import { joinProject, updatePresence, getPresence, subscribePresence } from '../services/realtime';
+import { buildDecisionReport, renderReportMarkdown, renderReportHtml } from '../utils/report';
+import type { DiffKind } from '../utils/projectDiff';
+import { countComments } from '../utils/comments';
+import type { CommentTargetType } from '../types';
+import { simulateWhatIf, EMPTY_WHAT_IF, WhatIfOverrides } from '../utils/whatIf';
 
 interface ProjectEditorProps {
   projectId: string;
   onBack: () => void;
+  onOpenProject?: (projectId: string) => void;
 }
 
-export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps) {
+export default function ProjectEditor({ projectId, onBack, onOpenProject }: ProjectEditorProps) {
   const {
     currentProject,
     scenes,
@@ -54,6 +70,8 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     error,
     editorMode,
     isExample,
+    readOnly,
+    comments,
     fetchProject,
     fetchProjects,
     setCurrentScene,
@@ -68,16 +86,19 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     deleteEdge,
     restoreEdge,
     updateNode,
+    fetchNodeHistory,
     addNodeToScene,
     setEditorMode,
     clearError,
     saveLayout,
     setPendingLayoutPositions,
     importNodes,
+    getTemplate,
+    autoSnapshot,
   } = useProjectStore();
 
   // 撤销/重做系统
-  const { pushAction, undo, redo, canUndo, canRedo } = useUndoStore();
+  const { pushAction, undo, redo, canUndo, canRedo, clearHistory } = useUndoStore();
 
   // 当前聚焦的节点ID
   const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
@@ -86,6 +107,9 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
 
+  // 查看模式下打开的评论（编辑模式下评论在编辑面板的「评论」页签中）
+  const [commentTarget, setCommentTarget] = useState<{ targetType: CommentTargetType; targetId: string } | null>(null);
+
   // 导入对话框状态
   const [showImportDialog, setShowImportDialog] = useState(false);
 
@@ -102,14 +126,47 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
   // AI 助手面板状态
   const [showAIAssistantPanel, setShowAIAssistantPanel] = useState(false);
 
+  // 版本历史面板状态
+  const [showSnapshotPanel, setShowSnapshotPanel] = useState(false);
+
+  // 差异对比面板状态（diffFile 为从导入对话框带来的对比文件）
+  const [showDiffPanel, setShowDiffPanel] = useState(false);
+  const [diffFile, setDiffFile] = useState<ExportedScene | ExportedProject | null>(null);
+  const [diffHighlights, setDiffHighlights] = useState<{
+    nodes: Map<string, DiffKind>;
+    edges: Map<string, DiffKind>;
+  } | null>(null);
+
+  // 假设推演面板状态（覆盖值只保存在这里，提交后才写入项目）
+  const [showWhatIfPanel, setShowWhatIfPanel] = useState(false);
+  const [whatIf, setWhatIf] = useState<WhatIfOverrides>(EMPTY_WHAT_IF);
+
   // 设置对话框状态
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
 
   // 加载项目
   useEffect(() => {
     fetchProject(projectId);
   }, [projectId, fetchProject]);
 
+  // 实时协作：打开项目时加入协作房间，离开编辑器时退出（示例项目不在服务器上）
+  useEffect(() => {
+    if (isExample) return;
+    joinProject(projectId);
+    return () => joinProject(null);
+  }, [projectId, isExample]);
+
+  // 向协作者上报正在看的场景与选中的节点
+  useEffect(() => {
+    updatePresence(currentSceneId, focusedNodeId);
+  }, [currentSceneId, focusedNodeId]);
+
+  const presence = useSyncExternalStore(subscribePresence, getPresence);
+  const sceneNames = useMemo(() => new Map(scenes.map((s) => [s.id, s.name])), [scenes]);
+  const commentCounts = useMemo(() => countComments(comments), [comments]);
+
   // 项目加载完成后，默认选中第一个决策节点（仅初始加载时）
   const initialFocusSet = useRef(false);
   useEffect(() => {
@@ -196,6 +253,27 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     setEditingNodeId(null);
   }, []);
 
+  // 打开节点/关系上的讨论：编辑模式下打开编辑面板（切到「评论」页签查看），查看模式下打开评论面板
+  const handleOpenComments = useCallback((targetType: CommentTargetType, targetId: string) => {
+    if (editorMode === 'edit') {
+      if (targetType === 'node') handleEditNode(targetId);
+      else handleEditEdge(targetId);
+      return;
+    }
+    setCommentTarget({ targetType, targetId });
+  }, [editorMode, handleEditNode, handleEditEdge]);
+
+  // 评论面板标题：节点标题或「源 → 目标」；对象已被删除时为 null（不显示面板）
+  const commentTargetTitle = useMemo(() => {
+    if (!commentTarget) return null;
+    const titleOf = (nodeId: string) => nodes.find(n => n.id === nodeId)?.title ?? '?';
+    if (commentTarget.targetType === 'node') {
+      return nodes.some(n => n.id === commentTarget.targetId) ? titleOf(commentTarget.targetId) : null;
+    }
+    const edge = edges.find(e => e.id === commentTarget.targetId);
+    return edge ? `${titleOf(edge.sourceNodeId)} → ${titleOf(edge.targetNodeId)}` : null;
+  }, [commentTarget, nodes, edges]);
+
   // 关闭编辑面板
   const handleCloseEditPanel = useCallback(() => {
     setEditingNodeId(null);
@@ -288,16 +366,19 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
   const handleAIUpdateNodeStatus = useCallback(async (nodeId: string, status: string) => {
     console.log('handleAIUpdateNodeStatus 被调用:', { nodeId, status });
     try {
+      await autoSnapshot('ai', 'AI 修改前自动保存');
       await updateNode(nodeId, { baseStatus: status as any });
       console.log('updateNode 调用成功');
     } catch (err) {
       console.error('更新节点状态失败:', err);
     }
-  }, [updateNode]);
+  }, [updateNode, autoSnapshot]);
 
   // 添加新节点（返回新节点 ID）
   const handleAIAddNode = useCallback(async (nodeData: { type: string; title: string; content?: string }): Promise<string | undefined> => {
     try {
+      await autoSnapshot('ai', 'AI 修改前自动保存');
+
       // 画布中心位置，加随机偏移避免节点重叠
       const centerX = 2000 + (Math.random() - 0.5) * 200;
       const centerY = 1500 + (Math.random() - 0.5) * 200;
@@ -321,11 +402,12 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
       console.error('添加节点失败:', err);
       return undefined;
     }
-  }, [createNode, currentSceneId, addNodeToScene]);
+  }, [createNode, currentSceneId, addNodeToScene, autoSnapshot]);
 
   // 添加新边
   const handleAIAddEdge = useCallback(async (edgeData: { sourceNodeId: string; targetNodeId: string; type: string }) => {
     try {
+      await autoSnapshot('ai', 'AI 修改前自动保存');
       await createEdge({
         sourceNodeId: edgeData.sourceNodeId,
         targetNodeId: edgeData.targetNodeId,
@@ -334,7 +416,33 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     } catch (err) {
       console.error('添加边失败:', err);
     }
-  }, [createEdge]);
+  }, [createEdge, autoSnapshot]);
+
+  // 快照恢复后，撤销历史里的记录已与数据对不上，直接清空
+  const handleSnapshotRestored = useCallback(() => {
+    clearHistory();
+    setEditingNodeId(null);
+    setEditingEdgeId(null);
+  }, [clearHistory]);
+
+  // 打开从快照分支出的新项目
+  const handleOpenBranch = useCallback(async (newProjectId: string) => {
+    await setCurrentScene(null);
+    clearHistory();
+    setShowSnapshotPanel(false);
+    onOpenProject?.(newProjectId);
+  }, [setCurrentScene, clearHistory, onOpenProject]);
+
+  // 从导入对话框进入差异对比
+  const handleCompareImport = useCallback((data: ExportedScene | ExportedProject) => {
+    setDiffFile(data);
+    setShowDiffPanel(true);
+    setShowSnapshotPanel(false);
+    setShowPropagationPanel(false);
+    setShowAnalysisPanel(false);
+    setShowAIAssistantPanel(false);
+    setShowWhatIfPanel(false);
+  }, []);
 
   // 图操作回调集合
   const graphOperations = useMemo(() => ({
@@ -446,10 +554,38 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     return () => document.removeEventListener('click', handleClickOutside);
   }, [showTextExportMenu]);
 
+  // 从模板创建的项目：AI 面板显示模板的引导问题
+  const templateQuestions = useMemo(
+    () => (currentProject?.templateId ? getTemplate(currentProject.templateId)?.guidingQuestions ?? [] : []),
+    [currentProject?.templateId, getTemplate]
+  );
+
   // 当前显示的节点和边
   const displayNodes = currentSceneId ? sceneNodes : nodes;
   const displayEdges = currentSceneId ? sceneEdges : edges;
 
+  // 推演只针对当前视图，切换场景时清空
+  useEffect(() => {
+    setWhatIf(EMPTY_WHAT_IF);
+  }, [currentSceneId]);
+
+  // 假设推演结果（面板打开时才计算）
+  const whatIfResult = useMemo(
+    () => (showWhatIfPanel ? simulateWhatIf(displayNodes, displayEdges, whatIf) : null),
+    [showWhatIfPanel, displayNodes, displayEdges, whatIf]
+  );
+
+  // 把推演中的修改写入项目
+  const handleCommitWhatIf = useCallback(async () => {
+    for (const [nodeId, patch] of Object.entries(whatIf.nodes)) {
+      await updateNode(nodeId, patch, '假设推演后提交');
+    }
+    for (const [edgeId, patch] of Object.entries(whatIf.edges)) {
+      await updateEdge(edgeId, patch);
+    }
+    setWhatIf(EMPTY_WHAT_IF);
+  }, [whatIf, updateNode, updateEdge]);
+
   // 导出当前场景
   const handleExportScene = useCallback(() => {
     if (!currentProject) return;
@@ -513,7 +649,8 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
       projectScenes,
       activeNodes,
       activeEdges,
-      sceneMembers
+      sceneMembers,
+      db.comments.filter(c => c.projectId === projectId)
     );
 
     const filename = `${currentProject.title}_完整导出_${new Date().toISOString().slice(0, 10)}.json`;
@@ -561,6 +698,63 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
     setShowTextExportMenu(false);
   }, [currentProject, scenes, currentSceneId, displayNodes, displayEdges]);
 
+  // 导出当前场景为 Mermaid / DOT 图表（复制或下载）
+  const handleExportSceneDiagram = useCallback(async (format: 'mermaid' | 'dot', action: 'copy' | 'download') => {
+    if (!currentProject) return;
+
+    const currentScene = scenes.find(s => s.id === currentSceneId);
+    const sceneName = currentScene?.name || '概览';
+    const text = format === 'mermaid'
+      ? exportSceneAsMermaid(sceneName, displayNodes, displayEdges)
+      : exportSceneAsDot(sceneName, displayNodes, displayEdges);
+
+    if (action === 'copy') {
+      const success = await copyToClipboard(text);
+      if (success) {
+        setCopySuccess(true);
+        setTimeout(() => setCopySuccess(false), 2000);
+      }
+    } else {
+      const ext = format === 'mermaid' ? 'mmd' : 'dot';
+      downloadText(text, `${currentProject.title}_${sceneName}_${new Date().toISOString().slice(0, 10)}.${ext}`);
+    }
+    setShowTextExportMenu(false);
+  }, [currentProject, scenes, currentSceneId, displayNodes, displayEdges]);
+
+  // 导出决策报告（Markdown / 单文件 HTML），场景成员和 AI 对话取自本地持久层
+  const handleExportReport = useCallback((format: 'markdown' | 'html') => {
+    if (!currentProject) return;
+
+    const db = loadAll();
+    const projectScenes = db.scenes
+      .filter(s => s.projectId === currentProject.id)
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+
+    const report = buildDecisionReport({
+      title: currentProject.title,
+      description: currentProject.description,
+      scenes: projectScenes.map(scene => ({
+        name: scene.name,
+        description: scene.description,
+        members: db.sceneNodes
+          .filter(sn => sn.sceneId === scene.id)
+          .map(sn => ({ id: sn.nodeId, x: sn.positionX, y: sn.positionY })),
+      })),
+      nodes,
+      edges,
+      conversations: db.conversations.filter(c => c.projectId === currentProject.id),
+      sceneNames: new Map(projectScenes.map(s => [s.id, s.name])),
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'markdown') {
+      downloadText(renderReportMarkdown(report), `${currentProject.title}_决策报告_${date}.md`);
+    } else {
+      downloadText(renderReportHtml(report), `${currentProject.title}_决策报告_${date}.html`);
+    }
+    setShowTextExportMenu(false);
+  }, [currentProject, nodes, edges]);
+
   // 导出整个项目为文本
   const handleExportProjectAsText = useCallback(() => {
     if (!currentProject) return;
@@ -647,14 +841,30 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
           autoUpdate: n.autoUpdate,
           logicState: (n as any).logicState,
           customWeight: (n as any).customWeight,
+          evidence: n.evidence,
         })),
         edges: proj.edges.map(e => ({
+          originalId: e.id,
           sourceOriginalId: e.sourceNodeId,
           targetOriginalId: e.targetNodeId,
           type: e.type as EdgeType,
           strength: e.strength,
           description: e.description,
         })),
+        // 2.4 起带评论
+        comments: (proj.comments ?? []).map(c => ({
+          originalId: c.id,
+          targetType: c.targetType,
+          targetOriginalId: c.targetId,
+          parentOriginalId: c.parentId,
+          authorName: c.authorName,
+          body: c.body,
+          mentions: c.mentions ?? [],
+          resolved: c.resolved,
+          resolvedBy: c.resolvedBy,
+          resolvedAt: c.resolvedAt,
+          createdAt: c.createdAt,
+        })),
       });
 
       // 刷新项目列表，让新项目出现在列表里（不影响当前打开的项目）
@@ -682,6 +892,7 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
       content?: string;
       positionX?: number;
       positionY?: number;
+      baseStatus?: BaseStatus;
       originalId: string;
     }> = [];
 
@@ -711,6 +922,7 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
               content: node.content,
               positionX: node.positionX,
               positionY: node.positionY,
+              baseStatus: node.baseStatus as BaseStatus | undefined,
               originalId: node.id,
             });
             idToIndexMap.set(node.id, nodesToImport.length - 1);
@@ -725,6 +937,7 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
         content: node.content,
         positionX: node.positionX,
         positionY: node.positionY,
+        baseStatus: node.baseStatus as BaseStatus | undefined,
         originalId: node.id,
       });
       idToIndexMap.set(node.id, nodesToImport.length - 1);
@@ -760,6 +973,7 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
         content: n.content,
         positionX: n.positionX,
         positionY: n.positionY,
+        baseStatus: n.baseStatus,
       })),
       edgesToImport,
       options.targetSceneId,
@@ -894,6 +1108,56 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
                   <Download size={14} />
                   <span>下载整个项目 (.txt)</span>
                 </button>
+                <div className="my-1" style={{ borderTop: '1px solid var(--color-border-light)' }} />
+                <button
+                  onClick={() => handleExportSceneDiagram('mermaid', 'copy')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <Copy size={14} />
+                  <span>复制为 Mermaid</span>
+                </button>
+                <button
+                  onClick={() => handleExportSceneDiagram('mermaid', 'download')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <Download size={14} />
+                  <span>下载 Mermaid (.mmd)</span>
+                </button>
+                <button
+                  onClick={() => handleExportSceneDiagram('dot', 'copy')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <Copy size={14} />
+                  <span>复制为 DOT</span>
+                </button>
+                <button
+                  onClick={() => handleExportSceneDiagram('dot', 'download')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <Download size={14} />
+                  <span>下载 DOT (.dot)</span>
+                </button>
+                <div className="my-1" style={{ borderTop: '1px solid var(--color-border-light)' }} />
+                <button
+                  onClick={() => handleExportReport('html')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <FileBarChart size={14} />
+                  <span>决策报告 (.html)</span>
+                </button>
+                <button
+                  onClick={() => handleExportReport('markdown')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <FileBarChart size={14} />
+                  <span>决策报告 (.md)</span>
+                </button>
               </div>
             )}
           </div>
@@ -912,11 +1176,48 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             <span>导出项目</span>
           </button>
 
+          {/* 另存为模板 */}
+          {!isExample && (
+            <button
+              onClick={() => setShowSaveTemplateDialog(true)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg transition-colors"
+              style={{
+                color: 'var(--color-text-secondary)',
+                border: '1px solid var(--color-border)',
+              }}
+              title="把当前项目或场景的结构另存为模板"
+            >
+              <LayoutTemplate size={16} />
+              <span>存为模板</span>
+            </button>
+          )}
+
+          {/* 共享 */}
+          {!isExample && (
+            <button
+              onClick={() => setShowShareDialog(true)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg transition-colors"
+              style={{
+                color: 'var(--color-text-secondary)',
+                border: '1px solid var(--color-border)',
+              }}
+              title="邀请他人查看、评论或编辑此项目"
+            >
+              <Users size={16} />
+              <span>共享</span>
+            </button>
+          )}
+
           {/* 状态传播按钮 */}
           <button
             onClick={() => {
               setShowPropagationPanel(!showPropagationPanel);
-              if (!showPropagationPanel) setShowAnalysisPanel(false);
+              if (!showPropagationPanel) {
+                setShowWhatIfPanel(false);
+                setShowAnalysisPanel(false);
+                setShowSnapshotPanel(false);
+                setShowDiffPanel(false);
+              }
             }}
             className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
             style={{
@@ -935,8 +1236,11 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             onClick={() => {
               setShowAnalysisPanel(!showAnalysisPanel);
               if (!showAnalysisPanel) {
+                setShowWhatIfPanel(false);
                 setShowPropagationPanel(false);
                 setShowAIAssistantPanel(false);
+                setShowSnapshotPanel(false);
+                setShowDiffPanel(false);
               }
             }}
             className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
@@ -956,8 +1260,11 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             onClick={() => {
               setShowAIAssistantPanel(!showAIAssistantPanel);
               if (!showAIAssistantPanel) {
+                setShowWhatIfPanel(false);
                 setShowPropagationPanel(false);
                 setShowAnalysisPanel(false);
+                setShowSnapshotPanel(false);
+                setShowDiffPanel(false);
               }
             }}
             className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
@@ -972,18 +1279,91 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             <span>AI</span>
           </button>
 
-          {/* 模式切换按钮（示例项目为只读，隐藏切换、改为只读标识） */}
-          {isExample ? (
+          {/* 版本历史按钮 */}
+          <button
+            onClick={() => {
+              setShowSnapshotPanel(!showSnapshotPanel);
+              if (!showSnapshotPanel) {
+                setShowWhatIfPanel(false);
+                setShowPropagationPanel(false);
+                setShowAnalysisPanel(false);
+                setShowAIAssistantPanel(false);
+                setShowDiffPanel(false);
+              }
+            }}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
+            style={{
+              background: showSnapshotPanel ? 'var(--color-primary-light)' : 'var(--color-surface)',
+              color: showSnapshotPanel ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+              border: `1px solid ${showSnapshotPanel ? 'var(--color-primary)' : 'var(--color-border)'}`,
+            }}
+            title="版本历史 - 保存、恢复项目快照"
+          >
+            <History size={18} />
+            <span>历史</span>
+          </button>
+
+          {/* 差异对比按钮 */}
+          <button
+            onClick={() => {
+              setShowDiffPanel(!showDiffPanel);
+              if (!showDiffPanel) {
+                setDiffFile(null);
+                setShowWhatIfPanel(false);
+                setShowPropagationPanel(false);
+                setShowAnalysisPanel(false);
+                setShowAIAssistantPanel(false);
+                setShowSnapshotPanel(false);
+              }
+            }}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
+            style={{
+              background: showDiffPanel ? 'var(--color-primary-light)' : 'var(--color-surface)',
+              color: showDiffPanel ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+              border: `1px solid ${showDiffPanel ? 'var(--color-primary)' : 'var(--color-border)'}`,
+            }}
+            title="差异对比 - 对比快照或导出文件，逐项合并变更"
+          >
+            <GitCompare size={18} />
+            <span>对比</span>
+          </button>
+
+          {/* 假设推演按钮 */}
+          <button
+            onClick={() => {
+              setShowWhatIfPanel(!showWhatIfPanel);
+              if (!showWhatIfPanel) {
+                setShowPropagationPanel(false);
+                setShowAnalysisPanel(false);
+                setShowAIAssistantPanel(false);
+                setShowSnapshotPanel(false);
+                setShowDiffPanel(false);
+              }
+            }}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg transition-colors"
+            style={{
+              background: showWhatIfPanel ? 'var(--color-primary-light)' : 'var(--color-surface)',
+              color: showWhatIfPanel ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+              border: `1px solid ${showWhatIfPanel ? 'var(--color-primary)' : 'var(--color-border)'}`,
+            }}
+            title="假设推演 - 临时修改状态和关系强度，查看对各节点的影响"
+          >
+            <FlaskConical size={18} />
+            <span>推演</span>
+          </button>
+
+          {/* 模式切换按钮（示例项目和没有编辑权限的共享项目为只读，隐藏切换、改为只读标识） */}
+          {readOnly ? (
             <div
               className="flex items-center gap-2 px-4 py-2 rounded-lg"
               style={{
                 background: 'var(--color-bg-secondary)',
                 color: 'var(--color-text-muted)',
               }}
-              title="这是预置示例项目，只读，任何改动都不会被保存"
+              title={isExample ? '这是预置示例项目，只读，任何改动都不会被保存' : '这是别人共享给你的项目，你没有编辑权限'}
             >
               <Eye size={18} />
-              <span>示例 · 只读</span>
+              <span>{isExample ? '示例' : PROJECT_ROLE_LABELS[currentProject.role ?? 'viewer']} · 只读</span>
             </div>
           ) : (
             <button
@@ -1064,13 +1444,21 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
           onEditEdge={handleEditEdge}
           onDeleteNode={handleDeleteNode}
           onDeleteEdge={handleDeleteEdge}
-          nodes={displayNodes}
-          edges={displayEdges}
+          nodes={whatIfResult?.nodes ?? displayNodes}
+          edges={whatIfResult?.edges ?? displayEdges}
           useScenePosition={!!currentSceneId}
           currentSceneId={currentSceneId}
           onCreateEdge={handleCreateEdge}
           onSaveLayout={saveLayout}
           onUpdatePendingPositions={setPendingLayoutPositions}
+          diffHighlights={showDiffPanel ? diffHighlights : null}
+          computedStatuses={whatIfResult?.after}
+          whatIfHighlights={whatIfResult?.highlights}
+          presence={presence}
+          sceneNames={sceneNames}
+          commentCounts={isExample ? undefined : commentCounts}
+          onOpenComments={isExample ? undefined : handleOpenComments}
+          exportName={`${currentProject?.title ?? '画布'}_${scenes.find(s => s.id === currentSceneId)?.name || '概览'}`}
         />
 
         {/* 右侧编辑面板 */}
@@ -1081,6 +1469,8 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             onDelete={handleDeleteNode}
             nodes={displayNodes}
             onUpdateNode={updateNode}
+            onFetchHistory={isExample ? undefined : fetchNodeHistory}
+            commentCount={isExample ? undefined : commentCounts.get(editingNodeId)?.total ?? 0}
           />
         )}
 
@@ -1092,6 +1482,17 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
             edges={displayEdges}
             nodes={displayNodes}
             onUpdateEdge={updateEdge}
+            commentCount={isExample ? undefined : commentCounts.get(editingEdgeId)?.total ?? 0}
+          />
+        )}
+
+        {/* 评论面板（查看模式） */}
+        {editorMode !== 'edit' && commentTarget && commentTargetTitle !== null && (
+          <CommentsPanel
+            targetType={commentTarget.targetType}
+            targetId={commentTarget.targetId}
+            title={commentTargetTitle}
+            onClose={() => setCommentTarget(null)}
           />
         )}
 
@@ -1103,22 +1504,54 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
         {/* 分析面板 */}
         {showAnalysisPanel && !editingNodeId && !editingEdgeId && (
           <AnalysisPanel
-            projectId={projectId}
             selectedNodeId={focusedNodeId}
             onNodeClick={handleSelectNode}
           />
         )}
 
+        {/* 版本历史面板 */}
+        {showSnapshotPanel && !editingNodeId && !editingEdgeId && (
+          <SnapshotPanel
+            onRestored={handleSnapshotRestored}
+            onOpenProject={handleOpenBranch}
+          />
+        )}
+
+        {/* 差异对比面板（key 保证换了对比文件时重新初始化） */}
+        {showDiffPanel && !editingNodeId && !editingEdgeId && (
+          <DiffPanel
+            key={diffFile ? diffFile.exportedAt : 'diff'}
+            initialFile={diffFile}
+            onNodeClick={handleSelectNode}
+            onHighlightsChange={setDiffHighlights}
+          />
+        )}
+
+        {/* 假设推演面板 */}
+        {showWhatIfPanel && !editingNodeId && !editingEdgeId && (
+          <WhatIfPanel
+            nodes={displayNodes}
+            edges={displayEdges}
+            overrides={whatIf}
+            result={whatIfResult}
+            onChange={setWhatIf}
+            onCommit={handleCommitWhatIf}
+            onNodeClick={handleSelectNode}
+          />
+        )}
+
         {/* AI 助手面板 */}
         <AIAssistantPanel
           isOpen={showAIAssistantPanel && !editingNodeId && !editingEdgeId}
           onClose={() => setShowAIAssistantPanel(false)}
+          sceneId={currentSceneId}
           sceneName={scenes.find(s => s.id === currentSceneId)?.name || '概览'}
           sceneDescription={scenes.find(s => s.id === currentSceneId)?.description}
           graphOperations={graphOperations}
           focusedNodeId={focusedNodeId}
           nodes={displayNodes}
           edges={displayEdges}
+          guidingQuestions={templateQuestions}
         />
       </div>
 
@@ -1127,11 +1560,27 @@ export default function ProjectEditor({ projectId, onBack }: ProjectEditorProps)
         isOpen={showImportDialog}
         onClose={() => setShowImportDialog(false)}
         onImport={handleImport}
+        onCompare={isExample ? undefined : handleCompareImport}
         existingNodes={displayNodes}
         existingScenes={scenes}
         currentSceneId={currentSceneId}
       />
 
+      {/* 另存为模板对话框（每次打开重新挂载，名称取当前项目名） */}
+      {showSaveTemplateDialog && (
+        <SaveTemplateDialog
+          onClose={() => setShowSaveTemplateDialog(false)}
+          defaultName={currentProject.title}
+          currentSceneId={currentSceneId}
+          currentSceneName={scenes.find(s => s.id === currentSceneId)?.name}
+        />
+      )}
+
+      {/* 共享对话框 */}
+      {showShareDialog && (
+        <ShareDialog project={currentProject} onClose={() => setShowShareDialog(false)} />
+      )}
+
       {/* 设置对话框 */}
       <SettingsDialog
         isOpen={showSettingsDialog}
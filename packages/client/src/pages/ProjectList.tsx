@@ -1,12 +1,15 @@
 /**
  * 项目列表页面 (v2.0)
+ * 新建项目时可选择空白项目、内置模板或自建模板
  */
 
 import { useEffect, useState } from 'react';
 import { useProjectStore } from '../store/projectStore';
-import { Plus, FolderOpen, Trash2, MoreVertical, Sparkles } from 'lucide-react';
-import { Project } from '../types';
+import { Plus, FolderOpen, Trash2, MoreVertical, Sparkles, FileText, LayoutTemplate, LogOut, Users } from 'lucide-react';
+import { PROJECT_ROLE_LABELS } from '@solvechain/shared';
+import { Project, ProjectTemplate } from '../types';
 import ThemeSwitcher from '../components/ThemeSwitcher';
+import SyncMenu from '../components/SyncMenu';
 import { exampleProject, EXAMPLE_PROJECT_ID } from '../data/exampleProject';
 
 interface ProjectListProps {
@@ -14,36 +17,74 @@ interface ProjectListProps {
 }
 
 export default function ProjectList({ onSelectProject }: ProjectListProps) {
-  const { projects, loading, error, fetchProjects, createProject, deleteProject } = useProjectStore();
+  const {
+    projects,
+    loading,
+    error,
+    templates,
+    fetchProjects,
+    createProject,
+    deleteProject,
+    fetchTemplates,
+    createProjectFromTemplate,
+    deleteTemplate,
+  } = useProjectStore();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [newDescription, setNewDescription] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null); // null 为空白项目
   const [menuOpen, setMenuOpen] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProjects();
-  }, [fetchProjects]);
+    fetchTemplates();
+  }, [fetchProjects, fetchTemplates]);
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setNewTitle('');
+    setNewDescription('');
+    setTemplateId(null);
+  };
+
+  const handleSelectTemplate = (template: ProjectTemplate | null) => {
+    // 名称还没填或仍是上一个模板名时，跟随所选模板
+    const previous = templates.find((t) => t.id === templateId);
+    if (!newTitle.trim() || newTitle === previous?.name) {
+      setNewTitle(template?.name ?? '');
+    }
+    setTemplateId(template?.id ?? null);
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`确定要删除模板「${template.name}」吗？`)) return;
+    await deleteTemplate(template.id);
+    if (templateId === template.id) setTemplateId(null);
+  };
 
   const handleCreate = async () => {
     if (!newTitle.trim()) return;
 
     try {
-      const project = await createProject({
+      const data = {
         title: newTitle.trim(),
         description: newDescription.trim() || undefined,
-      });
-      setShowCreateModal(false);
-      setNewTitle('');
-      setNewDescription('');
+      };
+      const project = templateId
+        ? await createProjectFromTemplate(templateId, data)
+        : await createProject(data);
+      closeCreateModal();
       onSelectProject(project.id);
     } catch (err) {
       // 错误已在 store 中处理
     }
   };
 
-  const handleDelete = async (projectId: string) => {
-    if (confirm('确定要删除这个项目吗？此操作不可撤销。')) {
-      await deleteProject(projectId);
+  // 共享来的项目只能退出，不能删除
+  const handleDelete = async (project: Project) => {
+    const shared = project.role && project.role !== 'owner';
+    if (confirm(shared ? '确定要退出这个共享项目吗？本机上的副本会被移除。' : '确定要删除这个项目吗？此操作不可撤销。')) {
+      await deleteProject(project.id);
     }
     setMenuOpen(null);
   };
@@ -77,6 +118,7 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <SyncMenu />
             <ThemeSwitcher />
             <button
               onClick={() => setShowCreateModal(true)}
@@ -141,7 +183,7 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
             )}
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {/* 预置只读示例项目：始终可见，不来自 localStorage */}
+              {/* 预置只读示例项目：始终可见，不来自本地存储 */}
               <div
                 key={exampleProject.id}
                 className="node-card rounded-lg transition-all cursor-pointer relative"
@@ -227,6 +269,12 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
                     style={{ color: 'var(--color-text-muted)' }}
                   >
                     <span>创建于 {formatDate(project.createdAt)}</span>
+                    {project.role && project.role !== 'owner' && (
+                      <span className="flex items-center gap-1" title="别人共享给你的项目">
+                        <Users size={12} />
+                        {PROJECT_ROLE_LABELS[project.role]}
+                      </span>
+                    )}
                     {project.category && (
                       <span
                         className="px-2 py-0.5 rounded"
@@ -251,13 +299,22 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleDelete(project.id);
+                        handleDelete(project);
                       }}
                       className="flex items-center gap-2 px-4 py-2 w-full text-left transition-colors"
                       style={{ color: 'var(--color-error)' }}
                     >
-                      <Trash2 size={14} />
-                      删除
+                      {project.role && project.role !== 'owner' ? (
+                        <>
+                          <LogOut size={14} />
+                          退出项目
+                        </>
+                      ) : (
+                        <>
+                          <Trash2 size={14} />
+                          删除
+                        </>
+                      )}
                     </button>
                   </div>
                 )}
@@ -272,7 +329,7 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div
-            className="w-full max-w-md mx-4"
+            className="w-full max-w-2xl mx-4"
             style={{
               background: 'var(--color-surface)',
               borderRadius: 'var(--border-radius)',
@@ -288,6 +345,35 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
               </h2>
 
               <div className="space-y-4">
+                {/* 模板选择 */}
+                <div>
+                  <label
+                    className="block text-sm font-medium mb-1"
+                    style={{ color: 'var(--color-text-secondary)' }}
+                  >
+                    从模板开始
+                  </label>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-56 overflow-y-auto">
+                    <TemplateOption
+                      name="空白项目"
+                      description="从零开始画图"
+                      selected={templateId === null}
+                      onSelect={() => handleSelectTemplate(null)}
+                    />
+                    {templates.map((template) => (
+                      <TemplateOption
+                        key={template.id}
+                        name={template.name}
+                        description={template.description}
+                        category={template.category}
+                        selected={templateId === template.id}
+                        onSelect={() => handleSelectTemplate(template)}
+                        onDelete={template.builtIn ? undefined : () => handleDeleteTemplate(template)}
+                      />
+                    ))}
+                  </div>
+                </div>
+
                 <div>
                   <label
                     className="block text-sm font-medium mb-1"
@@ -338,11 +424,7 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
               style={{ background: 'var(--color-bg-secondary)' }}
             >
               <button
-                onClick={() => {
-                  setShowCreateModal(false);
-                  setNewTitle('');
-                  setNewDescription('');
-                }}
+                onClick={closeCreateModal}
                 className="px-4 py-2 rounded-lg transition-colors"
                 style={{ color: 'var(--color-text-secondary)' }}
               >
@@ -363,3 +445,68 @@ export default function ProjectList({ onSelectProject }: ProjectListProps) {
     </div>
   );
 }
+
+/** 新建项目弹窗中的模板卡片 */
+function TemplateOption({
+  name,
+  description,
+  category,
+  selected,
+  onSelect,
+  onDelete,
+}: {
+  name: string;
+  description?: string;
+  category?: string;
+  selected: boolean;
+  onSelect: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div
+      onClick={onSelect}
+      className="relative p-3 rounded-lg cursor-pointer transition-colors"
+      style={{
+        background: selected ? 'var(--color-primary-light)' : 'var(--color-bg)',
+        border: `1px solid ${selected ? 'var(--color-primary)' : 'var(--color-border)'}`,
+      }}
+    >
+      <div className="flex items-center gap-1.5 pr-4">
+        {category ? (
+          <LayoutTemplate size={14} style={{ color: 'var(--color-primary)' }} />
+        ) : (
+          <FileText size={14} style={{ color: 'var(--color-text-muted)' }} />
+        )}
+        <span className="text-sm font-medium line-clamp-1" style={{ color: 'var(--color-text)' }}>
+          {name}
+        </span>
+      </div>
+      {description && (
+        <p className="mt-1 text-xs line-clamp-2" style={{ color: 'var(--color-text-muted)' }}>
+          {description}
+        </p>
+      )}
+      {category && (
+        <span
+          className="inline-block mt-1.5 px-1.5 py-0.5 rounded text-xs"
+          style={{ background: 'var(--color-bg-secondary)', color: 'var(--color-text-secondary)' }}
+        >
+          {category}
+        </span>
+      )}
+      {onDelete && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          className="absolute top-2 right-2 p-0.5 rounded"
+          style={{ color: 'var(--color-text-muted)' }}
+          title="删除模板"
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,11 @@
  * LLM 客户端（浏览器侧）
  *
  * 负责：组织提示词与消息、调用无状态代理 /api/llm-proxy、解析结构化结果。
+ * 传入 StreamOptions 时走 SSE 流式输出，边生成边回调，可用 signal 取消。
  * 图数据来自调用方（store / 组件），不再经过后端数据库。
  */
 
-import { GraphNode, GraphEdge, LLMStructuredResult } from '../../types';
+import { GraphNode, GraphEdge, LLMStructuredResult, GraphToolCall, Scene } from '../../types';
 import { loadSettings, LLMSettings } from './settings';
 import {
   SYSTEM_PROMPT,
@@ -14,6 +15,13 @@ import {
   SceneAnalysisType,
   ERROR_MESSAGES,
 } from './prompts';
+import {
+  GRAPH_TOOLS,
+  supportsNativeTools,
+  getToolUsePrompt,
+  getToolProtocolPrompt,
+  parseToolCalls,
+} from './tools';
 
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
@@ -24,16 +32,34 @@ interface CallOptions {
   temperature?: number;
   maxTokens?: number;
   jsonMode?: boolean;
+  tools?: unknown[];
+}
+
+// 代理的回复；toolCalls 的 arguments 为原始 JSON 字符串
+interface ProxyReply {
+  content: string;
+  toolCalls?: Array<{ id: string; name: string; arguments: string }>;
+}
+
+/** 流式输出选项：onDelta 收到新增文本与目前为止的全文；signal 中止时取消上游请求 */
+export interface StreamOptions {
+  onDelta?: (delta: string, text: string) => void;
+  signal?: AbortSignal;
 }
 
 const PROXY_URL = '/api/llm-proxy';
 
+/** 是否为用户取消（AbortController.abort）导致的错误 */
+export function isAbortError(err: unknown): boolean {
+  return (err as Error)?.name === 'AbortError';
+}
+
 /** 用指定配置调用代理。 */
 async function callProxyWith(
   settings: LLMSettings,
   messages: ChatMessage[],
   options: CallOptions = {}
-): Promise<string> {
+): Promise<ProxyReply> {
   if (settings.provider !== 'ollama' && !settings.apiKey) {
     throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
   }
@@ -59,12 +85,80 @@ async function callProxyWith(
   if (!res.ok) {
     throw new Error(data.error || `${ERROR_MESSAGES.API_ERROR} (${res.status})`);
   }
-  return data.content || '';
+  return { content: data.content || '', toolCalls: data.toolCalls };
 }
 
-/** 用当前保存的配置调用代理。 */
-async function callProxy(messages: ChatMessage[], options: CallOptions = {}): Promise<string> {
-  return callProxyWith(loadSettings(), messages, options);
+/** 用指定配置流式调用代理，返回完整回复。 */
+async function streamProxyWith(
+  settings: LLMSettings,
+  messages: ChatMessage[],
+  options: CallOptions,
+  stream: StreamOptions
+): Promise<ProxyReply> {
+  if (settings.provider !== 'ollama' && !settings.apiKey) {
+    throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(PROXY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        provider: settings.provider,
+        model: settings.model,
+        apiKey: settings.apiKey,
+        messages,
+        ...options,
+        stream: true,
+      }),
+      signal: stream.signal,
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new Error(ERROR_MESSAGES.NETWORK_ERROR);
+  }
+
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({} as any));
+    throw new Error(data.error || `${ERROR_MESSAGES.API_ERROR} (${res.status})`);
+  }
+
+  // 代理事件：{delta} 逐段输出、{done, toolCalls?} 结束、{error} 失败
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      if (!event.startsWith('data:')) continue;
+      const payload = JSON.parse(event.slice(5).trim());
+      if (payload.error) throw new Error(payload.error);
+      if (payload.done) return { content: text, toolCalls: payload.toolCalls };
+      if (payload.delta) {
+        text += payload.delta;
+        stream.onDelta?.(payload.delta, text);
+      }
+    }
+  }
+  return { content: text };
+}
+
+/** 用当前保存的配置调用代理；传入 stream 时流式输出。 */
+async function callProxy(
+  messages: ChatMessage[],
+  options: CallOptions = {},
+  stream?: StreamOptions,
+  settings: LLMSettings = loadSettings()
+): Promise<ProxyReply> {
+  return stream
+    ? streamProxyWith(settings, messages, options, stream)
+    : callProxyWith(settings, messages, options);
 }
 
 /** 解析 LLM 的 JSON 响应，容忍 markdown 代码块包裹。 */
@@ -96,8 +190,11 @@ export interface AnalyzeSceneParams {
   focusedNode?: GraphNode | null;
 }
 
-/** 场景分析（风险/下一步/逻辑检查/补全），返回结构化数据。 */
-export async function analyzeScene(params: AnalyzeSceneParams): Promise<LLMStructuredResult> {
+/** 场景分析（风险/下一步/逻辑检查/补全），返回结构化数据。流式时 onDelta 收到的是原始 JSON 文本。 */
+export async function analyzeScene(
+  params: AnalyzeSceneParams,
+  stream?: StreamOptions
+): Promise<LLMStructuredResult> {
   const { type, sceneName, sceneDescription, nodes, edges, focusedNode } = params;
 
   if (!nodes || nodes.length === 0) {
@@ -115,12 +212,13 @@ export async function analyzeScene(params: AnalyzeSceneParams): Promise<LLMStruc
       `请重点分析：围绕这个节点，用户下一步应该做什么？考虑它的依赖项、阻塞者和潜在后续行动。`;
   }
 
-  const content = await callProxy(
+  const { content } = await callProxy(
     [
       { role: 'system', content: SYSTEM_PROMPT },
       { role: 'user', content: `${graphText}\n\n${analysisPrompt}` },
     ],
-    { temperature: 0.5, maxTokens: 4000, jsonMode: true }
+    { temperature: 0.5, maxTokens: 4000, jsonMode: true },
+    stream
   );
 
   const parsed = parseJsonResponse(content);
@@ -149,7 +247,7 @@ export interface AskSceneParams {
 }
 
 /** 场景自由问答，返回回复文本。 */
-export async function askSceneQuestion(params: AskSceneParams): Promise<string> {
+export async function askSceneQuestion(params: AskSceneParams, stream?: StreamOptions): Promise<string> {
   const { sceneName, sceneDescription, nodes, edges, question, history = [] } = params;
   const graphText = convertGraphToText(sceneName, nodes, edges, sceneDescription);
 
@@ -160,7 +258,59 @@ export async function askSceneQuestion(params: AskSceneParams): Promise<string>
     { role: 'user', content: question },
   ];
 
-  return callProxy(messages, { temperature: 0.7, maxTokens: 2000 });
+  const { content } = await callProxy(messages, { temperature: 0.7, maxTokens: 2000 }, stream);
+  return content;
+}
+
+export interface AskWithToolsParams extends AskSceneParams {
+  scenes: Scene[];
+}
+
+/**
+ * 允许修改图的自由问答：返回回复文本和助手提出的工具调用（尚未执行）。
+ * 支持函数调用的服务商走原生 tools；其余要求模型按 JSON 协议返回，此时不流式显示正文。
+ */
+export async function askWithTools(
+  params: AskWithToolsParams,
+  stream?: StreamOptions
+): Promise<{ reply: string; toolCalls: GraphToolCall[] }> {
+  const { sceneName, sceneDescription, nodes, edges, question, history = [], scenes } = params;
+  const settings = loadSettings();
+  const native = supportsNativeTools(settings.provider);
+  const graphText = convertGraphToText(sceneName, nodes, edges, sceneDescription);
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPT}\n\n${native ? getToolUsePrompt(scenes) : getToolProtocolPrompt(scenes)}`,
+    },
+    { role: 'user', content: `当前场景状态：\n${graphText}` },
+    ...history.map((h) => ({ role: h.role, content: h.content })),
+    { role: 'user', content: question },
+  ];
+
+  if (native) {
+    const reply = await callProxy(
+      messages,
+      { temperature: 0.5, maxTokens: 4000, tools: GRAPH_TOOLS },
+      stream,
+      settings
+    );
+    return { reply: reply.content, toolCalls: parseToolCalls(reply.toolCalls) };
+  }
+
+  // JSON 协议：流式时只保留取消能力，不把原始 JSON 交给界面
+  const { content } = await callProxy(
+    messages,
+    { temperature: 0.5, maxTokens: 4000, jsonMode: true },
+    stream && { signal: stream.signal },
+    settings
+  );
+  const parsed = parseJsonResponse(content) as { reply?: string; toolCalls?: any[] };
+  return {
+    reply: typeof parsed.reply === 'string' ? parsed.reply : '',
+    toolCalls: parseToolCalls(parsed.toolCalls),
+  };
 }
 
 /** 用一条最小请求测试连接是否可用（用于设置面板）。 */
@@ -5,8 +5,12 @@
  * 结构化结果类型沿用 types/index.ts 中已有定义，这里不重复声明。
  */
 
+import { rankVerifications } from '@solvechain/shared';
 import { GraphNode, GraphEdge, NodeType } from '../../types';
 
+// 附在图文本后的「建议先核实」条数
+const MAX_VERIFICATION_HINTS = 3;
+
 // 节点类型映射
 const NODE_TYPE_MAP: Record<string, string> = {
   goal: '目标',
@@ -89,6 +93,13 @@ export function convertGraphToText(
       if (node.type === NodeType.ASSUMPTION && node.confidence !== 50) {
         text += `  置信度: ${node.confidence}%\n`;
       }
+      if (node.evidence && node.evidence.length > 0) {
+        text += `  证据:\n`;
+        node.evidence.forEach((e) => {
+          const stance = e.stance === 'supporting' ? '支持' : '反驳';
+          text += `    - [${stance}] ${e.source}（可靠度 ${e.reliability}${e.date ? `，${e.date}` : ''}）\n`;
+        });
+      }
       text += '\n';
     });
   }
@@ -113,6 +124,23 @@ export function convertGraphToText(
     });
   }
 
+  text += convertVerificationToText(nodes, edges);
+
+  return text;
+}
+
+/**
+ * 系统按核实价值算出的「建议先核实」，供模型回答「该先确认什么」时参考。
+ * 没有值得核实的事实/假设时返回空字符串。
+ */
+export function convertVerificationToText(nodes: GraphNode[], edges: GraphEdge[]): string {
+  const worth = rankVerifications(nodes, edges).items.filter((i) => i.value > 0);
+  if (worth.length === 0) return '';
+
+  let text = '\n## 建议先核实（系统按核实价值计算）\n';
+  worth.slice(0, MAX_VERIFICATION_HINTS).forEach((item) => {
+    text += `- ${item.node.title}（ID: ${item.node.id}，置信度 ${item.confidence}%）：${item.reason}\n`;
+  });
   return text;
 }
 
@@ -0,0 +1,305 @@
+/**
+ * 图编辑工具（浏览器侧）
+ *
+ * 定义助手可调用的工具：新建/修改/删除节点、新建关系、把节点加入场景、运行状态传播。
+ * - 支持函数调用的服务商：以 OpenAI function 格式随请求发送 tools，模型返回 tool_calls；
+ * - 其余服务商（如本地 Ollama）：在提示词里描述工具，要求模型以 JSON 返回 { reply, toolCalls }。
+ * 解析出的调用不会立即执行，而是作为变更集交给用户审阅后再写入（projectStore.applyToolCalls）。
+ */
+
+import {
+  NodeType,
+  EdgeType,
+  NODE_TYPE_CONFIG,
+  EDGE_TYPE_CONFIG,
+  getStatusOptionsForType,
+} from '../../types';
+import type { GraphEdge, GraphNode, GraphToolCall, GraphToolName, Scene } from '../../types';
+
+// 支持函数调用的服务商；其余走 JSON 协议
+const NATIVE_TOOL_PROVIDERS = new Set(['dashscope', 'deepseek', 'openai', 'zhipu', 'volcengine']);
+
+export function supportsNativeTools(provider: string): boolean {
+  return NATIVE_TOOL_PROVIDERS.has(provider);
+}
+
+const NODE_TYPES = [
+  NodeType.GOAL,
+  NodeType.ACTION,
+  NodeType.FACT,
+  NodeType.ASSUMPTION,
+  NodeType.CONSTRAINT,
+  NodeType.CONCLUSION,
+];
+
+const EDGE_TYPES = [
+  EdgeType.DEPENDS,
+  EdgeType.SUPPORTS,
+  EdgeType.ACHIEVES,
+  EdgeType.HINDERS,
+  EdgeType.CAUSES,
+  EdgeType.CONFLICTS,
+];
+
+const STATUS_DESCRIPTION =
+  '基础状态，需与节点类型匹配：目标 achieved/notAchieved；行动 pending/inProgress/success/failed；' +
+  '事实 confirmed/uncertain/denied；假设 uncertain/positive/negative；约束 satisfied/unsatisfied；' +
+  '结论 pending/established/notEstablished';
+
+interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: GraphToolName;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+function defineTool(
+  name: GraphToolName,
+  description: string,
+  properties: Record<string, unknown>,
+  required: string[] = []
+): ToolDefinition {
+  return {
+    type: 'function',
+    function: { name, description, parameters: { type: 'object', properties, required } },
+  };
+}
+
+/** 图编辑工具定义（OpenAI function 格式） */
+export const GRAPH_TOOLS: ToolDefinition[] = [
+  defineTool(
+    'create_node',
+    '新建节点。新节点加入当前场景；ref 为临时标识，同一批调用中的 create_edge / add_node_to_scene 可以用它引用该节点',
+    {
+      ref: { type: 'string', description: '临时标识，如 new1' },
+      type: { type: 'string', enum: NODE_TYPES },
+      title: { type: 'string' },
+      content: { type: 'string', description: '节点描述' },
+      baseStatus: { type: 'string', description: STATUS_DESCRIPTION },
+    },
+    ['type', 'title']
+  ),
+  defineTool(
+    'update_node',
+    '修改已有节点的标题、描述、状态、置信度或权重，只传需要修改的字段',
+    {
+      nodeId: { type: 'string', description: '节点列表中的 ID' },
+      title: { type: 'string' },
+      content: { type: 'string' },
+      baseStatus: { type: 'string', description: STATUS_DESCRIPTION },
+      confidence: { type: 'number', description: '假设的置信度 0-100' },
+      weight: { type: 'number', description: '权重 0.1-2.0' },
+      reason: { type: 'string', description: '修改原因，会记入节点变更历史' },
+    },
+    ['nodeId']
+  ),
+  defineTool(
+    'delete_node',
+    '删除节点，与之相连的关系一并删除',
+    { nodeId: { type: 'string' } },
+    ['nodeId']
+  ),
+  defineTool(
+    'create_edge',
+    '在两个节点之间新建关系，两端可以是已有节点 ID 或本批 create_node 的 ref',
+    {
+      sourceNodeId: { type: 'string' },
+      targetNodeId: { type: 'string' },
+      type: { type: 'string', enum: EDGE_TYPES },
+      description: { type: 'string' },
+    },
+    ['sourceNodeId', 'targetNodeId', 'type']
+  ),
+  defineTool(
+    'add_node_to_scene',
+    '把节点加入某个场景（不会从其他场景移除）；不传 sceneId 时加入当前场景',
+    {
+      nodeId: { type: 'string' },
+      sceneId: { type: 'string', description: '场景列表中的 ID' },
+    },
+    ['nodeId']
+  ),
+  defineTool(
+    'run_propagation',
+    '按当前图运行状态传播，并把自动更新的基础状态保存下来。一般放在一批修改的最后',
+    {}
+  ),
+];
+
+const TOOL_NAMES = new Set<string>(GRAPH_TOOLS.map((t) => t.function.name));
+
+/** 两种模式共用：告诉模型何时、如何使用工具 */
+export function getToolUsePrompt(scenes: Array<Pick<Scene, 'id' | 'name'>>): string {
+  const sceneList = scenes.length > 0
+    ? scenes.map((s) => `- ID: ${s.id}  名称: ${s.name}`).join('\n')
+    : '（暂无场景）';
+  return `## 修改规划图
+用户要求修改规划图时，使用图编辑工具表达修改，不要只用文字描述。
+- 引用已有节点时只能使用节点列表中的 ID；新建的节点用 ref 标识后再引用
+- 只建立直接关系（遵循上文的第一性原理）
+- 你的修改会先展示给用户审阅，确认后才会生效；回复中简要说明每项修改的理由
+- 用户只是提问时不要调用工具
+
+项目中的场景：
+${sceneList}`;
+}
+
+/** JSON 协议模式：在提示词中列出工具并约定返回格式 */
+export function getToolProtocolPrompt(scenes: Array<Pick<Scene, 'id' | 'name'>>): string {
+  const toolList = GRAPH_TOOLS.map((t) =>
+    `### ${t.function.name}\n${t.function.description}\n参数：${JSON.stringify(t.function.parameters)}`
+  ).join('\n\n');
+  return `${getToolUsePrompt(scenes)}
+
+## 可用工具
+${toolList}
+
+## 返回格式
+只返回一个 JSON 对象，不要包含其他文字：
+{"reply": "给用户的回复（Markdown）", "toolCalls": [{"name": "工具名", "arguments": {参数}}]}
+不需要修改时 toolCalls 为空数组。`;
+}
+
+/**
+ * 把服务商返回的工具调用（arguments 为 JSON 字符串或对象）整理为 GraphToolCall，
+ * 丢弃未知工具和无法解析的参数。每个调用重新分配 ID，避免不同回复间的 call_0 之类重复。
+ */
+export function parseToolCalls(
+  raw: Array<{ name?: string; arguments?: unknown }> | undefined
+): GraphToolCall[] {
+  if (!Array.isArray(raw)) return [];
+  const calls: GraphToolCall[] = [];
+  for (const item of raw) {
+    if (!item?.name || !TOOL_NAMES.has(item.name)) continue;
+    let args: unknown = item.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = args.trim() ? JSON.parse(args) : {};
+      } catch {
+        console.warn('工具参数解析失败:', item);
+        continue;
+      }
+    }
+    if (!args || typeof args !== 'object') continue;
+    calls.push({
+      id: crypto.randomUUID(),
+      name: item.name as GraphToolName,
+      arguments: args as Record<string, any>,
+    });
+  }
+  return calls;
+}
+
+// ========== 变更集预览 ==========
+
+export interface ToolCallPreview {
+  call: GraphToolCall;
+  label: string;
+  error?: string; // 按当前图校验发现的问题，有问题的调用不可勾选
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: '标题',
+  content: '描述',
+  baseStatus: '状态',
+  confidence: '置信度',
+  weight: '权重',
+};
+
+function statusLabel(type: string, status: string): string {
+  return getStatusOptionsForType(type as NodeType).find((o) => o.value === status)?.label ?? status;
+}
+
+function isValidStatus(type: string, status: unknown): boolean {
+  return getStatusOptionsForType(type as NodeType).some((o) => o.value === status);
+}
+
+// 未传时不校验；传了必须是 min-max 之间的数字
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return value === undefined || (typeof value === 'number' && value >= min && value <= max);
+}
+
+/**
+ * 按顺序把工具调用转成可读的变更说明，并对照当前图做校验。
+ * 本批 create_node 的 ref 在其后的调用中视为已存在的节点；
+ * delete_node 删除的节点及其相连关系在其后的调用中视为不存在。
+ */
+export function previewToolCalls(
+  calls: GraphToolCall[],
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  scenes: Scene[],
+  currentSceneId: string | null
+): ToolCallPreview[] {
+  const known = new Map<string, { title: string; type: string }>(
+    nodes.map((n) => [n.id, { title: n.title, type: n.type }])
+  );
+  let knownEdges = edges.map((e) => ({ sourceNodeId: e.sourceNodeId, targetNodeId: e.targetNodeId }));
+  const titleOf = (id: string) => `「${known.get(id)?.title ?? id}」`;
+
+  return calls.map((call): ToolCallPreview => {
+    const a = call.arguments;
+    switch (call.name) {
+      case 'create_node': {
+        const typeLabel = NODE_TYPE_CONFIG[a.type]?.label ?? a.type;
+        const label = `新建${typeLabel}「${a.title ?? ''}」` +
+          (a.baseStatus ? `（${statusLabel(a.type, a.baseStatus)}）` : '');
+        if (!NODE_TYPES.includes(a.type)) return { call, label, error: `未知的节点类型：${a.type}` };
+        if (!a.title) return { call, label, error: '缺少标题' };
+        if (a.baseStatus && !isValidStatus(a.type, a.baseStatus)) {
+          return { call, label, error: `状态 ${a.baseStatus} 不适用于${typeLabel}` };
+        }
+        if (a.ref) known.set(a.ref, { title: a.title, type: a.type });
+        return { call, label };
+      }
+      case 'update_node': {
+        const node = known.get(a.nodeId);
+        const changes = Object.keys(FIELD_LABELS)
+          .filter((f) => a[f] !== undefined)
+          .map((f) => `${FIELD_LABELS[f]} → ${f === 'baseStatus' && node ? statusLabel(node.type, a[f]) : a[f]}`);
+        const label = `修改${titleOf(a.nodeId)}：${changes.join('，') || '无变化'}`;
+        if (!node) return { call, label, error: '节点不存在' };
+        if (changes.length === 0) return { call, label, error: '没有要修改的字段' };
+        if (a.baseStatus !== undefined && !isValidStatus(node.type, a.baseStatus)) {
+          return { call, label, error: `状态 ${a.baseStatus} 不适用于该节点` };
+        }
+        if (!isInRange(a.confidence, 0, 100)) return { call, label, error: `置信度 ${a.confidence} 不在 0-100 之间` };
+        if (!isInRange(a.weight, 0.1, 2)) return { call, label, error: `权重 ${a.weight} 不在 0.1-2.0 之间` };
+        return { call, label };
+      }
+      case 'delete_node': {
+        const connected = knownEdges.filter((e) => e.sourceNodeId === a.nodeId || e.targetNodeId === a.nodeId);
+        const label = `删除${titleOf(a.nodeId)}` + (connected.length > 0 ? `（相连的 ${connected.length} 条关系一并删除）` : '');
+        if (!known.has(a.nodeId)) return { call, label, error: '节点不存在' };
+        known.delete(a.nodeId);
+        knownEdges = knownEdges.filter((e) => !connected.includes(e));
+        return { call, label };
+      }
+      case 'create_edge': {
+        const edgeLabel = EDGE_TYPE_CONFIG[a.type]?.label ?? a.type;
+        const label = `新建关系${titleOf(a.sourceNodeId)} —${edgeLabel}→ ${titleOf(a.targetNodeId)}`;
+        if (!EDGE_TYPES.includes(a.type)) return { call, label, error: `未知的关系类型：${a.type}` };
+        if (!known.has(a.sourceNodeId) || !known.has(a.targetNodeId)) {
+          return { call, label, error: '端点节点不存在' };
+        }
+        if (a.sourceNodeId === a.targetNodeId) return { call, label, error: '不能连接节点自身' };
+        knownEdges.push({ sourceNodeId: a.sourceNodeId, targetNodeId: a.targetNodeId });
+        return { call, label };
+      }
+      case 'add_node_to_scene': {
+        const sceneId = a.sceneId ?? currentSceneId;
+        const scene = scenes.find((s) => s.id === sceneId);
+        const label = `把${titleOf(a.nodeId)}加入场景「${scene?.name ?? sceneId ?? '未指定'}」`;
+        if (!known.has(a.nodeId)) return { call, label, error: '节点不存在' };
+        if (!scene) return { call, label, error: '场景不存在' };
+        return { call, label };
+      }
+      case 'run_propagation':
+        return { call, label: '运行状态传播，保存自动更新的状态' };
+      default:
+        return { call, label: call.name, error: '未知工具' };
+    }
+  });
+}
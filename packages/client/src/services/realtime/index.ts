@@ -0,0 +1,203 @@
+/**
+ * 实时协作（可选，需要开启同步并登录服务器账户）
+ *
+ * 打开项目时经 WebSocket 加入该项目的房间：
+ * - 本页对节点、关系、场景关联的修改按字段打上时间戳立即发给其他在线的协作者；
+ * - 收到的修改经 FieldClock 按字段合并（后写者胜，各端结果一致）后写入本地；
+ * - 上报正在看的场景与选中的节点，供 FocusView 显示协作者的位置。
+ * 服务器按同步推送的规则写入收到的修改再转发，拒绝时经 projectStore 的 error 提示并立即同步一次；
+ * 断线期间的修改由同步补上，断线后自动重连并补一次同步。
+ */
+
+import {
+  FieldClock,
+  hasProjectRole,
+  pickRealtimeFields,
+  type PresenceInfo,
+  type ProjectRole,
+  type RealtimeChange,
+  type RealtimeClientMessage,
+  type RealtimeServerMessage,
+} from '@solvechain/shared';
+import * as localStore from '../../store/localStore';
+import { getSyncSettings, syncNow } from '../sync';
+
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000];
+// 收发修改后稍等再同步，让服务器尽快拿到合并后的版本
+const SYNC_DELAY_MS = 1_500;
+
+// 每个标签页一个客户端 ID
+const clientId = crypto.randomUUID();
+const clock = new FieldClock(clientId);
+
+let projectId: string | null = null;
+let role: ProjectRole | null = null;
+let socket: WebSocket | null = null;
+let reconnectAttempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let unsubscribeLocal: (() => void) | null = null;
+let presenceState: { sceneId: string | null; selectedNodeId: string | null } = { sceneId: null, selectedNodeId: null };
+
+let others: PresenceInfo[] = [];
+const presenceListeners = new Set<() => void>();
+const errorListeners = new Set<(message: string) => void>();
+
+function setOthers(presence: PresenceInfo[]): void {
+  others = presence.filter((p) => p.clientId !== clientId);
+  presenceListeners.forEach((listener) => listener());
+}
+
+/** 同一项目中其他在线协作者（不含本页） */
+export function getPresence(): PresenceInfo[] {
+  return others;
+}
+
+export function subscribePresence(listener: () => void): () => void {
+  presenceListeners.add(listener);
+  return () => presenceListeners.delete(listener);
+}
+
+/** 服务器拒绝本页的消息或修改时（权限不足、数据不合法等）通知，参数为拒绝原因 */
+export function subscribeRealtimeErrors(listener: (message: string) => void): () => void {
+  errorListeners.add(listener);
+  return () => errorListeners.delete(listener);
+}
+
+function send(message: RealtimeClientMessage): void {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function scheduleSync(): void {
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    void syncNow();
+  }, SYNC_DELAY_MS);
+}
+
+function realtimeUrl(serverUrl: string, token: string): string {
+  const base = new URL(serverUrl || window.location.origin, window.location.href);
+  base.protocol = base.protocol === 'https:' ? 'wss:' : 'ws:';
+  base.pathname = '/api/realtime';
+  base.search = `?token=${encodeURIComponent(token)}`;
+  return base.toString();
+}
+
+function handleLocalChanges(changes: localStore.LocalRecordChange[]): void {
+  if (!projectId || !hasProjectRole(role, 'editor') || socket?.readyState !== WebSocket.OPEN) return;
+  // 服务器只接受可以经实时修改写入的字段（新建记录时 deletedAt 为 null）
+  const outgoing = changes
+    .filter((change) => change.projectId === projectId)
+    .map((change) => ({ ...change, fields: pickRealtimeFields(change.collection, change.fields, change.fields.deletedAt === null) }))
+    .filter((change) => Object.keys(change.fields).length > 0)
+    .map((change) => clock.stampLocal(change.collection, change.id, change.projectId, change.fields));
+  if (outgoing.length === 0) return;
+  send({ type: 'changes', changes: outgoing });
+  scheduleSync();
+}
+
+function handleRemoteChanges(changes: RealtimeChange[]): void {
+  // 字段全被本地更晚的写入覆盖的修改也交给 localStore，用来前移同步基线
+  const accepted = changes
+    .filter((change) => change.projectId === projectId)
+    .map((change) => ({
+      collection: change.collection,
+      id: change.id,
+      projectId: change.projectId,
+      fields: clock.merge(change),
+      updatedAt: change.updatedAt,
+    }));
+  if (accepted.length === 0) return;
+  localStore.applyRealtimeChanges(accepted);
+  scheduleSync();
+}
+
+function handleMessage(message: RealtimeServerMessage): void {
+  switch (message.type) {
+    case 'joined':
+      reconnectAttempt = 0;
+      role = message.role;
+      setOthers(message.presence);
+      send({ type: 'presence', ...presenceState });
+      // 断线期间错过的修改由同步补上
+      void syncNow();
+      return;
+    case 'presence':
+      setOthers(message.presence);
+      return;
+    case 'changes':
+      handleRemoteChanges(message.changes);
+      return;
+    case 'saved':
+      localStore.applyRealtimeVersions(message.versions);
+      return;
+    case 'error':
+      errorListeners.forEach((listener) => listener(message.message));
+      // 被拒绝的修改已写入本地：立即同步一次，以服务器的推送结果为准并提示
+      void syncNow();
+      return;
+  }
+}
+
+function disconnect(): void {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  if (socket) {
+    socket.onclose = null;
+    socket.close();
+    socket = null;
+  }
+  role = null;
+  setOthers([]);
+}
+
+function connect(): void {
+  const settings = getSyncSettings();
+  if (!projectId || !settings.enabled || !settings.token || typeof WebSocket === 'undefined') return;
+
+  const current = new WebSocket(realtimeUrl(settings.serverUrl, settings.token));
+  socket = current;
+  current.onopen = () => {
+    if (projectId) send({ type: 'join', projectId, clientId });
+  };
+  current.onmessage = (event: MessageEvent<string>) => {
+    try {
+      handleMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.warn('[realtime] 无法处理消息', error);
+    }
+  };
+  current.onclose = () => {
+    if (socket !== current) return;
+    socket = null;
+    role = null;
+    setOthers([]);
+    const delay = RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+    reconnectAttempt += 1;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+}
+
+/** 加入项目的协作房间；传 null 离开。未开启同步或未登录时什么也不做 */
+export function joinProject(nextProjectId: string | null): void {
+  if (nextProjectId === projectId) return;
+  disconnect();
+  projectId = nextProjectId;
+  presenceState = { sceneId: null, selectedNodeId: null };
+  reconnectAttempt = 0;
+  if (!projectId) {
+    unsubscribeLocal?.();
+    unsubscribeLocal = null;
+    return;
+  }
+  unsubscribeLocal ??= localStore.subscribeLocalChanges(handleLocalChanges);
+  connect();
+}
+
+/** 上报本页正在看的场景（null 为概览）与选中的节点 */
+export function updatePresence(sceneId: string | null, selectedNodeId: string | null): void {
+  if (presenceState.sceneId === sceneId && presenceState.selectedNodeId === selectedNodeId) return;
+  presenceState = { sceneId, selectedNodeId };
+  send({ type: 'presence', sceneId, selectedNodeId });
+}
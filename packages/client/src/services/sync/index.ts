@@ -0,0 +1,257 @@
+/**
+ * 服务器同步（可选）
+ *
+ * 本地 IndexedDB 始终是主数据源，离线时照常编辑；开启同步后：
+ * - localStore 把每次修改记入发件箱（syncOutbox），联网时按项目推送到服务器；
+ * - 按游标增量拉取服务器上的变化合并到本地；
+ * - 同一节点在两边都被修改时不自动覆盖，作为冲突列出，由用户选择保留哪一边。
+ * 多个标签页通过 Web Locks 保证同一时间只有一个在同步。
+ * 服务器按账户隔离数据，同步前需要登录；换成另一个账户登录时，本地数据作为新数据上传到该账户。
+ * 共享给当前账户的项目按角色同步：查看者只拉取，评论者只推送评论，编辑者可以推送全部修改。
+ */
+
+import type {
+  SyncRecord,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResult,
+  AuthResponse,
+} from '@solvechain/shared';
+import { hasProjectRole } from '@solvechain/shared';
+import * as localStore from '../../store/localStore';
+import { loadSyncSettings, saveSyncSettings, type SyncSettings } from './settings';
+
+export type SyncState = 'off' | 'signedOut' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // 待推送的记录数
+  lastSyncedAt: string | null;
+  message?: string;
+  conflicts: SyncRecord[]; // 服务器上的节点版本
+}
+
+const SYNC_INTERVAL_MS = 30_000;
+const LOCK_NAME = 'solvechain-server-sync';
+
+let status: SyncStatus = { state: 'off', pending: 0, lastSyncedAt: null, conflicts: [] };
+const listeners = new Set<() => void>();
+const conflicts = new Map<string, SyncRecord>();
+let timer: ReturnType<typeof setInterval> | null = null;
+let running: Promise<void> | null = null;
+
+function setStatus(partial: Partial<SyncStatus>): void {
+  status = {
+    ...status,
+    ...partial,
+    pending: localStore.countPendingSync(),
+    conflicts: Array.from(conflicts.values()),
+  };
+  listeners.forEach((listener) => listener());
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSyncSettings(): SyncSettings {
+  return loadSyncSettings();
+}
+
+// 网络不可达时 fetch 抛 TypeError，与服务器返回的错误区分开
+class OfflineError extends Error {}
+
+// 令牌缺失或已失效（401）
+class UnauthorizedError extends Error {}
+
+async function request<T>(settings: SyncSettings, path: string, options?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl}/api${path}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+        ...options?.headers,
+      },
+    });
+  } catch {
+    throw new OfflineError('无法连接服务器');
+  }
+  const data = await response.json().catch(() => null);
+  if (!data?.success) {
+    const message = data?.error?.message || `同步请求失败（${response.status}）`;
+    throw response.status === 401 ? new UnauthorizedError(message) : new Error(message);
+  }
+  return data.data;
+}
+
+/** 以当前登录的账户请求服务器（共享管理等同步之外的接口） */
+export function requestServer<T>(path: string, options?: RequestInit): Promise<T> {
+  return request<T>(loadSyncSettings(), path, options);
+}
+
+function sinceQuery(projectId: string | null): string {
+  const since = localStore.getSyncCursor(projectId);
+  return since ? `?since=${encodeURIComponent(since)}` : '';
+}
+
+function addConflicts(records: SyncRecord[]): void {
+  records.forEach((record) => conflicts.set(record.id, record));
+}
+
+/** 一轮完整同步：先拉项目列表，再逐个项目拉取并推送本地修改 */
+async function runSync(settings: SyncSettings): Promise<void> {
+  const list = await request<SyncPullResponse>(settings, `/projects/changes${sinceQuery(null)}`);
+  addConflicts(localStore.applySyncPull(null, list.serverTime, list.changes));
+
+  const projectIds = new Set([
+    ...localStore.listSyncProjectIds(),
+    ...(list.changes.projects ?? []).filter((p) => !p.deletedAt).map((p) => p.id),
+  ]);
+  const rejected: SyncPushResult[] = [];
+
+  for (const projectId of projectIds) {
+    // 没有编辑权限的共享项目只拉取，评论者只推送评论
+    const role = localStore.getProjectRole(projectId);
+    if (!hasProjectRole(role, 'editor')) {
+      localStore.discardSyncPush(projectId, hasProjectRole(role, 'commenter') ? ['comments'] : []);
+    }
+    const { request: push, entries } = localStore.collectSyncPush(projectId, new Set(conflicts.keys()));
+    // 项目本身的推送必须先于拉取：新建的项目在服务器上还不存在
+    if (entries.length > 0) {
+      const results = await request<SyncPushResult[]>(settings, `/projects/${projectId}/changes`, {
+        method: 'POST',
+        body: JSON.stringify(push satisfies SyncPushRequest),
+      });
+      const outcome = localStore.applySyncPushResults(entries, results);
+      addConflicts(outcome.conflicts);
+      rejected.push(...outcome.rejected);
+    }
+    // 项目已在本地删除且推送完毕，无需再拉取
+    if (!localStore.listSyncProjectIds().includes(projectId)) continue;
+    const pulled = await request<SyncPullResponse>(settings, `/projects/${projectId}/changes${sinceQuery(projectId)}`);
+    addConflicts(localStore.applySyncPull(projectId, pulled.serverTime, pulled.changes));
+  }
+
+  setStatus({
+    state: 'idle',
+    lastSyncedAt: new Date().toISOString(),
+    message: rejected.length > 0 ? `${rejected.length} 条修改被服务器拒绝：${rejected[0].message ?? ''}` : undefined,
+  });
+}
+
+/** 立即同步一次；已在同步中时复用同一轮 */
+export function syncNow(): Promise<void> {
+  const settings = loadSyncSettings();
+  if (!settings.enabled) return Promise.resolve();
+  if (!settings.token) {
+    setStatus({ state: 'signedOut' });
+    return Promise.resolve();
+  }
+  if (running) return running;
+
+  setStatus({ state: 'syncing', message: undefined });
+  const task = async () => {
+    try {
+      await runSync(settings);
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        saveSyncSettings({ token: '' });
+        setStatus({ state: 'signedOut', message: error.message });
+      } else if (error instanceof OfflineError) {
+        setStatus({ state: 'offline', message: error.message });
+      } else {
+        setStatus({ state: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+  const locked = navigator.locks ? navigator.locks.request(LOCK_NAME, task).then(() => undefined) : task();
+  const current = locked.finally(() => {
+    running = null;
+  });
+  running = current;
+  return current;
+}
+
+/** 解决节点冲突后立即同步，把保留的本地版本推上去 */
+export function resolveConflict(nodeId: string, keep: 'local' | 'server'): void {
+  const server = conflicts.get(nodeId);
+  if (!server) return;
+  localStore.resolveSyncConflict(server, keep);
+  conflicts.delete(nodeId);
+  setStatus({});
+  void syncNow();
+}
+
+function stop(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+  window.removeEventListener('online', handleOnline);
+}
+
+function handleOnline(): void {
+  void syncNow();
+}
+
+/** 按设置启动或停止同步；应用启动时调用一次，修改设置后再次调用 */
+export function startServerSync(): void {
+  const settings = loadSyncSettings();
+  stop();
+  localStore.setSyncTracking(settings.enabled);
+  if (!settings.enabled) {
+    conflicts.clear();
+    setStatus({ state: 'off', message: undefined });
+    return;
+  }
+  timer = setInterval(() => void syncNow(), SYNC_INTERVAL_MS);
+  window.addEventListener('online', handleOnline);
+  void syncNow();
+}
+
+/** 修改设置；换了服务器时原账户与同步状态都不再适用 */
+export function updateSyncSettings(partial: Partial<Pick<SyncSettings, 'enabled' | 'serverUrl'>>): void {
+  const previous = loadSyncSettings();
+  const next = saveSyncSettings(partial);
+  if (next.serverUrl !== previous.serverUrl) {
+    saveSyncSettings({ token: '', email: '', userId: '', name: '' });
+    conflicts.clear();
+    localStore.resetSyncState();
+  }
+  startServerSync();
+}
+
+/**
+ * 登录或注册服务器账户；成功后立即开始同步。
+ * 与上次登录的不是同一个账户时，清空同步状态，本地数据作为新数据上传到这个账户。
+ */
+export async function signIn(
+  mode: 'login' | 'register',
+  credentials: { email: string; password: string; name?: string }
+): Promise<void> {
+  const settings = loadSyncSettings();
+  const auth = await request<AuthResponse>({ ...settings, token: '' }, `/auth/${mode}`, {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+  if (auth.user.email !== settings.email) {
+    conflicts.clear();
+    localStore.resetSyncState();
+  }
+  saveSyncSettings({ token: auth.token, email: auth.user.email, userId: auth.user.id, name: auth.user.name });
+  startServerSync();
+}
+
+/** 退出登录；本地数据与同步状态保留，再次登录同一账户时继续增量同步 */
+export async function signOut(): Promise<void> {
+  const settings = loadSyncSettings();
+  saveSyncSettings({ token: '' });
+  startServerSync();
+  // 服务器上的会话尽量一并注销，失败（如离线）不影响本地退出
+  await request(settings, '/auth/logout', { method: 'POST' }).catch(() => undefined);
+}
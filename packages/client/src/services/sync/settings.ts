@@ -0,0 +1,57 @@
+/**
+ * 服务器同步设置（浏览器侧）
+ *
+ * 是否开启、服务器地址与登录令牌保存在 localStorage；默认关闭，应用完全离线可用。
+ * 服务器地址留空表示与页面同源（开发时经 vite 代理到后端）。
+ */
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  token: string; // 服务器账户的登录令牌，未登录为空
+  email: string; // 已登录的账户邮箱
+  userId: string; // 已登录的账户 ID 与名字，作为评论的作者
+  name: string;
+}
+
+const STORAGE_KEY = 'solvechain-sync-settings';
+
+const DEFAULTS: SyncSettings = {
+  enabled: false,
+  serverUrl: '',
+  token: '',
+  email: '',
+  userId: '',
+  name: '',
+};
+
+/** 读取设置；读不到或损坏时返回默认值，绝不抛错。 */
+export function loadSyncSettings(): SyncSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULTS };
+    const parsed = JSON.parse(raw);
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULTS.enabled,
+      serverUrl: typeof parsed.serverUrl === 'string' ? parsed.serverUrl : DEFAULTS.serverUrl,
+      token: typeof parsed.token === 'string' ? parsed.token : DEFAULTS.token,
+      email: typeof parsed.email === 'string' ? parsed.email : DEFAULTS.email,
+      userId: typeof parsed.userId === 'string' ? parsed.userId : DEFAULTS.userId,
+      name: typeof parsed.name === 'string' ? parsed.name : DEFAULTS.name,
+    };
+  } catch {
+    return { ...DEFAULTS };
+  }
+}
+
+/** 合并保存设置；服务器地址去掉末尾的斜杠。 */
+export function saveSyncSettings(partial: Partial<SyncSettings>): SyncSettings {
+  const next: SyncSettings = { ...loadSyncSettings(), ...partial };
+  next.serverUrl = next.serverUrl.trim().replace(/\/+$/, '');
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error('[sync-settings] 保存失败', err);
+  }
+  return next;
+}
@@ -0,0 +1,61 @@
+/**
+ * 项目共享：成员与邀请（需要已开启同步并登录服务器账户，项目已同步到服务器）
+ * 成员关系变化后立即同步一次，让项目列表和角色尽快反映到本地
+ */
+
+import type {
+  ProjectSharing,
+  ProjectInvite,
+  ProjectMember,
+  CreateInviteRequest,
+  MemberRole,
+  AcceptInviteResponse,
+} from '@solvechain/shared';
+import { requestServer, syncNow } from './index';
+
+export function fetchProjectSharing(projectId: string): Promise<ProjectSharing> {
+  return requestServer<ProjectSharing>(`/projects/${projectId}/members`);
+}
+
+export function createInvite(projectId: string, data: CreateInviteRequest): Promise<ProjectInvite> {
+  return requestServer<ProjectInvite>(`/projects/${projectId}/invites`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function revokeInvite(projectId: string, inviteId: string): Promise<void> {
+  await requestServer(`/projects/${projectId}/invites/${inviteId}`, { method: 'DELETE' });
+}
+
+export function updateMemberRole(projectId: string, userId: string, role: MemberRole): Promise<ProjectMember[]> {
+  return requestServer<ProjectMember[]>(`/projects/${projectId}/members/${userId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export async function removeMember(projectId: string, userId: string): Promise<void> {
+  await requestServer(`/projects/${projectId}/members/${userId}`, { method: 'DELETE' });
+}
+
+/** 退出共享给自己的项目；本地副本在随后的同步中删除 */
+export async function leaveProject(projectId: string): Promise<void> {
+  await requestServer(`/projects/${projectId}/membership`, { method: 'DELETE' });
+  await syncNow();
+}
+
+/** 发给当前账户邮箱、尚未接受的邀请 */
+export function listMyInvites(): Promise<ProjectInvite[]> {
+  return requestServer<ProjectInvite[]>('/invites');
+}
+
+/** 用邀请码或分享码加入项目，并立即同步把项目拉到本地 */
+export async function acceptInvite(code: string): Promise<AcceptInviteResponse> {
+  const result = await requestServer<AcceptInviteResponse>('/invites/accept', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  await syncNow();
+  return result;
+}
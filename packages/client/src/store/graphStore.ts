@@ -219,8 +219,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
 
   // 更新节点位置
   updateNodePositions: async (positions) => {
+    const { currentGraph } = get();
+    if (!currentGraph) return;
+
     try {
-      await nodeApi.updatePositions(positions);
+      await nodeApi.updatePositions(currentGraph.id, positions);
       set(state => ({
         nodes: state.nodes.map(n => {
           const pos = positions.find(p => p.id === n.id);
@@ -1,12 +1,30 @@
 /**
- * 本地持久层 - 用 localStorage 替代后端
+ * 本地持久层 - 用 IndexedDB 替代后端
  *
  * 设计：
- * - 所有数据存在单一 localStorage key（STORAGE_KEY）下，是一个 JSON 对象，
- *   内部分集合存放 projects / scenes / nodes / edges / sceneNodes。
+ * - 数据存在 IndexedDB（DB_NAME）中，每个集合一个 object store：
+ *   projects / scenes / nodes / edges / sceneNodes / ...，主键均为 id，
+ *   并按 projectId / sceneId 等建立索引（见 STORE_INDEXES）。
+ * - 启动时 initLocalStore 把全部数据读入内存缓存，之后的读取都是同步的；
+ *   loadAll 返回的工作副本与缓存共享记录，修改只能经 putRecord / updateRecords / removeRecords 等
+ *   记录操作进行，它们记下改动的记录 ID，saveAll 只把这些记录写回 IndexedDB。
+ * - 旧版本存在单一 localStorage key（LEGACY_STORAGE_KEY）下，首次启动时一次性迁移后删除。
+ * - 打开数据库或写入失败时通过 subscribeStorageError 通知界面，而不是只打印日志。
+ * - 可选的服务器同步：开启后 saveAll 把改动的项目/场景/节点/关系/场景关联记入 syncOutbox，
+ *   syncState 记录各记录的服务器版本与拉取游标；网络请求与调度见 services/sync。
+ * - 每次写入成功后通过 BroadcastChannel 把变化的记录发给同源的其他标签页，
+ *   对方更新缓存后经 subscribeRemoteChanges 通知 projectStore 重新读取；
+ *   两边同时修改同一记录时以 IndexedDB 中最后写入的版本为准。
+ * - 实时协作：subscribeLocalChanges 提供本页对节点/关系/场景关联的字段级修改，
+ *   协作者的修改经 applyRealtimeChanges 写入（见 services/realtime）。
  * - nodes 为项目级基础节点；sceneNodes 为「场景-节点关联」（含场景内坐标），
  *   对应后端 scene_nodes 表。
  * - 软删除通过记录上的 deletedAt 标记实现，读取时过滤；用于支持删除/恢复撤销。
+ * - snapshots 保存项目的完整快照（版本历史），可恢复到原项目或分支为新项目。
+ * - nodeHistory 记录节点每个字段的变更（对应后端 node_history 表），只增不改。
+ * - templates 保存用户自建的项目模板（内置模板在 data/templates.ts，不入库）。
+ * - conversations 保存 AI 助手的对话线程，按场景归属。
+ * - comments 保存节点/关系上的评论讨论串，参与服务器同步。
  * - 不引入任何第三方库。
  */
 
@@ -21,9 +39,52 @@ import {
   NodeStatus,
   GraphStatus,
   DEFAULT_BASE_STATUS,
+  BaseStatus,
+  ProjectSnapshot,
+  SnapshotTrigger,
+  NodeHistoryEntry,
+  EvidenceItem,
+  ProjectTemplate,
+  TemplateData,
+  AIConversation,
+  GraphComment,
+  CommentTargetType,
 } from '../types';
+import { pickRealtimeFields } from '@solvechain/shared';
+import type {
+  SyncCollection,
+  SyncRecord,
+  SyncRecordSet,
+  SyncPushRequest,
+  SyncPushResult,
+  ProjectRole,
+  RealtimeCollection,
+  RealtimeVersion,
+} from '@solvechain/shared';
 
-const STORAGE_KEY = 'solvechain-data';
+const DB_NAME = 'solvechain';
+const DB_VERSION = 3;
+// 旧版本的 localStorage 存储 key，仅用于一次性迁移
+const LEGACY_STORAGE_KEY = 'solvechain-data';
+// 记录迁移完成的元数据 store
+const META_STORE = 'meta';
+// 跨标签页同步的广播频道
+const SYNC_CHANNEL = 'solvechain-sync';
+
+// 每个项目保留的自动快照上限（手动快照不计入、不清理）
+const MAX_AUTO_SNAPSHOTS = 20;
+
+// 记录变更历史的节点字段（坐标变化过于频繁，不记录）
+const HISTORY_FIELDS = [
+  'type',
+  'title',
+  'content',
+  'baseStatus',
+  'confidence',
+  'weight',
+  'autoUpdate',
+  'evidence',
+] as const;
 
 // 软删除标记（仅本地持久层内部使用，不影响对外类型）
 type Deletable<T> = T & { deletedAt?: string | null };
@@ -34,16 +95,63 @@ type StoredNode = Deletable<SceneGraphNode> & {
 };
 type StoredEdge = Deletable<GraphEdge>;
 
+// 待推送到服务器的记录，id 为「集合:记录 ID」，同一记录只保留最新的一条
+interface SyncOutboxEntry {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  projectId: string;
+  queuedAt: string;
+}
+
+// 同步状态：id 为「集合:记录 ID」时 value 是该记录最近一次同步的服务器版本（updatedAt），
+// id 为「cursor:项目 ID」/「cursor:projects」时 value 是下次拉取的 since
+interface SyncStateEntry {
+  id: string;
+  value: string;
+}
+
+// 集合中的记录：数组和记录都与缓存共享，只读
+type Rows<T> = ReadonlyArray<Readonly<T>>;
+
 interface LocalDB {
-  projects: Project[];
-  scenes: Scene[];
-  nodes: StoredNode[]; // 项目级基础节点
-  edges: StoredEdge[];
-  sceneNodes: SceneNode[]; // 场景-节点关联（含场景内坐标）
+  readonly projects: Rows<Project>;
+  readonly scenes: Rows<Scene>;
+  readonly nodes: Rows<StoredNode>; // 项目级基础节点
+  readonly edges: Rows<StoredEdge>;
+  readonly sceneNodes: Rows<SceneNode>; // 场景-节点关联（含场景内坐标）
+  readonly snapshots: Rows<ProjectSnapshot>; // 项目快照（版本历史）
+  readonly nodeHistory: Rows<NodeHistoryEntry>; // 节点字段变更历史
+  readonly templates: Rows<ProjectTemplate>; // 用户自建模板
+  readonly conversations: Rows<AIConversation>; // AI 对话线程
+  readonly comments: Rows<GraphComment>; // 节点/关系评论
+  readonly syncOutbox: Rows<SyncOutboxEntry>; // 待推送到服务器的记录
+  readonly syncState: Rows<SyncStateEntry>; // 服务器版本与拉取游标
 }
 
+type CollectionName = keyof LocalDB;
+type RecordOf<K extends CollectionName> = LocalDB[K][number];
+
+// 每个集合对应的 object store 及其索引
+const STORE_INDEXES: Record<CollectionName, string[]> = {
+  projects: [],
+  scenes: ['projectId'],
+  nodes: ['projectId'],
+  edges: ['projectId'],
+  sceneNodes: ['sceneId', 'nodeId'],
+  snapshots: ['projectId'],
+  nodeHistory: ['projectId', 'nodeId'],
+  templates: [],
+  conversations: ['projectId', 'sceneId'],
+  comments: ['projectId', 'targetId'],
+  syncOutbox: ['projectId'],
+  syncState: [],
+};
+
+const COLLECTIONS = Object.keys(STORE_INDEXES) as CollectionName[];
+
 function emptyDB(): LocalDB {
-  return { projects: [], scenes: [], nodes: [], edges: [], sceneNodes: [] };
+  return { projects: [], scenes: [], nodes: [], edges: [], sceneNodes: [], snapshots: [], nodeHistory: [], templates: [], conversations: [], comments: [], syncOutbox: [], syncState: [] };
 }
 
 function now(): string {
@@ -56,32 +164,487 @@ function newId(): string {
 
 // ========== 底层读写 ==========
 
-/** 读取全部数据；读不到或解析失败时返回空结构，绝不抛错 */
-export function loadAll(): LocalDB {
+let database: IDBDatabase | null = null;
+// 内存缓存：启动时从 IndexedDB 读入，saveAll 时同步更新
+let cache: LocalDB = emptyDB();
+// 每条记录最近一次写入 IndexedDB 的版本（与缓存共享同一对象）；缓存中的记录不是它，说明还有未写完的修改
+const committed = Object.fromEntries(
+  COLLECTIONS.map((name) => [name, new Map<string, StoredRecord>()])
+) as Record<CollectionName, Map<string, StoredRecord>>;
+// 写入失败的记录 ID，下次保存时重写
+const unwritten = new Map<CollectionName, Set<string>>();
+
+// ---------- 存储错误通知 ----------
+
+let storageError: string | null = null;
+// 为 true 表示当前错误来自写入失败，之后某次写入成功即可清除
+let storageErrorFromWrite = false;
+const errorListeners = new Set<() => void>();
+
+function setStorageError(message: string | null, fromWrite = false): void {
+  if (message) console.error('[localStore]', message);
+  storageError = message;
+  storageErrorFromWrite = fromWrite;
+  errorListeners.forEach((listener) => listener());
+}
+
+/** 当前的存储错误（没有时为 null） */
+export function getStorageError(): string | null {
+  return storageError;
+}
+
+/** 订阅存储错误的变化，返回取消订阅函数 */
+export function subscribeStorageError(listener: () => void): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+/** 用户关闭错误提示 */
+export function dismissStorageError(): void {
+  setStorageError(null);
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+    return '浏览器存储空间不足';
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ---------- 跨标签页同步 ----------
+
+type StoredRecord = { id: string; projectId?: string; sceneId?: string; title?: string };
+
+// 一次写入中各集合变化的记录（广播给其他标签页）；
+// bases 与 puts 一一对应，是这次修改所基于的版本（写入方修改前缓存中的记录，新建的为 null）
+type RecordChanges = Partial<
+  Record<CollectionName, { puts: StoredRecord[]; deletes: string[]; bases?: (StoredRecord | null)[] }>
+>;
+
+/** 其他标签页写入的变更摘要 */
+export interface RemoteChange {
+  projectIds: string[];        // 受影响的项目
+  projectListChanged: boolean; // 项目列表（标题、增删）是否变化
+  templatesChanged: boolean;
+  // 两边同时修改的节点标题：以 IndexedDB 中最后写入的版本为准
+  conflicts: string[];
+}
+
+let channel: BroadcastChannel | null = null;
+const remoteListeners = new Set<(change: RemoteChange) => void>();
+
+/** 订阅其他标签页写入的变更，返回取消订阅函数 */
+export function subscribeRemoteChanges(listener: (change: RemoteChange) => void): () => void {
+  remoteListeners.add(listener);
+  return () => {
+    remoteListeners.delete(listener);
+  };
+}
+
+function projectIdOf(name: CollectionName, record: StoredRecord, scenes: Rows<Scene> = cache.scenes): string | undefined {
+  if (name === 'projects') return record.id;
+  if (name === 'syncOutbox' || name === 'syncState') return undefined; // 同步簿记不影响界面
+  if (name === 'sceneNodes') return scenes.find((s) => s.id === record.sceneId)?.projectId;
+  return record.projectId;
+}
+
+function sameRecord(a: StoredRecord | null | undefined, b: StoredRecord | null | undefined): boolean {
+  return a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * 把其他标签页已写入 IndexedDB 的变化合并进缓存。
+ * 对方修改所基于的版本不是本页最近写入的版本，或本页对该记录还有未写完的修改，说明两边同时修改：
+ * 先不合并，交给 settleConflicts 以 IndexedDB 中最后写入的版本为准。
+ */
+function applyRemoteChanges(changes: RecordChanges): void {
+  const projectIds = new Set<string>();
+  const conflicted = new Map<CollectionName, string[]>();
+  const next = { ...cache } as Record<CollectionName, ReadonlyArray<StoredRecord>>;
+
+  COLLECTIONS.forEach((name) => {
+    const change = changes[name];
+    if (!change) return;
+    const records = new Map(next[name].map((r) => [r.id, r]));
+
+    change.puts.forEach((record, i) => {
+      const local = records.get(record.id);
+      const mine = committed[name].get(record.id);
+      if (local !== mine || !sameRecord(change.bases?.[i], mine)) {
+        conflicted.set(name, [...(conflicted.get(name) ?? []), record.id]);
+        return;
+      }
+      records.set(record.id, record);
+      committed[name].set(record.id, record);
+      const projectId = projectIdOf(name, record);
+      if (projectId) projectIds.add(projectId);
+    });
+
+    change.deletes.forEach((id) => {
+      const local = records.get(id);
+      const projectId = local && projectIdOf(name, local);
+      if (projectId) projectIds.add(projectId);
+      records.delete(id);
+      committed[name].delete(id);
+    });
+
+    next[name] = Array.from(records.values());
+  });
+
+  cache = next as unknown as LocalDB;
+  if (conflicted.size > 0) settleConflicts(conflicted);
+  const change: RemoteChange = {
+    projectIds: Array.from(projectIds),
+    projectListChanged: !!changes.projects,
+    templatesChanged: !!changes.templates,
+    conflicts: [],
+  };
+  remoteListeners.forEach((listener) => listener(change));
+}
+
+/**
+ * 重新读取两边同时修改的记录并写入缓存。读取事务排在此前创建的所有写入事务之后，
+ * 读到的就是最后写入的版本，各标签页因此得到同样的结果；
+ * 读取期间本页又有未写完的修改的记录保留本页的（它会最后写入）
+ */
+function settleConflicts(conflicted: Map<CollectionName, string[]>): void {
+  if (!database) return;
+  const names = Array.from(conflicted.keys());
+  const fail = (err: unknown) => setStorageError(`读取其他标签页的修改失败（${describeError(err)}），请刷新页面`);
+  let reads: Promise<(StoredRecord | undefined)[][]>;
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return emptyDB();
-    const parsed = JSON.parse(raw);
-    // 容错：确保每个集合都是数组
-    return {
-      projects: Array.isArray(parsed.projects) ? parsed.projects : [],
-      scenes: Array.isArray(parsed.scenes) ? parsed.scenes : [],
-      nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
-      edges: Array.isArray(parsed.edges) ? parsed.edges : [],
-      sceneNodes: Array.isArray(parsed.sceneNodes) ? parsed.sceneNodes : [],
+    const tx = database.transaction(names);
+    reads = Promise.all(
+      names.map((name) =>
+        Promise.all(conflicted.get(name)!.map((id) => requestToPromise<StoredRecord | undefined>(tx.objectStore(name).get(id))))
+      )
+    );
+  } catch (err) {
+    fail(err);
+    return;
+  }
+  reads.then(
+    (stored) => {
+      const projectIds = new Set<string>();
+      const conflicts: string[] = [];
+      const next = { ...cache } as Record<CollectionName, ReadonlyArray<StoredRecord>>;
+      names.forEach((name, n) => {
+        const records = new Map(next[name].map((r) => [r.id, r]));
+        conflicted.get(name)!.forEach((id, i) => {
+          const local = records.get(id);
+          const record = stored[n][i];
+          if (!local && !record) return;
+          const projectId = projectIdOf(name, (record ?? local)!);
+          if (projectId) projectIds.add(projectId);
+          if (name === 'nodes') conflicts.push(local?.title ?? record?.title ?? id);
+          if (local !== committed[name].get(id)) return;
+          if (record) {
+            records.set(id, record);
+            committed[name].set(id, record);
+          } else {
+            records.delete(id);
+            committed[name].delete(id);
+          }
+        });
+        next[name] = Array.from(records.values());
+      });
+      cache = next as unknown as LocalDB;
+      const change: RemoteChange = {
+        projectIds: Array.from(projectIds),
+        projectListChanged: conflicted.has('projects'),
+        templatesChanged: conflicted.has('templates'),
+        conflicts,
+      };
+      remoteListeners.forEach((listener) => listener(change));
+    },
+    fail
+  );
+}
+
+// ---------- IndexedDB ----------
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('事务已中止'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      COLLECTIONS.forEach((name) => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        STORE_INDEXES[name].forEach((index) => store.createIndex(index, index));
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
     };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('数据库被其他标签页占用，请关闭旧版本页面后刷新'));
+  });
+}
+
+/** 解析旧版 localStorage 数据；容错：确保每个集合都是数组 */
+function readLegacyBlob(): LocalDB | null {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return null;
+  const parsed = JSON.parse(raw);
+  const db = emptyDB() as Record<CollectionName, unknown[]>;
+  COLLECTIONS.forEach((name) => {
+    if (Array.isArray(parsed[name])) db[name] = parsed[name];
+  });
+  return db as unknown as LocalDB;
+}
+
+/** 把旧版 localStorage 数据一次性写入 IndexedDB，成功后删除旧 key */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const migrated = await requestToPromise(
+    db.transaction(META_STORE).objectStore(META_STORE).get('migratedAt')
+  );
+  if (migrated) return;
+  const legacy = readLegacyBlob();
+  if (!legacy) return;
+
+  const tx = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+  COLLECTIONS.forEach((name) => {
+    const store = tx.objectStore(name);
+    rowsOf(legacy, name).forEach((record) => store.put(record));
+  });
+  tx.objectStore(META_STORE).put(now(), 'migratedAt');
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * 打开数据库、完成迁移并把全部数据读入缓存；应用渲染前调用一次。
+ * 失败时不抛错：尽量读取旧版数据供浏览，并通过存储错误提示用户修改不会被保存。
+ */
+export async function initLocalStore(): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await migrateFromLocalStorage(db);
+    const tx = db.transaction(COLLECTIONS);
+    const loaded = await Promise.all(
+      COLLECTIONS.map((name) => requestToPromise(tx.objectStore(name).getAll()))
+    );
+    const next = emptyDB() as unknown as Record<CollectionName, StoredRecord[]>;
+    COLLECTIONS.forEach((name, i) => {
+      next[name] = loaded[i];
+      loaded[i].forEach((record: StoredRecord) => committed[name].set(record.id, record));
+    });
+    cache = next as unknown as LocalDB;
+    database = db;
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(SYNC_CHANNEL);
+      channel.onmessage = (event: MessageEvent<RecordChanges>) => applyRemoteChanges(event.data);
+    }
   } catch (err) {
-    console.error('[localStore] 读取失败，返回空数据', err);
-    return emptyDB();
+    try {
+      cache = readLegacyBlob() ?? emptyDB();
+    } catch {
+      cache = emptyDB();
+    }
+    setStorageError(`无法打开本地数据库（${describeError(err)}），本次的修改不会被保存`);
   }
 }
 
-/** 写入全部数据；失败时只记录错误，不抛出 */
+/**
+ * 读取全部数据，返回工作副本：与缓存共享记录，可以直接读取；
+ * 修改只能经下方的记录操作（putRecord / updateRecords / removeRecords 等），改完交给 saveAll
+ */
+export function loadAll(): LocalDB {
+  return { ...cache };
+}
+
+/** 写入工作副本中改动过的记录；开启服务器同步时，改动的记录同时排入 syncOutbox */
 export function saveAll(db: LocalDB): void {
+  if (syncTracking) queueForSync(db);
+  const localChanges = localChangeListeners.size > 0 ? diffLocalChanges(db) : [];
+  commit(db);
+  if (localChanges.length > 0) localChangeListeners.forEach((listener) => listener(localChanges));
+}
+
+// ---------- 记录操作 ----------
+
+// 每个工作副本上经记录操作改动过的记录 ID（含被删除的），commit 只写这些记录
+const dirtyRecords = new WeakMap<LocalDB, Map<CollectionName, Set<string>>>();
+
+function markDirty(db: LocalDB, name: CollectionName, id: string): void {
+  let touched = dirtyRecords.get(db);
+  if (!touched) dirtyRecords.set(db, (touched = new Map()));
+  let ids = touched.get(name);
+  if (!ids) touched.set(name, (ids = new Set()));
+  ids.add(id);
+}
+
+function rowsOf(db: LocalDB, name: CollectionName): ReadonlyArray<StoredRecord> {
+  return db[name] as ReadonlyArray<StoredRecord>;
+}
+
+// 集合整体换成新数组（数组与缓存共享，不能原地修改）
+function setRows(db: LocalDB, name: CollectionName, rows: ReadonlyArray<StoredRecord>): void {
+  (db as Record<CollectionName, ReadonlyArray<StoredRecord>>)[name] = rows;
+}
+
+/** 按 id 新增或替换多条记录；新增的追加在末尾 */
+function putRecords<K extends CollectionName>(db: LocalDB, name: K, records: ReadonlyArray<RecordOf<K>>): void {
+  if (records.length === 0) return;
+  const incoming = new Map((records as ReadonlyArray<StoredRecord>).map((r) => [r.id, r]));
+  const replaced = rowsOf(db, name).map((r) => {
+    const record = incoming.get(r.id);
+    if (!record) return r;
+    incoming.delete(r.id);
+    return record;
+  });
+  setRows(db, name, [...replaced, ...incoming.values()]);
+  (records as ReadonlyArray<StoredRecord>).forEach((r) => markDirty(db, name, r.id));
+}
+
+/** 按 id 新增或替换一条记录；first 为 true 时新增的放在最前 */
+function putRecord<K extends CollectionName>(db: LocalDB, name: K, record: RecordOf<K>, first = false): void {
+  const id = (record as StoredRecord).id;
+  if (first && !rowsOf(db, name).some((r) => r.id === id)) {
+    setRows(db, name, [record as StoredRecord, ...rowsOf(db, name)]);
+    markDirty(db, name, id);
+  } else {
+    putRecords(db, name, [record]);
+  }
+}
+
+/** 逐条改写记录：update 返回新对象表示修改，返回原记录表示不变；返回修改后的记录 */
+function updateRecords<K extends CollectionName>(
+  db: LocalDB,
+  name: K,
+  update: (record: RecordOf<K>) => RecordOf<K>
+): RecordOf<K>[] {
+  const updated: RecordOf<K>[] = [];
+  const rows = rowsOf(db, name).map((r) => {
+    const next = update(r as RecordOf<K>) as StoredRecord;
+    if (next === r) return r;
+    updated.push(next as RecordOf<K>);
+    markDirty(db, name, next.id);
+    return next;
+  });
+  if (updated.length > 0) setRows(db, name, rows);
+  return updated;
+}
+
+/** 把 patch 合并到指定记录上，返回修改后的记录；记录不存在时返回 null */
+function patchRecord<K extends CollectionName>(
+  db: LocalDB,
+  name: K,
+  id: string,
+  patch: Partial<RecordOf<K>>
+): RecordOf<K> | null {
+  const [updated] = updateRecords(db, name, (r) =>
+    (r as StoredRecord).id === id ? ({ ...r, ...patch } as RecordOf<K>) : r
+  );
+  return updated ?? null;
+}
+
+/** 删除满足条件的记录，返回被删除的记录 */
+function removeRecords<K extends CollectionName>(
+  db: LocalDB,
+  name: K,
+  predicate: (record: RecordOf<K>) => boolean
+): RecordOf<K>[] {
+  const removed: RecordOf<K>[] = [];
+  const rows = rowsOf(db, name).filter((r) => {
+    if (!predicate(r as RecordOf<K>)) return true;
+    removed.push(r as RecordOf<K>);
+    markDirty(db, name, r.id);
+    return false;
+  });
+  if (removed.length > 0) setRows(db, name, rows);
+  return removed;
+}
+
+/** 取出指定 ID 的记录（一次遍历，不存在的不在结果中） */
+function pickRecords(db: LocalDB, name: CollectionName, ids: Set<string>): Map<string, StoredRecord> {
+  return new Map(rowsOf(db, name).filter((r) => ids.has(r.id)).map((r) => [r.id, r]));
+}
+
+/**
+ * 立即更新缓存，并把工作副本中改动过的记录写回 IndexedDB（仍存在的写入，已不存在的删除）。
+ * 写入失败时提示用户；失败的记录下次保存时重写。
+ */
+function commit(db: LocalDB): void {
+  const touched = dirtyRecords.get(db) ?? new Map<CollectionName, Set<string>>();
+  dirtyRecords.delete(db);
+  const previous = cache;
+  cache = { ...db };
+  if (!database) return;
+
+  unwritten.forEach((ids, name) => {
+    const merged = touched.get(name) ?? new Set<string>();
+    ids.forEach((id) => merged.add(id));
+    touched.set(name, merged);
+  });
+  unwritten.clear();
+  if (touched.size === 0) return;
+
+  const puts = new Map<CollectionName, StoredRecord[]>();
+  const bases = new Map<CollectionName, (StoredRecord | null)[]>();
+  const deletes = new Map<CollectionName, string[]>();
+  touched.forEach((ids, name) => {
+    const present = pickRecords(cache, name, ids);
+    const before = pickRecords(previous, name, ids);
+    bases.set(name, Array.from(present.keys(), (id) => before.get(id) ?? null));
+    const removed = Array.from(ids).filter((id) => !present.has(id));
+    if (present.size > 0) puts.set(name, Array.from(present.values()));
+    if (removed.length > 0) deletes.set(name, removed);
+  });
+  const storeNames = Array.from(touched.keys());
+  const retryLater = (err: unknown) => {
+    touched.forEach((ids, name) => {
+      const retry = unwritten.get(name) ?? new Set<string>();
+      ids.forEach((id) => retry.add(id));
+      unwritten.set(name, retry);
+    });
+    setStorageError(`本地保存失败（${describeError(err)}），最近的修改可能没有保存`, true);
+  };
+
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+    const tx = database.transaction(storeNames, 'readwrite');
+    puts.forEach((records, name) => {
+      const store = tx.objectStore(name);
+      records.forEach((record) => store.put(record));
+    });
+    deletes.forEach((removed, name) => {
+      const store = tx.objectStore(name);
+      removed.forEach((id) => store.delete(id));
+    });
+    transactionDone(tx).then(
+      () => {
+        puts.forEach((records, name) => records.forEach((record) => committed[name].set(record.id, record)));
+        deletes.forEach((removed, name) => removed.forEach((id) => committed[name].delete(id)));
+        if (storageErrorFromWrite) setStorageError(null);
+        const changes: RecordChanges = {};
+        storeNames.forEach((name) => {
+          changes[name] = { puts: puts.get(name) ?? [], deletes: deletes.get(name) ?? [], bases: bases.get(name) ?? [] };
+        });
+        channel?.postMessage(changes);
+      },
+      retryLater
+    );
   } catch (err) {
-    console.error('[localStore] 写入失败', err);
+    retryLater(err);
   }
 }
 
@@ -103,7 +666,7 @@ function stripEdge(e: StoredEdge): GraphEdge {
 // ========== 项目 ==========
 
 export function listProjects(): Project[] {
-  return loadAll().projects;
+  return [...cache.projects];
 }
 
 export function getProjectDetails(projectId: string): {
@@ -144,17 +707,15 @@ export function createProject(data: { title: string; description?: string }): Pr
     createdAt: ts,
     updatedAt: ts,
   };
-  db.projects.unshift(project);
+  putRecord(db, 'projects', project, true);
   saveAll(db);
   return project;
 }
 
 export function updateProject(projectId: string, data: Partial<Project>): Project | null {
   const db = loadAll();
-  const idx = db.projects.findIndex((p) => p.id === projectId);
-  if (idx === -1) return null;
-  const updated: Project = { ...db.projects[idx], ...data, updatedAt: now() };
-  db.projects[idx] = updated;
+  const updated = patchRecord(db, 'projects', projectId, { ...data, updatedAt: now() });
+  if (!updated) return null;
   saveAll(db);
   return updated;
 }
@@ -164,11 +725,15 @@ export function deleteProject(projectId: string): void {
   const sceneIds = new Set(
     db.scenes.filter((s) => s.projectId === projectId).map((s) => s.id)
   );
-  db.projects = db.projects.filter((p) => p.id !== projectId);
-  db.scenes = db.scenes.filter((s) => s.projectId !== projectId);
-  db.nodes = db.nodes.filter((n) => n.projectId !== projectId);
-  db.edges = db.edges.filter((e) => (e as any).projectId !== projectId);
-  db.sceneNodes = db.sceneNodes.filter((sn) => !sceneIds.has(sn.sceneId));
+  removeRecords(db, 'projects', (p) => p.id === projectId);
+  removeRecords(db, 'scenes', (s) => s.projectId === projectId);
+  removeRecords(db, 'nodes', (n) => n.projectId === projectId);
+  removeRecords(db, 'edges', (e) => (e as any).projectId === projectId);
+  removeRecords(db, 'sceneNodes', (sn) => sceneIds.has(sn.sceneId));
+  removeRecords(db, 'snapshots', (s) => s.projectId === projectId);
+  removeRecords(db, 'nodeHistory', (h) => h.projectId === projectId);
+  removeRecords(db, 'conversations', (c) => c.projectId === projectId);
+  removeRecords(db, 'comments', (c) => c.projectId === projectId);
   saveAll(db);
 }
 
@@ -224,25 +789,24 @@ export function createScene(
     createdAt: ts,
     updatedAt: ts,
   };
-  db.scenes.push(scene);
+  putRecord(db, 'scenes', scene);
   saveAll(db);
   return scene;
 }
 
 export function updateScene(sceneId: string, data: Partial<Scene>): Scene | null {
   const db = loadAll();
-  const idx = db.scenes.findIndex((s) => s.id === sceneId);
-  if (idx === -1) return null;
-  const updated: Scene = { ...db.scenes[idx], ...data, updatedAt: now() };
-  db.scenes[idx] = updated;
+  const updated = patchRecord(db, 'scenes', sceneId, { ...data, updatedAt: now() });
+  if (!updated) return null;
   saveAll(db);
   return updated;
 }
 
 export function deleteScene(sceneId: string): void {
   const db = loadAll();
-  db.scenes = db.scenes.filter((s) => s.id !== sceneId);
-  db.sceneNodes = db.sceneNodes.filter((sn) => sn.sceneId !== sceneId);
+  removeRecords(db, 'scenes', (s) => s.id === sceneId);
+  removeRecords(db, 'sceneNodes', (sn) => sn.sceneId === sceneId);
+  removeRecords(db, 'conversations', (c) => c.sceneId === sceneId);
   saveAll(db);
 }
 
@@ -256,6 +820,7 @@ export function createNode(
     content?: string;
     positionX?: number;
     positionY?: number;
+    baseStatus?: BaseStatus;
   }
 ): SceneGraphNode {
   const db = loadAll();
@@ -273,27 +838,51 @@ export function createNode(
     positionX: data.positionX ?? 0,
     positionY: data.positionY ?? 0,
     createdBy: 'user',
-    baseStatus: DEFAULT_BASE_STATUS[data.type],
+    baseStatus: data.baseStatus ?? DEFAULT_BASE_STATUS[data.type],
     autoUpdate: true,
     createdAt: ts,
     updatedAt: ts,
   };
-  db.nodes.push(node);
+  putRecord(db, 'nodes', node);
   saveAll(db);
   return stripNode(node);
 }
 
+/**
+ * 更新节点；HISTORY_FIELDS 中实际发生变化的字段各写一条变更历史，
+ * reason 为用户填写的变更原因（同一次更新的各条记录共用）。
+ */
 export function updateNode(
   nodeId: string,
-  data: Partial<SceneGraphNode>
+  data: Partial<SceneGraphNode>,
+  reason?: string
 ): SceneGraphNode | null {
   const db = loadAll();
-  const idx = db.nodes.findIndex((n) => n.id === nodeId);
-  if (idx === -1) return null;
+  const previous = db.nodes.find((n) => n.id === nodeId);
+  if (!previous) return null;
   // scenePosition 属于场景关联，不写入基础节点
   const { scenePositionX, scenePositionY, ...rest } = data;
-  const updated: StoredNode = { ...db.nodes[idx], ...rest, updatedAt: now() };
-  db.nodes[idx] = updated;
+  const ts = now();
+  const updated: StoredNode = { ...previous, ...rest, updatedAt: ts };
+  putRecord(db, 'nodes', updated);
+
+  for (const field of HISTORY_FIELDS) {
+    if (!(field in rest)) continue;
+    const oldValue = previous[field] ?? null;
+    const newValue = updated[field] ?? null;
+    // evidence 为数组，按内容比较
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    putRecord(db, 'nodeHistory', {
+      id: newId(),
+      nodeId,
+      projectId: previous.projectId ?? '',
+      field,
+      oldValue,
+      newValue,
+      reason: reason?.trim() || undefined,
+      createdAt: ts,
+    });
+  }
   saveAll(db);
   return stripNode(updated);
 }
@@ -302,19 +891,13 @@ export function updateNode(
 export function deleteNode(nodeId: string): { deletedEdgeIds: string[] } {
   const db = loadAll();
   const ts = now();
-  const node = db.nodes.find((n) => n.id === nodeId);
-  if (node) node.deletedAt = ts;
-
-  const deletedEdgeIds: string[] = [];
-  for (const e of db.edges) {
-    if (
-      isActive(e) &&
-      (e.sourceNodeId === nodeId || e.targetNodeId === nodeId)
-    ) {
-      e.deletedAt = ts;
-      deletedEdgeIds.push(e.id);
-    }
-  }
+  patchRecord(db, 'nodes', nodeId, { deletedAt: ts });
+
+  const deletedEdgeIds = updateRecords(db, 'edges', (e) =>
+    isActive(e) && (e.sourceNodeId === nodeId || e.targetNodeId === nodeId)
+      ? { ...e, deletedAt: ts }
+      : e
+  ).map((e) => e.id);
   saveAll(db);
   return { deletedEdgeIds };
 }
@@ -325,20 +908,13 @@ export function restoreNode(
   edgeIds?: string[]
 ): { node: SceneGraphNode; restoredEdges: GraphEdge[] } | null {
   const db = loadAll();
-  const node = db.nodes.find((n) => n.id === nodeId);
+  const node = patchRecord(db, 'nodes', nodeId, { deletedAt: null });
   if (!node) return null;
-  node.deletedAt = null;
-
-  const restoredEdges: GraphEdge[] = [];
-  if (edgeIds && edgeIds.length > 0) {
-    const idSet = new Set(edgeIds);
-    for (const e of db.edges) {
-      if (idSet.has(e.id)) {
-        e.deletedAt = null;
-        restoredEdges.push(stripEdge(e));
-      }
-    }
-  }
+
+  const idSet = new Set(edgeIds ?? []);
+  const restoredEdges = updateRecords(db, 'edges', (e) =>
+    idSet.has(e.id) ? { ...e, deletedAt: null } : e
+  ).map(stripEdge);
   saveAll(db);
   return { node: stripNode(node), restoredEdges };
 }
@@ -370,7 +946,7 @@ export function createEdge(
   };
   // 在边上附带 projectId 以便按项目过滤（ProjectGraphEdge 允许该字段）
   (edge as any).projectId = projectId;
-  db.edges.push(edge);
+  putRecord(db, 'edges', edge);
   saveAll(db);
   return stripEdge(edge);
 }
@@ -380,26 +956,22 @@ export function updateEdge(
   data: Partial<GraphEdge>
 ): GraphEdge | null {
   const db = loadAll();
-  const idx = db.edges.findIndex((e) => e.id === edgeId);
-  if (idx === -1) return null;
-  const updated: StoredEdge = { ...db.edges[idx], ...data, updatedAt: now() };
-  db.edges[idx] = updated;
+  const updated = patchRecord(db, 'edges', edgeId, { ...data, updatedAt: now() });
+  if (!updated) return null;
   saveAll(db);
   return stripEdge(updated);
 }
 
 export function deleteEdge(edgeId: string): void {
   const db = loadAll();
-  const edge = db.edges.find((e) => e.id === edgeId);
-  if (edge) edge.deletedAt = now();
+  patchRecord(db, 'edges', edgeId, { deletedAt: now() });
   saveAll(db);
 }
 
 export function restoreEdge(edgeId: string): GraphEdge | null {
   const db = loadAll();
-  const edge = db.edges.find((e) => e.id === edgeId);
+  const edge = patchRecord(db, 'edges', edgeId, { deletedAt: null });
   if (!edge) return null;
-  edge.deletedAt = null;
   saveAll(db);
   return stripEdge(edge);
 }
@@ -417,7 +989,7 @@ export function addNodeToScene(
     (sn) => sn.sceneId === sceneId && sn.nodeId === nodeId
   );
   if (!exists) {
-    db.sceneNodes.push({
+    putRecord(db, 'sceneNodes', {
       id: newId(),
       sceneId,
       nodeId,
@@ -431,9 +1003,7 @@ export function addNodeToScene(
 
 export function removeNodeFromScene(sceneId: string, nodeId: string): void {
   const db = loadAll();
-  db.sceneNodes = db.sceneNodes.filter(
-    (sn) => !(sn.sceneId === sceneId && sn.nodeId === nodeId)
-  );
+  removeRecords(db, 'sceneNodes', (sn) => sn.sceneId === sceneId && sn.nodeId === nodeId);
   saveAll(db);
 }
 
@@ -444,14 +1014,10 @@ export function updateNodeScenePosition(
   positionY: number
 ): void {
   const db = loadAll();
-  const sn = db.sceneNodes.find(
-    (s) => s.sceneId === sceneId && s.nodeId === nodeId
+  const moved = updateRecords(db, 'sceneNodes', (sn) =>
+    sn.sceneId === sceneId && sn.nodeId === nodeId ? { ...sn, positionX, positionY } : sn
   );
-  if (sn) {
-    sn.positionX = positionX;
-    sn.positionY = positionY;
-    saveAll(db);
-  }
+  if (moved.length > 0) saveAll(db);
 }
 
 // ========== 布局保存 ==========
@@ -463,15 +1029,10 @@ export function saveSceneLayout(
 ): void {
   const db = loadAll();
   const posMap = new Map(positions.map((p) => [p.id, p]));
-  for (const sn of db.sceneNodes) {
-    if (sn.sceneId === sceneId) {
-      const pos = posMap.get(sn.nodeId);
-      if (pos) {
-        sn.positionX = pos.x;
-        sn.positionY = pos.y;
-      }
-    }
-  }
+  updateRecords(db, 'sceneNodes', (sn) => {
+    const pos = sn.sceneId === sceneId ? posMap.get(sn.nodeId) : undefined;
+    return pos ? { ...sn, positionX: pos.x, positionY: pos.y } : sn;
+  });
   saveAll(db);
 }
 
@@ -482,15 +1043,10 @@ export function saveProjectLayout(
 ): void {
   const db = loadAll();
   const posMap = new Map(positions.map((p) => [p.id, p]));
-  for (const n of db.nodes) {
-    if (n.projectId === projectId) {
-      const pos = posMap.get(n.id);
-      if (pos) {
-        n.positionX = pos.x;
-        n.positionY = pos.y;
-      }
-    }
-  }
+  updateRecords(db, 'nodes', (n) => {
+    const pos = n.projectId === projectId ? posMap.get(n.id) : undefined;
+    return pos ? { ...n, positionX: pos.x, positionY: pos.y } : n;
+  });
   saveAll(db);
 }
 
@@ -501,7 +1057,7 @@ export function saveProjectLayout(
  * 由调用方（handleImport）负责把 2.3/旧版导出格式转换成本结构。
  */
 export interface ImportProjectInput {
-  project: { title: string; description?: string };
+  project: { title: string; description?: string; templateId?: string };
   // 场景按导入顺序，成员引用 nodes[].originalId，并带场景内坐标
   scenes: Array<{
     name: string;
@@ -524,15 +1080,31 @@ export interface ImportProjectInput {
     autoUpdate?: boolean;
     logicState?: string | null;
     customWeight?: number | null;
+    evidence?: EvidenceItem[];
   }>;
-  // 项目级边
+  // 项目级边；originalId 供评论引用（旧版导出没有）
   edges: Array<{
+    originalId?: string;
     sourceOriginalId: string;
     targetOriginalId: string;
     type: EdgeType;
     strength?: number;
     description?: string;
   }>;
+  // 评论讨论串，targetOriginalId 引用节点或边的原 id，回复以 parentOriginalId 引用第一条
+  comments?: Array<{
+    originalId: string;
+    targetType: CommentTargetType;
+    targetOriginalId: string;
+    parentOriginalId: string | null;
+    authorName: string;
+    body: string;
+    mentions: string[];
+    resolved: boolean;
+    resolvedBy?: string | null;
+    resolvedAt?: string | null;
+    createdAt: string;
+  }>;
 }
 
 /**
@@ -540,7 +1112,8 @@ export interface ImportProjectInput {
  * - 节点每个只建一次，建立 原id → 新id 映射；
  * - 跨场景共享节点靠该映射，被关联进多个场景而非复制；
  * - 空场景照常建出来；
- * - 边按映射重连两端，缺端则跳过。
+ * - 边按映射重连两端，缺端则跳过；
+ * - 评论按映射挂到新的节点/边上，目标或所在讨论串缺失的跳过，保留原作者名与时间。
  * 单次 loadAll/saveAll，不触碰任何编辑器运行时状态。
  */
 export function importProject(input: ImportProjectInput): {
@@ -560,13 +1133,15 @@ export function importProject(input: ImportProjectInput): {
     description: input.project.description,
     status: GraphStatus.ACTIVE,
     tags: [],
+    templateId: input.project.templateId,
     createdAt: ts,
     updatedAt: ts,
   };
-  db.projects.unshift(project);
+  putRecord(db, 'projects', project, true);
 
   // 1) 节点：每个只建一次，原id → 新id
   const idMap = new Map<string, string>();
+  const nodes: StoredNode[] = [];
   for (const n of input.nodes) {
     const newNodeId = newId();
     idMap.set(n.originalId, newNodeId);
@@ -587,14 +1162,18 @@ export function importProject(input: ImportProjectInput): {
       autoUpdate: n.autoUpdate ?? true,
       logicState: n.logicState ?? null,
       customWeight: n.customWeight ?? null,
+      evidence: n.evidence,
       createdAt: ts,
       updatedAt: ts,
     };
-    db.nodes.push(node);
+    nodes.push(node);
   }
+  putRecords(db, 'nodes', nodes);
 
   // 2) 场景 + 场景-节点关联（含场景内坐标）
   const sceneIds: string[] = [];
+  const scenes: Scene[] = [];
+  const sceneNodes: SceneNode[] = [];
   input.scenes.forEach((s, idx) => {
     const sceneId = newId();
     sceneIds.push(sceneId);
@@ -608,12 +1187,12 @@ export function importProject(input: ImportProjectInput): {
       createdAt: ts,
       updatedAt: ts,
     };
-    db.scenes.push(scene);
+    scenes.push(scene);
 
     for (const m of s.members) {
       const newNodeId = idMap.get(m.originalId);
       if (!newNodeId) continue; // 成员引用了不存在的节点
-      db.sceneNodes.push({
+      sceneNodes.push({
         id: newId(),
         sceneId,
         nodeId: newNodeId,
@@ -623,9 +1202,12 @@ export function importProject(input: ImportProjectInput): {
       });
     }
   });
+  putRecords(db, 'scenes', scenes);
+  putRecords(db, 'sceneNodes', sceneNodes);
 
   // 3) 边：按映射重连两端
-  let edgeCount = 0;
+  const edges: StoredEdge[] = [];
+  const edgeIdMap = new Map<string, string>();
   for (const e of input.edges) {
     const src = idMap.get(e.sourceOriginalId);
     const tgt = idMap.get(e.targetOriginalId);
@@ -643,10 +1225,804 @@ export function importProject(input: ImportProjectInput): {
       updatedAt: ts,
     };
     (edge as any).projectId = projectId;
-    db.edges.push(edge);
-    edgeCount++;
+    edges.push(edge);
+    if (e.originalId) edgeIdMap.set(e.originalId, edge.id);
+  }
+  putRecords(db, 'edges', edges);
+
+  // 4) 评论：先建讨论串的第一条，再建回复
+  const commentIdMap = new Map<string, string>();
+  const created: GraphComment[] = [];
+  const comments = [...(input.comments ?? [])].sort((a, b) => Number(!!a.parentOriginalId) - Number(!!b.parentOriginalId));
+  for (const c of comments) {
+    const targetId = (c.targetType === 'edge' ? edgeIdMap : idMap).get(c.targetOriginalId);
+    const parentId = c.parentOriginalId ? commentIdMap.get(c.parentOriginalId) : null;
+    if (!targetId || parentId === undefined) continue;
+    const commentId = newId();
+    commentIdMap.set(c.originalId, commentId);
+    created.push({
+      id: commentId,
+      projectId,
+      targetType: c.targetType,
+      targetId,
+      parentId,
+      authorId: null,
+      authorName: c.authorName,
+      body: c.body,
+      mentions: c.mentions ?? [],
+      resolved: c.resolved ?? false,
+      resolvedBy: c.resolvedBy ?? null,
+      resolvedAt: c.resolvedAt ?? null,
+      createdAt: c.createdAt ?? ts,
+      updatedAt: ts,
+    });
+  }
+  putRecords(db, 'comments', created);
+
+  saveAll(db);
+  return { projectId, sceneIds, nodeCount: input.nodes.length, edgeCount: edges.length };
+}
+
+// ========== 节点变更历史 ==========
+
+/** 列出节点的变更历史，最新的在前 */
+export function listNodeHistory(nodeId: string): NodeHistoryEntry[] {
+  return loadAll()
+    .nodeHistory.filter((h) => h.nodeId === nodeId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// ========== 快照（版本历史） ==========
+
+/** 列出项目的全部快照，最新的在前 */
+export function listSnapshots(projectId: string): ProjectSnapshot[] {
+  return loadAll()
+    .snapshots.filter((s) => s.projectId === projectId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * 为项目拍一个完整快照（场景、节点、边、场景-节点关联）。
+ * 自动快照（非 manual）每个项目最多保留 MAX_AUTO_SNAPSHOTS 个，超出时删除最旧的。
+ */
+export function createSnapshot(
+  projectId: string,
+  data: { title: string; description?: string; trigger?: SnapshotTrigger }
+): ProjectSnapshot | null {
+  const db = loadAll();
+  const project = db.projects.find((p) => p.id === projectId);
+  if (!project) return null;
+
+  const scenes = db.scenes.filter((s) => s.projectId === projectId);
+  const sceneIds = new Set(scenes.map((s) => s.id));
+  const nodes = db.nodes
+    .filter((n) => n.projectId === projectId && isActive(n))
+    .map(stripNode);
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges = db.edges
+    .filter((e) => (e as any).projectId === projectId && isActive(e))
+    .map(stripEdge);
+  const sceneNodes = db.sceneNodes.filter(
+    (sn) => sceneIds.has(sn.sceneId) && nodeIds.has(sn.nodeId)
+  );
+
+  const snapshot: ProjectSnapshot = {
+    id: newId(),
+    projectId,
+    title: data.title,
+    description: data.description,
+    trigger: data.trigger ?? 'manual',
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+    // 深拷贝，避免与后续编辑共享引用
+    data: JSON.parse(JSON.stringify({ project, scenes, nodes, edges, sceneNodes })),
+    createdAt: now(),
+  };
+  putRecord(db, 'snapshots', snapshot);
+
+  if (snapshot.trigger !== 'manual') {
+    const autoSnapshots = db.snapshots
+      .filter((s) => s.projectId === projectId && s.trigger !== 'manual')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const excess = new Set(
+      autoSnapshots.slice(0, Math.max(0, autoSnapshots.length - MAX_AUTO_SNAPSHOTS)).map((s) => s.id)
+    );
+    removeRecords(db, 'snapshots', (s) => excess.has(s.id));
+  }
+
+  saveAll(db);
+  return snapshot;
+}
+
+export function deleteSnapshot(snapshotId: string): void {
+  const db = loadAll();
+  removeRecords(db, 'snapshots', (s) => s.id === snapshotId);
+  saveAll(db);
+}
+
+/**
+ * 把项目整体恢复到快照时的状态（保留原 id）。
+ * 项目当前的场景、节点（含已软删除的）、边、场景-节点关联全部被快照内容替换；
+ * 项目本身的标题/描述不变。
+ */
+export function restoreSnapshot(snapshotId: string): boolean {
+  const db = loadAll();
+  const snapshot = db.snapshots.find((s) => s.id === snapshotId);
+  if (!snapshot) return false;
+  const { projectId, data } = snapshot;
+  const project = db.projects.find((p) => p.id === projectId);
+  if (!project) return false;
+
+  const oldSceneIds = new Set(
+    db.scenes.filter((s) => s.projectId === projectId).map((s) => s.id)
+  );
+  removeRecords(db, 'scenes', (s) => s.projectId === projectId);
+  removeRecords(db, 'nodes', (n) => n.projectId === projectId);
+  removeRecords(db, 'edges', (e) => (e as any).projectId === projectId);
+  removeRecords(db, 'sceneNodes', (sn) => oldSceneIds.has(sn.sceneId));
+
+  const copy: ProjectSnapshot['data'] = JSON.parse(JSON.stringify(data));
+  putRecords(db, 'scenes', copy.scenes);
+  putRecords(db, 'nodes', copy.nodes);
+  putRecords(db, 'edges', copy.edges);
+  putRecords(db, 'sceneNodes', copy.sceneNodes);
+  patchRecord(db, 'projects', projectId, { updatedAt: now() });
+
+  saveAll(db);
+  return true;
+}
+
+/**
+ * 以快照为起点分支出一个新项目（全部生成新 id），原项目不受影响。
+ * 复用 importProject 的重建逻辑；返回新项目 id。
+ */
+export function branchFromSnapshot(snapshotId: string, title?: string): string | null {
+  const snapshot = loadAll().snapshots.find((s) => s.id === snapshotId);
+  if (!snapshot) return null;
+  const { project, scenes, nodes, edges, sceneNodes } = snapshot.data;
+
+  const result = importProject({
+    project: {
+      title: title || `${project.title}（${snapshot.title}）`,
+      description: project.description,
+    },
+    scenes: [...scenes]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((s) => ({
+        name: s.name,
+        description: s.description,
+        color: s.color,
+        sortOrder: s.sortOrder,
+        members: sceneNodes
+          .filter((sn) => sn.sceneId === s.id)
+          .map((sn) => ({
+            originalId: sn.nodeId,
+            scenePositionX: sn.positionX,
+            scenePositionY: sn.positionY,
+          })),
+      })),
+    nodes: nodes.map((n) => ({
+      originalId: n.id,
+      type: n.type,
+      title: n.title,
+      content: n.content,
+      confidence: n.confidence,
+      weight: n.weight,
+      positionX: n.positionX,
+      positionY: n.positionY,
+      baseStatus: n.baseStatus,
+      autoUpdate: n.autoUpdate,
+      logicState: (n as StoredNode).logicState,
+      customWeight: (n as StoredNode).customWeight,
+      evidence: n.evidence,
+    })),
+    edges: edges.map((e) => ({
+      sourceOriginalId: e.sourceNodeId,
+      targetOriginalId: e.targetNodeId,
+      type: e.type,
+      strength: e.strength,
+      description: e.description,
+    })),
+  });
+  return result.projectId;
+}
+
+// ========== 项目模板 ==========
+
+/** 列出用户自建的模板，最新的在前（不含内置模板） */
+export function listTemplates(): ProjectTemplate[] {
+  return [...loadAll().templates].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getTemplate(templateId: string): ProjectTemplate | null {
+  return loadAll().templates.find((t) => t.id === templateId) ?? null;
+}
+
+/**
+ * 把项目（或其中一个场景）另存为模板。
+ * 只保留结构：状态、置信度、证据都不写入模板，创建项目时回到各类型的默认状态。
+ */
+export function createTemplateFromProject(
+  projectId: string,
+  meta: { name: string; description?: string; category?: string; guidingQuestions?: string[] },
+  sceneId?: string | null
+): ProjectTemplate | null {
+  const db = loadAll();
+  if (!db.projects.some((p) => p.id === projectId)) return null;
+
+  const scenes = db.scenes
+    .filter((s) => s.projectId === projectId && (!sceneId || s.id === sceneId))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+
+  // 只模板化一个场景时，节点限定为该场景的成员
+  let nodes = db.nodes.filter((n) => n.projectId === projectId && isActive(n));
+  if (sceneId) {
+    const memberIds = new Set(
+      db.sceneNodes.filter((sn) => sn.sceneId === sceneId).map((sn) => sn.nodeId)
+    );
+    nodes = nodes.filter((n) => memberIds.has(n.id));
   }
+  const nodeIds = new Set(nodes.map((n) => n.id));
+
+  const data: TemplateData = {
+    scenes: scenes.map((s) => ({
+      name: s.name,
+      description: s.description,
+      color: s.color,
+      members: db.sceneNodes
+        .filter((sn) => sn.sceneId === s.id && nodeIds.has(sn.nodeId))
+        .map((sn) => ({ nodeId: sn.nodeId, positionX: sn.positionX, positionY: sn.positionY })),
+    })),
+    nodes: nodes.map((n) => ({
+      id: n.id,
+      type: n.type,
+      title: n.title,
+      content: n.content,
+      weight: n.weight,
+      positionX: n.positionX,
+      positionY: n.positionY,
+    })),
+    edges: db.edges
+      .filter(
+        (e) => isActive(e) && nodeIds.has(e.sourceNodeId) && nodeIds.has(e.targetNodeId)
+      )
+      .map((e) => ({
+        sourceNodeId: e.sourceNodeId,
+        targetNodeId: e.targetNodeId,
+        type: e.type,
+        strength: e.strength,
+        description: e.description,
+      })),
+  };
+
+  const template: ProjectTemplate = {
+    id: newId(),
+    name: meta.name,
+    description: meta.description,
+    category: meta.category || '我的模板',
+    guidingQuestions: meta.guidingQuestions ?? [],
+    data,
+    createdAt: now(),
+  };
+  putRecord(db, 'templates', template);
+  saveAll(db);
+  return template;
+}
+
+export function deleteTemplate(templateId: string): void {
+  const db = loadAll();
+  removeRecords(db, 'templates', (t) => t.id === templateId);
+  saveAll(db);
+}
+
+/** 用模板创建新项目，返回新项目 ID；节点状态统一取默认值 */
+export function createProjectFromTemplate(
+  template: ProjectTemplate,
+  project: { title: string; description?: string }
+): string {
+  const { data } = template;
+  const result = importProject({
+    project: { ...project, templateId: template.id },
+    scenes: data.scenes.map((s, i) => ({
+      name: s.name,
+      description: s.description,
+      color: s.color,
+      sortOrder: i,
+      members: s.members.map((m) => ({
+        originalId: m.nodeId,
+        scenePositionX: m.positionX,
+        scenePositionY: m.positionY,
+      })),
+    })),
+    nodes: data.nodes.map((n) => ({
+      originalId: n.id,
+      type: n.type,
+      title: n.title,
+      content: n.content,
+      weight: n.weight,
+      positionX: n.positionX,
+      positionY: n.positionY,
+      baseStatus: DEFAULT_BASE_STATUS[n.type],
+    })),
+    edges: data.edges.map((e) => ({
+      sourceOriginalId: e.sourceNodeId,
+      targetOriginalId: e.targetNodeId,
+      type: e.type,
+      strength: e.strength,
+      description: e.description,
+    })),
+  });
+  return result.projectId;
+}
+
+// ========== AI 对话 ==========
+
+/** 列出某个场景（sceneId 为 null 时为概览）的对话线程，最近更新的在前 */
+export function listConversations(projectId: string, sceneId: string | null): AIConversation[] {
+  return loadAll()
+    .conversations.filter((c) => c.projectId === projectId && c.sceneId === sceneId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** 新建或整体覆盖一个对话线程（按 id） */
+export function saveConversation(conversation: AIConversation): AIConversation {
+  const db = loadAll();
+  const saved: AIConversation = { ...conversation, updatedAt: now() };
+  putRecord(db, 'conversations', saved);
+  saveAll(db);
+  return saved;
+}
+
+export function deleteConversation(conversationId: string): void {
+  const db = loadAll();
+  removeRecords(db, 'conversations', (c) => c.id === conversationId);
+  saveAll(db);
+}
 
+// ========== 评论 ==========
+
+/** 列出项目的全部评论，按时间先后 */
+export function listComments(projectId: string): GraphComment[] {
+  return loadAll()
+    .comments.filter((c) => c.projectId === projectId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function createComment(
+  data: Omit<GraphComment, 'id' | 'resolved' | 'createdAt' | 'updatedAt'>
+): GraphComment {
+  const db = loadAll();
+  const ts = now();
+  const comment: GraphComment = { ...data, id: newId(), resolved: false, createdAt: ts, updatedAt: ts };
+  putRecord(db, 'comments', comment);
+  saveAll(db);
+  return comment;
+}
+
+export function updateComment(
+  commentId: string,
+  data: Partial<Pick<GraphComment, 'body' | 'mentions' | 'resolved' | 'resolvedBy' | 'resolvedAt'>>
+): GraphComment {
+  const db = loadAll();
+  const updated = patchRecord(db, 'comments', commentId, { ...data, updatedAt: now() });
+  if (!updated) throw new Error('评论不存在');
+  saveAll(db);
+  return updated;
+}
+
+/** 删除评论；删除讨论串的第一条时连同全部回复一起删除 */
+export function deleteComment(commentId: string): void {
+  const db = loadAll();
+  removeRecords(db, 'comments', (c) => c.id === commentId || c.parentId === commentId);
   saveAll(db);
-  return { projectId, sceneIds, nodeCount: input.nodes.length, edgeCount };
+}
+
+// ========== 服务器同步 ==========
+
+const SYNC_COLLECTIONS: SyncCollection[] = ['projects', 'scenes', 'nodes', 'edges', 'sceneNodes', 'comments'];
+const PROJECTS_CURSOR = 'cursor:projects';
+
+// 是否为变化的记录排队（由 services/sync 按设置开启）
+let syncTracking = false;
+
+function syncKey(collection: SyncCollection, recordId: string): string {
+  return `${collection}:${recordId}`;
+}
+
+function cursorKey(projectId: string | null): string {
+  return projectId ? `cursor:${projectId}` : PROJECTS_CURSOR;
+}
+
+function setSyncState(db: LocalDB, id: string, value: string): void {
+  putRecord(db, 'syncState', { id, value });
+}
+
+// 前移记录的同步基线；更早的版本（晚到的回执）不覆盖
+function advanceSyncState(db: LocalDB, id: string, value: string): void {
+  const current = db.syncState.find((s) => s.id === id)?.value;
+  if (!current || current < value) setSyncState(db, id, value);
+}
+
+// 同一记录只保留最新的一条，重新排到队尾
+function enqueue(db: LocalDB, collection: SyncCollection, recordId: string, projectId: string): void {
+  const id = syncKey(collection, recordId);
+  removeRecords(db, 'syncOutbox', (e) => e.id === id);
+  putRecord(db, 'syncOutbox', { id, collection, recordId, projectId, queuedAt: now() });
+}
+
+/** 工作副本中改动过的同步集合记录与缓存（上一次保存的内容）比较，把新增、修改、删除的排队 */
+function queueForSync(db: LocalDB): void {
+  const touched = dirtyRecords.get(db);
+  if (!touched) return;
+  const scenes = [...db.scenes, ...cache.scenes];
+  SYNC_COLLECTIONS.forEach((collection) => {
+    const ids = touched.get(collection);
+    if (!ids) return;
+    const after = pickRecords(db, collection, ids);
+    const before = pickRecords(cache, collection, ids);
+    ids.forEach((id) => {
+      const record = after.get(id);
+      const previous = before.get(id);
+      if (record === previous || (record && previous && JSON.stringify(record) === JSON.stringify(previous))) return;
+      const projectId = projectIdOf(collection, (record ?? previous)!, scenes);
+      if (projectId) enqueue(db, collection, id, projectId);
+    });
+  });
+}
+
+/**
+ * 开启/关闭同步排队；开启时把从未同步过的记录全部排队（首次开启即上传现有项目）。
+ * 别人共享来的项目不属于当前账户，不作为新数据上传
+ */
+export function setSyncTracking(enabled: boolean): void {
+  syncTracking = enabled;
+  if (!enabled) return;
+  const db = loadAll();
+  const known = new Set([...db.syncState.map((s) => s.id), ...db.syncOutbox.map((e) => e.id)]);
+  const shared = new Set(db.projects.filter((p) => p.role && p.role !== 'owner').map((p) => p.id));
+  SYNC_COLLECTIONS.forEach((collection) => {
+    (rowsOf(db, collection) as ReadonlyArray<Deletable<StoredRecord>>).forEach((record) => {
+      if (record.deletedAt || known.has(syncKey(collection, record.id))) return;
+      const projectId = projectIdOf(collection, record);
+      if (projectId && !shared.has(projectId)) enqueue(db, collection, record.id, projectId);
+    });
+  });
+  if (dirtyRecords.has(db)) commit(db);
+}
+
+/** 切换服务器账户时清空同步状态，本地现有数据作为新数据重新上传 */
+export function resetSyncState(): void {
+  const db = loadAll();
+  removeRecords(db, 'syncOutbox', () => true);
+  removeRecords(db, 'syncState', () => true);
+  commit(db);
+  if (syncTracking) setSyncTracking(true);
+}
+
+export function countPendingSync(): number {
+  return cache.syncOutbox.length;
+}
+
+/** 拉取游标；projectId 为 null 时是项目列表的游标 */
+export function getSyncCursor(projectId: string | null): string | null {
+  return cache.syncState.find((s) => s.id === cursorKey(projectId))?.value ?? null;
+}
+
+/** 需要同步的项目：本地现有的项目，以及只在本地删除、删除尚未推送的项目 */
+export function listSyncProjectIds(): string[] {
+  return Array.from(new Set([...cache.projects.map((p) => p.id), ...cache.syncOutbox.map((e) => e.projectId)]));
+}
+
+// 服务器记录的内容与本地一致（实时协作已把同一修改合并进本地），不算冲突
+function matchesLocal(db: LocalDB, collection: SyncCollection, record: SyncRecord): boolean {
+  const local = rowsOf(db, collection).find((r) => r.id === record.id) as Record<string, unknown> | undefined;
+  if (!local) return false;
+  return Object.entries(record).every(
+    ([field, value]) =>
+      field === 'updatedAt' ||
+      field === 'createdAt' ||
+      field === 'role' ||
+      JSON.stringify(value ?? null) === JSON.stringify(local[field] ?? null)
+  );
+}
+
+// 去掉服务器返回的 null 字段，与本地记录「字段缺省」的写法一致
+function withoutNulls(record: SyncRecord): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, v]) => v !== null));
+}
+
+/** 把一条服务器记录写入本地（不排队）；已删除的项目/场景/关联在本地真删除，节点/关系保留软删除标记 */
+function applyServerRecord(db: LocalDB, collection: SyncCollection, record: SyncRecord): void {
+  const local = rowsOf(db, collection).find((r) => r.id === record.id);
+  const softDeletable = collection === 'nodes' || collection === 'edges';
+
+  if (record.deletedAt && !softDeletable) {
+    if (collection === 'projects') {
+      const sceneIds = new Set(db.scenes.filter((s) => s.projectId === record.id).map((s) => s.id));
+      removeRecords(db, 'projects', (p) => p.id === record.id);
+      removeRecords(db, 'scenes', (s) => s.projectId === record.id);
+      removeRecords(db, 'nodes', (n) => n.projectId === record.id);
+      removeRecords(db, 'edges', (e) => (e as StoredRecord).projectId === record.id);
+      removeRecords(db, 'sceneNodes', (sn) => sceneIds.has(sn.sceneId));
+      removeRecords(db, 'comments', (c) => c.projectId === record.id);
+    } else {
+      removeRecords(db, collection, (r) => (r as StoredRecord).id === record.id);
+    }
+    return;
+  }
+
+  const fields = withoutNulls(record);
+  // 服务器上的节点/关系没有 graphId，本地以项目 ID 作为 graphId
+  const extra = softDeletable ? { graphId: record.projectId, deletedAt: record.deletedAt ?? null } : {};
+  const merged = { ...local, ...fields, ...extra } as StoredRecord;
+  if (collection === 'projects' && !local) Object.assign(merged, { userId: 'local' });
+  putRecord(db, collection, merged as RecordOf<typeof collection>);
+}
+
+/**
+ * 合并拉取到的服务器记录并前移游标。
+ * 本地有待推送修改的记录：节点作为冲突返回（服务器版本），不覆盖也不推送；
+ * 其他集合以本地为准，记下服务器版本，下次推送时覆盖。
+ */
+export function applySyncPull(projectId: string | null, serverTime: string, changes: SyncRecordSet): SyncRecord[] {
+  const db = loadAll();
+  const versions = new Map(db.syncState.map((s) => [s.id, s.value]));
+  const pending = new Set(db.syncOutbox.map((e) => e.id));
+  const conflicts: SyncRecord[] = [];
+  const applied: RecordChanges = {};
+
+  SYNC_COLLECTIONS.forEach((collection) => {
+    (changes[collection] ?? []).forEach((record) => {
+      const key = syncKey(collection, record.id);
+      // 角色随成员关系变化，不改变项目版本，单独更新
+      if (collection === 'projects' && record.role && !record.deletedAt) {
+        const local = db.projects.find((p) => p.id === record.id);
+        if (local && local.role !== record.role) {
+          const updated = { ...local, role: record.role as ProjectRole };
+          putRecord(db, 'projects', updated);
+          (applied.projects ??= { puts: [], deletes: [] }).puts.push(updated as StoredRecord);
+        }
+      }
+      // 已是最新（通常是本机推送后的回显）
+      if (!record.updatedAt || versions.get(key) === record.updatedAt) return;
+      if (pending.has(key)) {
+        if (matchesLocal(db, collection, record)) {
+          removeRecords(db, 'syncOutbox', (e) => e.id === key);
+          setSyncState(db, key, record.updatedAt);
+        } else if (collection === 'nodes') {
+          conflicts.push(record);
+        } else {
+          setSyncState(db, key, record.updatedAt);
+        }
+        return;
+      }
+      applyServerRecord(db, collection, record);
+      setSyncState(db, key, record.updatedAt);
+      (applied[collection] ??= { puts: [], deletes: [] }).puts.push(record as StoredRecord);
+    });
+  });
+
+  setSyncState(db, cursorKey(projectId), serverTime);
+  commit(db);
+  notifySyncApplied(applied);
+  return conflicts;
+}
+
+/** 当前账户在项目中的角色；本地创建、尚未共享的项目视为所有者 */
+export function getProjectRole(projectId: string): ProjectRole {
+  return cache.projects.find((p) => p.id === projectId)?.role ?? 'owner';
+}
+
+/**
+ * 丢弃项目待推送的修改（没有编辑权限的共享项目，服务器会拒绝推送；keep 中的集合保留），
+ * 同时清除这些记录的服务器版本和项目游标，随后的完整拉取以服务器版本覆盖本地
+ */
+export function discardSyncPush(projectId: string, keep: SyncCollection[] = []): void {
+  const db = loadAll();
+  const discarded = new Set(
+    db.syncOutbox.filter((e) => e.projectId === projectId && !keep.includes(e.collection)).map((e) => e.id)
+  );
+  if (discarded.size === 0) return;
+  removeRecords(db, 'syncOutbox', (e) => discarded.has(e.id));
+  removeRecords(db, 'syncState', (s) => discarded.has(s.id) || s.id === cursorKey(projectId));
+  commit(db);
+}
+
+/** 收集项目待推送的记录；skip 中的节点（尚未解决的冲突）不推送 */
+export function collectSyncPush(projectId: string, skip: Set<string>): {
+  request: SyncPushRequest;
+  entries: SyncOutboxEntry[];
+} {
+  const versions = new Map(cache.syncState.map((s) => [s.id, s.value]));
+  const entries = cache.syncOutbox.filter((e) => e.projectId === projectId && !skip.has(e.recordId));
+  const request: SyncPushRequest = {};
+  entries.forEach((entry) => {
+    const local = rowsOf(cache, entry.collection).find((r) => r.id === entry.recordId);
+    // 本地已真删除的记录只发墓碑
+    const record: SyncRecord = local ? structuredClone(local) : { id: entry.recordId, deletedAt: entry.queuedAt };
+    (request[entry.collection] ??= []).push({
+      record,
+      baseUpdatedAt: versions.get(entry.id) ?? null,
+    });
+  });
+  return { request, entries };
+}
+
+/**
+ * 处理推送结果：写入成功的出队（推送期间又被修改的保留）；
+ * 节点冲突返回服务器版本，其他集合的冲突记下服务器版本，下次推送时以本地为准覆盖；
+ * 被拒绝的记录出队并返回，由调用方提示。
+ */
+export function applySyncPushResults(
+  entries: SyncOutboxEntry[],
+  results: SyncPushResult[]
+): { conflicts: SyncRecord[]; rejected: SyncPushResult[] } {
+  const db = loadAll();
+  const sent = new Map(entries.map((e) => [e.id, e.queuedAt]));
+  const conflicts: SyncRecord[] = [];
+  const rejected: SyncPushResult[] = [];
+  const dequeue = (key: string) => {
+    removeRecords(db, 'syncOutbox', (e) => e.id === key && e.queuedAt === sent.get(key));
+  };
+
+  results.forEach((result) => {
+    const key = syncKey(result.collection, result.id);
+    if (result.status === 'applied' && result.updatedAt) {
+      setSyncState(db, key, result.updatedAt);
+      dequeue(key);
+    } else if (result.status === 'conflict' && result.server?.updatedAt) {
+      if (matchesLocal(db, result.collection, result.server)) {
+        setSyncState(db, key, result.server.updatedAt);
+        dequeue(key);
+      } else if (result.collection === 'nodes') {
+        conflicts.push(result.server);
+      } else {
+        setSyncState(db, key, result.server.updatedAt);
+      }
+    } else if (result.status === 'rejected') {
+      rejected.push(result);
+      dequeue(key);
+    }
+  });
+
+  commit(db);
+  return { conflicts, rejected };
+}
+
+/** 解决节点冲突：keep 为 local 时下次推送覆盖服务器，为 server 时用服务器版本替换本地 */
+export function resolveSyncConflict(server: SyncRecord, keep: 'local' | 'server'): void {
+  const db = loadAll();
+  const key = syncKey('nodes', server.id);
+  setSyncState(db, key, server.updatedAt!);
+  if (keep === 'server') {
+    applyServerRecord(db, 'nodes', server);
+    removeRecords(db, 'syncOutbox', (e) => e.id === key);
+  }
+  commit(db);
+  if (keep === 'server') notifySyncApplied({ nodes: { puts: [server as StoredRecord], deletes: [] } });
+}
+
+/** 服务器数据写入本地后，像其他标签页的变更一样通知 projectStore 重新读取 */
+function notifySyncApplied(applied: RecordChanges): void {
+  const projectIds = new Set<string>();
+  SYNC_COLLECTIONS.forEach((collection) => {
+    applied[collection]?.puts.forEach((record) => {
+      const projectId = projectIdOf(collection, record);
+      if (projectId) projectIds.add(projectId);
+    });
+  });
+  if (projectIds.size === 0 && !applied.projects) return;
+  const change: RemoteChange = {
+    projectIds: Array.from(projectIds),
+    projectListChanged: !!applied.projects,
+    templatesChanged: false,
+    conflicts: [],
+  };
+  remoteListeners.forEach((listener) => listener(change));
+}
+
+// ========== 实时协作 ==========
+
+const REALTIME_COLLECTIONS: RealtimeCollection[] = ['nodes', 'edges', 'sceneNodes'];
+
+/** 一条记录的字段级修改；新建的记录带 deletedAt: null，真删除的场景关联只带 deletedAt */
+export interface LocalRecordChange {
+  collection: RealtimeCollection;
+  id: string;
+  projectId: string;
+  fields: Record<string, unknown>;
+  updatedAt?: string; // 协作者的修改写入服务器后的版本
+}
+
+const localChangeListeners = new Set<(changes: LocalRecordChange[]) => void>();
+
+/** 订阅本页经 saveAll 写入的节点/关系/场景关联修改，返回取消订阅函数 */
+export function subscribeLocalChanges(listener: (changes: LocalRecordChange[]) => void): () => void {
+  localChangeListeners.add(listener);
+  return () => {
+    localChangeListeners.delete(listener);
+  };
+}
+
+/** 工作副本中改动过的记录与缓存（上一次保存的内容）比较，列出变化的字段；被去掉的字段记为 null */
+function diffLocalChanges(db: LocalDB): LocalRecordChange[] {
+  const touched = dirtyRecords.get(db);
+  if (!touched) return [];
+  const scenes = [...db.scenes, ...cache.scenes];
+  const changes: LocalRecordChange[] = [];
+  REALTIME_COLLECTIONS.forEach((collection) => {
+    const ids = touched.get(collection);
+    if (!ids) return;
+    const current = pickRecords(db, collection, ids);
+    const previous = pickRecords(cache, collection, ids);
+    ids.forEach((id) => {
+      const record = current.get(id);
+      const before = previous.get(id) as Record<string, unknown> | undefined;
+      if (!record) {
+        const projectId = before && projectIdOf(collection, before as StoredRecord, scenes);
+        if (projectId) changes.push({ collection, id, projectId, fields: { deletedAt: now() } });
+        return;
+      }
+      const after = record as Record<string, unknown>;
+      const fields: Record<string, unknown> = before ? {} : { deletedAt: null };
+      new Set([...Object.keys(after), ...Object.keys(before ?? {})]).forEach((field) => {
+        if (field === 'id') return;
+        const value = after[field] ?? null;
+        if (JSON.stringify(value) !== JSON.stringify(before?.[field] ?? null)) fields[field] = value;
+      });
+      const projectId = projectIdOf(collection, record, scenes);
+      if (projectId && Object.keys(fields).length > 0) changes.push({ collection, id, projectId, fields });
+    });
+  });
+  return changes;
+}
+
+/**
+ * 写入协作者的修改（已按字段合并，只含胜出的字段）。不排入同步：修改方自己会推送到服务器。
+ * 不存在的记录只有带 deletedAt: null（对方新建）时才创建；场景关联的 deletedAt 有值时真删除。
+ * 记录必须属于修改所在的项目；已有记录只写入可编辑的字段，所属项目、场景、两端节点等不会被改写。
+ * 修改已写入服务器，同步基线前移到服务器版本（字段全被本地更晚的写入覆盖时也一样），之后推送本地版本不会被当作冲突
+ */
+export function applyRealtimeChanges(changes: LocalRecordChange[]): void {
+  const db = loadAll();
+  const projectIds = new Set<string>();
+  changes.forEach(({ collection, id, projectId, fields, updatedAt }) => {
+    const local = rowsOf(db, collection).find((r) => r.id === id);
+    if (local && projectIdOf(collection, local, db.scenes) !== projectId) return;
+    if (collection === 'sceneNodes' && fields.deletedAt) {
+      if (!local) return;
+      removeRecords(db, 'sceneNodes', (sn) => sn.id === id);
+    } else if (local) {
+      const editable = pickRealtimeFields(collection, fields, false);
+      if (Object.keys(editable).length > 0) {
+        putRecord(db, collection, { ...local, ...editable } as RecordOf<typeof collection>);
+      }
+    } else if (fields.deletedAt === null) {
+      const record: Record<string, unknown> = { ...pickRealtimeFields(collection, fields, true), id };
+      if (projectIdOf(collection, record as unknown as StoredRecord, db.scenes) !== projectId) return;
+      if (collection === 'sceneNodes') delete record.deletedAt;
+      putRecord(db, collection, record as unknown as RecordOf<typeof collection>);
+    } else {
+      return;
+    }
+    if (updatedAt) advanceSyncState(db, syncKey(collection, id), updatedAt);
+    projectIds.add(projectId);
+  });
+  if (projectIds.size === 0) return;
+  commit(db);
+  const change: RemoteChange = {
+    projectIds: Array.from(projectIds),
+    projectListChanged: false,
+    templatesChanged: false,
+    conflicts: [],
+  };
+  remoteListeners.forEach((listener) => listener(change));
+}
+
+/** 本页发出的实时修改已写入服务器：前移这些记录的同步基线 */
+export function applyRealtimeVersions(versions: RealtimeVersion[]): void {
+  if (versions.length === 0) return;
+  const db = loadAll();
+  versions.forEach(({ collection, id, updatedAt }) => advanceSyncState(db, syncKey(collection, id), updatedAt));
+  commit(db);
 }
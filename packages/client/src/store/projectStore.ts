@@ -1,7 +1,7 @@
 /**
  * v2.0 项目-场景状态管理
  *
- * 数据持久层：localStore（localStorage 本地存储），无需后端。
+ * 数据持久层：localStore（IndexedDB 本地存储），无需后端。
  */
 
 import { create } from 'zustand';
@@ -12,13 +12,32 @@ import {
   GraphEdge,
   NodeType,
   EdgeType,
+  ProjectSnapshot,
+  SnapshotTrigger,
+  NodeHistoryEntry,
+  ProjectTemplate,
+  AIConversation,
+  GraphComment,
+  CommentTargetType,
+  GraphToolCall,
+  GraphToolResult,
+  BaseStatus,
+  isBaseStatusForType,
 } from '../types';
 import * as localStore from './localStore';
+import type { ProjectDiff } from '../utils/projectDiff';
 import {
   EXAMPLE_PROJECT_ID,
   getExampleProjectDetails,
   getExampleSceneDetails,
 } from '../data/exampleProject';
+import { BUILTIN_TEMPLATES } from '../data/templates';
+import { propagateStates } from '../utils/propagation';
+import { hasProjectRole } from '@solvechain/shared';
+import { leaveProject } from '../services/sync/sharing';
+import { getSyncSettings } from '../services/sync';
+import { subscribeRealtimeErrors } from '../services/realtime';
+import { extractMentions } from '../utils/comments';
 
 // 视图模式
 export type ViewMode = 'single' | 'panorama';
@@ -26,6 +45,29 @@ export type ViewMode = 'single' | 'panorama';
 // 编辑器模式
 export type EditorMode = 'view' | 'edit';
 
+// 同一来源的自动快照间隔：一次 AI 建议往往连续触发多次写入，只在第一次之前拍快照
+const AUTO_SNAPSHOT_INTERVAL_MS = 30 * 1000;
+
+// 共享项目中查看者、评论者不能修改项目数据；本地项目没有角色，视为所有者
+function canEditProject(project: Project): boolean {
+  return hasProjectRole(project.role ?? 'owner', 'editor');
+}
+
+// 评论者及以上可以发表评论
+function canCommentOn(project: Project): boolean {
+  return hasProjectRole(project.role ?? 'owner', 'commenter');
+}
+
+// 评论的作者：登录过服务器账户时用账户，否则只记一个本机名字
+function currentAuthor(): { authorId: string | null; authorName: string } {
+  const settings = getSyncSettings();
+  return { authorId: settings.userId || null, authorName: settings.name || settings.email || '我' };
+}
+
+function readOnlyError(isExample: boolean): Error {
+  return new Error(isExample ? '示例项目为只读' : '你在该共享项目中没有编辑权限');
+}
+
 interface ProjectState {
   // 项目列表
   projects: Project[];
@@ -41,6 +83,15 @@ interface ProjectState {
   sceneNodes: SceneGraphNode[]; // 当前场景的节点（包含场景位置）
   sceneEdges: GraphEdge[]; // 当前场景的边
 
+  // 当前项目的快照（最新的在前）
+  snapshots: ProjectSnapshot[];
+
+  // 当前项目的评论（按时间先后）
+  comments: GraphComment[];
+
+  // 可选模板：内置模板在前，其后为用户自建模板
+  templates: ProjectTemplate[];
+
   // UI 状态
   viewMode: ViewMode;
   editorMode: EditorMode;
@@ -48,8 +99,13 @@ interface ProjectState {
   error: string | null;
 
   // 是否处于「只读示例项目」上下文：为 true 时数据来自静态文件，
-  // 且所有写操作短路为 no-op，绝不写入 localStorage。
+  // 且所有写操作短路为 no-op，绝不写入本地存储。
   isExample: boolean;
+  // 当前项目是否只读：示例项目，或共享给当前账户、角色为查看者/评论者的项目。
+  // 为 true 时修改项目数据的操作短路（快照、AI 对话等只存本机的数据不受影响）
+  readOnly: boolean;
+  // 当前账户能否在当前项目中评论（示例项目与查看者不能）
+  canComment: boolean;
 
   // 项目操作
   fetchProjects: () => Promise<void>;
@@ -58,6 +114,17 @@ interface ProjectState {
   updateProject: (projectId: string, data: Partial<Project>) => Promise<void>;
   deleteProject: (projectId: string) => Promise<void>;
 
+  // 模板操作
+  fetchTemplates: () => Promise<void>;
+  getTemplate: (templateId: string) => ProjectTemplate | null;
+  createProjectFromTemplate: (templateId: string, data: { title: string; description?: string }) => Promise<Project>;
+  // 把当前项目（传入 sceneId 时只取该场景）另存为模板
+  saveAsTemplate: (
+    meta: { name: string; description?: string; category?: string; guidingQuestions?: string[] },
+    sceneId?: string | null
+  ) => Promise<ProjectTemplate>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+
   // 场景操作
   fetchScene: (sceneId: string) => Promise<void>;
   createScene: (data: { name: string; description?: string; color?: string }) => Promise<Scene>;
@@ -70,8 +137,10 @@ interface ProjectState {
   setPendingLayoutPositions: (positions: Map<string, { x: number; y: number }>) => void;
 
   // 节点操作（项目级）
-  createNode: (data: { type: NodeType; title: string; content?: string; positionX?: number; positionY?: number }) => Promise<SceneGraphNode>;
-  updateNode: (nodeId: string, data: Partial<SceneGraphNode>) => Promise<void>;
+  createNode: (data: { type: NodeType; title: string; content?: string; positionX?: number; positionY?: number; baseStatus?: BaseStatus }) => Promise<SceneGraphNode>;
+  // reason 为可选的变更原因，写入节点变更历史
+  updateNode: (nodeId: string, data: Partial<SceneGraphNode>, reason?: string) => Promise<void>;
+  fetchNodeHistory: (nodeId: string) => Promise<NodeHistoryEntry[]>; // 最新的在前；读取失败时设置 error 并返回空列表
   deleteNode: (nodeId: string) => Promise<string[]>; // 返回被删除的边 ID 列表
   restoreNode: (nodeId: string, edgeIdsToRestore?: string[]) => Promise<SceneGraphNode>;
 
@@ -97,6 +166,7 @@ interface ProjectState {
       content?: string;
       positionX?: number;
       positionY?: number;
+      baseStatus?: BaseStatus;
     }>,
     edges: Array<{
       sourceIndex: number; // 引用 nodes 数组的索引
@@ -108,6 +178,35 @@ interface ProjectState {
     newSceneName?: string
   ) => Promise<{ sceneId: string; nodeIds: string[] }>;
 
+  // 快照操作
+  fetchSnapshots: () => Promise<void>;
+  createSnapshot: (data: { title: string; description?: string; trigger?: SnapshotTrigger }) => Promise<ProjectSnapshot | null>;
+  // 修改前自动拍快照；距同来源的上一个快照不足 AUTO_SNAPSHOT_INTERVAL_MS 时跳过
+  autoSnapshot: (trigger: Exclude<SnapshotTrigger, 'manual'>, title: string) => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+  restoreSnapshot: (snapshotId: string) => Promise<void>;
+  branchFromSnapshot: (snapshotId: string, title?: string) => Promise<string>; // 返回新项目 ID
+
+  // 评论：只能修改、删除自己的评论；删除第一条时整个讨论串一起删除
+  addComment: (data: { targetType: CommentTargetType; targetId: string; body: string; parentId?: string | null }) => Promise<GraphComment>;
+  editComment: (commentId: string, body: string) => Promise<void>;
+  setCommentResolved: (commentId: string, resolved: boolean) => Promise<void>;
+  deleteComment: (commentId: string) => Promise<void>;
+
+  // AI 对话（示例项目不保存）
+  fetchConversations: (sceneId: string | null) => Promise<AIConversation[]>; // 最近更新的在前
+  saveConversation: (conversation: Omit<AIConversation, 'projectId' | 'updatedAt'>) => Promise<void>;
+  deleteConversation: (conversationId: string) => Promise<void>;
+
+  // AI 图编辑：按顺序执行用户审阅通过的工具调用，返回每个调用的结果（失败不影响后续调用）
+  applyToolCalls: (calls: GraphToolCall[]) => Promise<GraphToolResult[]>;
+
+  // 差异合并：把对比结果中选中的变更应用到当前项目（acceptedKeys 为 NodeDiff/EdgeDiff 的 key）
+  applyDiff: (diff: ProjectDiff, acceptedKeys: Set<string>) => Promise<{ nodes: number; edges: number }>;
+
+  // 跨标签页同步：其他标签页写入后重新读取受影响的数据
+  syncRemoteChange: (change: localStore.RemoteChange) => void;
+
   // UI 操作
   setViewMode: (mode: ViewMode) => void;
   setEditorMode: (mode: EditorMode) => void;
@@ -124,11 +223,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   currentSceneId: null,
   sceneNodes: [],
   sceneEdges: [],
+  snapshots: [],
+  comments: [],
+  templates: BUILTIN_TEMPLATES,
   viewMode: 'single',
   editorMode: 'view',
   loading: false,
   error: null,
   isExample: false,
+  readOnly: false,
+  canComment: false,
   pendingLayoutPositions: new Map(),
 
   // ========== 项目操作 ==========
@@ -147,7 +251,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ loading: true, error: null });
 
     // 只读示例项目：数据全部来自静态文件，强制查看模式，且不经过 setCurrentScene 的
-    // 自动保存逻辑（直接落到概览，避免任何 localStorage 写入）。
+    // 自动保存逻辑（直接落到概览，避免任何本地存储写入）。
     if (projectId === EXAMPLE_PROJECT_ID) {
       try {
         const { project, scenes, nodes, edges } = getExampleProjectDetails();
@@ -160,7 +264,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
           sceneEdges: edges,
           currentSceneId: null,
           pendingLayoutPositions: new Map(),
+          snapshots: [],
+          comments: [],
           isExample: true,
+          readOnly: true,
+          canComment: false,
           editorMode: 'view',
           loading: false,
         });
@@ -179,7 +287,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
           scenes,
           nodes,
           edges,
+          snapshots: localStore.listSnapshots(projectId),
+          comments: localStore.listComments(projectId),
           isExample: false,
+          readOnly: !canEditProject(project),
+          canComment: canCommentOn(project),
+          ...(canEditProject(project) ? {} : { editorMode: 'view' as const }),
           loading: false,
         });
 
@@ -211,6 +324,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   updateProject: async (projectId, data) => {
+    if (!hasProjectRole(localStore.getProjectRole(projectId), 'editor')) return;
     try {
       const updated = localStore.updateProject(projectId, data);
       if (updated) {
@@ -226,6 +340,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   deleteProject: async (projectId) => {
     try {
+      // 共享来的项目只能退出：服务器移除成员关系后，同步会删除本地副本
+      if (localStore.getProjectRole(projectId) !== 'owner') {
+        await leaveProject(projectId);
+        return;
+      }
       localStore.deleteProject(projectId);
       set((state) => ({
         projects: state.projects.filter((p) => p.id !== projectId),
@@ -236,6 +355,56 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  // ========== 模板操作 ==========
+
+  fetchTemplates: async () => {
+    set({ templates: [...BUILTIN_TEMPLATES, ...localStore.listTemplates()] });
+  },
+
+  getTemplate: (templateId) => {
+    return BUILTIN_TEMPLATES.find((t) => t.id === templateId) ?? localStore.getTemplate(templateId);
+  },
+
+  createProjectFromTemplate: async (templateId, data) => {
+    set({ loading: true, error: null });
+    try {
+      const template = get().getTemplate(templateId);
+      if (!template) throw new Error('模板不存在');
+      const projectId = localStore.createProjectFromTemplate(template, data);
+      const projects = localStore.listProjects();
+      set({ projects, loading: false });
+      return projects.find((p) => p.id === projectId)!;
+    } catch (err: any) {
+      set({ error: err.message, loading: false });
+      throw err;
+    }
+  },
+
+  saveAsTemplate: async (meta, sceneId) => {
+    if (get().isExample) throw new Error('示例项目为只读');
+    const { currentProject } = get();
+    if (!currentProject) throw new Error('未选择项目');
+
+    try {
+      const template = localStore.createTemplateFromProject(currentProject.id, meta, sceneId);
+      if (!template) throw new Error('项目不存在');
+      await get().fetchTemplates();
+      return template;
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  deleteTemplate: async (templateId) => {
+    try {
+      localStore.deleteTemplate(templateId);
+      await get().fetchTemplates();
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
   // ========== 场景操作 ==========
 
   setPendingLayoutPositions: (positions) => {
@@ -293,7 +462,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   createScene: async (data) => {
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
     const { currentProject } = get();
     if (!currentProject) throw new Error('未选择项目');
 
@@ -310,7 +479,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   updateScene: async (sceneId, data) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       const updated = localStore.updateScene(sceneId, data);
       if (updated) {
@@ -324,7 +493,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   deleteScene: async (sceneId) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       localStore.deleteScene(sceneId);
       set((state) => ({
@@ -340,7 +509,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   createNode: async (data) => {
     // 只读示例：不创建、不写入；调用方（handleCreateNode）会吞掉该异常，表现为「点击无反应」
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
 
     const { currentProject } = get();
     if (!currentProject) throw new Error('未选择项目');
@@ -365,10 +534,10 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
-  updateNode: async (nodeId, data) => {
-    if (get().isExample) return;
+  updateNode: async (nodeId, data, reason) => {
+    if (get().readOnly) return;
     try {
-      const updated = localStore.updateNode(nodeId, data);
+      const updated = localStore.updateNode(nodeId, data, reason);
       if (updated) {
         set((state) => ({
           nodes: state.nodes.map((n) => (n.id === nodeId ? { ...n, ...updated } : n)),
@@ -380,8 +549,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
-  deleteNode: async (nodeId): Promise<string[]> => {
+  fetchNodeHistory: async (nodeId) => {
     if (get().isExample) return [];
+    try {
+      return localStore.listNodeHistory(nodeId);
+    } catch (err: any) {
+      set({ error: `读取节点历史失败：${err.message}` });
+      return [];
+    }
+  },
+
+  deleteNode: async (nodeId): Promise<string[]> => {
+    if (get().readOnly) return [];
     try {
       const { deletedEdgeIds } = localStore.deleteNode(nodeId);
 
@@ -400,7 +579,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   restoreNode: async (nodeId, edgeIdsToRestore) => {
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
     try {
       const result = localStore.restoreNode(nodeId, edgeIdsToRestore);
       if (result) {
@@ -441,7 +620,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   // ========== 边操作（项目级）==========
 
   createEdge: async (data) => {
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
     const { currentProject } = get();
     if (!currentProject) throw new Error('未选择项目');
 
@@ -469,7 +648,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   updateEdge: async (edgeId, data) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       const updated = localStore.updateEdge(edgeId, data);
       if (updated) {
@@ -484,7 +663,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   deleteEdge: async (edgeId) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       localStore.deleteEdge(edgeId);
       set((state) => ({
@@ -497,7 +676,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   restoreEdge: async (edgeId) => {
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
     try {
       const edge = localStore.restoreEdge(edgeId);
       if (edge) {
@@ -526,7 +705,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   // ========== 场景-节点操作 ==========
 
   addNodeToScene: async (sceneId, nodeId, positionX = 0, positionY = 0) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       localStore.addNodeToScene(sceneId, nodeId, positionX, positionY);
       // 如果是当前场景，立即更新 sceneNodes
@@ -552,7 +731,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   removeNodeFromScene: async (sceneId, nodeId) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       localStore.removeNodeFromScene(sceneId, nodeId);
       if (get().currentSceneId === sceneId) {
@@ -570,7 +749,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   updateNodeScenePosition: async (sceneId, nodeId, positionX, positionY) => {
-    if (get().isExample) return;
+    if (get().readOnly) return;
     try {
       localStore.updateNodeScenePosition(sceneId, nodeId, positionX, positionY);
 
@@ -589,8 +768,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   // ========== 布局操作 ==========
 
   saveLayout: async (positions, sceneId) => {
-    // 只读示例：忽略所有布局保存，绝不写入 localStorage
-    if (get().isExample) return;
+    // 只读示例：忽略所有布局保存，绝不写入本地存储
+    if (get().readOnly) return;
 
     const { currentProject } = get();
     if (!currentProject) throw new Error('未选择项目');
@@ -633,11 +812,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   // ========== 导入操作 ==========
 
   importNodes: async (nodesToImport, edgesToImport, targetSceneId, newSceneName) => {
-    if (get().isExample) throw new Error('示例项目为只读');
+    if (get().readOnly) throw readOnlyError(get().isExample);
     const { currentProject } = get();
     if (!currentProject) throw new Error('未选择项目');
 
     try {
+      await get().autoSnapshot('import', '导入前自动保存');
+
       let sceneId = targetSceneId;
 
       // 如果需要创建新场景
@@ -658,6 +839,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
           content: nodeData.content,
           positionX: nodeData.positionX ?? 0,
           positionY: nodeData.positionY ?? 0,
+          baseStatus: nodeData.baseStatus,
         });
         createdNodeIds.push(node.id);
 
@@ -699,9 +881,415 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  // ========== 快照操作 ==========
+
+  fetchSnapshots: async () => {
+    const { currentProject, isExample } = get();
+    if (!currentProject || isExample) return;
+    set({ snapshots: localStore.listSnapshots(currentProject.id) });
+  },
+
+  createSnapshot: async (data) => {
+    if (get().isExample) throw new Error('示例项目为只读');
+    const { currentProject } = get();
+    if (!currentProject) throw new Error('未选择项目');
+
+    try {
+      const snapshot = localStore.createSnapshot(currentProject.id, data);
+      // 自动快照可能清理了旧快照，直接重新读取列表
+      await get().fetchSnapshots();
+      return snapshot;
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  autoSnapshot: async (trigger, title) => {
+    if (get().isExample || !get().currentProject) return;
+    const latest = get().snapshots.find((s) => s.trigger === trigger);
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < AUTO_SNAPSHOT_INTERVAL_MS) {
+      return;
+    }
+    try {
+      await get().createSnapshot({ title, trigger });
+    } catch (err) {
+      // 自动快照失败不应阻断用户的操作
+      console.error('自动快照失败:', err);
+    }
+  },
+
+  deleteSnapshot: async (snapshotId) => {
+    if (get().isExample) return;
+    try {
+      localStore.deleteSnapshot(snapshotId);
+      set((state) => ({
+        snapshots: state.snapshots.filter((s) => s.id !== snapshotId),
+      }));
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  restoreSnapshot: async (snapshotId) => {
+    if (get().readOnly) throw readOnlyError(get().isExample);
+    const { currentProject } = get();
+    if (!currentProject) throw new Error('未选择项目');
+
+    try {
+      // 恢复会覆盖当前内容，先把当前状态存一份，便于反悔
+      await get().createSnapshot({ title: '恢复快照前自动保存', trigger: 'restore' });
+
+      // 丢弃未保存的布局，避免切换场景时把旧坐标写回恢复后的数据
+      set({ pendingLayoutPositions: new Map() });
+      if (!localStore.restoreSnapshot(snapshotId)) {
+        throw new Error('恢复快照失败');
+      }
+
+      await get().fetchProject(currentProject.id);
+      const { currentSceneId, scenes } = get();
+      if (currentSceneId && scenes.some((s) => s.id === currentSceneId)) {
+        await get().fetchScene(currentSceneId);
+      } else {
+        await get().setCurrentScene(null);
+      }
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  branchFromSnapshot: async (snapshotId, title) => {
+    try {
+      const projectId = localStore.branchFromSnapshot(snapshotId, title);
+      if (!projectId) throw new Error('快照不存在');
+      await get().fetchProjects();
+      return projectId;
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  // ========== 评论 ==========
+
+  addComment: async ({ targetType, targetId, body, parentId = null }) => {
+    const { currentProject, canComment } = get();
+    if (!currentProject) throw new Error('未选择项目');
+    if (!canComment) throw new Error(get().isExample ? '示例项目为只读' : '你在该共享项目中没有评论权限');
+    try {
+      const comment = localStore.createComment({
+        projectId: currentProject.id,
+        targetType,
+        targetId,
+        parentId,
+        ...currentAuthor(),
+        body: body.trim(),
+        mentions: extractMentions(body),
+      });
+      set({ comments: localStore.listComments(currentProject.id) });
+      return comment;
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  editComment: async (commentId, body) => {
+    const { currentProject, canComment } = get();
+    if (!currentProject || !canComment) return;
+    try {
+      localStore.updateComment(commentId, { body: body.trim(), mentions: extractMentions(body) });
+      set({ comments: localStore.listComments(currentProject.id) });
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  setCommentResolved: async (commentId, resolved) => {
+    const { currentProject, canComment } = get();
+    if (!currentProject || !canComment) return;
+    try {
+      localStore.updateComment(commentId, {
+        resolved,
+        resolvedBy: resolved ? currentAuthor().authorName : null,
+        resolvedAt: resolved ? new Date().toISOString() : null,
+      });
+      set({ comments: localStore.listComments(currentProject.id) });
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  deleteComment: async (commentId) => {
+    const { currentProject, canComment } = get();
+    if (!currentProject || !canComment) return;
+    try {
+      localStore.deleteComment(commentId);
+      set({ comments: localStore.listComments(currentProject.id) });
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  // ========== AI 对话 ==========
+
+  fetchConversations: async (sceneId) => {
+    const { currentProject, isExample } = get();
+    if (!currentProject || isExample) return [];
+    return localStore.listConversations(currentProject.id, sceneId);
+  },
+
+  saveConversation: async (conversation) => {
+    const { currentProject, isExample } = get();
+    if (!currentProject || isExample) return;
+    try {
+      localStore.saveConversation({
+        ...conversation,
+        projectId: currentProject.id,
+        updatedAt: conversation.createdAt,
+      });
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  deleteConversation: async (conversationId) => {
+    if (get().isExample) return;
+    try {
+      localStore.deleteConversation(conversationId);
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  // ========== AI 图编辑 ==========
+
+  applyToolCalls: async (calls) => {
+    if (get().readOnly) throw readOnlyError(get().isExample);
+    if (!get().currentProject) throw new Error('未选择项目');
+
+    await get().autoSnapshot('ai', 'AI 修改前自动保存');
+    const { currentSceneId } = get();
+    // create_node 的 ref → 新节点 id，供同一批的后续调用引用
+    const refs = new Map<string, string>();
+    const resolve = (id: string) => refs.get(id) ?? id;
+    const findNode = (id: string) => get().nodes.find((n) => n.id === id);
+    const results: GraphToolResult[] = [];
+    let created = 0;
+
+    for (const call of calls) {
+      const args = call.arguments;
+      try {
+        switch (call.name) {
+          case 'create_node': {
+            // 新节点排在画布中部，按创建顺序错开
+            const positionX = 1800 + (created % 4) * 220;
+            const positionY = 1500 + Math.floor(created / 4) * 160;
+            created++;
+            const node = await get().createNode({
+              type: args.type as NodeType,
+              title: args.title,
+              content: args.content,
+              positionX,
+              positionY,
+            });
+            if (args.baseStatus) await get().updateNode(node.id, { baseStatus: args.baseStatus });
+            if (currentSceneId) await get().addNodeToScene(currentSceneId, node.id, positionX, positionY);
+            if (args.ref) refs.set(args.ref, node.id);
+            break;
+          }
+          case 'update_node': {
+            const nodeId = resolve(args.nodeId);
+            if (!findNode(nodeId)) throw new Error('节点不存在');
+            const patch: Record<string, unknown> = {};
+            for (const field of ['title', 'content', 'baseStatus', 'confidence', 'weight']) {
+              if (args[field] !== undefined) patch[field] = args[field];
+            }
+            await get().updateNode(nodeId, patch as Partial<SceneGraphNode>, args.reason);
+            break;
+          }
+          case 'delete_node': {
+            const nodeId = resolve(args.nodeId);
+            if (!findNode(nodeId)) throw new Error('节点不存在');
+            await get().deleteNode(nodeId);
+            break;
+          }
+          case 'create_edge': {
+            const sourceNodeId = resolve(args.sourceNodeId);
+            const targetNodeId = resolve(args.targetNodeId);
+            if (!findNode(sourceNodeId) || !findNode(targetNodeId)) throw new Error('端点节点不存在');
+            await get().createEdge({
+              sourceNodeId,
+              targetNodeId,
+              type: args.type as EdgeType,
+              description: args.description,
+            });
+            break;
+          }
+          case 'add_node_to_scene': {
+            const node = findNode(resolve(args.nodeId));
+            if (!node) throw new Error('节点不存在');
+            const sceneId = args.sceneId ?? currentSceneId;
+            if (!sceneId || !get().scenes.some((s) => s.id === sceneId)) throw new Error('场景不存在');
+            await get().addNodeToScene(sceneId, node.id, node.positionX, node.positionY);
+            break;
+          }
+          case 'run_propagation': {
+            const { nodes, edges } = get();
+            const result = propagateStates(nodes, edges);
+            for (const update of result.updatedBaseStatuses) {
+              await get().updateNode(update.nodeId, { baseStatus: update.newStatus }, update.reason);
+            }
+            break;
+          }
+          default:
+            throw new Error(`未知工具：${call.name}`);
+        }
+        results.push({ id: call.id });
+      } catch (err: any) {
+        results.push({ id: call.id, error: err.message });
+      }
+    }
+
+    return results;
+  },
+
+  // ========== 差异合并 ==========
+
+  applyDiff: async (diff, acceptedKeys) => {
+    if (get().readOnly) throw readOnlyError(get().isExample);
+    if (!get().currentProject) throw new Error('未选择项目');
+
+    try {
+      await get().autoSnapshot('import', '合并前自动保存');
+      const { currentSceneId } = get();
+      let nodeCount = 0;
+      let edgeCount = 0;
+
+      // 对比方节点 id → 当前项目节点 id（匹配上的节点与新建的节点）
+      const idMap = new Map(diff.matches);
+      const removedIds = new Set<string>();
+
+      for (const d of diff.nodes) {
+        if (!acceptedKeys.has(d.key)) continue;
+
+        if (d.kind === 'added' && d.after) {
+          const n = d.after;
+          const node = await get().createNode({
+            type: n.type as NodeType,
+            title: n.title,
+            content: n.content,
+            positionX: n.positionX,
+            positionY: n.positionY,
+          });
+          await get().updateNode(node.id, {
+            confidence: n.confidence ?? node.confidence,
+            weight: n.weight ?? node.weight,
+            baseStatus: isBaseStatusForType(node.type, n.baseStatus) ? n.baseStatus : node.baseStatus,
+          });
+          if (currentSceneId) {
+            await get().addNodeToScene(currentSceneId, node.id, n.positionX, n.positionY);
+          }
+          idMap.set(n.id, node.id);
+        } else if (d.kind === 'changed' && d.before) {
+          const patch = Object.fromEntries(d.changes.map((c) => [c.field, c.after]));
+          await get().updateNode(d.before.id, patch as Partial<SceneGraphNode>);
+        } else if (d.kind === 'removed' && d.before) {
+          await get().deleteNode(d.before.id);
+          removedIds.add(d.before.id);
+        }
+        nodeCount++;
+      }
+
+      for (const d of diff.edges) {
+        if (!acceptedKeys.has(d.key)) continue;
+
+        if (d.kind === 'added' && d.after) {
+          // 两端必须都在当前项目中：已匹配的节点，或本次一并接受的新增节点
+          const sourceNodeId = idMap.get(d.after.sourceNodeId);
+          const targetNodeId = idMap.get(d.after.targetNodeId);
+          const { nodes } = get();
+          if (!sourceNodeId || !targetNodeId ||
+              !nodes.some((n) => n.id === sourceNodeId) || !nodes.some((n) => n.id === targetNodeId)) {
+            continue;
+          }
+          const edge = await get().createEdge({
+            sourceNodeId,
+            targetNodeId,
+            type: d.after.type as EdgeType,
+            description: d.after.description,
+          });
+          if (d.after.strength !== undefined) {
+            await get().updateEdge(edge.id, { strength: d.after.strength });
+          }
+        } else if (d.kind === 'changed' && d.before?.id) {
+          const patch = Object.fromEntries(d.changes.map((c) => [c.field, c.after]));
+          await get().updateEdge(d.before.id, patch as Partial<GraphEdge>);
+        } else if (d.kind === 'removed' && d.before?.id) {
+          // 删除节点时相连的关系已被一并删除
+          if (removedIds.has(d.before.sourceNodeId) || removedIds.has(d.before.targetNodeId)) continue;
+          await get().deleteEdge(d.before.id);
+        }
+        edgeCount++;
+      }
+
+      return { nodes: nodeCount, edges: edgeCount };
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  // ========== 跨标签页同步 ==========
+
+  syncRemoteChange: (change) => {
+    const { currentProject, currentSceneId, isExample } = get();
+    if (change.projectListChanged) {
+      set({ projects: localStore.listProjects() });
+    }
+    if (change.templatesChanged) {
+      get().fetchTemplates();
+    }
+    if (!currentProject || isExample || !change.projectIds.includes(currentProject.id)) return;
+
+    const details = localStore.getProjectDetails(currentProject.id);
+    if (!details) {
+      set({ error: '当前项目已在另一个标签页中被删除' });
+      return;
+    }
+    const { project, scenes, nodes, edges } = details;
+    // 当前场景被删除时回到概览
+    const sceneId = currentSceneId && scenes.some((s) => s.id === currentSceneId) ? currentSceneId : null;
+    const sceneDetails = sceneId ? localStore.getSceneDetails(sceneId) : { nodes, edges };
+    set({
+      currentProject: project,
+      scenes,
+      nodes,
+      edges,
+      currentSceneId: sceneId,
+      sceneNodes: sceneDetails.nodes,
+      sceneEdges: sceneDetails.edges,
+      snapshots: localStore.listSnapshots(project.id),
+      comments: localStore.listComments(project.id),
+      readOnly: !canEditProject(project),
+      canComment: canCommentOn(project),
+      ...(canEditProject(project) ? {} : { editorMode: 'view' as const }),
+      ...(change.conflicts.length > 0 && {
+        error: `「${change.conflicts.join('」「')}」同时在另一个标签页中被修改，已以最后保存的版本为准`,
+      }),
+    });
+  },
+
   // ========== UI 操作 ==========
 
   setViewMode: (mode) => set({ viewMode: mode }),
-  setEditorMode: (mode) => set({ editorMode: mode }),
+  setEditorMode: (mode) => set({ editorMode: get().readOnly ? 'view' : mode }),
   clearError: () => set({ error: null }),
 }));
+
+// 其他标签页写入本地存储后，同步到本页的状态
+localStore.subscribeRemoteChanges((change) => useProjectStore.getState().syncRemoteChange(change));
+
+// 协作服务器拒绝本页的实时修改时提示
+subscribeRealtimeErrors((message) => useProjectStore.setState({ error: `实时协作：${message}` }));
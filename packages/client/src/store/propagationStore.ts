@@ -1,34 +1,32 @@
 /**
  * 状态传播状态管理
  *
- * 管理节点的逻辑状态和传播计算结果
+ * 管理节点的计算状态（computedStatus）和传播结果
  */
 
 import { create } from 'zustand';
-import { GraphNode, GraphEdge } from '../types';
+import { GraphNode, GraphEdge, ComputedStatus } from '../types';
 import {
-  PropagationEngine,
+  propagateStates,
   PropagationResult,
-  PropagationEvent,
-  NodeState,
-  LogicState,
+  BaseStatusUpdate,
 } from '../utils/propagation';
 
 interface PropagationState {
-  // 传播引擎实例
-  engine: PropagationEngine;
-
   // 当前传播结果
-  result: PropagationResult | null;
+  result: PropagationResult<GraphNode> | null;
 
-  // 节点状态映射
-  nodeStates: Map<string, NodeState>;
+  // 节点计算状态映射
+  computedStatuses: Map<string, ComputedStatus>;
 
-  // 传播事件历史
-  events: PropagationEvent[];
+  // 基础状态自动更新记录
+  updates: BaseStatusUpdate[];
 
   // 检测到的冲突
-  conflicts: Array<{ nodeIds: string[]; reason: string }>;
+  conflicts: Array<{ nodeA: string; nodeB: string }>;
+
+  // 检测到的循环依赖
+  cyclicDependencies: string[][];
 
   // 是否自动传播
   autoPropagate: boolean;
@@ -38,27 +36,12 @@ interface PropagationState {
   /**
    * 运行完整的状态传播
    */
-  runPropagation: (nodes: GraphNode[], edges: GraphEdge[]) => PropagationResult;
-
-  /**
-   * 更新单个节点的逻辑状态并传播
-   */
-  updateNodeLogicState: (
-    nodeId: string,
-    logicState: LogicState,
-    nodes: GraphNode[],
-    edges: GraphEdge[]
-  ) => PropagationResult;
-
-  /**
-   * 获取节点的逻辑状态
-   */
-  getNodeLogicState: (nodeId: string) => LogicState;
+  runPropagation: (nodes: GraphNode[], edges: GraphEdge[]) => PropagationResult<GraphNode>;
 
   /**
-   * 获取节点的完整状态
+   * 获取节点的计算状态
    */
-  getNodeState: (nodeId: string) => NodeState | undefined;
+  getComputedStatus: (nodeId: string) => ComputedStatus | undefined;
 
   /**
    * 切换自动传播
@@ -69,62 +52,32 @@ interface PropagationState {
    * 清除所有状态
    */
   clearStates: () => void;
-
-  /**
-   * 手动设置节点状态（不触发传播）
-   */
-  setNodeState: (nodeId: string, state: Partial<NodeState>) => void;
 }
 
 export const usePropagationStore = create<PropagationState>((set, get) => ({
-  engine: new PropagationEngine(),
   result: null,
-  nodeStates: new Map(),
-  events: [],
+  computedStatuses: new Map(),
+  updates: [],
   conflicts: [],
+  cyclicDependencies: [],
   autoPropagate: true,
 
   runPropagation: (nodes, edges) => {
-    const { engine } = get();
-    const result = engine.run(nodes, edges);
+    const result = propagateStates(nodes, edges);
 
     set({
       result,
-      nodeStates: result.states,
-      events: result.events,
+      computedStatuses: new Map(result.nodes.map(n => [n.id, n.computedStatus])),
+      updates: result.updatedBaseStatuses,
       conflicts: result.conflicts,
+      cyclicDependencies: result.cyclicDependencies,
     });
 
     return result;
   },
 
-  updateNodeLogicState: (nodeId, logicState, nodes, edges) => {
-    const { engine, nodeStates } = get();
-
-    // 如果引擎还没有状态，先运行一次初始传播
-    if (nodeStates.size === 0) {
-      engine.run(nodes, edges);
-    }
-
-    const result = engine.updateNode(nodeId, logicState, nodes, edges);
-
-    set({
-      result,
-      nodeStates: result.states,
-      events: [...get().events, ...result.events],
-      conflicts: result.conflicts,
-    });
-
-    return result;
-  },
-
-  getNodeLogicState: (nodeId) => {
-    const state = get().nodeStates.get(nodeId);
-    return state?.logicState ?? LogicState.UNKNOWN;
-  },
-
-  getNodeState: (nodeId) => {
-    return get().nodeStates.get(nodeId);
+  getComputedStatus: (nodeId) => {
+    return get().computedStatuses.get(nodeId);
   },
 
   setAutoPropagate: (enabled) => {
@@ -132,24 +85,12 @@ export const usePropagationStore = create<PropagationState>((set, get) => ({
   },
 
   clearStates: () => {
-    const { engine } = get();
-    engine.clear();
     set({
       result: null,
-      nodeStates: new Map(),
-      events: [],
+      computedStatuses: new Map(),
+      updates: [],
       conflicts: [],
+      cyclicDependencies: [],
     });
   },
-
-  setNodeState: (nodeId, state) => {
-    const { nodeStates } = get();
-    const currentState = nodeStates.get(nodeId);
-
-    if (currentState) {
-      const newStates = new Map(nodeStates);
-      newStates.set(nodeId, { ...currentState, ...state });
-      set({ nodeStates: newStates });
-    }
-  },
 }));
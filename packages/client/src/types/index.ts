@@ -3,99 +3,34 @@
  * v2.2 - baseStatus 与 computedStatus 分离架构
  */
 
-// ============ 节点类型 ============
-export enum NodeType {
-  GOAL = 'goal',              // 目标：期望达成的终态
-  ACTION = 'action',          // 行动：可执行的操作（原"决策"）
-  FACT = 'fact',              // 事实：已确认为真的命题
-  ASSUMPTION = 'assumption',  // 假设：未经验证、可能为真的命题
-  CONSTRAINT = 'constraint',  // 约束：必须满足的条件（原"推理"拆分）
-  CONCLUSION = 'conclusion',  // 结论：从其他节点推导出的命题（原"推理"拆分）
-
-  // 废弃类型（仅用于数据迁移兼容）
-  /** @deprecated 使用 ACTION 替代 */
-  DECISION = 'decision',
-  /** @deprecated 使用 CONSTRAINT 或 CONCLUSION 替代 */
-  INFERENCE = 'inference',
-}
-
-// ============ 基础状态枚举（v2.2） ============
-
-/** 目标节点状态 */
-export enum GoalStatus {
-  ACHIEVED = 'achieved',         // 已达成
-  NOT_ACHIEVED = 'notAchieved',  // 未达成（默认）
-}
-
-/** 行动节点状态 */
-export enum ActionStatus {
-  SUCCESS = 'success',       // 成功
-  FAILED = 'failed',         // 失败
-  IN_PROGRESS = 'inProgress', // 进行中
-  PENDING = 'pending',       // 待执行（默认）
-}
-
-/** 事实节点状态 */
-export enum FactStatus {
-  CONFIRMED = 'confirmed',   // 确认（默认）
-  DENIED = 'denied',         // 否定
-  UNCERTAIN = 'uncertain',   // 存疑
-}
-
-/** 假设节点状态 */
-export enum AssumptionStatus {
-  POSITIVE = 'positive',     // 假设为真
-  NEGATIVE = 'negative',     // 假设为假
-  UNCERTAIN = 'uncertain',   // 不确定（默认）
-}
-
-/** 约束节点状态 */
-export enum ConstraintStatus {
-  SATISFIED = 'satisfied',     // 已满足
-  UNSATISFIED = 'unsatisfied', // 未满足（默认）
-}
-
-/** 结论节点状态 */
-export enum ConclusionStatus {
-  ESTABLISHED = 'established',       // 成立
-  NOT_ESTABLISHED = 'notEstablished', // 不成立
-  PENDING = 'pending',               // 待定（默认）
-}
-
-/** 所有基础状态的联合类型 */
-export type BaseStatus =
-  | GoalStatus
-  | ActionStatus
-  | FactStatus
-  | AssumptionStatus
-  | ConstraintStatus
-  | ConclusionStatus;
-
-/** 计算状态接口 */
-export interface ComputedStatus {
-  blocked: boolean;           // 是否被阻塞
-  blockedBy: string[];        // 阻塞来源（节点ID列表）
-  threatened: boolean;        // 是否受威胁
-  feasibilityScore: number;   // 可行性得分
-  conflicted: boolean;        // 是否存在矛盾
-  conflictWith: string[];     // 矛盾对象（节点ID列表）
-  executable: boolean;        // 是否可执行（仅行动节点有效）
-  achievable: boolean;        // 是否可达成（仅目标节点有效）
-  statusSource?: string;      // 状态来源说明
-}
-
-/** 节点类型到默认基础状态的映射 */
-export const DEFAULT_BASE_STATUS: Record<NodeType, BaseStatus> = {
-  [NodeType.GOAL]: GoalStatus.NOT_ACHIEVED,
-  [NodeType.ACTION]: ActionStatus.PENDING,
-  [NodeType.FACT]: FactStatus.CONFIRMED,
-  [NodeType.ASSUMPTION]: AssumptionStatus.UNCERTAIN,
-  [NodeType.CONSTRAINT]: ConstraintStatus.UNSATISFIED,
-  [NodeType.CONCLUSION]: ConclusionStatus.PENDING,
-  // 废弃类型
-  [NodeType.DECISION]: ActionStatus.PENDING,
-  [NodeType.INFERENCE]: ConclusionStatus.PENDING,
-};
+import {
+  NodeType,
+  GoalStatus,
+  ActionStatus,
+  FactStatus,
+  AssumptionStatus,
+  ConstraintStatus,
+  ConclusionStatus,
+  EdgeType,
+} from '@solvechain/shared';
+import type { BaseStatus, ComputedStatus, EvidenceItem, ProjectRole } from '@solvechain/shared';
+
+// ============ 共享领域类型 ============
+// 节点/关系类型、基础状态与计算状态统一定义在 @solvechain/shared（前后端共用），
+// 这里转出，组件仍从 '../types' 导入。
+
+export {
+  NodeType,
+  GoalStatus,
+  ActionStatus,
+  FactStatus,
+  AssumptionStatus,
+  ConstraintStatus,
+  ConclusionStatus,
+  DEFAULT_BASE_STATUS,
+  EdgeType,
+} from '@solvechain/shared';
+export type { BaseStatus, ComputedStatus, EvidenceItem, EvidenceStance, GraphComment, CommentTargetType } from '@solvechain/shared';
 
 /** 获取节点类型对应的状态选项 */
 export function getStatusOptionsForType(type: NodeType): { value: string; label: string }[] {
@@ -142,24 +77,9 @@ export function getStatusOptionsForType(type: NodeType): { value: string; label:
   }
 }
 
-// ============ 关系类型 ============
-export enum EdgeType {
-  DEPENDS = 'depends',        // 依赖：B要成立，必须先有A（A←B）
-  SUPPORTS = 'supports',      // 促成：A成立会帮助B成立（A→B）
-  ACHIEVES = 'achieves',      // 实现：行动A可以满足约束或目标B（A⊢B）
-  HINDERS = 'hinders',        // 阻碍：A成立会妨碍B成立（A⊣B）
-  CAUSES = 'causes',          // 导致：A发生会引起B发生（A⇒B）
-  CONFLICTS = 'conflicts',    // 矛盾：A和B不能同时为真（A⊥B）
-
-  // 废弃类型（仅用于数据迁移兼容）
-  /** @deprecated 使用 DEPENDS 替代（注意方向反转） */
-  PREREQUISITE = 'prerequisite',
-  /** @deprecated 使用 HINDERS 替代 */
-  OPPOSES = 'opposes',
-  /** @deprecated 使用 CAUSES 替代 */
-  LEADS_TO = 'leads_to',
-  /** @deprecated 已删除，信息量太低 */
-  RELATED = 'related',
+/** 是否为该节点类型可用的基础状态（用于收窄外部数据中的状态字符串） */
+export function isBaseStatusForType(type: NodeType, status: unknown): status is BaseStatus {
+  return getStatusOptionsForType(type).some((o) => o.value === status);
 }
 
 export enum NodeStatus {
@@ -210,6 +130,7 @@ export interface GraphNode {
   baseStatus?: BaseStatus;      // 用户设置的基础状态
   autoUpdate?: boolean;         // 是否开启自动状态更新
   computedStatus?: ComputedStatus;  // 系统计算的状态
+  evidence?: EvidenceItem[];    // 结构化证据（仅事实/假设节点）
 }
 
 export interface GraphEdge {
@@ -443,6 +364,8 @@ export interface Project {
   status: GraphStatus;
   category?: string;
   tags: string[];
+  templateId?: string;      // 从模板创建时记录来源模板，用于显示引导问题
+  role?: ProjectRole;       // 从服务器同步来的项目中当前账户的角色；本地项目缺省，视为所有者
   createdAt: string;
   updatedAt: string;
 }
@@ -494,6 +417,86 @@ export interface SceneWithNodes {
   edges: GraphEdge[];
 }
 
+// ============ 项目快照（版本历史） ============
+
+// 快照触发来源：手动 / AI 修改前 / 导入前 / 恢复快照前
+export type SnapshotTrigger = 'manual' | 'ai' | 'import' | 'restore';
+
+// 快照内容：某一时刻整个项目的完整数据（不含已软删除的节点和边）
+export interface ProjectSnapshotData {
+  project: Project;
+  scenes: Scene[];
+  nodes: SceneGraphNode[];
+  edges: ProjectGraphEdge[];
+  sceneNodes: SceneNode[];
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  title: string;
+  description?: string;
+  trigger: SnapshotTrigger;
+  nodeCount: number;
+  edgeCount: number;
+  data: ProjectSnapshotData;
+  createdAt: string;
+}
+
+// ============ 节点变更历史 ============
+
+// 一条字段变更记录，对应后端 node_history 表；每次 updateNode 按字段各记一条
+export interface NodeHistoryEntry {
+  id: string;
+  nodeId: string;
+  projectId: string;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  reason?: string;          // 用户填写的「为什么改」
+  createdAt: string;
+}
+
+// ============ 项目模板 ============
+
+// 模板内容：只有结构（节点、关系、场景），不含状态、置信度和证据，
+// 从模板创建项目时状态统一取 DEFAULT_BASE_STATUS
+export interface TemplateData {
+  scenes: Array<{
+    name: string;
+    description?: string;
+    color: string;
+    members: Array<{ nodeId: string; positionX: number; positionY: number }>;
+  }>;
+  nodes: Array<{
+    id: string;
+    type: NodeType;
+    title: string;
+    content?: string;
+    weight?: number;
+    positionX: number;
+    positionY: number;
+  }>;
+  edges: Array<{
+    sourceNodeId: string;
+    targetNodeId: string;
+    type: EdgeType;
+    strength?: number;
+    description?: string;
+  }>;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  category: string;
+  guidingQuestions: string[];   // 填写模板时在 AI 面板中显示的引导问题
+  data: TemplateData;
+  builtIn?: boolean;            // 内置模板（不存储、不可删除）
+  createdAt: string;
+}
+
 // 场景颜色预设
 export const SCENE_COLORS = [
   '#6366f1', // 紫色 (默认)
@@ -640,3 +643,54 @@ export type LLMStructuredResult =
   | { type: 'next_step'; data: NextStepResult }
   | { type: 'logic_check'; data: LogicCheckResult }
   | { type: 'completion'; data: CompletionResult };
+
+// ============ AI 图编辑工具 ============
+
+export type GraphToolName =
+  | 'create_node'
+  | 'update_node'
+  | 'delete_node'
+  | 'create_edge'
+  | 'add_node_to_scene'
+  | 'run_propagation';
+
+// 助手发起的一次工具调用；参数已从 JSON 解析，含义见 services/llm/tools.ts 的工具定义
+export interface GraphToolCall {
+  id: string;
+  name: GraphToolName;
+  arguments: Record<string, any>;
+}
+
+// 应用变更集后每个调用的结果
+export interface GraphToolResult {
+  id: string;
+  error?: string;
+}
+
+// ============ AI 对话记录 ============
+
+// 卡片中建议操作的处理结果：已应用 / 已忽略
+export type AIActionOutcome = 'applied' | 'dismissed';
+
+export interface AIConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  type?: LLMStructuredResult['type'] | 'free';
+  structuredData?: LLMStructuredResult;
+  // 卡片操作的处理结果，key 由卡片位置生成（如 risk:0:1、suggestion:<id>、tool:<id>）
+  actionOutcomes?: Record<string, AIActionOutcome>;
+  toolCalls?: GraphToolCall[]; // 助手提出的图修改（变更集），审阅后才写入
+  createdAt: string;
+}
+
+// 一段对话（线程），按场景保存；sceneId 为 null 表示概览
+export interface AIConversation {
+  id: string;
+  projectId: string;
+  sceneId: string | null;
+  title: string;
+  messages: AIConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
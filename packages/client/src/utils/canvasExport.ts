@@ -0,0 +1,176 @@
+/**
+ * 画布导出（SVG / PNG）
+ *
+ * 直接克隆 FocusView 正在显示的 SVG，因此当前主题的颜色、滤镜和箭头都会保留。
+ * 克隆后去掉画布平移缩放和网格，按内容边界裁剪，并补上画布上不显示的关系标签。
+ * 节点和关系的 <g> 上带 data-node-id / data-edge-id，用于只导出其中一部分。
+ */
+
+import { GraphEdge, EDGE_TYPE_CONFIG, EdgeType } from '../types';
+
+export type CanvasExportFormat = 'svg' | 'png';
+
+export interface CanvasExportOptions {
+  padding: number;          // 内容四周留白（画布单位）
+  scale: number;            // 输出倍率：SVG 的宽高 / PNG 的像素密度
+  background: boolean;      // 是否保留画布背景色（否则透明）
+  nodeIds?: Set<string>;    // 只导出这些节点及两端都在其中的关系；为空时导出全部
+}
+
+export interface CanvasExportContext {
+  positions: Map<string, { x: number; y: number }>;  // 节点中心坐标
+  edges: GraphEdge[];
+  edgeColor: (type: string) => string;                // 主题下的关系颜色
+  backgroundColor: string;
+  fontFamily: string;
+}
+
+// 节点占用的半宽 / 半高（含高亮外框）
+const NODE_HALF_WIDTH = 84;
+const NODE_HALF_HEIGHT = 39;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * 取节点周围 depth 跳以内的邻居（不区分关系方向），包含节点本身
+ */
+export function getNeighborhood(nodeId: string, edges: GraphEdge[], depth: number): Set<string> {
+  const result = new Set([nodeId]);
+  let frontier = [nodeId];
+  for (let i = 0; i < depth; i++) {
+    const next: string[] = [];
+    edges.forEach(edge => {
+      [[edge.sourceNodeId, edge.targetNodeId], [edge.targetNodeId, edge.sourceNodeId]].forEach(([from, to]) => {
+        if (frontier.includes(from) && !result.has(to)) {
+          result.add(to);
+          next.push(to);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return result;
+}
+
+/**
+ * 生成导出用的 SVG 文本，同时返回输出尺寸（像素）
+ */
+export function buildCanvasSvg(
+  source: SVGSVGElement,
+  context: CanvasExportContext,
+  options: CanvasExportOptions
+): { svg: string; width: number; height: number } {
+  const included = (id: string) => !options.nodeIds || options.nodeIds.has(id);
+  const ids = Array.from(context.positions.keys()).filter(included);
+  if (ids.length === 0) {
+    throw new Error('没有可导出的节点');
+  }
+
+  // 内容边界
+  const points = ids.map(id => context.positions.get(id)!);
+  const minX = Math.min(...points.map(p => p.x)) - NODE_HALF_WIDTH - options.padding;
+  const minY = Math.min(...points.map(p => p.y)) - NODE_HALF_HEIGHT - options.padding;
+  const viewWidth = Math.max(...points.map(p => p.x)) + NODE_HALF_WIDTH + options.padding - minX;
+  const viewHeight = Math.max(...points.map(p => p.y)) + NODE_HALF_HEIGHT + options.padding - minY;
+  const width = Math.round(viewWidth * options.scale);
+  const height = Math.round(viewHeight * options.scale);
+
+  const svg = source.cloneNode(true) as SVGSVGElement;
+  svg.removeAttribute('style');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `${minX} ${minY} ${viewWidth} ${viewHeight}`);
+  svg.setAttribute('font-family', context.fontFamily);
+
+  // 背景：保留底色并裁到内容区域，去掉网格
+  svg.querySelectorAll('[data-export="grid"]').forEach(el => el.remove());
+  svg.querySelectorAll('[data-export="background"]').forEach(el => {
+    if (!options.background) {
+      el.remove();
+      return;
+    }
+    el.setAttribute('x', String(minX));
+    el.setAttribute('y', String(minY));
+    el.setAttribute('width', String(viewWidth));
+    el.setAttribute('height', String(viewHeight));
+    el.setAttribute('stroke', 'none');
+    el.setAttribute('rx', '0');
+  });
+  svg.querySelectorAll('[data-export="transient"]').forEach(el => el.remove());
+
+  // 按子集过滤；导出时不保留聚焦造成的淡化
+  const keptEdges = context.edges.filter(e => included(e.sourceNodeId) && included(e.targetNodeId));
+  const keptEdgeIds = new Set(keptEdges.map(e => e.id));
+  svg.querySelectorAll('[data-node-id]').forEach(el => {
+    if (!included(el.getAttribute('data-node-id')!)) el.remove();
+    else el.setAttribute('opacity', '1');
+  });
+  svg.querySelectorAll('[data-edge-id]').forEach(el => {
+    if (!keptEdgeIds.has(el.getAttribute('data-edge-id')!)) el.remove();
+    else el.setAttribute('opacity', '1');
+  });
+
+  // 关系标签放在两端节点中心连线的中点，插在节点层之前，避免盖住节点
+  const labels = source.ownerDocument.createElementNS(SVG_NS, 'g');
+  keptEdges.forEach(edge => {
+    const from = context.positions.get(edge.sourceNodeId);
+    const to = context.positions.get(edge.targetNodeId);
+    const config = EDGE_TYPE_CONFIG[edge.type as EdgeType];
+    if (!from || !to || !config) return;
+    const text = source.ownerDocument.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String((from.x + to.x) / 2));
+    text.setAttribute('y', String((from.y + to.y) / 2 - 6));
+    text.setAttribute('text-anchor', 'middle');
+    text.setAttribute('font-size', '11');
+    text.setAttribute('fill', context.edgeColor(edge.type));
+    text.setAttribute('stroke', context.backgroundColor);
+    text.setAttribute('stroke-width', '4');
+    text.setAttribute('paint-order', 'stroke');
+    text.textContent = edge.description ? `${config.label}：${edge.description}` : config.label;
+    labels.appendChild(text);
+  });
+  const nodeLayer = svg.querySelector('[data-export="nodes"]');
+  svg.insertBefore(labels, nodeLayer);
+
+  return { svg: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+/**
+ * 把 SVG 文本绘制到 canvas 上转为 PNG
+ */
+export function svgToPngBlob(svg: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('浏览器不支持 canvas'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG 生成失败'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG 渲染失败'));
+    };
+    image.src = url;
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
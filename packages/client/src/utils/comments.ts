@@ -0,0 +1,68 @@
+/**
+ * 评论讨论串
+ *
+ * 评论按 parentId 组成讨论串（第一条 + 回复），解决状态记在第一条上。
+ * 正文中的 @名字 为提及，保存时解析出来写入 mentions，显示时高亮。
+ */
+
+import type { ProjectRole } from '@solvechain/shared';
+import type { CommentTargetType, GraphComment } from '../types';
+
+// @ 后的名字到空白或标点为止
+const MENTION_PATTERN = /@([^\s@,，.。!！?？:：;；、()（）]+)/g;
+
+export interface CommentThread {
+  root: GraphComment;
+  replies: GraphComment[]; // 按时间先后
+}
+
+/** 正文中提到的名字（去重，保持出现顺序） */
+export function extractMentions(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), (m) => m[1])));
+}
+
+/** 把正文切成普通文本与提及，用于高亮显示 */
+export function splitMentions(body: string): Array<{ text: string; mention: boolean }> {
+  const parts: Array<{ text: string; mention: boolean }> = [];
+  let last = 0;
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    if (match.index! > last) parts.push({ text: body.slice(last, match.index), mention: false });
+    parts.push({ text: match[0], mention: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+  return parts;
+}
+
+/** 某个节点/关系上的讨论串：未解决的在前，其余按开始时间先后 */
+export function groupThreads(
+  comments: GraphComment[],
+  targetType: CommentTargetType,
+  targetId: string
+): CommentThread[] {
+  const own = comments.filter((c) => c.targetType === targetType && c.targetId === targetId);
+  return own
+    .filter((c) => !c.parentId)
+    .map((root) => ({
+      root,
+      replies: own.filter((c) => c.parentId === root.id).sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    }))
+    .sort((a, b) => Number(a.root.resolved) - Number(b.root.resolved) || a.root.createdAt.localeCompare(b.root.createdAt));
+}
+
+/** 每个节点/关系的评论数，以及其中未解决的讨论串数 */
+export function countComments(comments: GraphComment[]): Map<string, { total: number; open: number }> {
+  const counts = new Map<string, { total: number; open: number }>();
+  comments.forEach((c) => {
+    const count = counts.get(c.targetId) ?? { total: 0, open: 0 };
+    count.total += 1;
+    if (!c.parentId && !c.resolved) count.open += 1;
+    counts.set(c.targetId, count);
+  });
+  return counts;
+}
+
+/** 能否修改、删除评论：自己写的（未登录时本地写的评论没有作者 ID），项目所有者可以处理任何评论 */
+export function canModifyComment(comment: GraphComment, userId: string, role: ProjectRole): boolean {
+  return role === 'owner' || !comment.authorId || comment.authorId === userId;
+}
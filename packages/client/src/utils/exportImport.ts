@@ -2,13 +2,25 @@
  * 场景/项目导出导入工具
  */
 
-import { SceneGraphNode, GraphEdge, Scene, NodeType, EdgeType, NODE_TYPE_CONFIG, EDGE_TYPE_CONFIG } from '../types';
+import {
+  SceneGraphNode,
+  GraphEdge,
+  Scene,
+  NodeType,
+  EdgeType,
+  NODE_TYPE_CONFIG,
+  EDGE_TYPE_CONFIG,
+  EvidenceItem,
+  GraphComment,
+  getStatusOptionsForType,
+} from '../types';
 
 // 导出格式版本
 // 2.2: 支持 baseStatus/autoUpdate
 // 2.3: 项目导出改为逐场景带场景内坐标的成员列表（scenes[].nodes），
 //      并保留 logicState/customWeight；支持多场景/跨场景共享/空场景的完整往返
-const EXPORT_VERSION = '2.3';
+// 2.4: 项目导出带上关系 ID（edges[].id）与节点/关系上的评论（comments）
+const EXPORT_VERSION = '2.4';
 
 // 导出数据类型
 export interface ExportedScene {
@@ -50,6 +62,8 @@ export interface ExportedProject {
   }>;
   nodes: ExportedNode[];
   edges: ExportedEdge[];
+  // v2.4：评论（旧版导出没有该字段）
+  comments?: ExportedComment[];
 }
 
 export interface ExportedNode {
@@ -67,9 +81,12 @@ export interface ExportedNode {
   // v2.3 新增字段：保留逻辑状态 / 自定义权重
   logicState?: string | null;
   customWeight?: number | null;
+  // 结构化证据（旧版导出没有该字段）
+  evidence?: EvidenceItem[];
 }
 
 export interface ExportedEdge {
+  id?: string; // v2.4 项目导出：原始 ID，用于导入时重建关系上的评论
   sourceNodeId: string;
   targetNodeId: string;
   type: string;
@@ -77,6 +94,20 @@ export interface ExportedEdge {
   description?: string;
 }
 
+export interface ExportedComment {
+  id: string;
+  targetType: 'node' | 'edge';
+  targetId: string; // 引用 nodes[] 或 edges[] 里的原始 ID
+  parentId: string | null; // 回复所属讨论串第一条的原始 ID
+  authorName: string;
+  body: string;
+  mentions: string[];
+  resolved: boolean;
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+}
+
 // 导入冲突处理选项
 export type ConflictResolution =
   | 'skip'      // 跳过已存在的
@@ -132,6 +163,7 @@ export function exportScene(
       // v2.2 新增字段
       baseStatus: node.baseStatus,
       autoUpdate: node.autoUpdate,
+      evidence: node.evidence,
     })),
     edges: edges.map(edge => ({
       sourceNodeId: edge.sourceNodeId,
@@ -150,13 +182,14 @@ type ExportProjectNode = SceneGraphNode & {
 };
 
 /**
- * 导出整个项目为 JSON（v2.3）
+ * 导出整个项目为 JSON（v2.4）
  *
  * @param scenes        该项目的全部场景（含空场景），建议按 sortOrder 排好序传入
  * @param nodes         该项目全部活跃节点的本体（含概览坐标）
  * @param edges         该项目全部活跃边
  * @param sceneMembers  sceneId -> 该场景成员（含场景内坐标）。空场景给空数组。
  *                      同一 nodeId 可出现在多个场景的成员里（跨场景共享）。
+ * @param comments      该项目的评论；挂在已删除节点/关系上的会被跳过
  */
 export function exportProject(
   projectTitle: string,
@@ -164,8 +197,10 @@ export function exportProject(
   scenes: Scene[],
   nodes: ExportProjectNode[],
   edges: GraphEdge[],
-  sceneMembers: Map<string, ExportedSceneMember[]>
+  sceneMembers: Map<string, ExportedSceneMember[]>,
+  comments: GraphComment[] = []
 ): ExportedProject {
+  const targetIds = new Set([...nodes.map(n => n.id), ...edges.map(e => e.id)]);
   return {
     version: EXPORT_VERSION,
     exportType: 'project',
@@ -196,14 +231,31 @@ export function exportProject(
       // v2.3 新增字段
       logicState: node.logicState ?? null,
       customWeight: node.customWeight ?? null,
+      evidence: node.evidence,
     })),
     edges: edges.map(edge => ({
+      id: edge.id,
       sourceNodeId: edge.sourceNodeId,
       targetNodeId: edge.targetNodeId,
       type: edge.type,
       strength: edge.strength,
       description: edge.description,
     })),
+    comments: comments
+      .filter(c => targetIds.has(c.targetId))
+      .map(c => ({
+        id: c.id,
+        targetType: c.targetType,
+        targetId: c.targetId,
+        parentId: c.parentId,
+        authorName: c.authorName,
+        body: c.body,
+        mentions: c.mentions,
+        resolved: c.resolved,
+        resolvedBy: c.resolvedBy,
+        resolvedAt: c.resolvedAt,
+        createdAt: c.createdAt,
+      })),
   };
 }
 
@@ -352,6 +404,25 @@ const STATUS_LABELS: Record<string, string> = {
   notEstablished: '不成立',
 };
 
+// 文本格式中节点内容的缩进
+const TEXT_CONTENT_INDENT = '  ';
+
+/**
+ * 节点的文本行：类型:标题[状态]，内容逐行缩进写在下方
+ */
+function nodeTextLines(node: SceneGraphNode): string[] {
+  const typeLabel = getNodeTypeLabel(node.type);
+  const statusLabel = node.baseStatus ? STATUS_LABELS[node.baseStatus] || node.baseStatus : '';
+
+  // 格式：类型:标题[状态]
+  let line = `${typeLabel}:${node.title}`;
+  if (statusLabel) {
+    line += `[${statusLabel}]`;
+  }
+  if (!node.content) return [line];
+  return [line, ...node.content.split(/\r?\n/).map(contentLine => `${TEXT_CONTENT_INDENT}${contentLine}`)];
+}
+
 /**
  * 导出场景为文本格式（简洁版）
  * 格式：类型:标题[状态] + 关系列表
@@ -376,22 +447,7 @@ export function exportSceneAsText(
   if (nodes.length === 0) {
     lines.push('(无)');
   } else {
-    nodes.forEach(node => {
-      const typeLabel = getNodeTypeLabel(node.type);
-      const statusLabel = node.baseStatus ? STATUS_LABELS[node.baseStatus] || node.baseStatus : '';
-
-      // 格式：类型:标题[状态]
-      let line = `${typeLabel}:${node.title}`;
-      if (statusLabel) {
-        line += `[${statusLabel}]`;
-      }
-      lines.push(line);
-
-      // 内容单独一行缩进
-      if (node.content) {
-        lines.push(`  ${node.content}`);
-      }
-    });
+    nodes.forEach(node => lines.push(...nodeTextLines(node)));
   }
   lines.push('');
 
@@ -408,8 +464,11 @@ export function exportSceneAsText(
       const target = nodeIdToTitle.get(edge.targetNodeId) || '?';
       const relation = getEdgeTypeLabel(edge.type);
 
-      // 格式：A -关系-> B
+      // 格式：A -关系-> B，描述逐行缩进写在下方
       lines.push(`${source} -${relation}-> ${target}`);
+      if (edge.description) {
+        lines.push(...edge.description.split(/\r?\n/).map(line => `${TEXT_CONTENT_INDENT}${line}`));
+      }
     });
   }
 
@@ -464,20 +523,1016 @@ export function exportProjectAsText(
   const orphanNodes = nodes.filter(n => !allSceneNodeIds.has(n.id));
   if (orphanNodes.length > 0) {
     lines.push('## 未分配节点');
-    orphanNodes.forEach(node => {
-      const typeLabel = getNodeTypeLabel(node.type);
-      const statusLabel = node.baseStatus ? STATUS_LABELS[node.baseStatus] || node.baseStatus : '';
-      let line = `${typeLabel}:${node.title}`;
+    orphanNodes.forEach(node => lines.push(...nodeTextLines(node)));
+  }
+
+  return lines.join('\n');
+}
+
+// ============ 文本格式解析 ============
+
+export interface TextParseError {
+  line: number; // 从 1 开始的行号
+  message: string;
+}
+
+// 可以粘贴导入的文本格式
+export type TextImportFormat = 'text' | 'mermaid' | 'dot';
+
+// Mermaid / DOT 中无法确定节点类型的形状，导入前需要用户指定类型
+export interface UnknownShape {
+  shape: string;
+  nodeIds: string[];
+}
+
+export interface TextParseResult {
+  format: TextImportFormat;
+  // 所有场景的节点和关系合并为一个场景，走与 JSON 场景文件相同的导入流程
+  scene: ExportedScene;
+  sceneHeadings: string[]; // 文本中出现的场景标题（# 开头）
+  errors: TextParseError[];
+  unknownShapes: UnknownShape[]; // 这些节点的 type 为空字符串
+}
+
+// 文本导入的节点位置：按类型分列，从左到右为 前提 → 结论 → 行动 → 目标
+const TEXT_LAYOUT_COLUMNS: Record<string, number> = {
+  [NodeType.FACT]: 0,
+  [NodeType.ASSUMPTION]: 0,
+  [NodeType.CONSTRAINT]: 0,
+  [NodeType.CONCLUSION]: 1,
+  [NodeType.INFERENCE]: 1,
+  [NodeType.ACTION]: 2,
+  [NodeType.DECISION]: 2,
+  [NodeType.GOAL]: 3,
+};
+const TEXT_LAYOUT_COLUMN_GAP = 240;
+const TEXT_LAYOUT_ROW_GAP = 120;
+
+const RELATION_LINE = /^(.+?)\s+-(\S+?)->\s+(.+)$/;
+const NODE_LINE = /^([^:：\s]+)[:：]\s*(.+?)(?:\[([^\[\]]+)\])?$/;
+const KNOWN_SECTIONS = new Set(['节点', '关系', '未分配节点']);
+
+/**
+ * 标签（或类型值）到类型的反查表。标签重复时优先非废弃类型（如「导致」对应 causes）
+ */
+function buildLabelLookup(config: Record<string, { label: string; deprecated?: boolean }>): Map<string, string> {
+  const lookup = new Map<string, string>();
+  Object.entries(config).forEach(([type, { label, deprecated }]) => {
+    const existing = lookup.get(label);
+    if (!existing || (config[existing].deprecated && !deprecated)) {
+      lookup.set(label, type);
+    }
+    lookup.set(type, type);
+  });
+  return lookup;
+}
+
+/**
+ * 解析节点状态：接受状态选项的标签、导出时使用的标签（STATUS_LABELS）和状态值本身
+ */
+function resolveStatus(type: NodeType, label: string): string | null {
+  const options = getStatusOptionsForType(type);
+  const match = options.find(o =>
+    o.label === label || o.value === label || STATUS_LABELS[o.value] === label
+  );
+  return match ? match.value : null;
+}
+
+/**
+ * 解析 exportSceneAsText / exportProjectAsText 生成的文本：
+ *
+ *   # 场景名
+ *   场景描述（可选）
+ *   ## 节点
+ *   类型:标题[状态]
+ *     缩进的内容行（多行内容每行都缩进，缩进的空行是内容中的空行）
+ *   ## 关系
+ *   源标题 -关系-> 目标标题
+ *     缩进的关系描述行
+ *
+ * 项目文本中的多个场景用 --- 分隔，同一标题在多个场景中出现视为同一节点；
+ * 关系按标题引用节点，可以写在节点定义之前。
+ */
+export function parseGraphText(text: string): TextParseResult {
+  const lines = text.split(/\r?\n/);
+  const errors: TextParseError[] = [];
+  const nodeTypes = buildLabelLookup(NODE_TYPE_CONFIG);
+  const edgeTypes = buildLabelLookup(EDGE_TYPE_CONFIG);
+
+  const headings: Array<{ name: string; description?: string; hasContent: boolean }> = [];
+  const nodes: ExportedNode[] = [];
+  const nodeLines = new Map<string, number>(); // 标题 → 定义所在行
+  const relations: Array<{ line: number; source: string; target: string; type: string; description?: string }> = [];
+
+  let section: string | null = null;
+  // 下方缩进行写入的位置：节点内容或关系描述
+  let lastNode: ExportedNode | null = null;
+  let lastRelation: (typeof relations)[number] | null = null;
+
+  lines.forEach((raw, index) => {
+    const lineNo = index + 1;
+    const line = raw.trim();
+    const indented = /^\s/.test(raw);
+
+    // 节点、关系下方缩进的行是节点内容、关系描述：去掉导出时加的缩进，保留内容自身的缩进
+    if (indented && (lastNode || lastRelation)) {
+      const contentLine = raw.startsWith(TEXT_CONTENT_INDENT)
+        ? raw.slice(TEXT_CONTENT_INDENT.length).trimEnd()
+        : line;
+      if (lastNode) {
+        lastNode.content = lastNode.content !== undefined ? `${lastNode.content}\n${contentLine}` : contentLine;
+      } else {
+        lastRelation!.description = lastRelation!.description !== undefined
+          ? `${lastRelation!.description}\n${contentLine}`
+          : contentLine;
+      }
+      return;
+    }
+    lastNode = null;
+    lastRelation = null;
+
+    if (!line) return;
+
+    if (line === '---' || line === '(无)') return;
+
+    if (line.startsWith('## ')) {
+      section = line.slice(3).trim();
+      if (!KNOWN_SECTIONS.has(section)) {
+        errors.push({ line: lineNo, message: `未知的小节「${section}」，可用：节点、关系、未分配节点` });
+      }
+      return;
+    }
+
+    if (line.startsWith('# ')) {
+      headings.push({ name: line.slice(2).trim(), hasContent: false });
+      section = null;
+      return;
+    }
+
+    const currentHeading = headings[headings.length - 1];
+
+    const relationMatch = line.match(RELATION_LINE);
+    if (relationMatch) {
+      const [, source, label, target] = relationMatch;
+      const type = edgeTypes.get(label);
+      if (!type) {
+        errors.push({ line: lineNo, message: `未知的关系类型「${label}」` });
+      } else {
+        lastRelation = { line: lineNo, source: source.trim(), target: target.trim(), type };
+        relations.push(lastRelation);
+      }
+      if (currentHeading) currentHeading.hasContent = true;
+      return;
+    }
+
+    const nodeMatch = line.match(NODE_LINE);
+    const type = nodeMatch ? nodeTypes.get(nodeMatch[1]) : undefined;
+    if (nodeMatch && type) {
+      const title = nodeMatch[2].trim();
+      const statusLabel = nodeMatch[3]?.trim();
+      if (currentHeading) currentHeading.hasContent = true;
+
+      let baseStatus: string | undefined;
       if (statusLabel) {
-        line += `[${statusLabel}]`;
+        const resolved = resolveStatus(type as NodeType, statusLabel);
+        if (!resolved) {
+          const available = getStatusOptionsForType(type as NodeType).map(o => o.label).join('、');
+          errors.push({
+            line: lineNo,
+            message: `「${statusLabel}」不是${getNodeTypeLabel(type)}的有效状态` + (available ? `，可选：${available}` : ''),
+          });
+        } else {
+          baseStatus = resolved;
+        }
+      }
+
+      const existing = nodes.find(n => n.title === title);
+      if (existing) {
+        // 项目文本中跨场景共享的节点会重复出现，类型一致时合并
+        if (existing.type !== type) {
+          errors.push({
+            line: lineNo,
+            message: `节点「${title}」已在第 ${nodeLines.get(title)} 行定义为${getNodeTypeLabel(existing.type)}`,
+          });
+          return;
+        }
+        if (baseStatus) existing.baseStatus = baseStatus;
+        // 重复出现时内容也会重复，已有内容时下方的内容行记到副本上丢弃
+        lastNode = existing.content === undefined ? existing : { ...existing };
+        return;
+      }
+
+      const node: ExportedNode = {
+        id: `text-${nodes.length + 1}`,
+        type,
+        title,
+        positionX: 0,
+        positionY: 0,
+        baseStatus,
+      };
+      nodes.push(node);
+      nodeLines.set(title, lineNo);
+      lastNode = node;
+      return;
+    }
+
+    // 标题下、小节前无法识别的行是场景描述
+    if (!section && currentHeading && !currentHeading.hasContent) {
+      currentHeading.description = currentHeading.description ? `${currentHeading.description}\n${line}` : line;
+      return;
+    }
+
+    if (nodeMatch) {
+      errors.push({ line: lineNo, message: `未知的节点类型「${nodeMatch[1]}」` });
+    } else {
+      errors.push({ line: lineNo, message: '无法识别，应为「类型:标题[状态]」或「源 -关系-> 目标」' });
+    }
+  });
+
+  // 关系按标题解析，允许引用后面才定义的节点
+  const idByTitle = new Map(nodes.map(n => [n.title, n.id]));
+  const edges: ExportedEdge[] = [];
+  const edgeKeys = new Set<string>();
+  relations.forEach(relation => {
+    const sourceNodeId = idByTitle.get(relation.source);
+    const targetNodeId = idByTitle.get(relation.target);
+    if (!sourceNodeId || !targetNodeId) {
+      const missing = [relation.source, relation.target].filter(t => !idByTitle.has(t));
+      errors.push({ line: relation.line, message: `找不到节点「${missing.join('」「')}」` });
+      return;
+    }
+    const key = `${sourceNodeId}|${targetNodeId}|${relation.type}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ sourceNodeId, targetNodeId, type: relation.type, description: relation.description });
+  });
+
+  layoutByType(nodes);
+
+  // 只有一个场景时沿用它的名称和描述；项目文本的第一个标题是项目标题
+  const scenesWithContent = headings.filter(h => h.hasContent);
+  const named = scenesWithContent.length === 1 ? scenesWithContent[0] : headings[0];
+
+  return {
+    format: 'text',
+    scene: buildTextScene(named?.name || '文本导入', named?.description, nodes, edges),
+    sceneHeadings: scenesWithContent.map(h => h.name),
+    errors: errors.sort((a, b) => a.line - b.line),
+    unknownShapes: [],
+  };
+}
+
+/**
+ * 按类型分列排布节点（文本格式不带坐标）
+ */
+function layoutByType(nodes: ExportedNode[]) {
+  const rows = new Map<number, number>();
+  nodes.forEach(node => {
+    const column = TEXT_LAYOUT_COLUMNS[node.type] ?? 0;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    node.positionX = column * TEXT_LAYOUT_COLUMN_GAP;
+    node.positionY = row * TEXT_LAYOUT_ROW_GAP;
+  });
+}
+
+function buildTextScene(
+  name: string,
+  description: string | undefined,
+  nodes: ExportedNode[],
+  edges: ExportedEdge[]
+): ExportedScene {
+  return {
+    version: EXPORT_VERSION,
+    exportType: 'scene',
+    exportedAt: new Date().toISOString(),
+    scene: { name, description },
+    nodes,
+    edges,
+  };
+}
+
+// ============ Mermaid / Graphviz DOT ============
+
+// 节点类型在图表中的形状。废弃类型借用相近类型的形状，导入时靠 class 区分
+const DIAGRAM_NODE_SHAPES: Record<string, { mermaid: string; dot: string }> = {
+  [NodeType.GOAL]: { mermaid: 'stadium', dot: 'doubleoctagon' },
+  [NodeType.ACTION]: { mermaid: 'rect', dot: 'box' },
+  [NodeType.FACT]: { mermaid: 'cylinder', dot: 'cylinder' },
+  [NodeType.ASSUMPTION]: { mermaid: 'hexagon', dot: 'hexagon' },
+  [NodeType.CONSTRAINT]: { mermaid: 'parallelogram', dot: 'parallelogram' },
+  [NodeType.CONCLUSION]: { mermaid: 'asymmetric', dot: 'note' },
+  [NodeType.DECISION]: { mermaid: 'rect', dot: 'box' },
+  [NodeType.INFERENCE]: { mermaid: 'asymmetric', dot: 'note' },
+};
+
+// Mermaid 节点形状的括号，按开括号长度排列以便解析时优先匹配长的
+const MERMAID_SHAPES: Array<{ name: string; open: string; close: string }> = [
+  { name: 'stadium', open: '([', close: '])' },
+  { name: 'cylinder', open: '[(', close: ')]' },
+  { name: 'subroutine', open: '[[', close: ']]' },
+  { name: 'circle', open: '((', close: '))' },
+  { name: 'hexagon', open: '{{', close: '}}' },
+  { name: 'parallelogram', open: '[/', close: '/]' },
+  { name: 'trapezoid', open: '[/', close: '\\]' },
+  { name: 'parallelogram-alt', open: '[\\', close: '\\]' },
+  { name: 'trapezoid-alt', open: '[\\', close: '/]' },
+  { name: 'rect', open: '[', close: ']' },
+  { name: 'round', open: '(', close: ')' },
+  { name: 'rhombus', open: '{', close: '}' },
+  { name: 'asymmetric', open: '>', close: ']' },
+];
+
+// DOT 中与 box 等价的形状名
+const DOT_SHAPE_ALIASES: Record<string, string> = { rect: 'box', rectangle: 'box', square: 'box' };
+
+// 关系线型在 Mermaid 中的箭头
+const MERMAID_ARROWS: Record<string, string> = {
+  solid: '-->',
+  dashed: '-.->',
+  dotted: '-.->',
+  double: '==>',
+};
+
+// 关系箭头样式在 DOT 中的 arrowhead
+const DOT_ARROWHEADS: Record<string, string> = {
+  arrow: 'normal',
+  diamond: 'diamond',
+  circle: 'dot',
+  triangle: 'empty',
+  none: 'none',
+};
+
+// 没有可识别标签的关系按线型推断类型
+const LINE_STYLE_EDGE_TYPES: Record<string, EdgeType> = {
+  solid: EdgeType.SUPPORTS,
+  dashed: EdgeType.DEPENDS,
+  dotted: EdgeType.HINDERS,
+  double: EdgeType.CAUSES,
+};
+
+/**
+ * 形状名到节点类型的反查表（不含废弃类型）
+ */
+function buildShapeLookup(format: 'mermaid' | 'dot'): Map<string, string> {
+  const lookup = new Map<string, string>();
+  Object.entries(DIAGRAM_NODE_SHAPES).forEach(([type, shapes]) => {
+    if (!NODE_TYPE_CONFIG[type]?.deprecated) {
+      lookup.set(shapes[format], type);
+    }
+  });
+  return lookup;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, '<br/>');
+}
+
+function unescapeMermaid(text: string): string {
+  return text.replace(/#quot;/g, '"').replace(/#124;/g, '|').replace(/<br\s*\/?>/gi, '\n');
+}
+
+/**
+ * 图表中节点的文字：标题，有基础状态时后缀「[状态]」（与文本格式相同）
+ */
+function diagramNodeLabel(node: SceneGraphNode): string {
+  const statusLabel = node.baseStatus ? STATUS_LABELS[node.baseStatus] || node.baseStatus : '';
+  return statusLabel ? `${node.title}[${statusLabel}]` : node.title;
+}
+
+/**
+ * 图表中关系的文字：关系类型，有描述时为「类型：描述」
+ */
+function diagramEdgeLabel(edge: GraphEdge): string {
+  const typeLabel = getEdgeTypeLabel(edge.type);
+  return edge.description ? `${typeLabel}：${edge.description}` : typeLabel;
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * 导出场景为 Mermaid 流程图
+ * 节点类型对应形状和 class（颜色取自 NODE_TYPE_CONFIG），关系类型对应箭头和标签；
+ * 基础状态和关系描述写在节点、关系的文字中，导入时再拆出来
+ */
+export function exportSceneAsMermaid(
+  sceneName: string,
+  nodes: SceneGraphNode[],
+  edges: GraphEdge[]
+): string {
+  const lines: string[] = ['---', `title: ${sceneName}`, '---', 'flowchart LR'];
+  const ids = new Map(nodes.map((node, i) => [node.id, `n${i + 1}`]));
+
+  nodes.forEach(node => {
+    const shapeName = DIAGRAM_NODE_SHAPES[node.type]?.mermaid ?? 'rect';
+    const shape = MERMAID_SHAPES.find(s => s.name === shapeName)!;
+    lines.push(`  ${ids.get(node.id)}${shape.open}"${escapeMermaid(diagramNodeLabel(node))}"${shape.close}:::${node.type}`);
+  });
+
+  // linkStyle 按连线出现的顺序编号
+  const linkStyles: string[] = [];
+  edges
+    .filter(edge => ids.has(edge.sourceNodeId) && ids.has(edge.targetNodeId))
+    .forEach((edge, linkIndex) => {
+      const config = EDGE_TYPE_CONFIG[edge.type as EdgeType];
+      const arrow = MERMAID_ARROWS[config?.lineStyle ?? 'solid'];
+      lines.push(`  ${ids.get(edge.sourceNodeId)} ${arrow}|${escapeMermaid(diagramEdgeLabel(edge))}| ${ids.get(edge.targetNodeId)}`);
+      if (config) {
+        linkStyles.push(`  linkStyle ${linkIndex} stroke:${config.color}`);
       }
-      lines.push(line);
     });
-  }
 
+  const usedTypes = new Set(nodes.map(n => n.type));
+  Object.entries(NODE_TYPE_CONFIG)
+    .filter(([type]) => usedTypes.has(type as NodeType))
+    .forEach(([type, config]) => {
+      lines.push(`  classDef ${type} fill:${config.bgColor},stroke:${config.color},color:#1f2937`);
+    });
+
+  return [...lines, ...linkStyles].join('\n');
+}
+
+/**
+ * 导出场景为 Graphviz DOT
+ * 节点类型对应 shape 和 class，关系类型对应 style/arrowhead 和标签；
+ * 基础状态和关系描述写法与 Mermaid 相同
+ */
+export function exportSceneAsDot(
+  sceneName: string,
+  nodes: SceneGraphNode[],
+  edges: GraphEdge[]
+): string {
+  const lines: string[] = [
+    `digraph "${escapeDot(sceneName)}" {`,
+    '  rankdir=LR;',
+    '  node [style="filled,rounded", fontname="sans-serif"];',
+    '  edge [fontname="sans-serif", fontsize=10];',
+  ];
+  const ids = new Map(nodes.map((node, i) => [node.id, `n${i + 1}`]));
+
+  nodes.forEach(node => {
+    const config = NODE_TYPE_CONFIG[node.type];
+    const shape = DIAGRAM_NODE_SHAPES[node.type]?.dot ?? 'box';
+    lines.push(
+      `  ${ids.get(node.id)} [label="${escapeDot(diagramNodeLabel(node))}", shape=${shape}, class="${node.type}"` +
+      (config ? `, color="${config.color}", fillcolor="${config.bgColor}"` : '') +
+      '];'
+    );
+  });
+
+  edges
+    .filter(edge => ids.has(edge.sourceNodeId) && ids.has(edge.targetNodeId))
+    .forEach(edge => {
+      const config = EDGE_TYPE_CONFIG[edge.type as EdgeType];
+      const attrs = [`label="${escapeDot(diagramEdgeLabel(edge))}"`, `class="${edge.type}"`];
+      if (config) {
+        attrs.push(`color="${config.color}"`);
+        attrs.push(`style=${config.lineStyle === 'double' ? 'bold' : config.lineStyle}`);
+        attrs.push(`arrowhead=${DOT_ARROWHEADS[config.arrowStyle] ?? 'normal'}`);
+        if (config.arrowStart && config.arrowStart !== 'none') {
+          attrs.push('dir=both', `arrowtail=${DOT_ARROWHEADS[config.arrowStart]}`);
+        }
+      }
+      lines.push(`  ${ids.get(edge.sourceNodeId)} -> ${ids.get(edge.targetNodeId)} [${attrs.join(', ')}];`);
+    });
+
+  lines.push('}');
   return lines.join('\n');
 }
 
+// 解析 Mermaid / DOT 时收集的节点
+interface DiagramNode {
+  id: string;
+  label?: string;
+  shape?: string;
+  className?: string;
+}
+
+interface DiagramEdge {
+  line: number;
+  source: string;
+  target: string;
+  label?: string;
+  className?: string;
+  lineStyle: string;
+}
+
+/**
+ * 把解析出的图表节点和关系转为导入数据。
+ * 节点类型依次取 class、形状；都无法识别的按形状分组，留给用户指定。
+ * 文字末尾的「[状态]」是该类型的有效状态时作为基础状态；关系文字「类型：描述」拆成类型和描述
+ */
+function buildDiagramResult(
+  format: 'mermaid' | 'dot',
+  title: string | undefined,
+  diagramNodes: Map<string, DiagramNode>,
+  diagramEdges: DiagramEdge[],
+  errors: TextParseError[]
+): TextParseResult {
+  const shapeTypes = buildShapeLookup(format);
+  const edgeTypes = buildLabelLookup(EDGE_TYPE_CONFIG);
+  const defaultShape = format === 'mermaid' ? 'rect' : 'ellipse';
+  const unknownShapes = new Map<string, string[]>();
+
+  const nodes: ExportedNode[] = Array.from(diagramNodes.values()).map((diagramNode, i) => {
+    const id = `diagram-${i + 1}`;
+    const shape = diagramNode.shape ?? defaultShape;
+    let type = diagramNode.className && NODE_TYPE_CONFIG[diagramNode.className]
+      ? diagramNode.className
+      : shapeTypes.get(shape);
+    if (!type) {
+      unknownShapes.set(shape, [...(unknownShapes.get(shape) ?? []), id]);
+      type = '';
+    }
+    let title = (diagramNode.label ?? diagramNode.id).trim() || diagramNode.id;
+    let baseStatus: string | undefined;
+    const statusMatch = type ? title.match(/^(.+?)\[([^\[\]]+)\]$/) : null;
+    const status = statusMatch && resolveStatus(type as NodeType, statusMatch[2].trim());
+    if (statusMatch && status) {
+      title = statusMatch[1].trim();
+      baseStatus = status;
+    }
+    return { id, type, title, positionX: 0, positionY: 0, baseStatus };
+  });
+
+  const idOf = new Map(Array.from(diagramNodes.keys()).map((key, i) => [key, nodes[i].id]));
+  const edges: ExportedEdge[] = diagramEdges.map(edge => {
+    const label = edge.label?.trim() ?? '';
+    const byClass = edge.className && EDGE_TYPE_CONFIG[edge.className] ? edge.className : undefined;
+    let byLabel = label ? edgeTypes.get(label) : undefined;
+    // 无法识别为关系类型的标签保留为关系描述
+    let description = !byLabel && label ? label : undefined;
+    const separator = label.indexOf('：');
+    if (!byLabel && separator > 0 && edgeTypes.has(label.slice(0, separator).trim())) {
+      byLabel = edgeTypes.get(label.slice(0, separator).trim());
+      description = label.slice(separator + 1).trim() || undefined;
+    }
+    const type = byClass ?? byLabel ?? LINE_STYLE_EDGE_TYPES[edge.lineStyle] ?? EdgeType.SUPPORTS;
+    return {
+      sourceNodeId: idOf.get(edge.source)!,
+      targetNodeId: idOf.get(edge.target)!,
+      type,
+      description,
+    };
+  });
+
+  layoutByType(nodes);
+
+  return {
+    format,
+    scene: buildTextScene(title || (format === 'mermaid' ? 'Mermaid 导入' : 'DOT 导入'), undefined, nodes, edges),
+    sceneHeadings: [],
+    errors: errors.sort((a, b) => a.line - b.line),
+    unknownShapes: Array.from(unknownShapes, ([shape, nodeIds]) => ({ shape, nodeIds })),
+  };
+}
+
+/**
+ * 按用户选择的类型补全无法识别形状的节点
+ */
+export function applyShapeMapping(result: TextParseResult, mapping: Record<string, string>): ExportedScene {
+  const typeById = new Map<string, string>();
+  result.unknownShapes.forEach(({ shape, nodeIds }) => {
+    nodeIds.forEach(id => typeById.set(id, mapping[shape] ?? ''));
+  });
+  const nodes = result.scene.nodes.map(node =>
+    typeById.has(node.id) ? { ...node, type: typeById.get(node.id)! } : node
+  );
+  layoutByType(nodes);
+  return { ...result.scene, nodes };
+}
+
+const MERMAID_NODE_ID = /^[\w\u0080-\uffff]+/;
+// 带文字的连线：-- 文字 -->、-. 文字 .->、== 文字 ==>
+const MERMAID_TEXT_LINK = /^(--|-\.|==)\s+(.+?)\s+(-{2,}>|\.-+>|={2,}>|-{3,}|\.-+|={3,})\s*/;
+// 普通连线，可带 |文字|：-->、---、-.->、==>
+const MERMAID_LINK = /^<?(-{2,}|-\.+-|={2,})[>ox]?\s*(?:\|([^|]*)\|)?\s*/;
+const MERMAID_IGNORED = /^(classDef|linkStyle|style|click|subgraph|end|direction)\b/;
+
+/**
+ * 解析 Mermaid 流程图（flowchart / graph）
+ */
+export function parseMermaid(text: string): TextParseResult {
+  const errors: TextParseError[] = [];
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+  let title: string | undefined;
+
+  const lines = text.split(/\r?\n/);
+  let index = 0;
+
+  // frontmatter 中的标题
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === '---');
+    if (end > 0) {
+      lines.slice(1, end).forEach(l => {
+        const match = l.match(/^title:\s*(.+)$/);
+        if (match) title = match[1].trim();
+      });
+      index = end + 1;
+    }
+  }
+
+  const touch = (id: string): DiagramNode => {
+    if (!nodes.has(id)) nodes.set(id, { id });
+    return nodes.get(id)!;
+  };
+
+  // 读取一个节点引用：id、可选形状和 :::class，返回剩余文本
+  const readNode = (rest: string, lineNo: number): { id: string; rest: string } | null => {
+    const idMatch = rest.match(MERMAID_NODE_ID);
+    if (!idMatch) return null;
+    const id = idMatch[0];
+    const node = touch(id);
+    rest = rest.slice(id.length);
+
+    const candidates = MERMAID_SHAPES.filter(s => rest.startsWith(s.open));
+    if (candidates.length > 0) {
+      const open = candidates[0].open;
+      let body = rest.slice(open.length);
+      let label: string;
+      if (body.startsWith('"')) {
+        const endQuote = body.indexOf('"', 1);
+        if (endQuote < 0) {
+          errors.push({ line: lineNo, message: '节点文字缺少结束引号' });
+          return null;
+        }
+        label = body.slice(1, endQuote);
+        body = body.slice(endQuote + 1);
+      } else {
+        const ends = candidates
+          .map(s => ({ shape: s, at: body.indexOf(s.close) }))
+          .filter(e => e.at >= 0)
+          .sort((a, b) => a.at - b.at);
+        if (ends.length === 0) {
+          errors.push({ line: lineNo, message: `节点「${id}」的形状缺少结束括号` });
+          return null;
+        }
+        label = body.slice(0, ends[0].at);
+        body = body.slice(ends[0].at);
+      }
+      const shape = candidates.find(s => body.startsWith(s.close));
+      if (!shape) {
+        errors.push({ line: lineNo, message: `节点「${id}」的形状缺少结束括号` });
+        return null;
+      }
+      node.label = unescapeMermaid(label);
+      node.shape = shape.name;
+      rest = body.slice(shape.close.length);
+    }
+
+    const classMatch = rest.match(/^:::([\w-]+)/);
+    if (classMatch) {
+      node.className = classMatch[1];
+      rest = rest.slice(classMatch[0].length);
+    }
+    return { id, rest: rest.trimStart() };
+  };
+
+  let headerSeen = false;
+  for (; index < lines.length; index++) {
+    const lineNo = index + 1;
+    // 行尾分号是可选的语句结束符（行内的分号可能属于 #quot; 等转义）
+    const statement = lines[index].trim().replace(/;$/, '');
+    if (!statement || statement.startsWith('%%')) continue;
+    if (!headerSeen) {
+      if (/^(flowchart|graph)\b/.test(statement)) {
+        headerSeen = true;
+        continue;
+      }
+      errors.push({ line: lineNo, message: '应以 flowchart 或 graph 开头' });
+      headerSeen = true;
+      continue;
+    }
+    if (MERMAID_IGNORED.test(statement)) continue;
+
+    const classStatement = statement.match(/^class\s+([\w\u0080-\uffff,\s]+?)\s+([\w-]+)$/);
+    if (classStatement) {
+      classStatement[1].split(',').forEach(id => {
+        touch(id.trim()).className = classStatement[2];
+      });
+      continue;
+    }
+
+    let current = readNode(statement, lineNo);
+    if (!current) {
+      if (!errors.some(e => e.line === lineNo)) {
+        errors.push({ line: lineNo, message: '无法识别的语句' });
+      }
+      continue;
+    }
+
+    // 连续的连线：A --> B --> C
+    while (current && current.rest) {
+      let label: string | undefined;
+      let arrow: string;
+      const textLink = current.rest.match(MERMAID_TEXT_LINK);
+      const link = textLink ? null : current.rest.match(MERMAID_LINK);
+      if (textLink) {
+        label = textLink[2];
+        arrow = textLink[1];
+        current.rest = current.rest.slice(textLink[0].length);
+      } else if (link) {
+        label = link[2];
+        arrow = link[1];
+        current.rest = current.rest.slice(link[0].length);
+      } else {
+        errors.push({ line: lineNo, message: `无法识别「${current.rest}」` });
+        break;
+      }
+
+      const next = readNode(current.rest, lineNo);
+      if (!next) {
+        if (!errors.some(e => e.line === lineNo)) {
+          errors.push({ line: lineNo, message: '连线缺少目标节点（不支持 & 语法）' });
+        }
+        break;
+      }
+      edges.push({
+        line: lineNo,
+        source: current.id,
+        target: next.id,
+        label: label ? unescapeMermaid(label) : undefined,
+        lineStyle: arrow.includes('.') ? 'dashed' : arrow.includes('=') ? 'double' : 'solid',
+      });
+      current = next;
+    }
+  }
+
+  return buildDiagramResult('mermaid', title, nodes, edges, errors);
+}
+
+interface DotToken {
+  value: string;
+  line: number;
+  quoted: boolean;
+}
+
+/**
+ * DOT 词法分析：标识符、数字、字符串、HTML 字符串和符号，跳过注释
+ */
+function tokenizeDot(text: string, errors: TextParseError[]): DotToken[] {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (text.startsWith('//', i) || (ch === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end < 0 ? text.length : end + 2;
+      line += (text.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+    } else if (ch === '"') {
+      const startLine = line;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? '\n' : next === '"' || next === '\\' ? next : '\\' + next;
+          i += 2;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i++];
+        }
+      }
+      if (i >= text.length) {
+        errors.push({ line: startLine, message: '字符串缺少结束引号' });
+      }
+      i++;
+      tokens.push({ value, line: startLine, quoted: true });
+    } else if (ch === '<') {
+      // HTML 标签文字，取其中的纯文本
+      const startLine = line;
+      let depth = 0;
+      let j = i;
+      for (; j < text.length; j++) {
+        if (text[j] === '<') depth++;
+        else if (text[j] === '>' && --depth === 0) break;
+        else if (text[j] === '\n') line++;
+      }
+      tokens.push({ value: text.slice(i + 1, j).replace(/<[^>]*>/g, '').trim(), line: startLine, quoted: true });
+      i = j + 1;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ value: text.slice(i, i + 2), line, quoted: false });
+      i += 2;
+    } else if ('{}[]=;,:'.includes(ch)) {
+      tokens.push({ value: ch, line, quoted: false });
+      i++;
+    } else {
+      const match = text.slice(i).match(/^(-?(\.\d+|\d+(\.\d*)?)|[\w\u0080-\uffff]+)/);
+      if (!match) {
+        errors.push({ line, message: `无法识别的字符「${ch}」` });
+        i++;
+        continue;
+      }
+      tokens.push({ value: match[0], line, quoted: false });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 解析 Graphviz DOT（graph / digraph）。
+ * 支持节点/关系语句、node 默认属性、子图和 a -> b -> c 链式关系
+ */
+export function parseDot(text: string): TextParseResult {
+  const errors: TextParseError[] = [];
+  const tokens = tokenizeDot(text, errors);
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+  let pos = 0;
+  let title: string | undefined;
+
+  const peek = () => tokens[pos];
+  const isSymbol = (value: string) => !!tokens[pos] && !tokens[pos].quoted && tokens[pos].value === value;
+  const lastLine = () => tokens[Math.min(pos, tokens.length - 1)]?.line ?? 1;
+  const expect = (value: string) => {
+    if (isSymbol(value)) {
+      pos++;
+      return true;
+    }
+    errors.push({ line: lastLine(), message: `应为「${value}」` });
+    return false;
+  };
+
+  const readAttrs = (): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    while (isSymbol('[')) {
+      pos++;
+      while (peek() && !isSymbol(']')) {
+        const key = tokens[pos++].value;
+        if (isSymbol('=')) {
+          pos++;
+          attrs[key] = tokens[pos++]?.value ?? '';
+        }
+        if (isSymbol(',') || isSymbol(';')) pos++;
+      }
+      expect(']');
+    }
+    return attrs;
+  };
+
+  const defineNode = (id: string, attrs: Record<string, string>, defaults: Record<string, string>) => {
+    const existing = nodes.get(id);
+    const merged = { ...(existing ? {} : defaults), ...attrs };
+    const node = existing ?? { id };
+    if (merged.label !== undefined) node.label = merged.label;
+    if (merged.shape !== undefined) node.shape = DOT_SHAPE_ALIASES[merged.shape] ?? merged.shape;
+    if (merged.class !== undefined) node.className = merged.class;
+    nodes.set(id, node);
+  };
+
+  // 读取语句列表直到「}」，返回其中出现的节点（供「a -> { b c }」使用）
+  const readStatements = (inheritedDefaults: Record<string, string>): string[] => {
+    const defaults = { ...inheritedDefaults };
+    const members: string[] = [];
+
+    // 关系端点：节点 ID 或子图
+    const readOperand = (): string[] | null => {
+      if (isSymbol('{') || (peek() && !peek().quoted && peek().value === 'subgraph')) {
+        if (!isSymbol('{')) {
+          pos++;
+          if (peek() && !isSymbol('{')) pos++;
+        }
+        if (!expect('{')) return null;
+        const ids = readStatements(defaults);
+        expect('}');
+        return ids;
+      }
+      const token = peek();
+      if (!token || (!token.quoted && '{}[]=;,'.includes(token.value))) return null;
+      pos++;
+      // 端口（a:port）不影响关系
+      while (isSymbol(':')) pos += 2;
+      if (!nodes.has(token.value)) defineNode(token.value, {}, defaults);
+      return [token.value];
+    };
+
+    while (peek() && !isSymbol('}')) {
+      const token = peek();
+      const line = token.line;
+      if (isSymbol(';')) {
+        pos++;
+        continue;
+      }
+
+      if (!token.quoted && ['graph', 'node', 'edge'].includes(token.value) && tokens[pos + 1]?.value === '[') {
+        pos++;
+        const attrs = readAttrs();
+        if (token.value === 'node') Object.assign(defaults, attrs);
+        continue;
+      }
+
+      // 图属性 key=value
+      if (tokens[pos + 1] && !tokens[pos + 1].quoted && tokens[pos + 1].value === '=') {
+        pos += 3;
+        continue;
+      }
+
+      const first = readOperand();
+      if (!first) {
+        errors.push({ line, message: `无法识别「${token.value}」` });
+        pos++;
+        continue;
+      }
+
+      const chain: string[][] = [first];
+      while (isSymbol('->') || isSymbol('--')) {
+        pos++;
+        const next = readOperand();
+        if (!next) {
+          errors.push({ line: lastLine(), message: '关系缺少目标节点' });
+          break;
+        }
+        chain.push(next);
+      }
+      const attrs = readAttrs();
+
+      if (chain.length === 1) {
+        // 节点语句
+        first.forEach(id => defineNode(id, attrs, defaults));
+      } else {
+        for (let k = 0; k + 1 < chain.length; k++) {
+          chain[k].forEach(source => chain[k + 1].forEach(target => {
+            edges.push({
+              line,
+              source,
+              target,
+              label: attrs.label,
+              className: attrs.class,
+              lineStyle: attrs.style === 'bold' ? 'double' : attrs.style ?? 'solid',
+            });
+          }));
+        }
+      }
+      chain.forEach(ids => members.push(...ids));
+    }
+    return members;
+  };
+
+  // strict? (graph | digraph) ID? { ... }
+  if (peek()?.value === 'strict') pos++;
+  if (!peek() || !['graph', 'digraph'].includes(peek().value)) {
+    errors.push({ line: lastLine(), message: '应以 graph 或 digraph 开头' });
+  } else {
+    pos++;
+    if (peek() && !isSymbol('{')) title = tokens[pos++].value;
+    if (expect('{')) {
+      readStatements({});
+      expect('}');
+    }
+  }
+
+  return buildDiagramResult('dot', title, nodes, edges, errors);
+}
+
+/**
+ * 识别粘贴文本的格式：DOT 以 (strict) graph/digraph 名称 { 开头，
+ * Mermaid 以 flowchart/graph 方向开头（可带 frontmatter 或 ```mermaid 代码块）
+ */
+export function detectTextFormat(text: string): TextImportFormat {
+  const body = text.replace(/^\s*```\s*mermaid\s*\n/, '').trimStart();
+  if (/^(strict\s+)?(di)?graph\b[^\n]*\{/.test(body)) return 'dot';
+  if (/^(---\n[\s\S]*?\n---\s*\n\s*)?(%%[^\n]*\n\s*)*(flowchart|graph)\b/.test(body)) return 'mermaid';
+  return 'text';
+}
+
+/**
+ * 按格式解析粘贴或读取的文本
+ */
+export function parseImportText(text: string): TextParseResult {
+  const format = detectTextFormat(text);
+  if (format === 'dot') return parseDot(text);
+  if (format === 'mermaid') {
+    // 去掉 Markdown 代码块围栏
+    return parseMermaid(text.replace(/^\s*```\s*mermaid\s*\n/, '').replace(/\n```\s*$/, ''));
+  }
+  return parseGraphText(text);
+}
+
+/**
+ * 读取导入的文本文件
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve((e.target?.result as string) ?? '');
+    reader.onerror = () => reject(new Error('文件读取失败'));
+    reader.readAsText(file);
+  });
+}
+
 /**
  * 下载文本文件
  */
@@ -0,0 +1,274 @@
+/**
+ * 项目差异对比工具
+ *
+ * 比较两份项目数据（当前项目 / 快照 / 导出文件），列出新增、删除、修改的节点和关系。
+ * - 节点按 id 匹配，id 匹配不上时按标题（忽略大小写）回退匹配；
+ *   导入过的文件会重新生成 id，所以标题回退是跨成员比较的主要手段。
+ * - 关系按「两端节点 + 关系类型」匹配（导出文件中的关系没有 id）；
+ *   关系类型变化视为删除旧关系 + 新增新关系。
+ */
+
+import { GraphEdge, GraphNode, ProjectSnapshot } from '../types';
+import { ExportedProject, ExportedScene } from './exportImport';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+// 参与对比的节点（各数据来源归一化后的结构）
+export interface DiffNode {
+  id: string;
+  type: string;
+  title: string;
+  content?: string;
+  confidence?: number;
+  weight?: number;
+  baseStatus?: string;
+  positionX: number;
+  positionY: number;
+}
+
+// 参与对比的关系；id 只有来自项目/快照的关系才有
+export interface DiffEdge {
+  id?: string;
+  sourceNodeId: string;
+  targetNodeId: string;
+  type: string;
+  strength?: number;
+  description?: string;
+}
+
+export interface DiffSource {
+  nodes: DiffNode[];
+  edges: DiffEdge[];
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeDiff {
+  key: string;
+  kind: DiffKind;
+  before?: DiffNode;        // 基准中的节点（removed / changed）
+  after?: DiffNode;         // 对比方中的节点（added / changed）
+  matchedBy?: 'id' | 'title';
+  changes: FieldChange[];
+}
+
+export interface EdgeDiff {
+  key: string;
+  kind: DiffKind;
+  before?: DiffEdge;        // 基准中的关系（两端为基准节点 id）
+  after?: DiffEdge;         // 对比方中的关系（两端为对比方节点 id）
+  sourceTitle: string;
+  targetTitle: string;
+  changes: FieldChange[];
+}
+
+export interface ProjectDiff {
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+  // 对比方节点 id → 匹配到的基准节点 id（含未修改的节点）
+  matches: Map<string, string>;
+}
+
+// 参与比较的节点字段（位置变化不算修改）
+const NODE_FIELDS: Array<{ field: keyof DiffNode; label: string }> = [
+  { field: 'type', label: '类型' },
+  { field: 'title', label: '标题' },
+  { field: 'content', label: '内容' },
+  { field: 'baseStatus', label: '状态' },
+  { field: 'confidence', label: '置信度' },
+  { field: 'weight', label: '权重' },
+];
+
+const EDGE_FIELDS: Array<{ field: keyof DiffEdge; label: string }> = [
+  { field: 'strength', label: '强度' },
+  { field: 'description', label: '描述' },
+];
+
+// ========== 数据来源归一化 ==========
+
+function toDiffNode(n: GraphNode | ExportedProject['nodes'][number]): DiffNode {
+  return {
+    id: n.id,
+    type: n.type,
+    title: n.title,
+    content: n.content,
+    confidence: n.confidence,
+    weight: n.weight,
+    baseStatus: n.baseStatus,
+    positionX: n.positionX,
+    positionY: n.positionY,
+  };
+}
+
+export function sourceFromGraph(nodes: GraphNode[], edges: GraphEdge[]): DiffSource {
+  return {
+    nodes: nodes.map(toDiffNode),
+    edges: edges.map((e) => ({
+      id: e.id,
+      sourceNodeId: e.sourceNodeId,
+      targetNodeId: e.targetNodeId,
+      type: e.type,
+      strength: e.strength,
+      description: e.description,
+    })),
+  };
+}
+
+export function sourceFromSnapshot(snapshot: ProjectSnapshot): DiffSource {
+  return sourceFromGraph(snapshot.data.nodes, snapshot.data.edges);
+}
+
+export function sourceFromExport(data: ExportedScene | ExportedProject): DiffSource {
+  return {
+    nodes: data.nodes.map(toDiffNode),
+    edges: data.edges.map((e) => ({ ...e })),
+  };
+}
+
+// ========== 对比 ==========
+
+function sameValue(a: unknown, b: unknown): boolean {
+  // 缺省值与空字符串视为相同，避免旧版导出缺字段造成的噪声
+  const norm = (v: unknown) => (v === undefined || v === null || v === '' ? undefined : v);
+  return norm(a) === norm(b);
+}
+
+function titleKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+/**
+ * 对比基准与对比方，返回从基准变为对比方所需的全部变更
+ */
+export function diffProjects(base: DiffSource, incoming: DiffSource): ProjectDiff {
+  const baseById = new Map(base.nodes.map((n) => [n.id, n]));
+  const baseByTitle = new Map<string, DiffNode>();
+  for (const n of base.nodes) {
+    if (!baseByTitle.has(titleKey(n.title))) baseByTitle.set(titleKey(n.title), n);
+  }
+
+  // 对比方节点 id → 基准节点 id
+  const matched = new Map<string, string>();
+  const matchedBy = new Map<string, 'id' | 'title'>();
+  const usedBaseIds = new Set<string>();
+
+  // 先按 id 匹配，再对剩余节点按标题匹配，保证 id 匹配优先占用
+  for (const n of incoming.nodes) {
+    if (baseById.has(n.id)) {
+      matched.set(n.id, n.id);
+      matchedBy.set(n.id, 'id');
+      usedBaseIds.add(n.id);
+    }
+  }
+  for (const n of incoming.nodes) {
+    if (matched.has(n.id)) continue;
+    const candidate = baseByTitle.get(titleKey(n.title));
+    if (candidate && !usedBaseIds.has(candidate.id)) {
+      matched.set(n.id, candidate.id);
+      matchedBy.set(n.id, 'title');
+      usedBaseIds.add(candidate.id);
+    }
+  }
+
+  // ---- 节点 ----
+  const nodes: NodeDiff[] = [];
+  for (const n of incoming.nodes) {
+    const baseId = matched.get(n.id);
+    if (!baseId) {
+      nodes.push({ key: `node:added:${n.id}`, kind: 'added', after: n, changes: [] });
+      continue;
+    }
+    const before = baseById.get(baseId)!;
+    const changes = NODE_FIELDS
+      .filter(({ field }) => !sameValue(before[field], n[field]))
+      .map(({ field, label }) => ({ field, label, before: before[field], after: n[field] }));
+    if (changes.length > 0) {
+      nodes.push({
+        key: `node:changed:${baseId}`,
+        kind: 'changed',
+        before,
+        after: n,
+        matchedBy: matchedBy.get(n.id),
+        changes,
+      });
+    }
+  }
+  for (const n of base.nodes) {
+    if (!usedBaseIds.has(n.id)) {
+      nodes.push({ key: `node:removed:${n.id}`, kind: 'removed', before: n, changes: [] });
+    }
+  }
+
+  // ---- 关系 ----
+  const incomingById = new Map(incoming.nodes.map((n) => [n.id, n]));
+  // 对比方关系的两端映射到基准 id 空间；未匹配的节点用前缀区分，不会与基准 id 撞上
+  const mapEnd = (id: string) => matched.get(id) ?? `new:${id}`;
+  const edgeKey = (source: string, target: string, type: string) => `${source}|${target}|${type}`;
+
+  const baseEdges = new Map<string, DiffEdge>();
+  for (const e of base.edges) {
+    const key = edgeKey(e.sourceNodeId, e.targetNodeId, e.type);
+    if (!baseEdges.has(key)) baseEdges.set(key, e);
+  }
+
+  const edges: EdgeDiff[] = [];
+  const seen = new Set<string>();
+  for (const e of incoming.edges) {
+    const key = edgeKey(mapEnd(e.sourceNodeId), mapEnd(e.targetNodeId), e.type);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const titles = {
+      sourceTitle: incomingById.get(e.sourceNodeId)?.title ?? e.sourceNodeId,
+      targetTitle: incomingById.get(e.targetNodeId)?.title ?? e.targetNodeId,
+    };
+    const before = baseEdges.get(key);
+    if (!before) {
+      edges.push({ key: `edge:added:${key}`, kind: 'added', after: e, changes: [], ...titles });
+      continue;
+    }
+    const changes = EDGE_FIELDS
+      .filter(({ field }) => !sameValue(before[field], e[field]))
+      .map(({ field, label }) => ({ field, label, before: before[field], after: e[field] }));
+    if (changes.length > 0) {
+      edges.push({ key: `edge:changed:${key}`, kind: 'changed', before, after: e, changes, ...titles });
+    }
+  }
+  for (const [key, e] of baseEdges) {
+    if (seen.has(key)) continue;
+    edges.push({
+      key: `edge:removed:${key}`,
+      kind: 'removed',
+      before: e,
+      sourceTitle: baseById.get(e.sourceNodeId)?.title ?? e.sourceNodeId,
+      targetTitle: baseById.get(e.targetNodeId)?.title ?? e.targetNodeId,
+      changes: [],
+    });
+  }
+
+  return { nodes, edges, matches: matched };
+}
+
+/**
+ * 基准中受影响的节点/关系 id → 变更类型，用于在画布上高亮。
+ * 新增项在基准中不存在，不出现在结果里。
+ */
+export function getDiffHighlights(diff: ProjectDiff): {
+  nodes: Map<string, DiffKind>;
+  edges: Map<string, DiffKind>;
+} {
+  const nodes = new Map<string, DiffKind>();
+  const edges = new Map<string, DiffKind>();
+  for (const d of diff.nodes) {
+    if (d.before) nodes.set(d.before.id, d.kind);
+  }
+  for (const d of diff.edges) {
+    if (d.before?.id) edges.set(d.before.id, d.kind);
+  }
+  return { nodes, edges };
+}
@@ -1,125 +1,65 @@
 /**
  * 状态传播系统 - 主入口
  *
- * 使用方式：
- *
- * ```typescript
- * import { PropagationEngine, LogicState } from './utils/propagation';
- *
- * // 创建引擎
- * const engine = new PropagationEngine();
- *
- * // 运行传播
- * const result = engine.run(nodes, edges);
- *
- * // 获取节点状态
- * const nodeState = result.states.get(nodeId);
- *
- * // 增量更新
- * const updateResult = engine.updateNode(nodeId, LogicState.TRUE, nodes, edges);
- * ```
+ * 传播引擎与各关系类型的规则都在 @solvechain/shared 中，与后端共用同一套实现，
+ * 这里只补充前端展示用的辅助函数。
  *
- * 扩展规则：
+ * 使用方式：
  *
  * ```typescript
- * import { registerRule, PropagationRule } from './utils/propagation';
- *
- * class MyCustomRule implements PropagationRule {
- *   // 实现规则接口
- * }
+ * import { propagateStates, getStatusIndicator } from './utils/propagation';
  *
- * registerRule(new MyCustomRule());
+ * const result = propagateStates(nodes, edges);
+ * const indicator = getStatusIndicator(result.nodes[0].computedStatus);
  * ```
  */
 
-// 核心类型
-export { LogicState, DEFAULT_CONFIG, NODE_TYPE_ALLOWED_STATES } from './types';
-export type {
-  NodeState,
-  PropagationInput,
-  PropagationOutput,
-  PropagationRule,
-  PropagationEngineConfig,
-  PropagationResult,
-  PropagationEvent,
-} from './types';
-
-// 引擎
-export { PropagationEngine, defaultEngine } from './engine';
+import type { ComputedStatus } from '../../types';
 
-// 规则注册
 export {
+  StatePropagationEngine,
+  propagateStates,
   registerRule,
   getRule,
   getAllRules,
   hasRule,
-  // 内置规则类
-  DependsRule,
-  SupportsRule,
-  AchievesRule,
-  HindersRule,
-  CausesRule,
-  ConflictsRule,
-} from './rules';
-
-// 便捷函数
-import { GraphNode, GraphEdge } from '../../types';
-import { PropagationEngine } from './engine';
-import { LogicState, NodeState, PropagationResult } from './types';
+} from '@solvechain/shared';
+export type {
+  PropagatedNode,
+  PropagationRule,
+  PropagationResult,
+  PropagationOptions,
+  BaseStatusUpdate,
+} from '@solvechain/shared';
 
-/**
- * 快速运行传播算法
- */
-export function runPropagation(
-  nodes: GraphNode[],
-  edges: GraphEdge[],
-  initialStates?: Map<string, Partial<NodeState>>
-): PropagationResult {
-  const engine = new PropagationEngine();
-  return engine.run(nodes, edges, initialStates);
+/** 节点上的计算状态指示器 */
+export interface StatusIndicator {
+  symbol: string;
+  label: string;
+  color: string;
 }
 
 /**
- * 从节点的置信度推断逻辑状态
+ * 获取计算状态的指示器（按严重程度取最显著的一项）
+ * 没有需要提示的状态时返回 null
  */
-export function inferLogicState(confidence: number): LogicState {
-  if (confidence >= 80) return LogicState.TRUE;
-  if (confidence <= 20) return LogicState.FALSE;
-  return LogicState.UNKNOWN;
-}
+export function getStatusIndicator(status: ComputedStatus | undefined): StatusIndicator | null {
+  if (!status) return null;
 
-/**
- * 获取逻辑状态的显示文本
- */
-export function getLogicStateLabel(state: LogicState): string {
-  switch (state) {
-    case LogicState.TRUE:
-      return '真';
-    case LogicState.FALSE:
-      return '假';
-    case LogicState.UNKNOWN:
-      return '未知';
-    case LogicState.CONFLICT:
-      return '冲突';
-    default:
-      return '未知';
+  if (status.conflicted) {
+    return { symbol: '!', label: '矛盾', color: '#f59e0b' }; // amber-500
   }
-}
-
-/**
- * 获取逻辑状态的颜色
- */
-export function getLogicStateColor(state: LogicState): string {
-  switch (state) {
-    case LogicState.TRUE:
-      return '#22c55e'; // green-500
-    case LogicState.FALSE:
-      return '#ef4444'; // red-500
-    case LogicState.UNKNOWN:
-      return '#6b7280'; // gray-500
-    case LogicState.CONFLICT:
-      return '#f59e0b'; // amber-500
-    default:
-      return '#6b7280';
+  if (status.blocked) {
+    return { symbol: '×', label: '受阻', color: '#ef4444' }; // red-500
+  }
+  if (status.threatened) {
+    return { symbol: '↓', label: '受威胁', color: '#f97316' }; // orange-500
+  }
+  if (status.executable) {
+    return { symbol: '▶', label: '可执行', color: '#3b82f6' }; // blue-500
+  }
+  if (status.achievable) {
+    return { symbol: '✓', label: '可达成', color: '#22c55e' }; // green-500
   }
+  return null;
 }
@@ -0,0 +1,539 @@
+/**
+ * 决策报告
+ *
+ * 把项目整理成可离线阅读的 Markdown / 单文件 HTML：项目概况、各场景关系图（内嵌 SVG）、
+ * 目标可行性结论与风险、建议的下一步行动、按置信度排序的未确定假设，以及保存过的 AI 分析。
+ * 报告不引用任何外部资源，图由节点坐标直接绘制。
+ */
+
+import {
+  analyzeNextAction,
+  analyzeFeasibility,
+  getEffectiveConfidence,
+  isUncertainNode,
+  FeasibilityResult,
+  Risk,
+} from '@solvechain/shared';
+import {
+  SceneGraphNode,
+  GraphEdge,
+  NodeType,
+  EdgeType,
+  NODE_TYPE_CONFIG,
+  EDGE_TYPE_CONFIG,
+  AIConversation,
+  LLMStructuredResult,
+  getStatusOptionsForType,
+} from '../types';
+import { hierarchicalLayout } from './layoutAlgorithms';
+
+export interface ReportSceneInput {
+  name: string;
+  description?: string;
+  // 场景成员及其场景内坐标
+  members: Array<{ id: string; x: number; y: number }>;
+}
+
+export interface ReportInput {
+  title: string;
+  description?: string;
+  scenes: ReportSceneInput[];
+  nodes: SceneGraphNode[];
+  edges: GraphEdge[];
+  conversations: AIConversation[];
+  sceneNames: Map<string, string>; // 对话所属场景的名称
+}
+
+export interface ReportGoal {
+  node: SceneGraphNode;
+  verdict: FeasibilityResult['verdict'];
+  score: number;
+  summary: string;
+  risks: Risk<SceneGraphNode>[];
+}
+
+export interface ReportAIAnalysis {
+  conversationTitle: string;
+  sceneName: string;
+  kind: string;
+  createdAt: string; // ISO 时间
+  summary: string;
+  items: string[];
+}
+
+export interface DecisionReport {
+  title: string;
+  description?: string;
+  generatedAt: string;
+  stats: Array<{ label: string; count: number }>;
+  scenes: Array<{ name: string; description?: string; svg: string; nodeCount: number; edgeCount: number }>;
+  goals: ReportGoal[];
+  nextAction: { title: string; reason: string } | null;
+  nextActionSummary: string;
+  assumptions: Array<{ node: SceneGraphNode; confidence: number }>;
+  aiAnalyses: ReportAIAnalysis[];
+}
+
+export const VERDICT_LABELS: Record<FeasibilityResult['verdict'], string> = {
+  highly_feasible: '高度可行',
+  feasible: '可行',
+  uncertain: '不确定',
+  challenging: '有挑战',
+  infeasible: '不可行',
+};
+
+const SEVERITY_LABELS: Record<Risk['severity'], string> = { high: '高', medium: '中', low: '低' };
+
+const AI_KIND_LABELS: Record<LLMStructuredResult['type'], string> = {
+  risk: '风险分析',
+  next_step: '下一步建议',
+  logic_check: '逻辑检查',
+  completion: '补全建议',
+};
+
+// 每个目标在报告中列出的风险数
+const MAX_RISKS_PER_GOAL = 3;
+
+/**
+ * 收集报告数据（分析范围为整个项目，与分析面板一致）
+ */
+export function buildDecisionReport(input: ReportInput): DecisionReport {
+  const { nodes, edges } = input;
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+  const stats = Object.entries(NODE_TYPE_CONFIG)
+    .map(([type, config]) => ({ label: config.label, count: nodes.filter(n => n.type === type).length }))
+    .filter(s => s.count > 0);
+  stats.push({ label: '关系', count: edges.length });
+
+  const scenes = input.scenes.map(scene => {
+    const sceneNodes = scene.members
+      .filter(m => nodeById.has(m.id))
+      .map(m => ({ ...nodeById.get(m.id)!, positionX: m.x, positionY: m.y }));
+    const ids = new Set(sceneNodes.map(n => n.id));
+    const sceneEdges = edges.filter(e => ids.has(e.sourceNodeId) && ids.has(e.targetNodeId));
+    return {
+      name: scene.name,
+      description: scene.description,
+      svg: renderGraphSvg(sceneNodes, sceneEdges),
+      nodeCount: sceneNodes.length,
+      edgeCount: sceneEdges.length,
+    };
+  });
+
+  const goals: ReportGoal[] = nodes
+    .filter(n => n.type === NodeType.GOAL)
+    .map(goal => {
+      const result = analyzeFeasibility(nodes, edges, goal.id);
+      return {
+        node: goal,
+        verdict: result.verdict,
+        score: Math.round(result.normalizedScore),
+        summary: result.summary,
+        risks: result.risks.slice(0, MAX_RISKS_PER_GOAL),
+      };
+    });
+
+  const next = nodes.length > 0 ? analyzeNextAction(nodes, edges) : null;
+
+  const assumptions = nodes
+    .filter(n => n.type === NodeType.ASSUMPTION && isUncertainNode(n))
+    .map(node => ({ node, confidence: getEffectiveConfidence(node) }))
+    .sort((a, b) => a.confidence - b.confidence);
+
+  return {
+    title: input.title,
+    description: input.description,
+    generatedAt: new Date().toLocaleString('zh-CN'),
+    stats,
+    scenes,
+    goals,
+    nextAction: next?.suggestedAction
+      ? { title: next.suggestedAction.action.title, reason: next.suggestedAction.reason }
+      : null,
+    nextActionSummary: next?.summary ?? '项目中没有节点。',
+    assumptions,
+    aiAnalyses: collectAIAnalyses(input.conversations, input.sceneNames),
+  };
+}
+
+/**
+ * 从对话记录中取出结构化的 AI 分析（风险、下一步、逻辑检查、补全），按时间先后排列
+ */
+function collectAIAnalyses(conversations: AIConversation[], sceneNames: Map<string, string>): ReportAIAnalysis[] {
+  const analyses: ReportAIAnalysis[] = [];
+  conversations.forEach(conversation => {
+    conversation.messages.forEach(message => {
+      const result = message.structuredData;
+      if (message.role !== 'assistant' || !result) return;
+
+      let items: string[];
+      switch (result.type) {
+        case 'risk':
+          items = result.data.risks.map(r => `[${SEVERITY_LABELS[r.level]}] ${r.nodeName}：${r.description}`);
+          break;
+        case 'next_step':
+          items = result.data.actionQueue.map(a => `${a.priority}. ${a.nodeName}：${a.reason}`);
+          break;
+        case 'logic_check':
+          items = result.data.issues.map(i => `${i.severity === 'error' ? '错误' : '警告'}：${i.description}`);
+          break;
+        case 'completion':
+          items = result.data.suggestions.map(s => `${s.node.title}：${s.reason}`);
+          break;
+      }
+
+      analyses.push({
+        conversationTitle: conversation.title,
+        sceneName: conversation.sceneId ? sceneNames.get(conversation.sceneId) ?? '已删除的场景' : '概览',
+        kind: AI_KIND_LABELS[result.type],
+        createdAt: message.createdAt,
+        summary: result.data.summary,
+        items,
+      });
+    });
+  });
+  return analyses.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// ============ 关系图 SVG ============
+
+const SVG_NODE_WIDTH = 150;
+const SVG_NODE_HEIGHT = 60;
+const SVG_PADDING = 40;
+const TITLE_CHARS_PER_LINE = 10;
+
+const DASH_ARRAYS: Record<string, string> = { dashed: '6 4', dotted: '2 4' };
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 标题按字数折成最多两行，超出部分省略 */
+function wrapTitle(title: string): string[] {
+  const chars = Array.from(title);
+  if (chars.length <= TITLE_CHARS_PER_LINE) return [title];
+  const second = chars.slice(TITLE_CHARS_PER_LINE, TITLE_CHARS_PER_LINE * 2);
+  if (chars.length > TITLE_CHARS_PER_LINE * 2) second[second.length - 1] = '…';
+  return [chars.slice(0, TITLE_CHARS_PER_LINE).join(''), second.join('')];
+}
+
+/** 从节点中心指向 (tx, ty) 的射线与节点矩形边框的交点 */
+function clipToNodeBorder(cx: number, cy: number, tx: number, ty: number): [number, number] {
+  const dx = tx - cx;
+  const dy = ty - cy;
+  if (dx === 0 && dy === 0) return [cx, cy];
+  const scale = Math.min(
+    dx === 0 ? Infinity : (SVG_NODE_WIDTH / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (SVG_NODE_HEIGHT / 2) / Math.abs(dy)
+  );
+  return [cx + dx * scale, cy + dy * scale];
+}
+
+/**
+ * 按节点坐标（节点中心）绘制静态关系图；坐标全为 0 时用分层布局
+ */
+export function renderGraphSvg(nodes: SceneGraphNode[], edges: GraphEdge[]): string {
+  if (nodes.length === 0) {
+    return '<svg xmlns="http://www.w3.org/2000/svg" width="320" height="60" viewBox="0 0 320 60">' +
+      '<text x="160" y="34" text-anchor="middle" font-size="13" fill="#9ca3af">（空场景）</text></svg>';
+  }
+
+  const positions = new Map(nodes.map(n => [n.id, { x: n.positionX, y: n.positionY }]));
+  if (nodes.every(n => n.positionX === 0 && n.positionY === 0)) {
+    hierarchicalLayout(nodes, edges).positions.forEach((pos, id) => positions.set(id, pos));
+  }
+
+  const xs = Array.from(positions.values()).map(p => p.x);
+  const ys = Array.from(positions.values()).map(p => p.y);
+  const minX = Math.min(...xs) - SVG_NODE_WIDTH / 2 - SVG_PADDING;
+  const minY = Math.min(...ys) - SVG_NODE_HEIGHT / 2 - SVG_PADDING;
+  const width = Math.max(...xs) - Math.min(...xs) + SVG_NODE_WIDTH + SVG_PADDING * 2;
+  const height = Math.max(...ys) - Math.min(...ys) + SVG_NODE_HEIGHT + SVG_PADDING * 2;
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width)}" height="${Math.round(height)}" ` +
+    `viewBox="${Math.round(minX)} ${Math.round(minY)} ${Math.round(width)} ${Math.round(height)}" ` +
+    'font-family="-apple-system, BlinkMacSystemFont, \'PingFang SC\', \'Microsoft YaHei\', sans-serif">'
+  );
+
+  // 每种关系类型一个箭头
+  const usedEdgeTypes = Array.from(new Set(edges.map(e => e.type)));
+  parts.push('<defs>');
+  usedEdgeTypes.forEach(type => {
+    const color = EDGE_TYPE_CONFIG[type as EdgeType]?.color ?? '#94a3b8';
+    parts.push(
+      `<marker id="arrow-${type}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">` +
+      `<path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`
+    );
+  });
+  parts.push('</defs>');
+
+  edges.forEach(edge => {
+    const source = positions.get(edge.sourceNodeId);
+    const target = positions.get(edge.targetNodeId);
+    if (!source || !target) return;
+    const config = EDGE_TYPE_CONFIG[edge.type as EdgeType];
+    const color = config?.color ?? '#94a3b8';
+    const [x1, y1] = clipToNodeBorder(source.x, source.y, target.x, target.y);
+    const [x2, y2] = clipToNodeBorder(target.x, target.y, source.x, source.y);
+    const dash = DASH_ARRAYS[config?.lineStyle ?? 'solid'];
+    parts.push(
+      `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" ` +
+      `stroke="${color}" stroke-width="${config?.lineStyle === 'double' ? 3 : 1.5}"` +
+      (dash ? ` stroke-dasharray="${dash}"` : '') +
+      ` marker-end="url(#arrow-${edge.type})"` +
+      (config?.arrowStart && config.arrowStart !== 'none' ? ` marker-start="url(#arrow-${edge.type})"` : '') +
+      '/>'
+    );
+    if (config) {
+      parts.push(
+        `<text x="${((x1 + x2) / 2).toFixed(1)}" y="${((y1 + y2) / 2 - 4).toFixed(1)}" text-anchor="middle" ` +
+        `font-size="11" fill="${color}" stroke="#ffffff" stroke-width="3" paint-order="stroke">${escapeXml(config.label)}</text>`
+      );
+    }
+  });
+
+  nodes.forEach(node => {
+    const pos = positions.get(node.id)!;
+    const config = NODE_TYPE_CONFIG[node.type];
+    const x = pos.x - SVG_NODE_WIDTH / 2;
+    const y = pos.y - SVG_NODE_HEIGHT / 2;
+    const status = getStatusOptionsForType(node.type).find(o => o.value === node.baseStatus)?.label;
+    const lines = wrapTitle(node.title);
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${SVG_NODE_WIDTH}" height="${SVG_NODE_HEIGHT}" rx="8" ` +
+      `fill="${config?.bgColor ?? '#f3f4f6'}" stroke="${config?.color ?? '#9ca3af'}" stroke-width="1.5"/>`
+    );
+    parts.push(
+      `<text x="${x + 8}" y="${y + 14}" font-size="10" fill="${config?.color ?? '#6b7280'}">` +
+      `${escapeXml(config?.label ?? node.type)}${status ? ` · ${escapeXml(status)}` : ''}</text>`
+    );
+    lines.forEach((line, i) => {
+      const lineY = pos.y + 8 + (i - (lines.length - 1) / 2) * 15;
+      parts.push(
+        `<text x="${pos.x}" y="${lineY.toFixed(1)}" text-anchor="middle" font-size="13" fill="#1f2937">${escapeXml(line)}</text>`
+      );
+    });
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// ============ Markdown ============
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN');
+}
+
+/** Markdown 表格单元格中的竖线和换行需要转义 */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function renderReportMarkdown(report: DecisionReport): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${report.title} · 决策报告`, '');
+  lines.push(`> 生成于 ${report.generatedAt}`, '');
+  if (report.description) lines.push(report.description, '');
+
+  lines.push('## 项目概况', '');
+  lines.push(report.stats.map(s => `${s.label} ${s.count}`).join(' · '), '');
+
+  lines.push('## 建议的下一步', '');
+  if (report.nextAction) {
+    lines.push(`**${report.nextAction.title}** — ${report.nextAction.reason}`, '');
+  }
+  lines.push(report.nextActionSummary, '');
+
+  lines.push('## 目标可行性', '');
+  if (report.goals.length === 0) {
+    lines.push('项目中没有目标节点。', '');
+  } else {
+    lines.push('| 目标 | 结论 | 评分 | 说明 |', '| --- | --- | --- | --- |');
+    report.goals.forEach(goal => {
+      lines.push(`| ${cell(goal.node.title)} | ${VERDICT_LABELS[goal.verdict]} | ${goal.score} | ${cell(goal.summary)} |`);
+    });
+    lines.push('');
+    const withRisks = report.goals.filter(g => g.risks.length > 0);
+    if (withRisks.length > 0) {
+      lines.push('### 主要风险', '');
+      withRisks.forEach(goal => {
+        lines.push(`**${goal.node.title}**`, '');
+        goal.risks.forEach(risk => lines.push(`- [${SEVERITY_LABELS[risk.severity]}] ${risk.description}`));
+        lines.push('');
+      });
+    }
+  }
+
+  lines.push('## 未确定的假设', '');
+  if (report.assumptions.length === 0) {
+    lines.push('没有未确定的假设。', '');
+  } else {
+    lines.push('按置信度从低到高排列，越靠前越需要验证。', '');
+    lines.push('| 假设 | 置信度 |', '| --- | --- |');
+    report.assumptions.forEach(a => lines.push(`| ${cell(a.node.title)} | ${a.confidence}% |`));
+    lines.push('');
+  }
+
+  lines.push('## 场景', '');
+  if (report.scenes.length === 0) {
+    lines.push('项目中没有场景。', '');
+  }
+  report.scenes.forEach(scene => {
+    lines.push(`### ${scene.name}`, '');
+    if (scene.description) lines.push(scene.description, '');
+    lines.push(`${scene.nodeCount} 个节点，${scene.edgeCount} 条关系`, '');
+    lines.push(scene.svg, '');
+  });
+
+  if (report.aiAnalyses.length > 0) {
+    lines.push('## AI 分析记录', '');
+    report.aiAnalyses.forEach(analysis => {
+      lines.push(`### ${analysis.kind} · ${analysis.sceneName}`, '');
+      lines.push(`> ${analysis.conversationTitle} · ${formatTime(analysis.createdAt)}`, '');
+      lines.push(analysis.summary, '');
+      analysis.items.forEach(item => lines.push(`- ${item}`));
+      if (analysis.items.length > 0) lines.push('');
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// ============ HTML ============
+
+const REPORT_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #1f2937; font: 14px/1.7 -apple-system, BlinkMacSystemFont, 'PingFang SC', 'Microsoft YaHei', sans-serif; }
+  main { max-width: 960px; margin: 0 auto; padding: 40px 24px 80px; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 19px; margin: 36px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #e5e7eb; }
+  h3 { font-size: 15px; margin: 20px 0 8px; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .stats { display: flex; flex-wrap: wrap; gap: 8px; }
+  .stat { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 6px 12px; }
+  .stat b { font-size: 16px; margin-left: 6px; }
+  .card { background: #fff; border: 1px solid #e5e7eb; border-radius: 10px; padding: 14px 18px; margin: 10px 0; }
+  .next { border-left: 4px solid #3b82f6; }
+  table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden; }
+  th, td { text-align: left; padding: 8px 12px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { background: #f8fafc; font-weight: 600; font-size: 13px; }
+  .badge { display: inline-block; padding: 0 8px; border-radius: 999px; font-size: 12px; white-space: nowrap; }
+  .verdict-good { background: #dcfce7; color: #15803d; }
+  .verdict-mid { background: #fef3c7; color: #b45309; }
+  .verdict-bad { background: #fee2e2; color: #b91c1c; }
+  .bar { height: 6px; background: #f1f5f9; border-radius: 3px; min-width: 80px; }
+  .bar > div { height: 100%; border-radius: 3px; background: #f59e0b; }
+  .risks { margin: 6px 0 0; padding-left: 18px; color: #4b5563; font-size: 13px; }
+  .graph { overflow-x: auto; background: #fff; border: 1px solid #e5e7eb; border-radius: 10px; padding: 8px; }
+  .graph svg { display: block; max-width: 100%; height: auto; margin: 0 auto; }
+  ul { margin: 6px 0; padding-left: 20px; }
+  @media print { body { background: #fff; } .graph { break-inside: avoid; } }
+`;
+
+const VERDICT_CLASSES: Record<FeasibilityResult['verdict'], string> = {
+  highly_feasible: 'verdict-good',
+  feasible: 'verdict-good',
+  uncertain: 'verdict-mid',
+  challenging: 'verdict-mid',
+  infeasible: 'verdict-bad',
+};
+
+export function renderReportHtml(report: DecisionReport): string {
+  const e = escapeXml;
+  const body: string[] = [];
+
+  body.push(`<h1>${e(report.title)} · 决策报告</h1>`);
+  body.push(`<p class="meta">生成于 ${e(report.generatedAt)}</p>`);
+  if (report.description) body.push(`<p>${e(report.description)}</p>`);
+
+  body.push('<h2>项目概况</h2><div class="stats">');
+  report.stats.forEach(s => body.push(`<span class="stat">${e(s.label)}<b>${s.count}</b></span>`));
+  body.push('</div>');
+
+  body.push('<h2>建议的下一步</h2><div class="card next">');
+  if (report.nextAction) {
+    body.push(`<p><b>${e(report.nextAction.title)}</b> — ${e(report.nextAction.reason)}</p>`);
+  }
+  body.push(`<p class="meta">${e(report.nextActionSummary)}</p></div>`);
+
+  body.push('<h2>目标可行性</h2>');
+  if (report.goals.length === 0) {
+    body.push('<p class="meta">项目中没有目标节点。</p>');
+  } else {
+    body.push('<table><thead><tr><th>目标</th><th>结论</th><th>评分</th><th>说明与风险</th></tr></thead><tbody>');
+    report.goals.forEach(goal => {
+      const risks = goal.risks.length > 0
+        ? `<ul class="risks">${goal.risks.map(r => `<li>[${SEVERITY_LABELS[r.severity]}] ${e(r.description)}</li>`).join('')}</ul>`
+        : '';
+      body.push(
+        `<tr><td>${e(goal.node.title)}</td>` +
+        `<td><span class="badge ${VERDICT_CLASSES[goal.verdict]}">${VERDICT_LABELS[goal.verdict]}</span></td>` +
+        `<td>${goal.score}</td><td>${e(goal.summary)}${risks}</td></tr>`
+      );
+    });
+    body.push('</tbody></table>');
+  }
+
+  body.push('<h2>未确定的假设</h2>');
+  if (report.assumptions.length === 0) {
+    body.push('<p class="meta">没有未确定的假设。</p>');
+  } else {
+    body.push('<p class="meta">按置信度从低到高排列，越靠前越需要验证。</p>');
+    body.push('<table><thead><tr><th>假设</th><th style="width:200px">置信度</th></tr></thead><tbody>');
+    report.assumptions.forEach(a => {
+      body.push(
+        `<tr><td>${e(a.node.title)}</td><td>${a.confidence}%` +
+        `<div class="bar"><div style="width:${a.confidence}%"></div></div></td></tr>`
+      );
+    });
+    body.push('</tbody></table>');
+  }
+
+  body.push('<h2>场景</h2>');
+  if (report.scenes.length === 0) {
+    body.push('<p class="meta">项目中没有场景。</p>');
+  }
+  report.scenes.forEach(scene => {
+    body.push(`<h3>${e(scene.name)}</h3>`);
+    if (scene.description) body.push(`<p>${e(scene.description)}</p>`);
+    body.push(`<p class="meta">${scene.nodeCount} 个节点，${scene.edgeCount} 条关系</p>`);
+    body.push(`<div class="graph">${scene.svg}</div>`);
+  });
+
+  if (report.aiAnalyses.length > 0) {
+    body.push('<h2>AI 分析记录</h2>');
+    report.aiAnalyses.forEach(analysis => {
+      body.push('<div class="card">');
+      body.push(`<h3>${e(analysis.kind)} · ${e(analysis.sceneName)}</h3>`);
+      body.push(`<p class="meta">${e(analysis.conversationTitle)} · ${e(formatTime(analysis.createdAt))}</p>`);
+      body.push(`<p>${e(analysis.summary)}</p>`);
+      if (analysis.items.length > 0) {
+        body.push(`<ul>${analysis.items.map(item => `<li>${e(item)}</li>`).join('')}</ul>`);
+      }
+      body.push('</div>');
+    });
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${e(report.title)} · 决策报告</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    '</head>',
+    '<body><main>',
+    ...body,
+    '</main></body>',
+    '</html>',
+  ].join('\n');
+}
@@ -0,0 +1,159 @@
+/**
+ * 假设推演（what-if）
+ *
+ * 在内存副本上临时修改事实/假设的基础状态、假设的置信度和关系强度，
+ * 分别对修改前后的图运行状态传播，列出计算状态发生变化的节点。
+ * 推演不会写入 localStore，确认后由调用方把覆盖值逐项提交。
+ *
+ * 正式的状态传播不使用关系强度；推演中调整过强度的关系，
+ * 其可行性贡献按「新强度 / 原强度」缩放，其余关系保持不变。
+ */
+
+import { GraphEdge, GraphNode, ComputedStatus, BaseStatus } from '../types';
+import { propagateStates } from './propagation';
+
+export interface WhatIfNodeOverride {
+  baseStatus?: BaseStatus;
+  confidence?: number;
+}
+
+export interface WhatIfEdgeOverride {
+  strength?: number;
+}
+
+export interface WhatIfOverrides {
+  nodes: Record<string, WhatIfNodeOverride>;
+  edges: Record<string, WhatIfEdgeOverride>;
+}
+
+export const EMPTY_WHAT_IF: WhatIfOverrides = { nodes: {}, edges: {} };
+
+// 参与对比的计算状态字段
+export type WhatIfField = 'blocked' | 'threatened' | 'feasibilityScore' | 'executable' | 'achievable';
+
+export interface WhatIfChange {
+  field: WhatIfField;
+  label: string;
+  before: boolean | number;
+  after: boolean | number;
+  better: boolean;          // 这一项变化是否对节点有利
+}
+
+/**
+ * 节点在推演中的变化方向：
+ * - overridden：被直接修改的节点
+ * - improved / worsened：所有变化都有利 / 都不利
+ * - changed：有利与不利的变化都有
+ */
+export type WhatIfEffect = 'overridden' | 'improved' | 'worsened' | 'changed';
+
+export interface WhatIfDelta {
+  nodeId: string;
+  title: string;
+  type: string;
+  effect: WhatIfEffect;
+  changes: WhatIfChange[];
+}
+
+export interface WhatIfResult {
+  nodes: GraphNode[];                   // 应用覆盖值后的节点
+  edges: GraphEdge[];                   // 应用覆盖值后的关系
+  before: Map<string, ComputedStatus>;
+  after: Map<string, ComputedStatus>;
+  deltas: WhatIfDelta[];
+  highlights: { nodes: Map<string, WhatIfEffect>; edges: Set<string> };
+}
+
+const FIELD_LABELS: Record<WhatIfField, string> = {
+  blocked: '受阻',
+  threatened: '受威胁',
+  feasibilityScore: '可行性得分',
+  executable: '可执行',
+  achievable: '可达成',
+};
+
+// 取值为 true 时对节点不利的字段
+const NEGATIVE_FIELDS = new Set<WhatIfField>(['blocked', 'threatened']);
+
+// 可行性得分的比较精度，避免浮点误差被当作变化
+const SCORE_EPSILON = 1e-6;
+
+/** 是否设置了任何覆盖值 */
+export function hasWhatIfOverrides(overrides: WhatIfOverrides): boolean {
+  return Object.keys(overrides.nodes).length > 0 || Object.keys(overrides.edges).length > 0;
+}
+
+/** 把覆盖值应用到节点和关系的副本上 */
+export function applyWhatIfOverrides(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  overrides: WhatIfOverrides
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  return {
+    nodes: nodes.map((n) => (overrides.nodes[n.id] ? { ...n, ...overrides.nodes[n.id] } : n)),
+    edges: edges.map((e) => (overrides.edges[e.id] ? { ...e, ...overrides.edges[e.id] } : e)),
+  };
+}
+
+function compareStatus(before: ComputedStatus, after: ComputedStatus): WhatIfChange[] {
+  const changes: WhatIfChange[] = [];
+  for (const field of Object.keys(FIELD_LABELS) as WhatIfField[]) {
+    const b = before[field];
+    const a = after[field];
+    if (field === 'feasibilityScore') {
+      if (Math.abs((a as number) - (b as number)) < SCORE_EPSILON) continue;
+      changes.push({ field, label: FIELD_LABELS[field], before: b, after: a, better: a > b });
+    } else if (a !== b) {
+      changes.push({ field, label: FIELD_LABELS[field], before: b, after: a, better: NEGATIVE_FIELDS.has(field) ? !a : !!a });
+    }
+  }
+  return changes;
+}
+
+/**
+ * 运行推演：对原图和应用覆盖值后的图各做一次状态传播并逐节点比较。
+ * 被直接修改的节点即使计算状态没变也会列出。
+ */
+export function simulateWhatIf(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  overrides: WhatIfOverrides
+): WhatIfResult {
+  const sandbox = applyWhatIfOverrides(nodes, edges, overrides);
+  const before = new Map(propagateStates(nodes, edges).nodes.map((n) => [n.id, n.computedStatus]));
+  const originalStrength = new Map(edges.map((e) => [e.id, e.strength || 1.0]));
+  const feasibilityScale = (edge: GraphEdge) => {
+    const override = overrides.edges[edge.id]?.strength;
+    return override === undefined ? 1 : override / originalStrength.get(edge.id)!;
+  };
+  const after = new Map(
+    propagateStates(sandbox.nodes, sandbox.edges, { feasibilityScale }).nodes.map((n) => [n.id, n.computedStatus])
+  );
+
+  const deltas: WhatIfDelta[] = [];
+  const highlightNodes = new Map<string, WhatIfEffect>();
+  for (const node of nodes) {
+    const b = before.get(node.id);
+    const a = after.get(node.id);
+    const changes = b && a ? compareStatus(b, a) : [];
+    const overridden = !!overrides.nodes[node.id];
+    if (changes.length === 0 && !overridden) continue;
+
+    let effect: WhatIfEffect;
+    if (overridden) effect = 'overridden';
+    else if (changes.every((c) => c.better)) effect = 'improved';
+    else if (changes.every((c) => !c.better)) effect = 'worsened';
+    else effect = 'changed';
+
+    deltas.push({ nodeId: node.id, title: node.title, type: node.type, effect, changes });
+    highlightNodes.set(node.id, effect);
+  }
+
+  return {
+    ...sandbox,
+    before,
+    after,
+    deltas,
+    highlights: { nodes: highlightNodes, edges: new Set(Object.keys(overrides.edges)) },
+  };
+}
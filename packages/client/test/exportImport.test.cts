@@ -0,0 +1,163 @@
+/**
+ * 文本格式导入导出测试
+ *
+ * parseGraphText / parseMermaid / parseDot 既要能读回对应导出函数的输出，也要接受手写的文本。
+ * 用 .cts：@solvechain/shared 是 CommonJS 包，测试以 CommonJS 加载才能取到它的具名导出。
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EdgeType, GraphEdge, NodeType, SceneGraphNode } from '../src/types';
+import {
+  exportProjectAsText,
+  exportSceneAsDot,
+  exportSceneAsMermaid,
+  exportSceneAsText,
+  parseDot,
+  parseGraphText,
+  parseMermaid,
+  TextParseResult,
+} from '../src/utils/exportImport';
+
+function node(id: string, type: NodeType, title: string, extra: Partial<SceneGraphNode> = {}): SceneGraphNode {
+  return {
+    id, graphId: 'g', type, title, confidence: 50, weight: 1, status: 'active' as SceneGraphNode['status'],
+    positionX: 0, positionY: 0, createdBy: 'user', createdAt: '', updatedAt: '', ...extra,
+  };
+}
+
+function edge(id: string, sourceNodeId: string, targetNodeId: string, type: EdgeType, extra: Partial<GraphEdge> = {}): GraphEdge {
+  return { id, graphId: 'g', sourceNodeId, targetNodeId, type, strength: 1, createdBy: 'user', createdAt: '', updatedAt: '', ...extra };
+}
+
+test('多行内容逐行缩进导出，导入后原样还原', () => {
+  const content = '第一行\n  第二行自带缩进\n\n空行之后的第四行';
+  const nodes = [
+    node('f', NodeType.FACT, '市场需求旺盛', { content, baseStatus: 'confirmed' as SceneGraphNode['baseStatus'] }),
+    node('g', NodeType.GOAL, '季度营收翻倍', { content: '单行内容' }),
+  ];
+  const text = exportSceneAsText('场景', '场景描述', nodes, [edge('e', 'f', 'g', EdgeType.SUPPORTS)]);
+  const result = parseGraphText(text);
+
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.scene.scene.name, '场景');
+  assert.equal(result.scene.scene.description, '场景描述');
+  const [fact, goal] = result.scene.nodes;
+  assert.equal(fact.content, content);
+  assert.equal(fact.baseStatus, 'confirmed');
+  assert.equal(goal.content, '单行内容');
+  assert.deepEqual(
+    result.scene.edges.map(e => [e.sourceNodeId, e.targetNodeId, e.type]),
+    [[fact.id, goal.id, EdgeType.SUPPORTS]]
+  );
+});
+
+test('项目文本中跨场景共享的节点只保留一份内容，未分配节点也带内容', () => {
+  const shared = node('s', NodeType.ASSUMPTION, '竞品不会降价', { content: '依据一\n依据二' });
+  const orphan = node('o', NodeType.CONSTRAINT, '预算上限', { content: '不超过 10 万\n含人力' });
+  const scenes = [
+    { id: 'a', name: '场景一' },
+    { id: 'b', name: '场景二' },
+  ] as Parameters<typeof exportProjectAsText>[2];
+  const text = exportProjectAsText('项目', undefined, scenes, [shared, orphan], [], new Map([['a', ['s']], ['b', ['s']]]));
+  const result = parseGraphText(text);
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.sceneHeadings, ['场景一', '场景二']);
+  assert.deepEqual(
+    result.scene.nodes.map(n => [n.title, n.content]),
+    [['竞品不会降价', '依据一\n依据二'], ['预算上限', '不超过 10 万\n含人力']]
+  );
+});
+
+test('手写文本：关系可以引用后面定义的节点，标签和状态值都能识别', () => {
+  const result = parseGraphText([
+    '## 关系',
+    '推出新品 -实现-> 扩大市场',
+    '## 节点',
+    '行动:推出新品[pending]',
+    'goal：扩大市场',
+  ].join('\n'));
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.scene.nodes.map(n => [n.type, n.title, n.baseStatus]), [
+    [NodeType.ACTION, '推出新品', 'pending'],
+    [NodeType.GOAL, '扩大市场', undefined],
+  ]);
+  assert.equal(result.scene.edges[0].type, EdgeType.ACHIEVES);
+});
+
+test('无法识别的行、未知类型、无效状态和缺失节点都报告行号', () => {
+  const result = parseGraphText([
+    '## 节点',
+    '事实:天气晴朗[成功]',
+    '怪物:不存在的类型',
+    '随便写的一行',
+    '## 关系',
+    '天气晴朗 -促成-> 出游',
+    '天气晴朗 -瞎连-> 出游',
+  ].join('\n'));
+
+  assert.deepEqual(result.errors.map(e => e.line), [2, 3, 4, 6, 7]);
+  assert.match(result.errors[0].message, /不是事实的有效状态/);
+  assert.match(result.errors[1].message, /未知的节点类型「怪物」/);
+  assert.match(result.errors[3].message, /找不到节点「出游」/);
+  assert.match(result.errors[4].message, /未知的关系类型「瞎连」/);
+});
+
+// 往返用的场景：带基础状态、多行与含特殊字符的关系描述、无状态无描述的节点和关系
+const roundTripNodes = [
+  node('f', NodeType.FACT, '市场需求旺盛', { baseStatus: 'confirmed' as SceneGraphNode['baseStatus'] }),
+  node('a', NodeType.ASSUMPTION, '竞品不会降价', { baseStatus: 'negative' as SceneGraphNode['baseStatus'] }),
+  node('g', NodeType.GOAL, '季度营收翻倍'),
+];
+const roundTripEdges = [
+  edge('e1', 'f', 'g', EdgeType.SUPPORTS, { description: '调研显示需求 "持续" 增长\n见附表 | 第 2 页' }),
+  edge('e2', 'a', 'g', EdgeType.HINDERS),
+];
+
+function assertRoundTrip(result: TextParseResult) {
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.unknownShapes, []);
+  assert.deepEqual(result.scene.nodes.map(n => [n.type, n.title, n.baseStatus]), [
+    [NodeType.FACT, '市场需求旺盛', 'confirmed'],
+    [NodeType.ASSUMPTION, '竞品不会降价', 'negative'],
+    [NodeType.GOAL, '季度营收翻倍', undefined],
+  ]);
+  const titleOf = new Map(result.scene.nodes.map(n => [n.id, n.title]));
+  assert.deepEqual(
+    result.scene.edges.map(e => [titleOf.get(e.sourceNodeId), titleOf.get(e.targetNodeId), e.type, e.description]),
+    [
+      ['市场需求旺盛', '季度营收翻倍', EdgeType.SUPPORTS, '调研显示需求 "持续" 增长\n见附表 | 第 2 页'],
+      ['竞品不会降价', '季度营收翻倍', EdgeType.HINDERS, undefined],
+    ]
+  );
+}
+
+test('文本格式：基础状态和多行关系描述往返', () => {
+  assertRoundTrip(parseGraphText(exportSceneAsText('场景', undefined, roundTripNodes, roundTripEdges)));
+});
+
+test('Mermaid：基础状态和关系描述写在文字中，导入时拆回', () => {
+  assertRoundTrip(parseMermaid(exportSceneAsMermaid('场景', roundTripNodes, roundTripEdges)));
+});
+
+test('DOT：基础状态和关系描述写在文字中，导入时拆回', () => {
+  assertRoundTrip(parseDot(exportSceneAsDot('场景', roundTripNodes, roundTripEdges)));
+});
+
+test('图表文字中不是有效状态的方括号、不是关系类型的前缀保留原文', () => {
+  const result = parseMermaid([
+    'flowchart LR',
+    '  a["第[3]季度[成功]"]:::fact',
+    '  b(["增长"]):::goal',
+    '  a -->|备注：先看数据| b',
+  ].join('\n'));
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.scene.nodes.map(n => [n.title, n.baseStatus]), [
+    ['第[3]季度[成功]', undefined],
+    ['增长', undefined],
+  ]);
+  assert.deepEqual(result.scene.edges.map(e => [e.type, e.description]), [[EdgeType.SUPPORTS, '备注：先看数据']]);
+});
@@ -0,0 +1,42 @@
+/**
+ * 助手工具调用预览测试
+ *
+ * previewToolCalls 对照当前图校验每个调用，不合法的调用带 error，不会被写入。
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphNode, GraphToolCall, NodeType } from '../src/types';
+import { previewToolCalls } from '../src/services/llm/tools';
+
+const NODES = [
+  {
+    id: 'n1', graphId: 'g', type: NodeType.ASSUMPTION, title: '用户愿意付费', confidence: 50, weight: 1,
+    status: 'active', positionX: 0, positionY: 0, createdBy: 'user', createdAt: '', updatedAt: '',
+  },
+] as GraphNode[];
+
+function updateNode(args: Record<string, unknown>): GraphToolCall {
+  return { id: 'c1', name: 'update_node', arguments: { nodeId: 'n1', ...args } };
+}
+
+function errorOf(args: Record<string, unknown>): string | undefined {
+  return previewToolCalls([updateNode(args)], NODES, [], [], null)[0].error;
+}
+
+test('update_node 接受范围内的置信度和权重', () => {
+  assert.equal(errorOf({ confidence: 0, weight: 0.1 }), undefined);
+  assert.equal(errorOf({ confidence: 100, weight: 2 }), undefined);
+});
+
+test('update_node 拒绝超出范围或不是数字的置信度', () => {
+  for (const confidence of [-1, 101, '80', null]) {
+    assert.match(errorOf({ confidence }) ?? '', /置信度/);
+  }
+});
+
+test('update_node 拒绝超出范围或不是数字的权重', () => {
+  for (const weight of [0, 2.5, '1', NaN]) {
+    assert.match(errorOf({ weight }) ?? '', /权重/);
+  }
+});
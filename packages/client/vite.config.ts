@@ -1,10 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
-import { callProvider, readJsonBody } from './api/_provider'
+import { callProvider, readJsonBody, streamToResponse } from './api/_provider'
 
 // 本地开发用：在 vite dev server 上挂一个 /api/llm-proxy，
-// 复用与 Vercel Serverless Function 同一份 callProvider 逻辑，
+// 复用与 Vercel Serverless Function 同一份 callProvider / streamToResponse 逻辑，
 // 这样本地无需后端也能用 AI（生产环境由 api/llm-proxy.ts 处理）。
 function llmProxyDevPlugin() {
   return {
@@ -18,10 +18,14 @@ function llmProxyDevPlugin() {
         }
         try {
           const body = await readJsonBody(req)
-          const content = await callProvider(body)
+          if (body.stream) {
+            await streamToResponse(body, res)
+            return
+          }
+          const reply = await callProvider(body)
           res.statusCode = 200
           res.setHeader('Content-Type', 'application/json')
-          res.end(JSON.stringify({ content }))
+          res.end(JSON.stringify(reply))
         } catch (err: any) {
           res.statusCode = 400
           res.setHeader('Content-Type', 'application/json')
@@ -38,6 +42,8 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
+    // @solvechain/shared 直接用 TypeScript 源码，不依赖它的构建产物
+    conditions: ['source'],
   },
   server: {
     port: 5173,
@@ -47,6 +53,7 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3001',
         changeOrigin: true,
+        ws: true, // 实时协作的 WebSocket
       },
     },
   },
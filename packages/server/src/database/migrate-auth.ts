@@ -0,0 +1,80 @@
+/**
+ * 数据库迁移：多用户账户
+ *
+ * - users 增加 password_hash（scrypt），email 统一按小写比较
+ * - 新建 sessions 表保存登录令牌（只存令牌的 SHA-256）
+ * - 此前所有数据都归在默认用户 00000000-0000-0000-0000-000000000001 名下；
+ *   补上该用户行，使 projects.user_id 可以加外键。它没有密码，无法登录，
+ *   可在运行迁移时带上已注册的邮箱，把这些数据转给该账户：
+ *
+ * 运行: npx tsx src/database/migrate-auth.ts [接收旧数据的邮箱]
+ */
+
+import { pool } from './db.js';
+
+const LEGACY_USER_ID = '00000000-0000-0000-0000-000000000001';
+
+async function migrateAuth() {
+  console.log('🚀 开始添加账户支持...\n');
+
+  try {
+    await pool.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS password_hash TEXT;
+    `);
+    console.log('✅ users 表已添加 password_hash 字段');
+
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_lower ON users (LOWER(email));
+    `);
+    console.log('✅ 已创建邮箱（不区分大小写）唯一索引');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`);
+    console.log('✅ 已创建 sessions 表');
+
+    await pool.query(
+      `INSERT INTO users (id, email, name)
+       VALUES ($1, 'legacy@solvechain.local', '旧数据')
+       ON CONFLICT (id) DO NOTHING`,
+      [LEGACY_USER_ID]
+    );
+    console.log('✅ 已补上默认用户');
+
+    const ownerEmail = process.argv[2];
+    if (ownerEmail) {
+      const owner = await pool.query('SELECT id FROM users WHERE LOWER(email) = LOWER($1)', [ownerEmail]);
+      if (owner.rows.length === 0) {
+        throw new Error(`账户 ${ownerEmail} 不存在，请先注册`);
+      }
+      const ownerId = owner.rows[0].id;
+      const projects = await pool.query('UPDATE projects SET user_id = $1 WHERE user_id = $2', [ownerId, LEGACY_USER_ID]);
+      const graphs = await pool.query('UPDATE decision_graphs SET user_id = $1 WHERE user_id = $2', [ownerId, LEGACY_USER_ID]);
+      console.log(`✅ 已将 ${projects.rowCount} 个项目、${graphs.rowCount} 个决策图转给 ${ownerEmail}`);
+    }
+
+    await pool.query(`
+      DO $$ BEGIN
+        ALTER TABLE projects
+        ADD CONSTRAINT projects_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+      EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+    `);
+    console.log('✅ projects.user_id 已加外键');
+
+    console.log('\n✅ 账户迁移完成！');
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateAuth();
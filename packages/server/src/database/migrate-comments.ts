@@ -0,0 +1,50 @@
+/**
+ * 数据库迁移：节点/关系评论
+ *
+ * - comments：挂在节点或关系上的评论，parent_id 指向讨论串的第一条；
+ *   解决状态记在第一条上。与其他同步表一样按 updated_at 增量拉取、用 deleted_at 墓碑传播删除
+ * - author_id 为写评论的账户，由服务器在首次推送时写入，客户端不能冒充
+ *
+ * 运行: npx tsx src/database/migrate-comments.ts
+ */
+
+import { pool } from './db.js';
+
+async function migrateComments() {
+  console.log('🚀 开始添加评论支持...\n');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS comments (
+        id UUID PRIMARY KEY,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        target_type VARCHAR(10) NOT NULL CHECK (target_type IN ('node', 'edge')),
+        target_id UUID NOT NULL,
+        parent_id UUID DEFAULT NULL,
+        author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        author_name VARCHAR(255) NOT NULL,
+        body TEXT NOT NULL,
+        mentions JSONB NOT NULL DEFAULT '[]',
+        resolved BOOLEAN NOT NULL DEFAULT FALSE,
+        resolved_by VARCHAR(255) DEFAULT NULL,
+        resolved_at TIMESTAMPTZ DEFAULT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        deleted_at TIMESTAMPTZ DEFAULT NULL
+      );
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_comments_project_id ON comments(project_id)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_comments_target_id ON comments(target_id)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_comments_updated_at ON comments(updated_at)`);
+    console.log('✅ 已创建 comments 表');
+
+    console.log('\n✅ 评论迁移完成！');
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateComments();
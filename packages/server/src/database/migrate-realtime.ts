@@ -0,0 +1,37 @@
+/**
+ * 数据库迁移：实时协作的字段时间戳
+ *
+ * 实时修改按字段带混合逻辑时钟时间戳（见 @solvechain/shared 的 FieldClock），
+ * 服务器记下每条记录每个字段最后写入的时间戳，较早的修改晚到时不再覆盖较新的值。
+ *
+ * 运行: npx tsx src/database/migrate-realtime.ts
+ */
+
+import { pool } from './db.js';
+
+async function migrateRealtime() {
+  console.log('🚀 开始添加实时协作字段时间戳...\n');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS realtime_field_stamps (
+        collection VARCHAR(20) NOT NULL,
+        record_id UUID NOT NULL,
+        field VARCHAR(50) NOT NULL,
+        time BIGINT NOT NULL,
+        client_id TEXT NOT NULL,
+        PRIMARY KEY (collection, record_id, field)
+      );
+    `);
+    console.log('✅ 已创建 realtime_field_stamps 表');
+
+    console.log('\n✅ 实时协作迁移完成！');
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateRealtime();
@@ -0,0 +1,64 @@
+/**
+ * 数据库迁移：项目共享
+ *
+ * - project_members：项目成员及角色（viewer / commenter / editor），所有者仍是 projects.user_id；
+ *   移除成员只打上 removed_at，增量同步据此通知客户端删除本地副本；
+ *   updated_at 记录成员最近一次变化（加入、改角色、移除），客户端据此重新拉取项目
+ * - project_invites：按邮箱或分享码邀请，接受后写入 project_members
+ *
+ * 运行: npx tsx src/database/migrate-sharing.ts
+ */
+
+import { pool } from './db.js';
+
+async function migrateSharing() {
+  console.log('🚀 开始添加项目共享支持...\n');
+
+  try {
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE member_role AS ENUM ('viewer', 'commenter', 'editor');
+      EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+    `);
+    console.log('✅ 已创建 member_role 枚举');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS project_members (
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role member_role NOT NULL,
+        joined_at TIMESTAMPTZ DEFAULT NOW(),
+        removed_at TIMESTAMPTZ DEFAULT NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (project_id, user_id)
+      );
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id)`);
+    console.log('✅ 已创建 project_members 表');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS project_invites (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        email VARCHAR(255),
+        code TEXT NOT NULL UNIQUE,
+        role member_role NOT NULL,
+        created_by TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ
+      );
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_project_invites_project_id ON project_invites(project_id)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_project_invites_email ON project_invites(LOWER(email))`);
+    console.log('✅ 已创建 project_invites 表');
+
+    console.log('\n✅ 项目共享迁移完成！');
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateSharing();
@@ -0,0 +1,68 @@
+/**
+ * 数据库迁移：客户端同步支持
+ *
+ * 客户端（localStore）可选地与服务器双向同步，按记录的 updated_at 拉取增量、
+ * 用 deleted_at 墓碑传播删除，因此：
+ * - projects / scenes / scene_nodes 也改为软删除，scene_nodes 增加 updated_at
+ * - scene_nodes 的唯一约束改为只对未删除的行生效（同 edges）
+ * - nodes 增加 evidence 字段保存结构化证据
+ * - 为各表的 updated_at 建索引，加速增量拉取
+ *
+ * 运行: npx tsx src/database/migrate-sync.ts
+ */
+
+import { pool } from './db.js';
+
+const SYNC_TABLES = ['projects', 'scenes', 'nodes', 'edges', 'scene_nodes'];
+
+async function migrateSync() {
+  console.log('🚀 开始添加同步支持...\n');
+
+  try {
+    for (const table of ['projects', 'scenes', 'scene_nodes']) {
+      await pool.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ DEFAULT NULL;
+      `);
+      console.log(`✅ ${table} 表已添加 deleted_at 字段`);
+    }
+
+    await pool.query(`
+      ALTER TABLE scene_nodes
+      ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+    `);
+    console.log('✅ scene_nodes 表已添加 updated_at 字段');
+
+    await pool.query(`
+      ALTER TABLE nodes
+      ADD COLUMN IF NOT EXISTS evidence JSONB DEFAULT NULL;
+    `);
+    console.log('✅ nodes 表已添加 evidence 字段');
+
+    // scene_nodes 唯一约束改为部分唯一索引，软删除的关联不再阻止重新加入
+    await pool.query(`
+      ALTER TABLE scene_nodes
+      DROP CONSTRAINT IF EXISTS scene_nodes_scene_id_node_id_key;
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_scene_nodes_unique_active
+      ON scene_nodes (scene_id, node_id)
+      WHERE deleted_at IS NULL;
+    `);
+    console.log('✅ 已创建部分唯一索引 idx_scene_nodes_unique_active');
+
+    for (const table of SYNC_TABLES) {
+      await pool.query(`CREATE INDEX IF NOT EXISTS idx_${table}_updated_at ON ${table}(updated_at)`);
+    }
+    console.log('✅ 已创建 updated_at 索引');
+
+    console.log('\n✅ 同步迁移完成！');
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateSync();
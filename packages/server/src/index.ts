@@ -10,8 +10,12 @@ import { edgeRoutes } from './routes/edge.js';
 import { llmRoutes } from './routes/llm.js';
 import { projectRoutes } from './routes/project.js';
 import { sceneRoutes } from './routes/scene.js';
+import { authRoutes } from './routes/auth.js';
+import { sharingRoutes } from './routes/sharing.js';
 import analysisRoutes from './routes/analysis.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { requireAuth } from './middleware/auth.js';
+import { attachRealtime, REALTIME_PATH } from './services/realtime/index.js';
 
 dotenv.config();
 
@@ -27,33 +31,43 @@ app.use(cors({
   credentials: true
 }));
 app.use(compression());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // 同步推送可能包含整个项目
 
 // 健康检查
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// 账户（注册/登录无需令牌，其余 API 都要求登录）
+app.use('/api/auth', authRoutes);
+
 // API 路由 (v1 - 决策图模型)
-app.use('/api/graphs', graphRoutes);
-app.use('/api/nodes', nodeRoutes);
-app.use('/api/edges', edgeRoutes);
-app.use('/api/llm', llmRoutes);
+app.use('/api/graphs', requireAuth, graphRoutes);
+app.use('/api/nodes', requireAuth, nodeRoutes);
+app.use('/api/edges', requireAuth, edgeRoutes);
+app.use('/api/llm', requireAuth, llmRoutes);
 
 // API 路由 (v2 - 项目-场景模型)
-app.use('/api/projects', projectRoutes);
-app.use('/api/scenes', sceneRoutes);
+app.use('/api/projects', requireAuth, projectRoutes);
+app.use('/api/scenes', requireAuth, sceneRoutes);
 
 // API 路由 (v2.1.1 - 分析模块)
-app.use('/api', analysisRoutes);
+app.use('/api', requireAuth, analysisRoutes);
+
+// API 路由 (项目共享 - 成员与邀请)
+app.use('/api', requireAuth, sharingRoutes);
 
 // 错误处理
 app.use(errorHandler);
 
 // 启动服务器
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 SolveChain API 服务已启动: http://localhost:${PORT}`);
   console.log(`📊 健康检查: http://localhost:${PORT}/health`);
+  console.log(`🤝 实时协作: ws://localhost:${PORT}${REALTIME_PATH}`);
 });
 
+// 实时协作通道（WebSocket）
+attachRealtime(server);
+
 export default app;
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { AccountUser, ProjectRole, PROJECT_ROLE_LABELS, hasProjectRole } from '@solvechain/shared';
+import { ResourceAccess } from '../types/index.js';
+import { userRepository } from '../repositories/userRepository.js';
+import { memberRepository } from '../repositories/memberRepository.js';
+import { AppError } from './errorHandler.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AccountUser;     // 由 requireAuth 写入
+      authToken?: string;
+    }
+  }
+}
+
+// 读取 Authorization: Bearer <token>
+function readToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/** 要求已登录；令牌缺失或失效时返回 401 */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = readToken(req);
+    if (!token) {
+      throw new AppError(401, 'UNAUTHORIZED', '请先登录');
+    }
+    const user = await userRepository.findBySessionToken(token);
+    if (!user) {
+      throw new AppError(401, 'UNAUTHORIZED', '登录已过期，请重新登录');
+    }
+    req.user = user;
+    req.authToken = token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** 当前登录用户的 ID（只能在 requireAuth 之后使用） */
+export function currentUserId(req: Request): string {
+  if (!req.user) {
+    throw new AppError(401, 'UNAUTHORIZED', '请先登录');
+  }
+  return req.user.id;
+}
+
+// 查询资源归属；资源不存在时返回 null
+export type AccessLookup = (id: string) => Promise<ResourceAccess | null>;
+
+/** 当前用户对资源的角色：所有者为 owner，项目成员为其角色，无权访问为 null */
+export async function roleFor(req: Request, access: ResourceAccess): Promise<ProjectRole | null> {
+  const userId = currentUserId(req);
+  if (access.ownerId === userId) return 'owner';
+  if (!access.projectId) return null;
+  return memberRepository.roleOf(access.projectId, userId);
+}
+
+/** 校验角色不低于 minRole：无权访问或角色不足返回 403 */
+export function assertRole(role: ProjectRole | null, minRole: ProjectRole): asserts role is ProjectRole {
+  if (role === null) {
+    throw new AppError(403, 'FORBIDDEN', '无权访问该资源');
+  }
+  if (!hasProjectRole(role, minRole)) {
+    throw new AppError(403, 'FORBIDDEN', `需要${PROJECT_ROLE_LABELS[minRole]}权限，当前为${PROJECT_ROLE_LABELS[role]}`);
+  }
+}
+
+/**
+ * 校验当前用户对资源至少具有 minRole 角色，返回其实际角色
+ * 不存在返回 404；无权访问或角色不足返回 403
+ */
+export async function assertAccess(
+  req: Request,
+  accessOf: AccessLookup,
+  id: string,
+  minRole: ProjectRole,
+  notFoundMessage: string
+): Promise<ProjectRole> {
+  const access = await accessOf(id);
+  if (access === null) {
+    throw new AppError(404, 'NOT_FOUND', notFoundMessage);
+  }
+  const role = await roleFor(req, access);
+  assertRole(role, minRole);
+  return role;
+}
+
+/** 路由中间件版本的 assertAccess，按路径参数 param 校验 */
+export function requireAccess(param: string, accessOf: AccessLookup, minRole: ProjectRole, notFoundMessage: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await assertAccess(req, accessOf, req.params[param], minRole, notFoundMessage);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
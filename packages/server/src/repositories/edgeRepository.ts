@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query, queryOne } from '../database/db.js';
-import { Edge, EdgeType, CreateEdgeRequest, UpdateEdgeRequest } from '../types/index.js';
+import { Edge, EdgeType, CreateEdgeRequest, UpdateEdgeRequest, ResourceAccess } from '../types/index.js';
 
 // 扩展 Edge 类型以支持 projectId
 interface EdgeWithProject extends Edge {
@@ -197,8 +197,14 @@ export const edgeRepository = {
     return rows.map(toEdge);
   },
 
-  // 在项目中创建边
-  async createInProject(projectId: string, data: CreateEdgeRequest, createdBy: 'user' | 'llm' = 'user'): Promise<EdgeWithProject> {
+  // 在项目中创建边；两端节点不都属于该项目时不创建，返回 null
+  async createInProject(projectId: string, data: CreateEdgeRequest, createdBy: 'user' | 'llm' = 'user'): Promise<EdgeWithProject | null> {
+    const endpoints = await query(
+      'SELECT id FROM nodes WHERE id = ANY($1) AND project_id = $2',
+      [[data.sourceNodeId, data.targetNodeId], projectId]
+    );
+    if (endpoints.length !== new Set([data.sourceNodeId, data.targetNodeId]).size) return null;
+
     const id = uuidv4();
     const row = await queryOne(
       `INSERT INTO edges (id, project_id, source_node_id, target_node_id, type, strength, description, created_by)
@@ -216,5 +222,31 @@ export const edgeRepository = {
       ]
     );
     return toEdge(row);
-  }
+  },
+
+  // 恢复与节点相连的软删除边（恢复节点时用）；不与该节点相连或不在同一项目的边不恢复，返回 null
+  async restoreForNode(id: string, nodeId: string): Promise<Edge | null> {
+    const row = await queryOne(
+      `UPDATE edges e SET deleted_at = NULL, updated_at = NOW()
+       FROM nodes n
+       WHERE e.id = $1 AND n.id = $2
+         AND (e.source_node_id = n.id OR e.target_node_id = n.id)
+         AND e.project_id IS NOT DISTINCT FROM n.project_id
+       RETURNING e.*`,
+      [id, nodeId]
+    );
+    return row ? toEdge(row) : null;
+  },
+
+  // 边的归属（经由项目或 v1 决策图，含已软删除的边）；不存在时返回 null
+  async accessOf(id: string): Promise<ResourceAccess | null> {
+    const row = await queryOne(
+      `SELECT e.project_id, COALESCE(p.user_id, g.user_id) AS user_id FROM edges e
+       LEFT JOIN projects p ON p.id = e.project_id
+       LEFT JOIN decision_graphs g ON g.id = e.graph_id
+       WHERE e.id = $1`,
+      [id]
+    );
+    return row?.user_id ? { projectId: row.project_id, ownerId: row.user_id } : null;
+  },
 };
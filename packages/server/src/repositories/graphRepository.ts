@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query, queryOne } from '../database/db.js';
-import { DecisionGraph, GraphStatus, CreateGraphRequest } from '../types/index.js';
+import { DecisionGraph, GraphStatus, CreateGraphRequest, ResourceAccess } from '../types/index.js';
 
 // 数据库行类型到实体类型的转换
 function toGraph(row: any): DecisionGraph {
@@ -165,5 +165,11 @@ export const graphRepository = {
       nodes: nodes.map(toNode),
       edges: edges.map(toEdge)
     };
-  }
+  },
+
+  // 决策图的归属（不属于任何项目）；不存在时返回 null
+  async accessOf(id: string): Promise<ResourceAccess | null> {
+    const row = await queryOne('SELECT user_id FROM decision_graphs WHERE id = $1', [id]);
+    return row ? { projectId: null, ownerId: row.user_id } : null;
+  },
 };
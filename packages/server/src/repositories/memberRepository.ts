@@ -0,0 +1,164 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne } from '../database/db.js';
+import { ProjectRole, MemberRole, ProjectMember, ProjectInvite } from '@solvechain/shared';
+
+// 邀请有效期
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toMember(row: any): ProjectMember {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role as ProjectRole,
+    joinedAt: toIso(row.joined_at),
+  };
+}
+
+function toInvite(row: any): ProjectInvite {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    projectTitle: row.project_title ?? undefined,
+    email: row.email,
+    code: row.code,
+    role: row.role as MemberRole,
+    createdAt: toIso(row.created_at),
+    expiresAt: row.expires_at ? toIso(row.expires_at) : null,
+  };
+}
+
+// 分享码：10 位 URL 安全字符，便于口头或聊天中传递
+function generateInviteCode(): string {
+  return randomBytes(8).toString('base64url').slice(0, 10);
+}
+
+export const memberRepository = {
+  // 用户在项目中的角色；不是所有者也不是成员时返回 null
+  async roleOf(projectId: string, userId: string): Promise<ProjectRole | null> {
+    const row = await queryOne(
+      `SELECT CASE WHEN p.user_id = $2 THEN 'owner' ELSE m.role::text END AS role
+       FROM projects p
+       LEFT JOIN project_members m ON m.project_id = p.id AND m.user_id = $2 AND m.removed_at IS NULL
+       WHERE p.id = $1 AND p.deleted_at IS NULL`,
+      [projectId, userId]
+    );
+    return (row?.role as ProjectRole) ?? null;
+  },
+
+  // 获取项目的所有成员（所有者在前）
+  async findByProjectId(projectId: string): Promise<ProjectMember[]> {
+    const rows = await query(
+      `SELECT u.id AS user_id, u.email, u.name, 'owner' AS role, p.created_at AS joined_at
+       FROM projects p JOIN users u ON u.id = p.user_id
+       WHERE p.id = $1
+       UNION ALL
+       SELECT u.id, u.email, u.name, m.role::text, m.joined_at
+       FROM project_members m JOIN users u ON u.id = m.user_id
+       WHERE m.project_id = $1 AND m.removed_at IS NULL
+       ORDER BY joined_at`,
+      [projectId]
+    );
+    return rows.map(toMember);
+  },
+
+  // 加入项目；已是成员时只升不降，已被移除的重新加入
+  async add(projectId: string, userId: string, role: MemberRole): Promise<void> {
+    await query(
+      `INSERT INTO project_members (project_id, user_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (project_id, user_id) DO UPDATE SET
+         role = CASE
+           WHEN project_members.removed_at IS NOT NULL OR EXCLUDED.role > project_members.role THEN EXCLUDED.role
+           ELSE project_members.role
+         END,
+         joined_at = CASE WHEN project_members.removed_at IS NOT NULL THEN NOW() ELSE project_members.joined_at END,
+         removed_at = NULL,
+         updated_at = NOW()`,
+      [projectId, userId, role]
+    );
+  },
+
+  // 修改成员角色；不是成员时返回 false
+  async updateRole(projectId: string, userId: string, role: MemberRole): Promise<boolean> {
+    const rows = await query(
+      `UPDATE project_members SET role = $3, updated_at = NOW()
+       WHERE project_id = $1 AND user_id = $2 AND removed_at IS NULL
+       RETURNING user_id`,
+      [projectId, userId, role]
+    );
+    return rows.length > 0;
+  },
+
+  // 移除成员（保留记录，供增量同步通知客户端）
+  async remove(projectId: string, userId: string): Promise<boolean> {
+    const rows = await query(
+      `UPDATE project_members SET removed_at = NOW(), updated_at = NOW()
+       WHERE project_id = $1 AND user_id = $2 AND removed_at IS NULL
+       RETURNING user_id`,
+      [projectId, userId]
+    );
+    return rows.length > 0;
+  },
+
+  // ========== 邀请 ==========
+
+  // 创建邀请
+  async createInvite(projectId: string, createdBy: string, data: { email: string | null; role: MemberRole }): Promise<ProjectInvite> {
+    const row = await queryOne(
+      `INSERT INTO project_invites (id, project_id, email, code, role, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [uuidv4(), projectId, data.email?.toLowerCase() ?? null, generateInviteCode(), data.role, createdBy, new Date(Date.now() + INVITE_TTL_MS)]
+    );
+    return toInvite(row);
+  },
+
+  // 获取项目未过期的邀请
+  async findInvitesByProjectId(projectId: string): Promise<ProjectInvite[]> {
+    const rows = await query(
+      `SELECT * FROM project_invites
+       WHERE project_id = $1 AND (expires_at IS NULL OR expires_at > NOW())
+       ORDER BY created_at DESC`,
+      [projectId]
+    );
+    return rows.map(toInvite);
+  },
+
+  // 获取发给某邮箱、尚未过期的邀请（附项目标题）
+  async findInvitesByEmail(email: string): Promise<ProjectInvite[]> {
+    const rows = await query(
+      `SELECT i.*, p.title AS project_title FROM project_invites i
+       JOIN projects p ON p.id = i.project_id AND p.deleted_at IS NULL
+       WHERE LOWER(i.email) = LOWER($1) AND (i.expires_at IS NULL OR i.expires_at > NOW())
+       ORDER BY i.created_at DESC`,
+      [email]
+    );
+    return rows.map(toInvite);
+  },
+
+  // 按邀请码获取未过期的邀请
+  async findInviteByCode(code: string): Promise<ProjectInvite | null> {
+    const row = await queryOne(
+      `SELECT i.*, p.title AS project_title FROM project_invites i
+       JOIN projects p ON p.id = i.project_id AND p.deleted_at IS NULL
+       WHERE i.code = $1 AND (i.expires_at IS NULL OR i.expires_at > NOW())`,
+      [code]
+    );
+    return row ? toInvite(row) : null;
+  },
+
+  // 撤销邀请
+  async deleteInvite(projectId: string, inviteId: string): Promise<boolean> {
+    const rows = await query(
+      'DELETE FROM project_invites WHERE project_id = $1 AND id = $2 RETURNING id',
+      [projectId, inviteId]
+    );
+    return rows.length > 0;
+  },
+};
@@ -10,6 +10,7 @@ import {
   DEFAULT_BASE_STATUS,
   DEFAULT_WEIGHTS,
   getDefaultAutoUpdate,
+  ResourceAccess,
 } from '../types/index.js';
 
 // 扩展 Node 类型以支持 projectId
@@ -186,12 +187,24 @@ export const nodeRepository = {
     );
   },
 
-  // 批量更新位置
-  async updatePositions(positions: Array<{ id: string; x: number; y: number }>): Promise<void> {
+  // 批量更新项目内节点的位置（不属于该项目的节点不更新）
+  async updatePositions(projectId: string, positions: Array<{ id: string; x: number; y: number }>): Promise<void> {
     for (const pos of positions) {
       await query(
-        'UPDATE nodes SET position_x = $1, position_y = $2, updated_at = NOW() WHERE id = $3',
-        [pos.x, pos.y, pos.id]
+        `UPDATE nodes SET position_x = $1, position_y = $2, updated_at = NOW()
+         WHERE id = $3 AND project_id = $4`,
+        [pos.x, pos.y, pos.id, projectId]
+      );
+    }
+  },
+
+  // 批量更新决策图内节点的位置（v1 兼容，不属于该决策图的节点不更新）
+  async updateGraphPositions(graphId: string, positions: Array<{ id: string; x: number; y: number }>): Promise<void> {
+    for (const pos of positions) {
+      await query(
+        `UPDATE nodes SET position_x = $1, position_y = $2, updated_at = NOW()
+         WHERE id = $3 AND graph_id = $4`,
+        [pos.x, pos.y, pos.id, graphId]
       );
     }
   },
@@ -289,4 +302,16 @@ export const nodeRepository = {
     );
     return row ? toNode(row) : null;
   },
+
+  // 节点的归属（经由项目或 v1 决策图，含已软删除的节点）；不存在时返回 null
+  async accessOf(id: string): Promise<ResourceAccess | null> {
+    const row = await queryOne(
+      `SELECT n.project_id, COALESCE(p.user_id, g.user_id) AS user_id FROM nodes n
+       LEFT JOIN projects p ON p.id = n.project_id
+       LEFT JOIN decision_graphs g ON g.id = n.graph_id
+       WHERE n.id = $1`,
+      [id]
+    );
+    return row?.user_id ? { projectId: row.project_id, ownerId: row.user_id } : null;
+  },
 };
@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query, queryOne } from '../database/db.js';
-import { Project, GraphStatus, CreateProjectRequest } from '../types/index.js';
+import { Project, GraphStatus, CreateProjectRequest, ResourceAccess } from '../types/index.js';
 
 // 数据库行到实体的转换
 function toProject(row: any): Project {
@@ -18,21 +18,23 @@ function toProject(row: any): Project {
 }
 
 export const projectRepository = {
-  // 获取用户的所有项目
+  // 获取用户的所有项目（含共享给用户的项目），附上用户在项目中的角色
   async findByUserId(userId: string): Promise<Project[]> {
     const rows = await query(
-      `SELECT * FROM projects
-       WHERE user_id = $1
-       ORDER BY updated_at DESC`,
+      `SELECT p.*, CASE WHEN p.user_id = $1 THEN 'owner' ELSE m.role::text END AS role
+       FROM projects p
+       LEFT JOIN project_members m ON m.project_id = p.id AND m.user_id = $1 AND m.removed_at IS NULL
+       WHERE (p.user_id = $1 OR m.user_id IS NOT NULL) AND p.deleted_at IS NULL
+       ORDER BY p.updated_at DESC`,
       [userId]
     );
-    return rows.map(toProject);
+    return rows.map((row) => ({ ...toProject(row), role: row.role }));
   },
 
   // 根据 ID 获取项目
   async findById(id: string): Promise<Project | null> {
     const row = await queryOne(
-      'SELECT * FROM projects WHERE id = $1',
+      'SELECT * FROM projects WHERE id = $1 AND deleted_at IS NULL',
       [id]
     );
     return row ? toProject(row) : null;
@@ -92,9 +94,9 @@ export const projectRepository = {
     return row ? toProject(row) : null;
   },
 
-  // 删除项目
+  // 软删除项目（保留墓碑供客户端同步）
   async delete(id: string): Promise<boolean> {
-    await query('DELETE FROM projects WHERE id = $1', [id]);
+    await query('UPDATE projects SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1', [id]);
     return true;
   },
 
@@ -105,7 +107,7 @@ export const projectRepository = {
 
     // 获取场景
     const scenes = await query(
-      'SELECT * FROM scenes WHERE project_id = $1 ORDER BY sort_order, created_at',
+      'SELECT * FROM scenes WHERE project_id = $1 AND deleted_at IS NULL ORDER BY sort_order, created_at',
       [id]
     );
 
@@ -127,7 +129,13 @@ export const projectRepository = {
       nodes: nodes.map(toNode),
       edges: edges.map(toEdge)
     };
-  }
+  },
+
+  // 项目的归属（含已删除的项目）；项目不存在时返回 null
+  async accessOf(id: string): Promise<ResourceAccess | null> {
+    const row = await queryOne('SELECT user_id FROM projects WHERE id = $1 AND deleted_at IS NULL', [id]);
+    return row ? { projectId: id, ownerId: row.user_id } : null;
+  },
 };
 
 // 场景转换
@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query, queryOne } from '../database/db.js';
-import { Scene, CreateSceneRequest, SceneNode, AddNodeToSceneRequest } from '../types/index.js';
+import { Scene, CreateSceneRequest, SceneNode, AddNodeToSceneRequest, ResourceAccess } from '../types/index.js';
 
 // 场景转换
 function toScene(row: any): Scene {
@@ -76,7 +76,7 @@ export const sceneRepository = {
   async findByProjectId(projectId: string): Promise<Scene[]> {
     const rows = await query(
       `SELECT * FROM scenes
-       WHERE project_id = $1
+       WHERE project_id = $1 AND deleted_at IS NULL
        ORDER BY sort_order, created_at`,
       [projectId]
     );
@@ -86,7 +86,7 @@ export const sceneRepository = {
   // 根据 ID 获取场景
   async findById(id: string): Promise<Scene | null> {
     const row = await queryOne(
-      'SELECT * FROM scenes WHERE id = $1',
+      'SELECT * FROM scenes WHERE id = $1 AND deleted_at IS NULL',
       [id]
     );
     return row ? toScene(row) : null;
@@ -100,7 +100,7 @@ export const sceneRepository = {
     let sortOrder = data.sortOrder;
     if (sortOrder === undefined) {
       const maxResult = await queryOne(
-        'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM scenes WHERE project_id = $1',
+        'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM scenes WHERE project_id = $1 AND deleted_at IS NULL',
         [projectId]
       );
       sortOrder = maxResult?.next_order || 0;
@@ -153,40 +153,42 @@ export const sceneRepository = {
     return row ? toScene(row) : null;
   },
 
-  // 删除场景
+  // 软删除场景（保留墓碑供客户端同步）
   async delete(id: string): Promise<boolean> {
-    await query('DELETE FROM scenes WHERE id = $1', [id]);
+    await query('UPDATE scenes SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1', [id]);
     return true;
   },
 
-  // 获取场景内的所有节点（包含场景内位置，排除软删除）
+  // 获取场景内的所有节点（包含场景内位置，排除软删除）；只取与场景同属一个项目的节点
   async getNodesInScene(sceneId: string) {
     const rows = await query(
       `SELECT n.*, sn.position_x as scene_position_x, sn.position_y as scene_position_y
        FROM nodes n
        INNER JOIN scene_nodes sn ON n.id = sn.node_id
-       WHERE sn.scene_id = $1 AND n.deleted_at IS NULL
+       INNER JOIN scenes s ON s.id = sn.scene_id AND s.project_id = n.project_id
+       WHERE sn.scene_id = $1 AND sn.deleted_at IS NULL AND n.deleted_at IS NULL
        ORDER BY n.created_at`,
       [sceneId]
     );
     return rows.map(toNodeWithScenePosition);
   },
 
-  // 获取场景相关的边（源节点和目标节点都在场景中，排除软删除）
+  // 获取场景相关的边（源节点和目标节点都在场景中，排除软删除）；只取与场景同属一个项目的边
   async getEdgesInScene(sceneId: string) {
     const rows = await query(
       `SELECT e.*
        FROM edges e
        WHERE e.deleted_at IS NULL
+       AND e.project_id = (SELECT project_id FROM scenes WHERE id = $1)
        AND e.source_node_id IN (
          SELECT sn.node_id FROM scene_nodes sn
          INNER JOIN nodes n ON sn.node_id = n.id
-         WHERE sn.scene_id = $1 AND n.deleted_at IS NULL
+         WHERE sn.scene_id = $1 AND sn.deleted_at IS NULL AND n.deleted_at IS NULL
        )
        AND e.target_node_id IN (
          SELECT sn.node_id FROM scene_nodes sn
          INNER JOIN nodes n ON sn.node_id = n.id
-         WHERE sn.scene_id = $1 AND n.deleted_at IS NULL
+         WHERE sn.scene_id = $1 AND sn.deleted_at IS NULL AND n.deleted_at IS NULL
        )
        ORDER BY e.created_at`,
       [sceneId]
@@ -207,25 +209,35 @@ export const sceneRepository = {
 
   // ========== 场景-节点关联操作 ==========
 
-  // 添加节点到场景
-  async addNodeToScene(sceneId: string, data: AddNodeToSceneRequest): Promise<SceneNode> {
+  // 添加节点到场景；节点与场景不属于同一项目时不添加，返回 null
+  async addNodeToScene(sceneId: string, data: AddNodeToSceneRequest): Promise<SceneNode | null> {
+    const sameProject = await queryOne(
+      `SELECT 1 FROM scenes s
+       INNER JOIN nodes n ON n.project_id = s.project_id
+       WHERE s.id = $1 AND n.id = $2 AND n.deleted_at IS NULL`,
+      [sceneId, data.nodeId]
+    );
+    if (!sameProject) return null;
+
     const id = uuidv4();
     const row = await queryOne(
       `INSERT INTO scene_nodes (id, scene_id, node_id, position_x, position_y)
        VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (scene_id, node_id) DO UPDATE SET
+       ON CONFLICT (scene_id, node_id) WHERE deleted_at IS NULL DO UPDATE SET
          position_x = EXCLUDED.position_x,
-         position_y = EXCLUDED.position_y
+         position_y = EXCLUDED.position_y,
+         updated_at = NOW()
        RETURNING *`,
       [id, sceneId, data.nodeId, data.positionX || 0, data.positionY || 0]
     );
-    return toSceneNode(row);
+    return row ? toSceneNode(row) : null;
   },
 
-  // 从场景中移除节点
+  // 从场景中移除节点（软删除，保留墓碑供客户端同步）
   async removeNodeFromScene(sceneId: string, nodeId: string): Promise<boolean> {
     await query(
-      'DELETE FROM scene_nodes WHERE scene_id = $1 AND node_id = $2',
+      `UPDATE scene_nodes SET deleted_at = NOW(), updated_at = NOW()
+       WHERE scene_id = $1 AND node_id = $2 AND deleted_at IS NULL`,
       [sceneId, nodeId]
     );
     return true;
@@ -235,8 +247,8 @@ export const sceneRepository = {
   async updateNodePosition(sceneId: string, nodeId: string, positionX: number, positionY: number): Promise<SceneNode | null> {
     const row = await queryOne(
       `UPDATE scene_nodes
-       SET position_x = $1, position_y = $2
-       WHERE scene_id = $3 AND node_id = $4
+       SET position_x = $1, position_y = $2, updated_at = NOW()
+       WHERE scene_id = $3 AND node_id = $4 AND deleted_at IS NULL
        RETURNING *`,
       [positionX, positionY, sceneId, nodeId]
     );
@@ -248,8 +260,8 @@ export const sceneRepository = {
     for (const pos of positions) {
       await query(
         `UPDATE scene_nodes
-         SET position_x = $1, position_y = $2
-         WHERE scene_id = $3 AND node_id = $4`,
+         SET position_x = $1, position_y = $2, updated_at = NOW()
+         WHERE scene_id = $3 AND node_id = $4 AND deleted_at IS NULL`,
         [pos.positionX, pos.positionY, sceneId, pos.nodeId]
       );
     }
@@ -262,10 +274,21 @@ export const sceneRepository = {
       `SELECT s.*
        FROM scenes s
        INNER JOIN scene_nodes sn ON s.id = sn.scene_id
-       WHERE sn.node_id = $1
+       WHERE sn.node_id = $1 AND sn.deleted_at IS NULL AND s.deleted_at IS NULL
        ORDER BY s.sort_order, s.created_at`,
       [nodeId]
     );
     return rows.map(toScene);
-  }
+  },
+
+  // 场景的归属（经由项目）；不存在时返回 null
+  async accessOf(id: string): Promise<ResourceAccess | null> {
+    const row = await queryOne(
+      `SELECT s.project_id, p.user_id FROM scenes s
+       JOIN projects p ON p.id = s.project_id
+       WHERE s.id = $1`,
+      [id]
+    );
+    return row ? { projectId: row.project_id, ownerId: row.user_id } : null;
+  },
 };
@@ -0,0 +1,479 @@
+import pg from 'pg';
+import { query, queryOne, transaction } from '../database/db.js';
+import {
+  AccountUser,
+  compareStamps,
+  FieldStamp,
+  hasProjectRole,
+  ProjectRole,
+  REALTIME_CREATE_FIELDS,
+  RealtimeCollection,
+  SyncCollection,
+  SyncRecord,
+  SyncRecordSet,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResult,
+} from '@solvechain/shared';
+
+// 同步记录与数据库表的对应关系
+interface TableSpec {
+  table: string;
+  columns: Record<string, string>; // 记录字段 -> 列名（id / 时间戳 / deleted_at 另行处理）
+  numeric?: string[];              // DECIMAL 列，读出时转为数字
+  json?: string[];                 // JSONB 列
+  scope: string;                   // 属于某个项目的条件，$1 为项目 ID
+  // 引用其他记录的字段 -> 被引用的表；被引用的记录必须属于同一项目
+  references?: (record: SyncRecord) => Record<string, string>;
+}
+
+const TABLE_SPECS: Record<SyncCollection, TableSpec> = {
+  projects: {
+    table: 'projects',
+    columns: { title: 'title', description: 'description', status: 'status', category: 'category', tags: 'tags' },
+    scope: 'id = $1',
+  },
+  scenes: {
+    table: 'scenes',
+    columns: { projectId: 'project_id', name: 'name', description: 'description', color: 'color', sortOrder: 'sort_order' },
+    scope: 'project_id = $1',
+  },
+  nodes: {
+    table: 'nodes',
+    columns: {
+      projectId: 'project_id',
+      type: 'type',
+      title: 'title',
+      content: 'content',
+      baseStatus: 'base_status',
+      confidence: 'confidence',
+      weight: 'weight',
+      autoUpdate: 'auto_update',
+      status: 'status',
+      positionX: 'position_x',
+      positionY: 'position_y',
+      createdBy: 'created_by',
+      evidence: 'evidence',
+    },
+    numeric: ['confidence', 'weight', 'positionX', 'positionY'],
+    json: ['evidence'],
+    scope: 'project_id = $1',
+  },
+  edges: {
+    table: 'edges',
+    columns: {
+      projectId: 'project_id',
+      sourceNodeId: 'source_node_id',
+      targetNodeId: 'target_node_id',
+      type: 'type',
+      strength: 'strength',
+      description: 'description',
+      createdBy: 'created_by',
+    },
+    numeric: ['strength'],
+    scope: 'project_id = $1',
+    references: () => ({ sourceNodeId: 'nodes', targetNodeId: 'nodes' }),
+  },
+  sceneNodes: {
+    table: 'scene_nodes',
+    columns: { sceneId: 'scene_id', nodeId: 'node_id', positionX: 'position_x', positionY: 'position_y' },
+    numeric: ['positionX', 'positionY'],
+    scope: 'scene_id IN (SELECT id FROM scenes WHERE project_id = $1)',
+    references: () => ({ sceneId: 'scenes', nodeId: 'nodes' }),
+  },
+  comments: {
+    table: 'comments',
+    columns: {
+      projectId: 'project_id',
+      targetType: 'target_type',
+      targetId: 'target_id',
+      parentId: 'parent_id',
+      authorId: 'author_id',
+      authorName: 'author_name',
+      body: 'body',
+      mentions: 'mentions',
+      resolved: 'resolved',
+      resolvedBy: 'resolved_by',
+      resolvedAt: 'resolved_at',
+    },
+    json: ['mentions'],
+    scope: 'project_id = $1',
+    references: (record) => ({ targetId: record.targetType === 'edge' ? 'edges' : 'nodes', parentId: 'comments' }),
+  },
+};
+
+// 推送时按外键依赖的顺序写入
+const PUSH_ORDER: SyncCollection[] = ['projects', 'scenes', 'nodes', 'edges', 'sceneNodes', 'comments'];
+
+/** 实时修改的写入结果；fields 是时间戳晚于服务器已写入的值、实际写入的字段 */
+export interface RealtimeWriteResult {
+  result: SyncPushResult;
+  fields: Record<string, unknown>;
+}
+
+/** 推送者：当前账户及其在项目中的角色 */
+export interface SyncActor {
+  user: AccountUser;
+  role: ProjectRole;
+}
+
+// 拉取游标向前留出的重叠时间：拉取时尚未提交的写入不会被漏掉，重复拉到的记录由客户端按版本去重
+const PULL_OVERLAP = '5 seconds';
+
+function toIso(value: Date | string | null): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toRecord(spec: TableSpec, row: any): SyncRecord {
+  const record: SyncRecord = {
+    id: row.id,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at) ?? undefined,
+    deletedAt: toIso(row.deleted_at),
+  };
+  for (const [field, column] of Object.entries(spec.columns)) {
+    const value = row[column];
+    if (spec.numeric?.includes(field) && value !== null) record[field] = parseFloat(value);
+    else record[field] = value instanceof Date ? value.toISOString() : value;
+  }
+  return record;
+}
+
+async function pullCollection(
+  collection: SyncCollection,
+  scopeParam: string,
+  since: string | null
+): Promise<SyncRecord[]> {
+  const spec = TABLE_SPECS[collection];
+  const scope = spec.scope;
+  // 首次拉取不需要墓碑
+  const rows = since
+    ? await query(
+        `SELECT * FROM ${spec.table} WHERE ${scope} AND updated_at > $2 ORDER BY updated_at`,
+        [scopeParam, since]
+      )
+    : await query(
+        `SELECT * FROM ${spec.table} WHERE ${scope} AND deleted_at IS NULL ORDER BY updated_at`,
+        [scopeParam]
+      );
+  return rows.map((row) => toRecord(spec, row));
+}
+
+async function getServerTime(): Promise<string> {
+  const row = await queryOne(`SELECT clock_timestamp() - interval '${PULL_OVERLAP}' AS server_time`);
+  return toIso(row.server_time)!;
+}
+
+async function isProjectDeleted(client: pg.PoolClient, projectId: string): Promise<boolean> {
+  const row = (await client.query('SELECT deleted_at FROM projects WHERE id = $1', [projectId])).rows[0];
+  return !!row?.deleted_at;
+}
+
+// 记录是否属于该项目（项目本身还要求属于项目所有者）
+async function belongsToProject(
+  client: pg.PoolClient,
+  collection: SyncCollection,
+  row: any,
+  projectId: string,
+  userId: string
+): Promise<boolean> {
+  if (collection === 'projects') return row.user_id === userId;
+  if (collection !== 'sceneNodes') return row.project_id === projectId;
+  const scene = await client.query('SELECT 1 FROM scenes WHERE id = $1 AND project_id = $2', [row.scene_id, projectId]);
+  return scene.rows.length > 0;
+}
+
+// 记录引用的场景/节点/关系/评论是否都属于该项目（未带的字段和 null 不检查）
+async function referencesProject(
+  client: pg.PoolClient,
+  collection: SyncCollection,
+  record: SyncRecord,
+  projectId: string
+): Promise<boolean> {
+  const references = TABLE_SPECS[collection].references?.(record) ?? {};
+  for (const [field, table] of Object.entries(references)) {
+    const id = record[field];
+    if (id === undefined || id === null) continue;
+    const found = await client.query(`SELECT 1 FROM ${table} WHERE id = $1 AND project_id = $2`, [id, projectId]);
+    if (found.rows.length === 0) return false;
+  }
+  return true;
+}
+
+// 推送的字段与服务器上的记录相同（通常已经由实时通道写入）
+function matchesRow(spec: TableSpec, row: any, record: SyncRecord): boolean {
+  if (record.deletedAt || row.deleted_at) return false;
+  const current = toRecord(spec, row);
+  return Object.keys(spec.columns).every(
+    (field) => record[field] === undefined || JSON.stringify(record[field]) === JSON.stringify(current[field])
+  );
+}
+
+// 评论中只有作者能改的字段、任何评论者都能改的字段（解决/重新打开），以及由服务器决定、推送中忽略的字段；
+// 其余字段（目标、所在讨论串等）创建后不能修改
+const COMMENT_AUTHOR_FIELDS = ['body', 'mentions'];
+const COMMENT_RESOLVE_FIELDS = ['resolved', 'resolvedBy', 'resolvedAt'];
+const COMMENT_FIXED_FIELDS = ['projectId', 'authorId', 'authorName'];
+
+// 对已有评论的修改是否越权；越权时返回拒绝原因。推送者的角色至少是评论者（由路由保证）。
+// 作者和项目所有者能修改正文、删除评论，其他人只能标记解决
+function commentChangeRejected(existing: any, record: SyncRecord, actor: SyncActor): string | null {
+  const canModify = existing.author_id === actor.user.id || actor.role === 'owner';
+  if (record.deletedAt) return canModify ? null : '只能删除自己的评论';
+  const current = toRecord(TABLE_SPECS.comments, existing);
+  for (const field of Object.keys(TABLE_SPECS.comments.columns)) {
+    if (record[field] === undefined || COMMENT_FIXED_FIELDS.includes(field)) continue;
+    if (JSON.stringify(record[field]) === JSON.stringify(current[field])) continue;
+    if (COMMENT_RESOLVE_FIELDS.includes(field)) continue;
+    if (COMMENT_AUTHOR_FIELDS.includes(field)) {
+      if (canModify) continue;
+      return '只能修改自己的评论，他人的评论只能标记解决';
+    }
+    return '评论的目标和所在讨论串不能修改';
+  }
+  return null;
+}
+
+/**
+ * 写入一条记录；服务器版本与客户端的 baseUpdatedAt 不一致时不写入，返回冲突。
+ * 已有记录及记录引用的场景、节点、关系、评论都必须属于该项目，不能借推送改写或关联其他项目的数据。
+ * 记录中的值不合法（格式错误、违反约束）时只回滚这一条并返回拒绝，其余记录照常写入
+ */
+async function pushRecord(
+  client: pg.PoolClient,
+  collection: SyncCollection,
+  record: SyncRecord,
+  baseUpdatedAt: string | null,
+  owner: { projectId: string; userId: string },
+  fixed: Record<string, unknown>,
+  actor: SyncActor
+): Promise<SyncPushResult> {
+  await client.query('SAVEPOINT sync_record');
+  try {
+    const result = await writeRecord(client, collection, record, baseUpdatedAt, owner, fixed, actor);
+    await client.query('RELEASE SAVEPOINT sync_record');
+    return result;
+  } catch (error: any) {
+    // 22xxx 数据异常（格式、范围）、23xxx 违反完整性约束
+    if (typeof error.code !== 'string' || !/^2[23]/.test(error.code)) throw error;
+    await client.query('ROLLBACK TO SAVEPOINT sync_record');
+    return { collection, id: record.id, status: 'rejected', message: error.detail || error.message };
+  }
+}
+
+async function writeRecord(
+  client: pg.PoolClient,
+  collection: SyncCollection,
+  record: SyncRecord,
+  baseUpdatedAt: string | null,
+  owner: { projectId: string; userId: string },
+  fixed: Record<string, unknown>,
+  actor: SyncActor
+): Promise<SyncPushResult> {
+  const spec = TABLE_SPECS[collection];
+  const existing = (await client.query(`SELECT * FROM ${spec.table} WHERE id = $1 FOR UPDATE`, [record.id])).rows[0];
+  if (existing && !(await belongsToProject(client, collection, existing, owner.projectId, owner.userId))) {
+    return { collection, id: record.id, status: 'rejected', message: '记录不属于该项目' };
+  }
+  if (!record.deletedAt && !(await referencesProject(client, collection, record, owner.projectId))) {
+    return { collection, id: record.id, status: 'rejected', message: '引用的记录不属于该项目' };
+  }
+  if (existing && toIso(existing.updated_at) !== baseUpdatedAt) {
+    return { collection, id: record.id, status: 'conflict', server: toRecord(spec, existing) };
+  }
+
+  // 评论的作者以服务器账户为准：新评论记为推送者；已有评论按字段检查谁能修改
+  if (collection === 'comments') {
+    const message = existing && commentChangeRejected(existing, record, actor);
+    if (message) {
+      return { collection, id: record.id, status: 'rejected', message };
+    }
+    fixed = existing
+      ? { ...fixed, author_id: existing.author_id, author_name: existing.author_name }
+      : { ...fixed, author_id: actor.user.id, author_name: actor.user.name };
+  }
+
+  // 没有变化时不重复写入，版本不变，其他端按这一版本记下的同步基线仍然有效
+  if (existing && matchesRow(spec, existing, record)) {
+    return { collection, id: record.id, status: 'applied', updatedAt: toIso(existing.updated_at)! };
+  }
+
+  // 删除只需打上墓碑；客户端本地已真删除的记录只带 id 和 deletedAt
+  if (record.deletedAt) {
+    if (!existing) {
+      return { collection, id: record.id, status: 'applied', updatedAt: record.deletedAt };
+    }
+    const row = (await client.query(
+      `UPDATE ${spec.table} SET deleted_at = $2, updated_at = clock_timestamp() WHERE id = $1 RETURNING *`,
+      [record.id, record.deletedAt]
+    )).rows[0];
+    return { collection, id: record.id, status: 'applied', updatedAt: toIso(row.updated_at)! };
+  }
+
+  const values: Record<string, unknown> = { deleted_at: null, ...fixed };
+  for (const [field, column] of Object.entries(spec.columns)) {
+    if (record[field] === undefined || column in values) continue;
+    values[column] = spec.json?.includes(field) ? JSON.stringify(record[field]) : record[field];
+  }
+  const columns = Object.keys(values);
+  const placeholders = columns.map((_, i) => `$${i + 2}`);
+
+  const row = (await client.query(
+    `INSERT INTO ${spec.table} (id, ${columns.join(', ')}, updated_at)
+     VALUES ($1, ${placeholders.join(', ')}, clock_timestamp())
+     ON CONFLICT (id) DO UPDATE SET
+       ${columns.map((c) => `${c} = EXCLUDED.${c}`).join(', ')},
+       updated_at = clock_timestamp()
+     RETURNING *`,
+    [record.id, ...Object.values(values)]
+  )).rows[0];
+  return { collection, id: record.id, status: 'applied', updatedAt: toIso(row.updated_at)! };
+}
+
+export const syncRepository = {
+  // 拉取用户在 since 之后变化的项目（含共享给用户的项目和已删除的墓碑），每条附上用户的角色。
+  // 成员关系变化（加入、改角色）的项目即使本身未修改也要拉取；被移出的项目以墓碑通知客户端删除本地副本
+  async pullProjects(userId: string, since: string | null): Promise<SyncPullResponse> {
+    const serverTime = await getServerTime();
+    const spec = TABLE_SPECS.projects;
+    const select = `SELECT p.*, CASE WHEN p.user_id = $1 THEN 'owner' ELSE m.role::text END AS role
+       FROM projects p
+       LEFT JOIN project_members m ON m.project_id = p.id AND m.user_id = $1 AND m.removed_at IS NULL
+       WHERE (p.user_id = $1 OR m.user_id IS NOT NULL)`;
+    // 首次拉取不需要墓碑
+    const rows = since
+      ? await query(`${select} AND (p.updated_at > $2 OR m.updated_at > $2) ORDER BY p.updated_at`, [userId, since])
+      : await query(`${select} AND p.deleted_at IS NULL ORDER BY p.updated_at`, [userId]);
+    const projects: SyncRecord[] = rows.map((row) => ({ ...toRecord(spec, row), role: row.role }));
+
+    if (since) {
+      const removed = await query(
+        'SELECT project_id, removed_at FROM project_members WHERE user_id = $1 AND removed_at > $2',
+        [userId, since]
+      );
+      for (const row of removed) {
+        const removedAt = toIso(row.removed_at)!;
+        projects.push({ id: row.project_id, deletedAt: removedAt, updatedAt: removedAt });
+      }
+    }
+    return { serverTime, changes: { projects } };
+  },
+
+  // 拉取项目在 since 之后变化的全部记录
+  async pullProject(projectId: string, since: string | null): Promise<SyncPullResponse> {
+    const serverTime = await getServerTime();
+    const changes: SyncRecordSet = {};
+    for (const collection of PUSH_ORDER) {
+      changes[collection] = await pullCollection(collection, projectId, since);
+    }
+    return { serverTime, changes };
+  },
+
+  // 在一个事务中写入客户端推送的记录，逐条返回结果。
+  // ownerId 是项目所有者（新项目为推送者），编辑者推送时项目仍归原所有者，且不能删除项目；
+  // 评论者只能写评论
+  async pushProject(
+    ownerId: string,
+    projectId: string,
+    request: SyncPushRequest,
+    actor: SyncActor
+  ): Promise<SyncPushResult[]> {
+    return transaction(async (client) => {
+      const results: SyncPushResult[] = [];
+      for (const collection of PUSH_ORDER) {
+        // 已删除的项目（包括本次推送中删除的）不再写入任何记录
+        const deleted = await isProjectDeleted(client, projectId);
+        for (const { record, baseUpdatedAt } of request[collection] ?? []) {
+          if (deleted) {
+            results.push({ collection, id: record.id, status: 'rejected', message: '项目已删除' });
+            continue;
+          }
+          // 记录的归属以路由中的项目为准，不允许借推送写入其他项目
+          const fixed: Record<string, unknown> =
+            collection === 'projects'
+              ? { user_id: ownerId }
+              : collection === 'sceneNodes'
+                ? {}
+                : { project_id: projectId };
+          if (collection === 'projects' && record.id !== projectId) {
+            results.push({ collection, id: record.id, status: 'rejected', message: '只能推送该项目本身' });
+            continue;
+          }
+          if (collection === 'projects' && record.deletedAt && actor.role !== 'owner') {
+            results.push({ collection, id: record.id, status: 'rejected', message: '只有所有者可以删除项目' });
+            continue;
+          }
+          if (collection !== 'comments' && !hasProjectRole(actor.role, 'editor')) {
+            results.push({ collection, id: record.id, status: 'rejected', message: '评论者只能发表评论' });
+            continue;
+          }
+          results.push(await pushRecord(client, collection, record, baseUpdatedAt, { projectId, userId: ownerId }, fixed, actor));
+        }
+      }
+      return results;
+    });
+  },
+
+  // 写入一条实时协作的字段级修改：与服务器上的记录合并成完整记录后按推送的规则写入。
+  // 不比较版本，按字段比较时间戳：服务器上已写入更晚时间戳的字段丢弃，与消息到达顺序无关；
+  // 各字段最后写入的时间戳记在 realtime_field_stamps 中。
+  // 已有记录的所属项目、场景、两端节点等创建时的字段不能修改
+  async pushChange(
+    ownerId: string,
+    projectId: string,
+    change: { collection: RealtimeCollection; id: string; fields: Record<string, unknown>; stamps: Record<string, FieldStamp> },
+    actor: SyncActor
+  ): Promise<RealtimeWriteResult> {
+    const { collection, id, stamps } = change;
+    const spec = TABLE_SPECS[collection];
+    return transaction(async (client) => {
+      const reject = (message: string): RealtimeWriteResult => ({ result: { collection, id, status: 'rejected', message }, fields: {} });
+      if (await isProjectDeleted(client, projectId)) return reject('项目已删除');
+      const existing = (await client.query(`SELECT * FROM ${spec.table} WHERE id = $1 FOR UPDATE`, [id])).rows[0];
+      const current = existing ? toRecord(spec, existing) : null;
+      // 只带部分字段的修改无法新建记录，等客户端推送完整记录
+      if (!current && change.fields.deletedAt === undefined) return reject('记录尚未同步到服务器');
+      if (
+        current &&
+        REALTIME_CREATE_FIELDS[collection].some(
+          (field) =>
+            field in spec.columns && field in change.fields && JSON.stringify(change.fields[field]) !== JSON.stringify(current[field])
+        )
+      ) {
+        return reject('记录创建后不能修改所属项目或关联的记录');
+      }
+
+      const written = new Map<string, FieldStamp>(
+        (await client.query(
+          'SELECT field, time, client_id FROM realtime_field_stamps WHERE collection = $1 AND record_id = $2',
+          [collection, id]
+        )).rows.map((row) => [row.field, { time: Number(row.time), clientId: row.client_id }])
+      );
+      const fields = Object.fromEntries(
+        Object.entries(change.fields).filter(([field]) => {
+          const previous = written.get(field);
+          return !previous || compareStamps(stamps[field], previous) > 0;
+        })
+      );
+      // 所有字段都已被更晚的修改覆盖：不写入，版本不变
+      if (Object.keys(fields).length === 0) {
+        return { result: { collection, id, status: 'applied', updatedAt: current?.updatedAt ?? undefined }, fields };
+      }
+
+      const record: SyncRecord = { ...current, ...fields, id };
+      const fixed: Record<string, unknown> = collection === 'sceneNodes' ? {} : { project_id: projectId };
+      const result = await pushRecord(client, collection, record, current?.updatedAt ?? null, { projectId, userId: ownerId }, fixed, actor);
+      if (result.status !== 'applied') return { result, fields: {} };
+      for (const field of Object.keys(fields)) {
+        await client.query(
+          `INSERT INTO realtime_field_stamps (collection, record_id, field, time, client_id)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (collection, record_id, field) DO UPDATE SET time = EXCLUDED.time, client_id = EXCLUDED.client_id`,
+          [collection, id, field, stamps[field].time, stamps[field].clientId]
+        );
+      }
+      return { result, fields };
+    });
+  },
+};
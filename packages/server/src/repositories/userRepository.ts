@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne } from '../database/db.js';
+import { AccountUser } from '@solvechain/shared';
+import { hashToken, SESSION_TTL_MS } from '../services/auth.js';
+
+// 数据库行到实体的转换（不带出密码哈希）
+function toUser(row: any): AccountUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+  };
+}
+
+export const userRepository = {
+  // 根据 ID 获取用户
+  async findById(id: string): Promise<AccountUser | null> {
+    const row = await queryOne('SELECT * FROM users WHERE id = $1', [id]);
+    return row ? toUser(row) : null;
+  },
+
+  // 按邮箱（不区分大小写）获取用户及密码哈希，供登录校验
+  async findByEmailWithPassword(email: string): Promise<{ user: AccountUser; passwordHash: string | null } | null> {
+    const row = await queryOne('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [email]);
+    return row ? { user: toUser(row), passwordHash: row.password_hash } : null;
+  },
+
+  // 创建用户；邮箱已被注册时返回 null
+  async create(data: { email: string; name: string; passwordHash: string }): Promise<AccountUser | null> {
+    const row = await queryOne(
+      `INSERT INTO users (id, email, name, password_hash)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [uuidv4(), data.email.toLowerCase(), data.name, data.passwordHash]
+    );
+    return row ? toUser(row) : null;
+  },
+
+  // ========== 会话 ==========
+
+  // 创建会话，返回过期时间
+  async createSession(userId: string, token: string): Promise<Date> {
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+    await query(
+      'INSERT INTO sessions (id, user_id, expires_at) VALUES ($1, $2, $3)',
+      [hashToken(token), userId, expiresAt]
+    );
+    // 顺带清理该用户已过期的会话
+    await query('DELETE FROM sessions WHERE user_id = $1 AND expires_at < NOW()', [userId]);
+    return expiresAt;
+  },
+
+  // 根据令牌获取用户；令牌不存在或已过期时返回 null
+  async findBySessionToken(token: string): Promise<AccountUser | null> {
+    const row = await queryOne(
+      `SELECT u.* FROM sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.id = $1 AND s.expires_at > NOW()`,
+      [hashToken(token)]
+    );
+    return row ? toUser(row) : null;
+  },
+
+  // 注销会话
+  async deleteSession(token: string): Promise<void> {
+    await query('DELETE FROM sessions WHERE id = $1', [hashToken(token)]);
+  },
+};
@@ -12,18 +12,19 @@
  * PATCH /api/nodes/:nodeId/custom-weight - 更新节点自定义权重
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { pool } from '../database/db.js';
-import { AnalysisEngine } from '../services/analysisEngine.js';
-import { StatePropagationEngine, PropagationResult } from '../services/statePropagationEngine.js';
+import { projectRepository } from '../repositories/projectRepository.js';
+import { nodeRepository } from '../repositories/nodeRepository.js';
+import { requireAccess } from '../middleware/auth.js';
+import { toAnalysisNodes, toAnalysisEdges } from '../services/analysisInput.js';
+import { AnalysisEngine, StatePropagationEngine } from '@solvechain/shared';
 import {
   Node,
   Edge,
   WeightConfig,
   LogicState,
   UpdateWeightConfigRequest,
-  DEFAULT_BASE_STATUS,
-  getDefaultAutoUpdate,
   // v2.2 新增类型
   NodeType,
   GoalStatus,
@@ -85,6 +86,16 @@ function getValidStatuses(type: NodeType): string[] {
 
 const router = Router();
 
+// 按项目角色校验：分析和读取需查看者，修改权重配置和节点需编辑者
+const canViewProject = requireAccess('projectId', projectRepository.accessOf, 'viewer', '项目不存在');
+const canEditProject = requireAccess('projectId', projectRepository.accessOf, 'editor', '项目不存在');
+const canEditNode = requireAccess('nodeId', nodeRepository.accessOf, 'editor', '节点不存在');
+
+// 状态传播只读时需查看者，持久化 baseStatus 时需编辑者
+function canPropagate(req: Request, res: Response, next: NextFunction) {
+  return (req.body?.persist ? canEditProject : canViewProject)(req, res, next);
+}
+
 /**
  * 获取项目的所有节点和边
  */
@@ -100,13 +111,6 @@ async function getProjectData(projectId: string): Promise<{ nodes: Node[]; edges
     [projectId]
   );
 
-  // 转换节点数据，确保 baseStatus 和 autoUpdate 有默认值
-  const nodes = nodesResult.rows.map((row: any) => ({
-    ...row,
-    baseStatus: row.baseStatus || DEFAULT_BASE_STATUS[row.type as NodeType],
-    autoUpdate: row.autoUpdate ?? getDefaultAutoUpdate(row.type as NodeType),
-  }));
-
   const edgesResult = await pool.query(
     `SELECT id, project_id as "graphId", source_node_id as "sourceNodeId",
             target_node_id as "targetNodeId", type, strength, description,
@@ -117,8 +121,8 @@ async function getProjectData(projectId: string): Promise<{ nodes: Node[]; edges
   );
 
   return {
-    nodes,
-    edges: edgesResult.rows,
+    nodes: toAnalysisNodes(nodesResult.rows),
+    edges: toAnalysisEdges(edgesResult.rows),
   };
 }
 
@@ -143,7 +147,7 @@ async function getWeightConfig(projectId: string): Promise<WeightConfig | null>
  * POST /api/projects/:projectId/analyze/next-action
  * 获取下一步行动建议（模块一）
  */
-router.post('/projects/:projectId/analyze/next-action', async (req: Request, res: Response) => {
+router.post('/projects/:projectId/analyze/next-action', canViewProject, async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
 
@@ -199,7 +203,7 @@ router.post('/projects/:projectId/analyze/next-action', async (req: Request, res
  * POST /api/projects/:projectId/analyze/feasibility/:nodeId
  * 评估节点可行性（模块二）
  */
-router.post('/projects/:projectId/analyze/feasibility/:nodeId', async (req: Request, res: Response) => {
+router.post('/projects/:projectId/analyze/feasibility/:nodeId', canViewProject, async (req: Request, res: Response) => {
   try {
     const { projectId, nodeId } = req.params;
 
@@ -261,7 +265,7 @@ router.post('/projects/:projectId/analyze/feasibility/:nodeId', async (req: Requ
  * 3. 检测循环依赖和冲突
  * 4. 计算可行性评分
  */
-router.post('/projects/:projectId/analyze/propagate', async (req: Request, res: Response) => {
+router.post('/projects/:projectId/analyze/propagate', canPropagate, async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
     const { persist = false } = req.body;  // 是否持久化 baseStatus 更新
@@ -314,7 +318,7 @@ router.post('/projects/:projectId/analyze/propagate', async (req: Request, res:
  * GET /api/projects/:projectId/weight-config
  * 获取权重配置
  */
-router.get('/projects/:projectId/weight-config', async (req: Request, res: Response) => {
+router.get('/projects/:projectId/weight-config', canViewProject, async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
 
@@ -353,7 +357,7 @@ router.get('/projects/:projectId/weight-config', async (req: Request, res: Respo
  * PUT /api/projects/:projectId/weight-config
  * 更新权重配置
  */
-router.put('/projects/:projectId/weight-config', async (req: Request, res: Response) => {
+router.put('/projects/:projectId/weight-config', canEditProject, async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
     const updates: UpdateWeightConfigRequest = req.body;
@@ -405,7 +409,7 @@ router.put('/projects/:projectId/weight-config', async (req: Request, res: Respo
  * PATCH /api/nodes/:nodeId/logic-state
  * 更新节点逻辑状态
  */
-router.patch('/nodes/:nodeId/logic-state', async (req: Request, res: Response) => {
+router.patch('/nodes/:nodeId/logic-state', canEditNode, async (req: Request, res: Response) => {
   try {
     const { nodeId } = req.params;
     const { logicState } = req.body;
@@ -449,7 +453,7 @@ router.patch('/nodes/:nodeId/logic-state', async (req: Request, res: Response) =
  * PATCH /api/nodes/:nodeId/custom-weight
  * 更新节点自定义权重
  */
-router.patch('/nodes/:nodeId/custom-weight', async (req: Request, res: Response) => {
+router.patch('/nodes/:nodeId/custom-weight', canEditNode, async (req: Request, res: Response) => {
   try {
     const { nodeId } = req.params;
     const { customWeight } = req.body;
@@ -493,7 +497,7 @@ router.patch('/nodes/:nodeId/custom-weight', async (req: Request, res: Response)
  * PATCH /api/nodes/:nodeId/base-status
  * 更新节点基础状态 (v2.2)
  */
-router.patch('/nodes/:nodeId/base-status', async (req: Request, res: Response) => {
+router.patch('/nodes/:nodeId/base-status', canEditNode, async (req: Request, res: Response) => {
   try {
     const { nodeId } = req.params;
     const { baseStatus } = req.body;
@@ -557,7 +561,7 @@ router.patch('/nodes/:nodeId/base-status', async (req: Request, res: Response) =
  * PATCH /api/nodes/:nodeId/auto-update
  * 更新节点自动更新开关 (v2.2)
  */
-router.patch('/nodes/:nodeId/auto-update', async (req: Request, res: Response) => {
+router.patch('/nodes/:nodeId/auto-update', canEditNode, async (req: Request, res: Response) => {
   try {
     const { nodeId } = req.params;
     const { autoUpdate } = req.body;
@@ -0,0 +1,85 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AuthResponse } from '@solvechain/shared';
+import { userRepository } from '../repositories/userRepository.js';
+import { hashPassword, verifyPassword, generateToken, PASSWORD_MIN_LENGTH } from '../services/auth.js';
+import { requireAuth } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// 为用户签发新会话
+async function issueSession(user: AuthResponse['user']): Promise<AuthResponse> {
+  const token = generateToken();
+  const expiresAt = await userRepository.createSession(user.id, token);
+  return { token, expiresAt: expiresAt.toISOString(), user };
+}
+
+// 注册
+router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, name, password } = req.body;
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      throw new AppError(400, 'VALIDATION_ERROR', '邮箱格式不正确');
+    }
+    if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+      throw new AppError(400, 'VALIDATION_ERROR', `密码至少 ${PASSWORD_MIN_LENGTH} 位`);
+    }
+
+    const trimmedEmail = email.trim();
+    const user = await userRepository.create({
+      email: trimmedEmail,
+      name: typeof name === 'string' && name.trim() ? name.trim() : trimmedEmail.split('@')[0],
+      passwordHash: await hashPassword(password),
+    });
+
+    if (!user) {
+      throw new AppError(409, 'EMAIL_TAKEN', '该邮箱已注册');
+    }
+
+    res.status(201).json({ success: true, data: await issueSession(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 登录
+router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new AppError(400, 'VALIDATION_ERROR', '邮箱和密码不能为空');
+    }
+
+    const found = await userRepository.findByEmailWithPassword(email.trim());
+    // 账户不存在与密码错误返回同样的提示、花费同样的时间（都计算一次 scrypt），不暴露邮箱是否已注册
+    const valid = await verifyPassword(password, found?.passwordHash ?? null);
+    if (!found || !valid) {
+      throw new AppError(401, 'INVALID_CREDENTIALS', '邮箱或密码错误');
+    }
+
+    res.json({ success: true, data: await issueSession(found.user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 注销当前会话
+router.post('/logout', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await userRepository.deleteSession(req.authToken!);
+    res.json({ success: true, data: { loggedOut: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 获取当前用户
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+  res.json({ success: true, data: req.user });
+});
+
+export { router as authRoutes };
@@ -1,11 +1,16 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { edgeRepository } from '../repositories/edgeRepository.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess } from '../middleware/auth.js';
 
 const router = Router();
 
+// 带 :id 的路由按边所属项目的角色校验：读取需查看者，修改需编辑者
+const canViewEdge = requireAccess('id', edgeRepository.accessOf, 'viewer', '边不存在');
+const canEditEdge = requireAccess('id', edgeRepository.accessOf, 'editor', '边不存在');
+
 // 获取单个边
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', canViewEdge, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edge = await edgeRepository.findById(id);
@@ -21,7 +26,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 更新边
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id', canEditEdge, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edge = await edgeRepository.update(id, req.body);
@@ -37,7 +42,7 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 删除边（软删除）
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', canEditEdge, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     await edgeRepository.delete(id);
@@ -48,7 +53,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 恢复软删除的边
-router.post('/:id/restore', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/restore', canEditEdge, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edge = await edgeRepository.restore(id);
@@ -4,16 +4,17 @@ import { nodeRepository } from '../repositories/nodeRepository.js';
 import { edgeRepository } from '../repositories/edgeRepository.js';
 import { calculationEngine } from '../services/calculationEngine.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess, currentUserId } from '../middleware/auth.js';
 
 const router = Router();
 
-// 临时用户 ID（MVP 阶段不做认证）
-const DEFAULT_USER_ID = '00000000-0000-0000-0000-000000000001';
+// 带 :id 的路由只允许决策图所有者访问（决策图不属于项目，不能共享）
+const ownsGraph = requireAccess('id', graphRepository.accessOf, 'owner', '决策图不存在');
 
 // 获取所有决策图
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const graphs = await graphRepository.findByUserId(DEFAULT_USER_ID);
+    const graphs = await graphRepository.findByUserId(currentUserId(req));
     res.json({ success: true, data: graphs });
   } catch (error) {
     next(error);
@@ -29,7 +30,7 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       throw new AppError(400, 'VALIDATION_ERROR', '标题和核心问题不能为空');
     }
 
-    const graph = await graphRepository.create(DEFAULT_USER_ID, {
+    const graph = await graphRepository.create(currentUserId(req), {
       title,
       coreQuestion,
       description,
@@ -44,7 +45,7 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 获取单个决策图（包含节点和边）
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const result = await graphRepository.findByIdWithDetails(id);
@@ -60,7 +61,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 更新决策图
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const graph = await graphRepository.update(id, req.body);
@@ -76,7 +77,7 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 删除决策图
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     await graphRepository.delete(id);
@@ -87,7 +88,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 计算决策得分
-router.post('/:id/calculate', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/calculate', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
@@ -108,7 +109,7 @@ router.post('/:id/calculate', async (req: Request, res: Response, next: NextFunc
 });
 
 // 模拟场景
-router.post('/:id/simulate', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/simulate', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { changes } = req.body;
@@ -150,7 +151,7 @@ router.post('/:id/simulate', async (req: Request, res: Response, next: NextFunct
 });
 
 // 获取图的所有节点
-router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/nodes', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const nodes = await nodeRepository.findByGraphId(id);
@@ -161,7 +162,7 @@ router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 创建节点
-router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/nodes', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const node = await nodeRepository.create(id, req.body);
@@ -172,7 +173,7 @@ router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction
 });
 
 // 获取图的所有边
-router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/edges', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edges = await edgeRepository.findByGraphId(id);
@@ -183,7 +184,7 @@ router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 创建边
-router.post('/:id/edges', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/edges', ownsGraph, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edge = await edgeRepository.create(id, req.body);
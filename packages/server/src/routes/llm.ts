@@ -6,6 +6,7 @@ import { projectRepository } from '../repositories/projectRepository.js';
 import { sceneRepository } from '../repositories/sceneRepository.js';
 import { llmService, LLMProvider, AnalysisType, SceneAnalysisType } from '../services/llm/index.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { assertAccess } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -17,6 +18,7 @@ router.post('/analyze', async (req: Request, res: Response, next: NextFunction)
     if (!graphId || !type) {
       throw new AppError(400, 'VALIDATION_ERROR', '需要提供 graphId 和分析类型');
     }
+    await assertAccess(req, graphRepository.accessOf, graphId, 'owner', '决策图不存在');
 
     const graph = await graphRepository.findById(graphId);
     if (!graph) {
@@ -47,6 +49,7 @@ router.post('/chat', async (req: Request, res: Response, next: NextFunction) =>
     if (!graphId || !message) {
       throw new AppError(400, 'VALIDATION_ERROR', '需要提供 graphId 和消息');
     }
+    await assertAccess(req, graphRepository.accessOf, graphId, 'owner', '决策图不存在');
 
     const graph = await graphRepository.findById(graphId);
     if (!graph) {
@@ -78,6 +81,7 @@ router.post('/accept-suggestions', async (req: Request, res: Response, next: Nex
     if (!graphId || !suggestedNodes || !Array.isArray(suggestedNodes)) {
       throw new AppError(400, 'VALIDATION_ERROR', '需要提供 graphId 和建议节点列表');
     }
+    await assertAccess(req, graphRepository.accessOf, graphId, 'owner', '决策图不存在');
 
     const createdNodes = await nodeRepository.createBatch(graphId, suggestedNodes, 'llm');
 
@@ -184,6 +188,7 @@ router.post('/scene/analyze', async (req: Request, res: Response, next: NextFunc
     }
 
     // 获取项目
+    await assertAccess(req, projectRepository.accessOf, projectId, 'viewer', '项目不存在');
     const project = await projectRepository.findById(projectId);
     if (!project) {
       throw new AppError(404, 'NOT_FOUND', '项目不存在');
@@ -197,7 +202,7 @@ router.post('/scene/analyze', async (req: Request, res: Response, next: NextFunc
 
     if (sceneId) {
       const sceneData = await sceneRepository.findByIdWithDetails(sceneId);
-      if (!sceneData) {
+      if (!sceneData || sceneData.scene.projectId !== projectId) {
         throw new AppError(404, 'NOT_FOUND', '场景不存在');
       }
       sceneName = sceneData.scene.name;
@@ -252,6 +257,7 @@ router.post('/scene/chat', async (req: Request, res: Response, next: NextFunctio
     }
 
     // 获取项目
+    await assertAccess(req, projectRepository.accessOf, projectId, 'viewer', '项目不存在');
     const project = await projectRepository.findById(projectId);
     if (!project) {
       throw new AppError(404, 'NOT_FOUND', '项目不存在');
@@ -265,7 +271,7 @@ router.post('/scene/chat', async (req: Request, res: Response, next: NextFunctio
 
     if (sceneId) {
       const sceneData = await sceneRepository.findByIdWithDetails(sceneId);
-      if (!sceneData) {
+      if (!sceneData || sceneData.scene.projectId !== projectId) {
         throw new AppError(404, 'NOT_FOUND', '场景不存在');
       }
       sceneName = sceneData.scene.name;
@@ -1,12 +1,18 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { nodeRepository } from '../repositories/nodeRepository.js';
 import { edgeRepository } from '../repositories/edgeRepository.js';
+import { graphRepository } from '../repositories/graphRepository.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess, assertAccess } from '../middleware/auth.js';
 
 const router = Router();
 
+// 带 :id 的路由按节点所属项目的角色校验：读取需查看者，修改需编辑者
+const canViewNode = requireAccess('id', nodeRepository.accessOf, 'viewer', '节点不存在');
+const canEditNode = requireAccess('id', nodeRepository.accessOf, 'editor', '节点不存在');
+
 // 获取单个节点
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', canViewNode, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const node = await nodeRepository.findById(id);
@@ -22,7 +28,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 更新节点
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id', canEditNode, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const node = await nodeRepository.update(id, req.body);
@@ -38,7 +44,7 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 删除节点（软删除）- 同时软删除相关的边
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', canEditNode, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     // 先软删除相关的边
@@ -52,7 +58,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 恢复软删除的节点 - 同时恢复指定的边
-router.post('/:id/restore', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/restore', canEditNode, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { edgeIds } = req.body; // 可选：指定要恢复的边 ID 列表
@@ -67,9 +73,9 @@ router.post('/:id/restore', async (req: Request, res: Response, next: NextFuncti
     // 恢复边：如果指定了边 ID 列表，只恢复这些边；否则恢复所有相关边
     let restoredEdges: any[] = [];
     if (edgeIds && Array.isArray(edgeIds) && edgeIds.length > 0) {
-      // 只恢复指定的边
+      // 只恢复指定的边；不与该节点相连的边由查询跳过
       for (const edgeId of edgeIds) {
-        const edge = await edgeRepository.restore(edgeId);
+        const edge = await edgeRepository.restoreForNode(edgeId, id);
         if (edge) {
           restoredEdges.push(edge);
         }
@@ -83,16 +89,20 @@ router.post('/:id/restore', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
-// 批量更新位置
+// 批量更新决策图内节点的位置
 router.patch('/batch/positions', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { positions } = req.body;
+    const { graphId, positions } = req.body;
 
+    if (!graphId) {
+      throw new AppError(400, 'VALIDATION_ERROR', '决策图 ID 不能为空');
+    }
     if (!positions || !Array.isArray(positions)) {
       throw new AppError(400, 'VALIDATION_ERROR', '需要提供位置数组');
     }
+    await assertAccess(req, graphRepository.accessOf, graphId, 'owner', '决策图不存在');
 
-    await nodeRepository.updatePositions(positions);
+    await nodeRepository.updateGraphPositions(graphId, positions);
     res.json({ success: true, data: { updated: positions.length } });
   } catch (error) {
     next(error);
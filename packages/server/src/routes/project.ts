@@ -3,20 +3,23 @@ import { projectRepository } from '../repositories/projectRepository.js';
 import { sceneRepository } from '../repositories/sceneRepository.js';
 import { nodeRepository } from '../repositories/nodeRepository.js';
 import { edgeRepository } from '../repositories/edgeRepository.js';
+import { syncRepository } from '../repositories/syncRepository.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess, assertRole, roleFor, currentUserId } from '../middleware/auth.js';
 
 const router = Router();
 
-// 临时用户 ID（MVP 阶段不做认证）
-// 注意：要与 graph.ts 中的 DEFAULT_USER_ID 一致
-const DEFAULT_USER_ID = '00000000-0000-0000-0000-000000000001';
+// 带 :id 的路由按项目角色校验：读取需查看者，修改需编辑者，删除项目仅限所有者
+const canViewProject = requireAccess('id', projectRepository.accessOf, 'viewer', '项目不存在');
+const canEditProject = requireAccess('id', projectRepository.accessOf, 'editor', '项目不存在');
+const isProjectOwner = requireAccess('id', projectRepository.accessOf, 'owner', '项目不存在');
 
 // ========== 项目 API ==========
 
 // 获取所有项目
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const projects = await projectRepository.findByUserId(DEFAULT_USER_ID);
+    const projects = await projectRepository.findByUserId(currentUserId(req));
     res.json({ success: true, data: projects });
   } catch (error) {
     next(error);
@@ -32,7 +35,7 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       throw new AppError(400, 'VALIDATION_ERROR', '项目标题不能为空');
     }
 
-    const project = await projectRepository.create(DEFAULT_USER_ID, {
+    const project = await projectRepository.create(currentUserId(req), {
       title,
       description,
       category,
@@ -53,8 +56,62 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+// ========== 客户端同步 API ==========
+
+// 读取 ?since= 参数（ISO 时间）；缺省表示首次拉取
+function parseSince(value: unknown): string | null {
+  if (value === undefined || value === '') return null;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'since 必须是 ISO 时间');
+  }
+  return value;
+}
+
+// 拉取 since 之后变化的项目（含已删除的墓碑）
+router.get('/changes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await syncRepository.pullProjects(currentUserId(req), parseSince(req.query.since));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 拉取项目在 since 之后变化的项目、场景、节点、边和场景-节点关联
+router.get('/:id/changes', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const result = await syncRepository.pullProject(id, parseSince(req.query.since));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 推送客户端的修改；每条记录带上次同步时的服务器版本，版本不一致时返回冲突
+router.post('/:id/changes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    if (!req.body || typeof req.body !== 'object') {
+      throw new AppError(400, 'VALIDATION_ERROR', '同步数据格式错误');
+    }
+    // 项目可能还不存在（客户端新建后首次推送），此时由当前用户创建；
+    // 已存在时评论者可以推送评论，其他修改需要编辑者权限，记录仍归项目所有者
+    const access = await projectRepository.accessOf(id);
+    const role = access ? await roleFor(req, access) : 'owner';
+    assertRole(role, 'commenter');
+    const results = await syncRepository.pushProject(access?.ownerId ?? currentUserId(req), id, req.body, {
+      user: req.user!,
+      role,
+    });
+    res.json({ success: true, data: results });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // 获取单个项目（包含场景、节点和边）
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const result = await projectRepository.findByIdWithDetails(id);
@@ -70,7 +127,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 更新项目
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id', canEditProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const project = await projectRepository.update(id, req.body);
@@ -86,7 +143,7 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 删除项目
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', isProjectOwner, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     await projectRepository.delete(id);
@@ -99,7 +156,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
 // ========== 项目内的场景 API ==========
 
 // 获取项目的所有场景
-router.get('/:id/scenes', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/scenes', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const scenes = await sceneRepository.findByProjectId(id);
@@ -110,7 +167,7 @@ router.get('/:id/scenes', async (req: Request, res: Response, next: NextFunction
 });
 
 // 在项目中创建场景
-router.post('/:id/scenes', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/scenes', canEditProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { name, description, color, sortOrder } = req.body;
@@ -129,7 +186,7 @@ router.post('/:id/scenes', async (req: Request, res: Response, next: NextFunctio
 // ========== 项目内的节点 API ==========
 
 // 获取项目的所有节点
-router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/nodes', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const nodes = await nodeRepository.findByProjectId(id);
@@ -140,7 +197,7 @@ router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 在项目中创建节点
-router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/nodes', canEditProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const node = await nodeRepository.createInProject(id, req.body);
@@ -151,7 +208,7 @@ router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction
 });
 
 // 批量更新节点位置（保存布局）
-router.put('/:id/layout', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/layout', canEditProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { positions } = req.body;
@@ -167,7 +224,7 @@ router.put('/:id/layout', async (req: Request, res: Response, next: NextFunction
     }
 
     // 批量更新位置
-    await nodeRepository.updatePositions(positions);
+    await nodeRepository.updatePositions(id, positions);
 
     res.json({ success: true, message: '布局已保存' });
   } catch (error) {
@@ -178,7 +235,7 @@ router.put('/:id/layout', async (req: Request, res: Response, next: NextFunction
 // ========== 项目内的边 API ==========
 
 // 获取项目的所有边
-router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/edges', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edges = await edgeRepository.findByProjectId(id);
@@ -189,10 +246,13 @@ router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 在项目中创建边
-router.post('/:id/edges', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/edges', canEditProject, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edge = await edgeRepository.createInProject(id, req.body);
+    if (!edge) {
+      throw new AppError(400, 'VALIDATION_ERROR', '关系两端的节点必须属于该项目');
+    }
     res.status(201).json({ success: true, data: edge });
   } catch (error) {
     next(error);
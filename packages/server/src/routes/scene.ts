@@ -1,11 +1,16 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { sceneRepository } from '../repositories/sceneRepository.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess } from '../middleware/auth.js';
 
 const router = Router();
 
+// 带 :id 的路由按场景所属项目的角色校验：读取需查看者，修改需编辑者
+const canViewScene = requireAccess('id', sceneRepository.accessOf, 'viewer', '场景不存在');
+const canEditScene = requireAccess('id', sceneRepository.accessOf, 'editor', '场景不存在');
+
 // 获取单个场景
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', canViewScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const scene = await sceneRepository.findById(id);
@@ -21,7 +26,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // 获取场景的完整数据（包含节点和边）
-router.get('/:id/details', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/details', canViewScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const result = await sceneRepository.findByIdWithDetails(id);
@@ -37,7 +42,7 @@ router.get('/:id/details', async (req: Request, res: Response, next: NextFunctio
 });
 
 // 更新场景
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const scene = await sceneRepository.update(id, req.body);
@@ -53,7 +58,7 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // 删除场景
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     await sceneRepository.delete(id);
@@ -66,7 +71,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
 // ========== 场景-节点关联 API ==========
 
 // 获取场景内的所有节点
-router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/nodes', canViewScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const nodes = await sceneRepository.getNodesInScene(id);
@@ -77,7 +82,7 @@ router.get('/:id/nodes', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 获取场景内的所有边
-router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/edges', canViewScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const edges = await sceneRepository.getEdgesInScene(id);
@@ -88,7 +93,7 @@ router.get('/:id/edges', async (req: Request, res: Response, next: NextFunction)
 });
 
 // 添加节点到场景
-router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/nodes', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { nodeId, positionX, positionY } = req.body;
@@ -98,6 +103,9 @@ router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction
     }
 
     const sceneNode = await sceneRepository.addNodeToScene(id, { nodeId, positionX, positionY });
+    if (!sceneNode) {
+      throw new AppError(404, 'NOT_FOUND', '节点不存在或不属于该项目');
+    }
     res.status(201).json({ success: true, data: sceneNode });
   } catch (error) {
     next(error);
@@ -105,7 +113,7 @@ router.post('/:id/nodes', async (req: Request, res: Response, next: NextFunction
 });
 
 // 从场景中移除节点
-router.delete('/:id/nodes/:nodeId', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id/nodes/:nodeId', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id, nodeId } = req.params;
     await sceneRepository.removeNodeFromScene(id, nodeId);
@@ -116,7 +124,7 @@ router.delete('/:id/nodes/:nodeId', async (req: Request, res: Response, next: Ne
 });
 
 // 更新节点在场景中的位置
-router.patch('/:id/nodes/:nodeId/position', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id/nodes/:nodeId/position', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id, nodeId } = req.params;
     const { positionX, positionY } = req.body;
@@ -138,7 +146,7 @@ router.patch('/:id/nodes/:nodeId/position', async (req: Request, res: Response,
 });
 
 // 批量更新节点在场景中的位置
-router.patch('/:id/nodes/batch/positions', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/:id/nodes/batch/positions', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { positions } = req.body;
@@ -155,7 +163,7 @@ router.patch('/:id/nodes/batch/positions', async (req: Request, res: Response, n
 });
 
 // 保存场景布局（批量更新节点位置）
-router.put('/:id/layout', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/layout', canEditScene, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { positions } = req.body;
@@ -0,0 +1,170 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { MemberRole, ProjectSharing, AcceptInviteResponse } from '@solvechain/shared';
+import { projectRepository } from '../repositories/projectRepository.js';
+import { memberRepository } from '../repositories/memberRepository.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { requireAccess, currentUserId } from '../middleware/auth.js';
+
+const router = Router();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MEMBER_ROLES: MemberRole[] = ['viewer', 'commenter', 'editor'];
+
+// 成员都能看到共享设置，只有所有者能邀请、改角色和移除成员
+const canViewProject = requireAccess('id', projectRepository.accessOf, 'viewer', '项目不存在');
+const isProjectOwner = requireAccess('id', projectRepository.accessOf, 'owner', '项目不存在');
+
+function parseMemberRole(value: unknown): MemberRole {
+  if (!MEMBER_ROLES.includes(value as MemberRole)) {
+    throw new AppError(400, 'VALIDATION_ERROR', '角色必须是 viewer、commenter 或 editor');
+  }
+  return value as MemberRole;
+}
+
+// ========== 项目成员 ==========
+
+// 获取项目成员和邀请（邀请只对所有者可见）
+router.get('/projects/:id/members', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const role = await memberRepository.roleOf(id, currentUserId(req));
+    const data: ProjectSharing = {
+      members: await memberRepository.findByProjectId(id),
+      invites: role === 'owner' ? await memberRepository.findInvitesByProjectId(id) : [],
+    };
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 修改成员角色
+router.patch('/projects/:id/members/:userId', isProjectOwner, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+    const updated = await memberRepository.updateRole(id, userId, parseMemberRole(req.body.role));
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', '成员不存在');
+    }
+    res.json({ success: true, data: await memberRepository.findByProjectId(id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 移除成员
+router.delete('/projects/:id/members/:userId', isProjectOwner, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+    const removed = await memberRepository.remove(id, userId);
+    if (!removed) {
+      throw new AppError(404, 'NOT_FOUND', '成员不存在');
+    }
+    res.json({ success: true, data: { removed: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 退出共享给自己的项目
+router.delete('/projects/:id/membership', canViewProject, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const removed = await memberRepository.remove(id, currentUserId(req));
+    if (!removed) {
+      throw new AppError(400, 'VALIDATION_ERROR', '所有者不能退出自己的项目');
+    }
+    res.json({ success: true, data: { removed: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ========== 邀请 ==========
+
+// 创建邀请：带 email 时只发给该邮箱，否则生成分享码
+router.post('/projects/:id/invites', isProjectOwner, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { email } = req.body;
+    const role = parseMemberRole(req.body.role);
+
+    let inviteEmail: string | null = null;
+    if (email !== undefined && email !== null && email !== '') {
+      if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        throw new AppError(400, 'VALIDATION_ERROR', '邮箱格式不正确');
+      }
+      inviteEmail = email.trim();
+      if (inviteEmail.toLowerCase() === req.user!.email.toLowerCase()) {
+        throw new AppError(400, 'VALIDATION_ERROR', '不能邀请自己');
+      }
+    }
+
+    const invite = await memberRepository.createInvite(id, currentUserId(req), { email: inviteEmail, role });
+    res.status(201).json({ success: true, data: invite });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 撤销邀请
+router.delete('/projects/:id/invites/:inviteId', isProjectOwner, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, inviteId } = req.params;
+    const deleted = await memberRepository.deleteInvite(id, inviteId);
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', '邀请不存在');
+    }
+    res.json({ success: true, data: { deleted: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 获取发给当前用户邮箱的邀请
+router.get('/invites', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invites = await memberRepository.findInvitesByEmail(req.user!.email);
+    res.json({ success: true, data: invites });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// 接受邀请：邮箱邀请用后即删，分享码在有效期内可重复使用
+router.post('/invites/accept', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { code } = req.body;
+    if (typeof code !== 'string' || !code.trim()) {
+      throw new AppError(400, 'VALIDATION_ERROR', '邀请码不能为空');
+    }
+
+    const invite = await memberRepository.findInviteByCode(code.trim());
+    if (!invite) {
+      throw new AppError(404, 'NOT_FOUND', '邀请不存在或已过期');
+    }
+    if (invite.email && invite.email.toLowerCase() !== req.user!.email.toLowerCase()) {
+      throw new AppError(403, 'FORBIDDEN', '该邀请是发给其他邮箱的');
+    }
+
+    const userId = currentUserId(req);
+    const currentRole = await memberRepository.roleOf(invite.projectId, userId);
+    if (currentRole !== 'owner') {
+      await memberRepository.add(invite.projectId, userId, invite.role);
+    }
+    if (invite.email) {
+      await memberRepository.deleteInvite(invite.projectId, invite.id);
+    }
+
+    const data: AcceptInviteResponse = {
+      projectId: invite.projectId,
+      projectTitle: invite.projectTitle,
+      role: (await memberRepository.roleOf(invite.projectId, userId))!,
+    };
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as sharingRoutes };
@@ -0,0 +1,24 @@
+/**
+ * 分析与状态传播的输入：把 getProjectData 查询出的节点、关系行整理成引擎需要的形状。
+ * 前后端传播结果一致性的黄金文件测试（packages/shared/test）也经由这里驱动服务器一侧
+ */
+
+import { Node, Edge, DEFAULT_BASE_STATUS, getDefaultAutoUpdate, NodeType } from '../types/index.js';
+
+/** 节点：数值列转为数字，baseStatus 和 autoUpdate 缺省时按节点类型补齐 */
+export function toAnalysisNodes(rows: any[]): Node[] {
+  return rows.map((row) => ({
+    ...row,
+    // DECIMAL 列由 pg 以字符串返回
+    confidence: Number(row.confidence),
+    weight: Number(row.weight),
+    customWeight: row.customWeight == null ? null : Number(row.customWeight),
+    baseStatus: row.baseStatus || DEFAULT_BASE_STATUS[row.type as NodeType],
+    autoUpdate: row.autoUpdate ?? getDefaultAutoUpdate(row.type as NodeType),
+  }));
+}
+
+/** 关系：强度转为数字 */
+export function toAnalysisEdges(rows: any[]): Edge[] {
+  return rows.map((row) => ({ ...row, strength: Number(row.strength) }));
+}
@@ -0,0 +1,46 @@
+/**
+ * 账户认证工具
+ * 密码用 scrypt 加盐哈希；登录令牌是随机串，数据库只保存它的 SHA-256，泄露的库无法直接冒用会话
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// 没有可用密码哈希时陪跑一次 scrypt 用的固定盐，使账户不存在与密码错误的耗时相同
+const DUMMY_SALT = '0'.repeat(32);
+
+// 登录有效期
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+/** 哈希格式：scrypt$<salt>$<hash>（均为 hex） */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+/** 账户不存在或没有设置密码时传 null：同样计算一次 scrypt 后返回 false */
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [scheme, salt, hash] = (stored ?? '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    await scryptAsync(password, DUMMY_SALT, KEY_LENGTH);
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
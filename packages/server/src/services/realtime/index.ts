@@ -0,0 +1,307 @@
+/**
+ * 实时协作通道（WebSocket，路径 /api/realtime?token=<登录令牌>）
+ *
+ * 每个连接加入一个项目后：
+ * - 编辑者及以上发来的节点、关系、场景-节点关联修改，按同步推送的规则写入数据库，
+ *   写入成功的带上服务器版本转发给同一项目的其他连接，并把版本回给发送者（各端据此前移同步基线）；
+ *   修改带字段级时间戳，由各客户端用 FieldClock 合并；
+ * - 每个连接上报正在看的场景和选中的节点，变化时把项目的在线列表广播给所有连接。
+ * 角色在加入后可能被所有者修改或移除，每条消息都重新查询；离线期间的修改仍由同步接口补上。
+ * WebSocket 协议（握手、分帧、ping/pong、关闭）由 ws 处理。
+ */
+
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  AccountUser,
+  hasProjectRole,
+  PresenceInfo,
+  ProjectRole,
+  REALTIME_CREATE_FIELDS,
+  REALTIME_EDITABLE_FIELDS,
+  RealtimeChange,
+  RealtimeClientMessage,
+  RealtimeCollection,
+  RealtimeServerMessage,
+  RealtimeVersion,
+} from '@solvechain/shared';
+import { userRepository } from '../../repositories/userRepository.js';
+import { memberRepository } from '../../repositories/memberRepository.js';
+import { projectRepository } from '../../repositories/projectRepository.js';
+import { syncRepository } from '../../repositories/syncRepository.js';
+
+export const REALTIME_PATH = '/api/realtime';
+
+// 单条消息的大小上限，超过时 ws 以 1009 关闭连接
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const REALTIME_COLLECTIONS = new Set<unknown>(['nodes', 'edges', 'sceneNodes']);
+
+// 在线状态中场景、节点 ID 的长度上限
+const MAX_PRESENCE_ID_LENGTH = 64;
+
+// 协作者颜色：按用户 ID 取，同一用户在各处颜色一致
+const PRESENCE_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+interface Client {
+  connection: WebSocket;
+  user: AccountUser;
+  projectId: string | null;
+  role: ProjectRole | null;
+  presence: PresenceInfo | null;
+}
+
+// 项目 ID -> 已加入该项目的连接
+const rooms = new Map<string, Set<Client>>();
+
+function colorFor(userId: string): string {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+function send(client: Client, message: RealtimeServerMessage): void {
+  if (client.connection.readyState === WebSocket.OPEN) client.connection.send(JSON.stringify(message));
+}
+
+function presenceOf(projectId: string): PresenceInfo[] {
+  return Array.from(rooms.get(projectId) ?? [])
+    .map((client) => client.presence)
+    .filter((presence): presence is PresenceInfo => presence !== null);
+}
+
+function broadcastPresence(projectId: string): void {
+  const message: RealtimeServerMessage = { type: 'presence', presence: presenceOf(projectId) };
+  rooms.get(projectId)?.forEach((client) => send(client, message));
+}
+
+function leave(client: Client): void {
+  const { projectId } = client;
+  if (!projectId) return;
+  const room = rooms.get(projectId);
+  room?.delete(client);
+  if (room?.size === 0) rooms.delete(projectId);
+  client.projectId = null;
+  client.role = null;
+  client.presence = null;
+  broadcastPresence(projectId);
+}
+
+async function join(client: Client, projectId: string, clientId: string): Promise<void> {
+  const role = await memberRepository.roleOf(projectId, client.user.id);
+  if (!role) {
+    send(client, { type: 'error', message: '项目不存在或无权访问' });
+    return;
+  }
+  leave(client);
+  client.projectId = projectId;
+  client.role = role;
+  client.presence = {
+    clientId,
+    userId: client.user.id,
+    name: client.user.name,
+    color: colorFor(client.user.id),
+    sceneId: null,
+    selectedNodeId: null,
+  };
+  if (!rooms.has(projectId)) rooms.set(projectId, new Set());
+  rooms.get(projectId)!.add(client);
+  send(client, { type: 'joined', projectId, role, presence: presenceOf(projectId) });
+  broadcastPresence(projectId);
+}
+
+// 重新查询连接在项目中的角色；已被移出项目时离开房间并返回 null
+async function refreshRole(client: Client, projectId: string): Promise<ProjectRole | null> {
+  const role = await memberRepository.roleOf(projectId, client.user.id);
+  if (!role) {
+    leave(client);
+    send(client, { type: 'error', message: '你已无权访问该项目' });
+    return null;
+  }
+  client.role = role;
+  return role;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 在线状态中的场景、选中节点：ID 字符串或 null（未带时视为 null）
+function isPresenceId(value: unknown): value is string | null | undefined {
+  return value == null || (typeof value === 'string' && value.length <= MAX_PRESENCE_ID_LENGTH);
+}
+
+// 修改的格式：属于当前项目、集合合法，每个字段都是可以经实时修改写入的字段并带有时间戳
+function isValidChange(change: unknown, projectId: string): change is RealtimeChange {
+  if (!isObject(change) || change.projectId !== projectId || typeof change.id !== 'string') return false;
+  const { collection, fields, stamps } = change;
+  if (!REALTIME_COLLECTIONS.has(collection as RealtimeCollection)) return false;
+  if (!isObject(fields) || !isObject(stamps) || Object.keys(fields).length === 0) return false;
+  const allowed = [
+    ...REALTIME_EDITABLE_FIELDS[collection as RealtimeCollection],
+    ...REALTIME_CREATE_FIELDS[collection as RealtimeCollection],
+  ];
+  return Object.keys(fields).every((field) => {
+    const stamp = stamps[field];
+    return allowed.includes(field) && isObject(stamp) && Number.isSafeInteger(stamp.time) && typeof stamp.clientId === 'string';
+  });
+}
+
+// 逐条按同步推送的规则写入，返回写入成功的修改（带服务器版本，只保留时间戳胜出、实际写入的字段）
+// 和第一条被拒绝的原因
+async function persistChanges(
+  client: Client,
+  projectId: string,
+  role: ProjectRole,
+  changes: RealtimeChange[]
+): Promise<{ saved: RealtimeChange[]; rejected: string | null }> {
+  const access = await projectRepository.accessOf(projectId);
+  if (!access) return { saved: [], rejected: '项目不存在' };
+  const saved: RealtimeChange[] = [];
+  let rejected: string | null = null;
+  for (const { collection, id, fields, stamps } of changes) {
+    try {
+      const { result, fields: written } = await syncRepository.pushChange(
+        access.ownerId,
+        projectId,
+        { collection, id, fields, stamps },
+        { user: client.user, role }
+      );
+      if (result.status === 'applied' && result.updatedAt) {
+        const writtenStamps = Object.fromEntries(Object.keys(written).map((field) => [field, stamps[field]]));
+        saved.push({ collection, id, projectId, fields: written, stamps: writtenStamps, updatedAt: result.updatedAt });
+      } else {
+        rejected ??= result.message ?? '修改未能保存';
+      }
+    } catch (error) {
+      // 字段值不合法（类型、取值范围等）：只丢弃这一条
+      console.error('实时修改写入失败:', error);
+      rejected ??= '修改未能保存';
+    }
+  }
+  return { saved, rejected };
+}
+
+async function handleMessage(client: Client, text: string): Promise<void> {
+  let message: RealtimeClientMessage;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    send(client, { type: 'error', message: '消息格式错误' });
+    return;
+  }
+
+  switch (message.type) {
+    case 'join':
+      if (typeof message.projectId !== 'string' || typeof message.clientId !== 'string') {
+        send(client, { type: 'error', message: '消息格式错误' });
+        return;
+      }
+      await join(client, message.projectId, message.clientId);
+      return;
+
+    case 'presence':
+      if (!client.projectId || !client.presence) return;
+      if (!isPresenceId(message.sceneId) || !isPresenceId(message.selectedNodeId)) {
+        send(client, { type: 'error', message: '消息格式错误' });
+        return;
+      }
+      if (!(await refreshRole(client, client.projectId))) return;
+      client.presence = {
+        ...client.presence,
+        sceneId: message.sceneId ?? null,
+        selectedNodeId: message.selectedNodeId ?? null,
+      };
+      broadcastPresence(client.projectId);
+      return;
+
+    case 'changes': {
+      const { projectId, presence } = client;
+      if (!projectId || !presence) return;
+      const role = await refreshRole(client, projectId);
+      if (!role) return;
+      if (!hasProjectRole(role, 'editor')) {
+        send(client, { type: 'error', message: '你在该项目中没有编辑权限' });
+        return;
+      }
+      if (!Array.isArray(message.changes) || !message.changes.every((c) => isValidChange(c, projectId))) {
+        send(client, { type: 'error', message: '消息格式错误' });
+        return;
+      }
+      const { saved, rejected } = await persistChanges(client, projectId, role, message.changes);
+      if (rejected) send(client, { type: 'error', message: rejected });
+      if (saved.length === 0) return;
+      const versions: RealtimeVersion[] = saved.map(({ collection, id, updatedAt }) => ({ collection, id, updatedAt: updatedAt! }));
+      send(client, { type: 'saved', versions });
+      // 已被更晚的修改覆盖、没有写入任何字段的修改不再转发
+      const forwarded = saved.filter((change) => Object.keys(change.fields).length > 0);
+      if (forwarded.length === 0) return;
+      const outgoing: RealtimeServerMessage = { type: 'changes', from: presence.clientId, changes: forwarded };
+      rooms.get(projectId)?.forEach((other) => {
+        if (other !== client) send(other, outgoing);
+      });
+      return;
+    }
+  }
+}
+
+/** 以 HTTP 响应拒绝升级请求并断开 */
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function accept(client: Client): void {
+  const { connection } = client;
+  // 消息按到达顺序逐条处理（join 需要查询角色）
+  let queue = Promise.resolve();
+  connection.on('message', (data, isBinary) => {
+    if (isBinary) {
+      connection.close(1003, 'unsupported data');
+      return;
+    }
+    const text = data.toString();
+    queue = queue.then(() => handleMessage(client, text)).catch((error) => {
+      console.error('实时消息处理失败:', error);
+    });
+  });
+  connection.on('close', () => leave(client));
+  connection.on('error', () => connection.terminate());
+}
+
+async function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+  const url = new URL(req.url ?? '', 'http://localhost');
+  const token = url.searchParams.get('token');
+  const user = token ? await userRepository.findBySessionToken(token) : null;
+  if (!user) {
+    rejectUpgrade(socket, 401, 'Unauthorized');
+    return;
+  }
+
+  // 不是合法的 WebSocket 升级请求时由 ws 以 400 拒绝
+  wss.handleUpgrade(req, socket, head, (connection) => {
+    accept({ connection, user, projectId: null, role: null, presence: null });
+  });
+}
+
+/**
+ * 在 HTTP 服务器上挂载实时协作通道；其他路径的升级请求直接拒绝。
+ * 服务器关闭前可调用返回的函数断开所有连接
+ */
+export function attachRealtime(server: Server): () => void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const connections = new Set<Duplex>();
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? '', 'http://localhost').pathname !== REALTIME_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+    connections.add(socket);
+    socket.on('close', () => connections.delete(socket));
+    handleUpgrade(wss, req, socket, head).catch((error) => {
+      console.error('实时连接失败:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    });
+  });
+  return () => connections.forEach((socket) => socket.destroy());
+}
@@ -0,0 +1,59 @@
+/**
+ * 由两份真实数据生成状态传播黄金文件的输入（nodes/edges）：
+ * - 内置示例项目（packages/client/src/data/exampleProject.ts）
+ * - 教父决策图（packages/server/src/database/godfatherData.ts，seed-godfather.ts 写入数据库的同一份数据）
+ *
+ * 运行：npm run test:generate-fixtures -w @solvechain/shared
+ * 输入变化后期望结果需重新生成：npm run test:update-golden -w @solvechain/shared
+ */
+
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getExampleProjectDetails } from '../../client/src/data/exampleProject';
+import { GODFATHER_EDGES, GODFATHER_NODES } from '../../server/src/database/godfatherData';
+
+const FIXTURE_DIR = join(__dirname, '..', 'test', 'fixtures', 'propagation');
+
+function write(file: string, fixture: { description: string; nodes: unknown[]; edges: unknown[] }): void {
+  writeFileSync(join(FIXTURE_DIR, file), JSON.stringify(fixture, null, 2) + '\n');
+}
+
+const example = getExampleProjectDetails();
+write('example-project.json', {
+  description: '内置示例项目（client/src/data/exampleProject.ts）',
+  nodes: example.nodes.map((n) => ({
+    id: n.id,
+    type: n.type,
+    title: n.title,
+    confidence: n.confidence,
+    weight: n.weight,
+    baseStatus: n.baseStatus,
+    autoUpdate: n.autoUpdate,
+  })),
+  edges: example.edges.map((e) => ({
+    id: e.id,
+    sourceNodeId: e.sourceNodeId,
+    targetNodeId: e.targetNodeId,
+    type: e.type,
+    strength: e.strength,
+  })),
+});
+
+// 与 seed-godfather.ts 写入的值一致：confidence/weight 缺省为 50，关系强度为 80，不写 baseStatus/autoUpdate
+write('godfather.json', {
+  description: '教父决策图（server/src/database/godfatherData.ts），含已废弃的节点和关系类型',
+  nodes: GODFATHER_NODES.map((n) => ({
+    id: n.id,
+    type: n.type,
+    title: n.title,
+    confidence: n.confidence || 50,
+    weight: n.weight || 50,
+  })),
+  edges: GODFATHER_EDGES.map((e) => ({
+    id: `${e.src}-${e.tgt}-${e.type}`,
+    sourceNodeId: e.src,
+    targetNodeId: e.tgt,
+    type: e.type,
+    strength: 80,
+  })),
+});
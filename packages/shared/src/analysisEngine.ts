@@ -7,17 +7,19 @@
  * v2.2 更新：
  * - 使用 baseStatus 和 computedStatus 代替 logicState
  * - 利用状态传播引擎计算的 computedStatus
+ * - 假设节点的状态系数使用置信度；节点自身的证据条目计入可行性证据
  */
 
 import {
-  Node,
-  Edge,
+  AnalysisNode,
+  AnalysisEdge,
   NodeType,
   EdgeType,
-  LogicState,
   SatisfactionStatus,
-  WeightConfig,
+  NodeTypeWeights,
   DEFAULT_WEIGHTS,
+  DEFAULT_BASE_STATUS,
+  BaseStatus,
   DependencyTreeNode,
   BlockingPoint,
   ExecutableAction,
@@ -36,21 +38,23 @@ import {
   isPositiveStatus,
   isNegativeStatus,
   STATUS_COEFFICIENT,
-} from '../types/index.js';
+} from './types.js';
+import { StatePropagationEngine } from './propagation/index.js';
+import { getEffectiveConfidence } from './evidence.js';
 
 /**
  * 分析引擎类
  */
-export class AnalysisEngine {
-  private nodes: Map<string, Node>;
-  private edges: Edge[];
-  private weightConfig: WeightConfig | null;
+export class AnalysisEngine<N extends AnalysisNode = AnalysisNode, E extends AnalysisEdge = AnalysisEdge> {
+  private nodes: Map<string, N>;
+  private edges: E[];
+  private weightConfig: NodeTypeWeights | null;
 
   // 边的索引（加速查询）
-  private outgoingEdges: Map<string, Edge[]>;  // nodeId -> 从该节点出发的边
-  private incomingEdges: Map<string, Edge[]>;  // nodeId -> 指向该节点的边
+  private outgoingEdges: Map<string, E[]>;  // nodeId -> 从该节点出发的边
+  private incomingEdges: Map<string, E[]>;  // nodeId -> 指向该节点的边
 
-  constructor(nodes: Node[], edges: Edge[], weightConfig?: WeightConfig) {
+  constructor(nodes: N[], edges: E[], weightConfig?: NodeTypeWeights) {
     this.nodes = new Map(nodes.map(n => [n.id, n]));
     this.edges = edges;
     this.weightConfig = weightConfig || null;
@@ -77,10 +81,10 @@ export class AnalysisEngine {
   /**
    * 获取节点的最终权重
    */
-  getNodeWeight(node: Node): number {
+  getNodeWeight(node: N): number {
     // 优先使用节点自定义权重
-    if ((node as any).customWeight !== null && (node as any).customWeight !== undefined) {
-      return (node as any).customWeight;
+    if (node.customWeight !== null && node.customWeight !== undefined) {
+      return node.customWeight;
     }
 
     // 使用项目权重配置
@@ -100,42 +104,42 @@ export class AnalysisEngine {
     return DEFAULT_WEIGHTS[node.type] || 1.0;
   }
 
-  /**
-   * 获取节点的逻辑状态（兼容旧版）
-   * @deprecated 使用 getNodeBaseStatus 代替
-   */
-  getNodeLogicState(node: Node): LogicState {
-    return (node as any).logicState || LogicState.UNKNOWN;
-  }
-
   /**
    * v2.2: 获取节点的基础状态
    */
-  getNodeBaseStatus(node: Node): string {
-    return (node as any).baseStatus || 'unknown';
+  getNodeBaseStatus(node: N): BaseStatus {
+    return node.baseStatus ?? DEFAULT_BASE_STATUS[node.type];
   }
 
   /**
    * v2.2: 检查节点是否处于肯定态
    */
-  isNodePositive(node: Node): boolean {
+  isNodePositive(node: N): boolean {
     const baseStatus = this.getNodeBaseStatus(node);
-    return isPositiveStatus(baseStatus as any);
+    return isPositiveStatus(baseStatus);
   }
 
   /**
    * v2.2: 检查节点是否处于否定态
    */
-  isNodeNegative(node: Node): boolean {
+  isNodeNegative(node: N): boolean {
     const baseStatus = this.getNodeBaseStatus(node);
-    return isNegativeStatus(baseStatus as any);
+    return isNegativeStatus(baseStatus);
   }
 
   /**
    * v2.2: 获取节点的状态系数（用于可行性计算）
    */
-  getStatusCoefficient(node: Node): number {
+  getStatusCoefficient(node: N): number {
     const baseStatus = this.getNodeBaseStatus(node);
+
+    // 假设节点与传播引擎一致：使用置信度（有证据时由证据计算）
+    if (node.type === NodeType.ASSUMPTION) {
+      const confidence = getEffectiveConfidence(node) / 100;
+      if (baseStatus === AssumptionStatus.POSITIVE) return confidence;
+      if (baseStatus === AssumptionStatus.UNCERTAIN) return confidence * 0.5;
+    }
+
     return STATUS_COEFFICIENT[baseStatus] ?? 0.5;
   }
 
@@ -146,7 +150,7 @@ export class AnalysisEngine {
   /**
    * 获取下一步行动建议
    */
-  getNextAction(): NextActionResult {
+  getNextAction(): NextActionResult<N> {
     // 步骤1：识别根目标
     const rootGoals = this.findRootGoals();
 
@@ -190,22 +194,20 @@ export class AnalysisEngine {
   /**
    * 步骤1：找出根目标（没有被其他目标依赖的目标）
    */
-  private findRootGoals(): Node[] {
+  private findRootGoals(): N[] {
     const goals = Array.from(this.nodes.values()).filter(
       n => n.type === NodeType.GOAL
     );
 
-    // 找出被其他目标促成的目标（子目标）
+    // 找出被其他目标促成的目标（子目标）；只看 目标→目标 的边，
+    // 行动促成/实现目标不算（否则由行动实现的唯一目标会被当成子目标）
     const subGoalIds = new Set<string>();
     for (const edge of this.edges) {
       if (edge.type === EdgeType.SUPPORTS || edge.type === EdgeType.ACHIEVES) {
+        const sourceNode = this.nodes.get(edge.sourceNodeId);
         const targetNode = this.nodes.get(edge.targetNodeId);
-        if (targetNode?.type === NodeType.GOAL) {
-          // 如果源节点也是目标或行动，则目标是子目标
-          const sourceNode = this.nodes.get(edge.sourceNodeId);
-          if (sourceNode?.type === NodeType.GOAL || sourceNode?.type === NodeType.ACTION) {
-            subGoalIds.add(edge.targetNodeId);
-          }
+        if (sourceNode?.type === NodeType.GOAL && targetNode?.type === NodeType.GOAL) {
+          subGoalIds.add(edge.targetNodeId);
         }
       }
     }
@@ -217,7 +219,7 @@ export class AnalysisEngine {
   /**
    * 步骤2-3：构建依赖树并标记状态
    */
-  private buildDependencyTree(nodeId: string, visited = new Set<string>()): DependencyTreeNode | null {
+  private buildDependencyTree(nodeId: string, visited = new Set<string>()): DependencyTreeNode<N> | null {
     if (visited.has(nodeId)) {
       return null;  // 避免循环
     }
@@ -228,7 +230,7 @@ export class AnalysisEngine {
 
     // 找出该节点的依赖（通过 DEPENDS 关系，注意方向：其他节点 --DEPENDS--> 当前节点）
     // 实际上是：当前节点依赖的东西 = 当前节点 --DEPENDS--> 其他节点
-    const dependencies: DependencyTreeNode[] = [];
+    const dependencies: DependencyTreeNode<N>[] = [];
     const outEdges = this.outgoingEdges.get(nodeId) || [];
 
     for (const edge of outEdges) {
@@ -241,7 +243,7 @@ export class AnalysisEngine {
     }
 
     // 找出可实现该节点的行动
-    const achievableBy: Node[] = [];
+    const achievableBy: N[] = [];
     const inEdges = this.incomingEdges.get(nodeId) || [];
     for (const edge of inEdges) {
       if (edge.type === EdgeType.ACHIEVES) {
@@ -267,9 +269,9 @@ export class AnalysisEngine {
   /**
    * 计算节点的满足状态 (v2.2 更新：使用 baseStatus 和 computedStatus)
    */
-  private calculateSatisfactionStatus(node: Node, dependencies: DependencyTreeNode[]): SatisfactionStatus {
+  private calculateSatisfactionStatus(node: N, dependencies: DependencyTreeNode<N>[]): SatisfactionStatus {
     // v2.2: 首先检查 computedStatus
-    const computedStatus = (node as any).computedStatus;
+    const computedStatus = node.computedStatus;
     if (computedStatus) {
       // 如果有冲突，标记为阻塞
       if (computedStatus.conflicted) {
@@ -371,11 +373,11 @@ export class AnalysisEngine {
   /**
    * 步骤4：找出阻塞点
    */
-  private findBlockingPoints(trees: (DependencyTreeNode | null)[]): BlockingPoint[] {
-    const blockingPoints: BlockingPoint[] = [];
+  private findBlockingPoints(trees: (DependencyTreeNode<N> | null)[]): BlockingPoint<N>[] {
+    const blockingPoints: BlockingPoint<N>[] = [];
     const visited = new Set<string>();
 
-    const findBlocking = (tree: DependencyTreeNode | null, depth: number) => {
+    const findBlocking = (tree: DependencyTreeNode<N> | null, depth: number) => {
       if (!tree || visited.has(tree.nodeId)) return;
 
       // 如果当前节点未满足或被阻塞
@@ -427,8 +429,8 @@ export class AnalysisEngine {
   /**
    * 获取节点的直接依赖
    */
-  private getNodeDependencies(nodeId: string): Node[] {
-    const deps: Node[] = [];
+  private getNodeDependencies(nodeId: string): N[] {
+    const deps: N[] = [];
     const outEdges = this.outgoingEdges.get(nodeId) || [];
     for (const edge of outEdges) {
       if (edge.type === EdgeType.DEPENDS) {
@@ -442,7 +444,7 @@ export class AnalysisEngine {
   /**
    * 获取阻塞原因描述
    */
-  private getBlockingReason(node: Node): string {
+  private getBlockingReason(node: N): string {
     switch (node.type) {
       case NodeType.CONSTRAINT:
         return `约束「${node.title}」尚未满足`;
@@ -456,9 +458,9 @@ export class AnalysisEngine {
   /**
    * 步骤5：找出可执行行动
    */
-  private findExecutableActions(blockingPoints: BlockingPoint[]): ExecutableAction[] {
-    const actions: ExecutableAction[] = [];
-    const actionScores = new Map<string, { action: Node; unblocks: Node[]; reason: string }>();
+  private findExecutableActions(blockingPoints: BlockingPoint<N>[]): ExecutableAction<N>[] {
+    const actions: ExecutableAction<N>[] = [];
+    const actionScores = new Map<string, { action: N; unblocks: N[]; reason: string }>();
 
     for (const bp of blockingPoints) {
       for (const aa of bp.achievableActions) {
@@ -493,7 +495,7 @@ export class AnalysisEngine {
     }
 
     // 转换为数组并计算优先级
-    for (const [actionId, data] of actionScores) {
+    for (const data of actionScores.values()) {
       const priority = this.calculateActionPriority(data.action, data.unblocks);
       actions.push({
         action: data.action,
@@ -509,8 +511,8 @@ export class AnalysisEngine {
   /**
    * 查找能实现某节点的行动
    */
-  private findActionsToAchieve(nodeId: string): Node[] {
-    const actions: Node[] = [];
+  private findActionsToAchieve(nodeId: string): N[] {
+    const actions: N[] = [];
     const inEdges = this.incomingEdges.get(nodeId) || [];
     for (const edge of inEdges) {
       if (edge.type === EdgeType.ACHIEVES) {
@@ -533,7 +535,7 @@ export class AnalysisEngine {
   /**
    * 计算行动优先级
    */
-  private calculateActionPriority(action: Node, unblocks: Node[]): number {
+  private calculateActionPriority(action: N, unblocks: N[]): number {
     let priority = 0;
 
     // 1. 能解除的阻塞点数量（每个+10）
@@ -564,9 +566,9 @@ export class AnalysisEngine {
    * 生成下一步行动摘要
    */
   private generateNextActionSummary(
-    rootGoals: Node[],
-    blockingPoints: BlockingPoint[],
-    suggestedAction: ExecutableAction | null
+    rootGoals: N[],
+    blockingPoints: BlockingPoint<N>[],
+    suggestedAction: ExecutableAction<N> | null
   ): string {
     if (blockingPoints.length === 0) {
       return `所有目标的前置条件已满足。根目标：${rootGoals.map(g => g.title).join('、')}`;
@@ -588,7 +590,7 @@ export class AnalysisEngine {
   /**
    * 评估节点可行性
    */
-  evaluateFeasibility(nodeId: string): FeasibilityResult {
+  evaluateFeasibility(nodeId: string): FeasibilityResult<N> {
     const targetNode = this.nodes.get(nodeId);
     if (!targetNode) {
       throw new Error(`节点不存在: ${nodeId}`);
@@ -623,7 +625,7 @@ export class AnalysisEngine {
 
     // 生成摘要和建议
     const summary = this.generateFeasibilitySummary(targetNode, normalizedScore, verdict, risks);
-    const suggestions = this.generateSuggestions(targetNode, prerequisites, risks);
+    const suggestions = this.generateSuggestions(prerequisites, risks);
 
     return {
       targetNode,
@@ -641,11 +643,25 @@ export class AnalysisEngine {
 
   /**
    * 收集证据 (v2.2 更新：使用状态系数加权)
+   * 来源：指向该节点的关系 + 节点自身的证据条目（权重 = 可靠度 / 100）
    */
-  private collectEvidence(nodeId: string, type: 'positive' | 'negative'): Evidence[] {
-    const evidence: Evidence[] = [];
+  private collectEvidence(nodeId: string, type: 'positive' | 'negative'): Evidence<N>[] {
+    const evidence: Evidence<N>[] = [];
     const inEdges = this.incomingEdges.get(nodeId) || [];
 
+    const targetNode = this.nodes.get(nodeId);
+    for (const item of targetNode?.evidence ?? []) {
+      const itemType = item.stance === 'supporting' ? 'positive' : 'negative';
+      if (itemType !== type) continue;
+      evidence.push({
+        node: targetNode!,
+        type,
+        weight: Math.min(100, Math.max(0, item.reliability)) / 100,
+        item,
+        description: item.source,
+      });
+    }
+
     for (const edge of inEdges) {
       const sourceNode = this.nodes.get(edge.sourceNodeId);
       if (!sourceNode) continue;
@@ -685,8 +701,8 @@ export class AnalysisEngine {
   /**
    * 收集前置条件
    */
-  private collectPrerequisites(nodeId: string): Prerequisite[] {
-    const prerequisites: Prerequisite[] = [];
+  private collectPrerequisites(nodeId: string): Prerequisite<N>[] {
+    const prerequisites: Prerequisite<N>[] = [];
     const outEdges = this.outgoingEdges.get(nodeId) || [];
 
     for (const edge of outEdges) {
@@ -713,14 +729,14 @@ export class AnalysisEngine {
    */
   private identifyRisks(
     nodeId: string,
-    negativeEvidence: Evidence[],
-    prerequisites: Prerequisite[]
-  ): Risk[] {
-    const risks: Risk[] = [];
+    negativeEvidence: Evidence<N>[],
+    prerequisites: Prerequisite<N>[]
+  ): Risk<N>[] {
+    const risks: Risk<N>[] = [];
 
     // 1. 强阻碍风险（事实类节点阻碍）
     for (const evidence of negativeEvidence) {
-      if (evidence.node.type === NodeType.FACT) {
+      if (!evidence.item && evidence.node.type === NodeType.FACT) {
         risks.push({
           type: 'strong_hindrance',
           severity: 'high',
@@ -780,9 +796,9 @@ export class AnalysisEngine {
    */
   private getVerdict(
     normalizedScore: number,
-    prerequisites: Prerequisite[],
-    risks: Risk[]
-  ): FeasibilityResult['verdict'] {
+    prerequisites: Prerequisite<N>[],
+    risks: Risk<N>[]
+  ): FeasibilityResult<N>['verdict'] {
     const hasUnmetPrereqs = prerequisites.some(p => p.status !== SatisfactionStatus.SATISFIED);
     const hasHighRisk = risks.some(r => r.severity === 'high');
 
@@ -805,12 +821,12 @@ export class AnalysisEngine {
    * 生成可行性摘要
    */
   private generateFeasibilitySummary(
-    targetNode: Node,
+    targetNode: N,
     normalizedScore: number,
-    verdict: FeasibilityResult['verdict'],
-    risks: Risk[]
+    verdict: FeasibilityResult<N>['verdict'],
+    risks: Risk<N>[]
   ): string {
-    const verdictText: Record<FeasibilityResult['verdict'], string> = {
+    const verdictText: Record<FeasibilityResult<N>['verdict'], string> = {
       'highly_feasible': '高度可行',
       'feasible': '可行',
       'uncertain': '不确定',
@@ -832,9 +848,8 @@ export class AnalysisEngine {
    * 生成建议
    */
   private generateSuggestions(
-    targetNode: Node,
-    prerequisites: Prerequisite[],
-    risks: Risk[]
+    prerequisites: Prerequisite<N>[],
+    risks: Risk<N>[]
   ): string[] {
     const suggestions: string[] = [];
 
@@ -872,3 +887,38 @@ export class AnalysisEngine {
     return suggestions.slice(0, 5);  // 最多5条建议
   }
 }
+
+/**
+ * 便捷函数：先执行状态传播，再给出下一步行动建议
+ * （与服务端 /analyze/next-action 的处理顺序一致）
+ */
+export function analyzeNextAction<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  weightConfig?: NodeTypeWeights
+): NextActionResult<N> {
+  if (nodes.length === 0) {
+    return {
+      rootGoals: [],
+      blockingPoints: [],
+      suggestedAction: null,
+      followUpActions: [],
+      summary: '项目中没有节点。请先创建一些节点。',
+    };
+  }
+  const { nodes: propagatedNodes } = new StatePropagationEngine<N, E>(nodes, edges).propagate();
+  return new AnalysisEngine<N, E>(propagatedNodes, edges, weightConfig).getNextAction();
+}
+
+/**
+ * 便捷函数：先执行状态传播，再评估指定节点的可行性
+ */
+export function analyzeFeasibility<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  nodeId: string,
+  weightConfig?: NodeTypeWeights
+): FeasibilityResult<N> {
+  const { nodes: propagatedNodes } = new StatePropagationEngine<N, E>(nodes, edges).propagate();
+  return new AnalysisEngine<N, E>(propagatedNodes, edges, weightConfig).evaluateFeasibility(nodeId);
+}
@@ -0,0 +1,99 @@
+/**
+ * 实时协作的字段级合并（每个字段一个「最后写入者胜」寄存器 + 混合逻辑时钟）
+ *
+ * 本端每次修改字段都生成新的时间戳 { time, clientId }：
+ * - time 取本机时间与已见过的最大 time + 1 中的较大者，本端写入单调递增，且晚于已收到的写入；
+ * - 同一字段的两次写入按 (time, clientId) 比较，大者胜出。
+ * 比较结果与消息到达顺序无关，重复收到同一修改也不改变结果，各端收到同一组修改后收敛到相同的值。
+ * 字段之间互不影响：两人同时修改同一节点的不同字段，两处修改都会保留。
+ */
+
+import { FieldStamp, RealtimeChange, RealtimeCollection } from './types.js';
+
+/** 实时修改可以改写的字段；deletedAt 表示删除（null 为新建或恢复） */
+export const REALTIME_EDITABLE_FIELDS: Record<RealtimeCollection, readonly string[]> = {
+  nodes: [
+    'type', 'title', 'content', 'confidence', 'weight', 'calculatedScore', 'status', 'positionX', 'positionY',
+    'baseStatus', 'autoUpdate', 'computedStatus', 'evidence', 'logicState', 'customWeight', 'updatedAt', 'deletedAt',
+  ],
+  edges: ['type', 'strength', 'description', 'updatedAt', 'deletedAt'],
+  sceneNodes: ['positionX', 'positionY', 'updatedAt', 'deletedAt'],
+};
+
+/** 只在新建记录时带上的字段：所属项目、场景、两端节点等，记录创建后不能经实时修改改写 */
+export const REALTIME_CREATE_FIELDS: Record<RealtimeCollection, readonly string[]> = {
+  nodes: ['projectId', 'graphId', 'createdBy', 'createdAt'],
+  edges: ['projectId', 'graphId', 'sourceNodeId', 'targetNodeId', 'createdBy', 'createdAt'],
+  sceneNodes: ['sceneId', 'nodeId', 'createdAt'],
+};
+
+/** 只保留实时修改可以写入的字段；creating 为真（新建记录）时还保留创建时的字段 */
+export function pickRealtimeFields(
+  collection: RealtimeCollection,
+  fields: Record<string, unknown>,
+  creating: boolean
+): Record<string, unknown> {
+  const allowed = creating
+    ? [...REALTIME_EDITABLE_FIELDS[collection], ...REALTIME_CREATE_FIELDS[collection]]
+    : REALTIME_EDITABLE_FIELDS[collection];
+  return Object.fromEntries(Object.entries(fields).filter(([field]) => allowed.includes(field)));
+}
+
+/** 比较两个时间戳：a 晚于 b 返回正数 */
+export function compareStamps(a: FieldStamp, b: FieldStamp): number {
+  if (a.time !== b.time) return a.time - b.time;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+export class FieldClock {
+  private last = 0;
+  // `${collection}:${id}:${field}` -> 该字段当前值的时间戳
+  private stamps = new Map<string, FieldStamp>();
+
+  constructor(readonly clientId: string, private now: () => number = Date.now) {}
+
+  /** 为本端的一次写入生成时间戳 */
+  tick(): FieldStamp {
+    this.last = Math.max(this.now(), this.last + 1);
+    return { time: this.last, clientId: this.clientId };
+  }
+
+  /** 为本端修改的每个字段记下新时间戳，返回要广播的修改 */
+  stampLocal(
+    collection: RealtimeCollection,
+    id: string,
+    projectId: string,
+    fields: Record<string, unknown>
+  ): RealtimeChange {
+    const stamp = this.tick();
+    const stamps: Record<string, FieldStamp> = {};
+    for (const field of Object.keys(fields)) {
+      stamps[field] = stamp;
+      this.stamps.set(stampKey(collection, id, field), stamp);
+    }
+    return { collection, id, projectId, fields, stamps };
+  }
+
+  /**
+   * 合并其他端的修改，返回胜出、需要写入本地的字段（可能为空）。
+   * 本端对该字段有更晚的写入时，远端的值被丢弃
+   */
+  merge(change: RealtimeChange): Record<string, unknown> {
+    const accepted: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(change.fields)) {
+      const incoming = change.stamps[field];
+      if (!incoming) continue;
+      this.last = Math.max(this.last, incoming.time);
+      const key = stampKey(change.collection, change.id, field);
+      const current = this.stamps.get(key);
+      if (current && compareStamps(incoming, current) <= 0) continue;
+      this.stamps.set(key, incoming);
+      accepted[field] = value;
+    }
+    return accepted;
+  }
+}
+
+function stampKey(collection: RealtimeCollection, id: string, field: string): string {
+  return `${collection}:${id}:${field}`;
+}
@@ -0,0 +1,28 @@
+/**
+ * 证据置信度
+ *
+ * 事实/假设节点可挂结构化证据（支持 / 反驳，来源，可靠度，日期）。
+ * 有证据时节点的置信度由证据推出，不再使用手填的 confidence：
+ *   置信度 = 50 + 50 × tanh(Σ ±可靠度/100)
+ * - 支持证据取正、反驳证据取负，可靠度越高影响越大
+ * - 与可行性评分同样使用 tanh 平滑，多条证据累积但有渐进上限
+ */
+
+import { AnalysisNode, EvidenceItem } from './types.js';
+
+/** 由证据计算置信度（0-100）；没有证据时返回 null */
+export function computeEvidenceConfidence(items: EvidenceItem[] | undefined): number | null {
+  if (!items || items.length === 0) return null;
+
+  const net = items.reduce((sum, item) => {
+    const reliability = Math.min(100, Math.max(0, item.reliability)) / 100;
+    return sum + (item.stance === 'supporting' ? reliability : -reliability);
+  }, 0);
+
+  return Math.round(50 + 50 * Math.tanh(net));
+}
+
+/** 节点的有效置信度：有证据时由证据计算，否则为手填值 */
+export function getEffectiveConfidence(node: AnalysisNode): number {
+  return computeEvidenceConfidence(node.evidence) ?? node.confidence;
+}
@@ -0,0 +1,15 @@
+/**
+ * @solvechain/shared - 前后端共享入口
+ *
+ * 领域类型、状态传播引擎、分析引擎与协作合并均为纯函数/纯类实现，
+ * 不依赖浏览器或 Node 专有 API，可直接在 client 与 server 中运行。
+ */
+
+export * from './types.js';
+export * from './evidence.js';
+export * from './propagation/index.js';
+export * from './analysisEngine.js';
+export * from './simulation.js';
+export * from './sensitivity.js';
+export * from './verification.js';
+export * from './collaboration.js';
@@ -0,0 +1,453 @@
+/**
+ * 状态传播引擎 (v2.2)
+ *
+ * 负责计算节点的 computedStatus，并执行状态传播。
+ * 各关系类型的具体语义由 rules/ 下的传播规则提供，引擎只负责按阶段调度：
+ *
+ * 1. 循环依赖检测（dependency 规则构成的边）
+ * 2. 重置计算状态
+ * 3. 基础状态推导（deriveStatus，按拓扑序，只作用于开启 autoUpdate 的节点）
+ * 4. 计算状态检查（check：矛盾 / 阻塞）
+ * 5. 可行性评分计算（feasibility）
+ * 6. 计算 executable/achievable 状态（providesPath）
+ */
+
+import {
+  AnalysisNode,
+  AnalysisEdge,
+  NodeType,
+  DEFAULT_BASE_STATUS,
+  DEFAULT_COMPUTED_STATUS,
+  STATUS_COEFFICIENT,
+  isPositiveStatus,
+  getDefaultAutoUpdate,
+  ActionStatus,
+  AssumptionStatus,
+} from '../types.js';
+import {
+  PropagatedNode,
+  PropagationRule,
+  PropagationResult,
+  PropagationOptions,
+  RuleInput,
+} from './types.js';
+import { getEffectiveConfidence } from '../evidence.js';
+import { getRule } from './rules/index.js';
+
+/**
+ * 状态传播引擎类
+ */
+export class StatePropagationEngine<N extends AnalysisNode = AnalysisNode, E extends AnalysisEdge = AnalysisEdge> {
+  private nodes: Map<string, PropagatedNode<N>>;
+  private edges: E[];
+
+  // 边的索引
+  private outgoingEdges: Map<string, E[]>;
+  private incomingEdges: Map<string, E[]>;
+
+  // 传播日志
+  private logs: string[] = [];
+
+  constructor(nodes: N[], edges: E[], private options: PropagationOptions<E> = {}) {
+    // 拷贝节点，并为缺省的 baseStatus / autoUpdate 补上类型默认值
+    this.nodes = new Map(nodes.map(n => [n.id, {
+      ...n,
+      baseStatus: n.baseStatus ?? DEFAULT_BASE_STATUS[n.type],
+      autoUpdate: n.autoUpdate ?? getDefaultAutoUpdate(n.type),
+      computedStatus: { ...DEFAULT_COMPUTED_STATUS, blockedBy: [], conflictWith: [] },
+    }]));
+    // 两端节点都存在的边才参与传播
+    this.edges = edges.filter(e => this.nodes.has(e.sourceNodeId) && this.nodes.has(e.targetNodeId));
+
+    // 构建边索引
+    this.outgoingEdges = new Map();
+    this.incomingEdges = new Map();
+
+    for (const edge of this.edges) {
+      if (!this.outgoingEdges.has(edge.sourceNodeId)) {
+        this.outgoingEdges.set(edge.sourceNodeId, []);
+      }
+      this.outgoingEdges.get(edge.sourceNodeId)!.push(edge);
+
+      if (!this.incomingEdges.has(edge.targetNodeId)) {
+        this.incomingEdges.set(edge.targetNodeId, []);
+      }
+      this.incomingEdges.get(edge.targetNodeId)!.push(edge);
+    }
+  }
+
+  /**
+   * 执行完整的状态传播
+   */
+  propagate(): PropagationResult<N> {
+    this.logs = [];
+    const updatedBaseStatuses: PropagationResult<N>['updatedBaseStatuses'] = [];
+    const conflicts: PropagationResult<N>['conflicts'] = [];
+
+    // Step 1: 循环依赖检测
+    this.log('Step 1: 检测循环依赖...');
+    const cyclicDependencies = this.detectCyclicDependencies();
+    if (cyclicDependencies.length > 0) {
+      this.log(`  发现 ${cyclicDependencies.length} 个循环依赖`);
+    }
+
+    // Step 2: 重置计算状态
+    this.log('Step 2: 重置计算状态...');
+    this.resetComputedStatuses();
+
+    // Step 3: 基础状态推导 (CAUSES / ACHIEVES ...)
+    this.log('Step 3: 推导基础状态...');
+    updatedBaseStatuses.push(...this.deriveBaseStatuses());
+
+    // Step 4: 计算状态检查 (CONFLICTS / DEPENDS ...)
+    this.log('Step 4: 检查矛盾与依赖...');
+    conflicts.push(...this.checkEdges());
+
+    // Step 5: 可行性评分计算
+    this.log('Step 5: 计算可行性评分...');
+    this.calculateFeasibilityScores();
+
+    // Step 6: 计算 executable/achievable 状态
+    this.log('Step 6: 计算 executable/achievable 状态...');
+    this.calculateExecutableAchievable();
+
+    return {
+      nodes: Array.from(this.nodes.values()),
+      updatedBaseStatuses,
+      cyclicDependencies,
+      conflicts,
+      logs: this.logs,
+    };
+  }
+
+  private log(message: string): void {
+    this.logs.push(message);
+  }
+
+  /**
+   * 取边对应的规则及其输入；规则未注册（如废弃的关系类型）时返回 null
+   */
+  private resolve(edge: E): { rule: PropagationRule; input: RuleInput } | null {
+    const rule = getRule(edge.type);
+    if (!rule) return null;
+
+    return {
+      rule,
+      input: {
+        edge,
+        source: this.nodes.get(edge.sourceNodeId)!,
+        target: this.nodes.get(edge.targetNodeId)!,
+      },
+    };
+  }
+
+  // ============================================================
+  // Step 1: 循环依赖检测
+  // ============================================================
+
+  /**
+   * 检测循环依赖（使用 DFS）
+   */
+  private detectCyclicDependencies(): string[][] {
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const recursionStack = new Set<string>();
+    const path: string[] = [];
+
+    const dfs = (nodeId: string): boolean => {
+      visited.add(nodeId);
+      recursionStack.add(nodeId);
+      path.push(nodeId);
+
+      // 只检查构成逻辑依赖链的关系（DEPENDS、CAUSES）
+      const outEdges = this.outgoingEdges.get(nodeId) || [];
+      for (const edge of outEdges) {
+        if (getRule(edge.type)?.dependency) {
+          const targetId = edge.targetNodeId;
+
+          if (!visited.has(targetId)) {
+            if (dfs(targetId)) {
+              return true;
+            }
+          } else if (recursionStack.has(targetId)) {
+            // 找到循环
+            const cycleStart = path.indexOf(targetId);
+            const cycle = path.slice(cycleStart);
+            cycles.push(cycle);
+            return true;
+          }
+        }
+      }
+
+      path.pop();
+      recursionStack.delete(nodeId);
+      return false;
+    };
+
+    for (const nodeId of this.nodes.keys()) {
+      if (!visited.has(nodeId)) {
+        dfs(nodeId);
+      }
+    }
+
+    return cycles;
+  }
+
+  // ============================================================
+  // Step 2: 重置计算状态
+  // ============================================================
+
+  private resetComputedStatuses(): void {
+    for (const node of this.nodes.values()) {
+      node.computedStatus = { ...DEFAULT_COMPUTED_STATUS, blockedBy: [], conflictWith: [] };
+    }
+  }
+
+  // ============================================================
+  // Step 3: 基础状态推导
+  // ============================================================
+
+  /**
+   * 按拓扑序遍历节点，对开启 autoUpdate 的节点应用入边规则的 deriveStatus
+   * 拓扑序保证上游节点先完成推导，推导结果可以沿链路继续传递
+   */
+  private deriveBaseStatuses(): PropagationResult<N>['updatedBaseStatuses'] {
+    const updates: PropagationResult<N>['updatedBaseStatuses'] = [];
+
+    for (const nodeId of this.topologicalSort()) {
+      const node = this.nodes.get(nodeId)!;
+      if (!node.autoUpdate) continue;
+
+      const inEdges = this.incomingEdges.get(nodeId) || [];
+      for (const edge of inEdges) {
+        const resolved = this.resolve(edge);
+        const derivation = resolved?.rule.deriveStatus?.(resolved.input);
+        if (!derivation) continue;
+
+        const oldStatus = node.baseStatus;
+        if (oldStatus === derivation.newStatus) continue;
+
+        node.baseStatus = derivation.newStatus;
+        node.computedStatus.statusSource = derivation.reason;
+        updates.push({
+          nodeId: node.id,
+          oldStatus,
+          newStatus: derivation.newStatus,
+          sourceNodeId: edge.sourceNodeId,
+          edgeId: edge.id,
+          edgeType: edge.type,
+          reason: derivation.reason,
+        });
+        this.log(`  ${node.title}: ${oldStatus} → ${derivation.newStatus} (${derivation.reason})`);
+      }
+    }
+
+    return updates;
+  }
+
+  // ============================================================
+  // Step 4: 计算状态检查
+  // ============================================================
+
+  /**
+   * 按边顺序应用规则的 check，写入 blocked / conflicted 标记
+   */
+  private checkEdges(): PropagationResult<N>['conflicts'] {
+    const conflicts: PropagationResult<N>['conflicts'] = [];
+
+    for (const edge of this.edges) {
+      const resolved = this.resolve(edge);
+      const output = resolved?.rule.check?.(resolved.input);
+      if (!output) continue;
+
+      if (output.blocked) {
+        const node = this.nodes.get(output.blocked.nodeId)!;
+        node.computedStatus.blocked = true;
+        node.computedStatus.blockedBy.push(output.blocked.by);
+      }
+
+      if (output.conflict) {
+        const nodeA = this.nodes.get(output.conflict.nodeA)!;
+        const nodeB = this.nodes.get(output.conflict.nodeB)!;
+        nodeA.computedStatus.conflicted = true;
+        nodeA.computedStatus.conflictWith.push(nodeB.id);
+        nodeB.computedStatus.conflicted = true;
+        nodeB.computedStatus.conflictWith.push(nodeA.id);
+        conflicts.push({ nodeA: nodeA.id, nodeB: nodeB.id });
+      }
+
+      this.log(`  ${output.message}`);
+    }
+
+    return conflicts;
+  }
+
+  // ============================================================
+  // Step 5: 可行性评分计算
+  // ============================================================
+
+  /**
+   * 计算每个节点的可行性评分
+   * 公式：可行性得分 = Σ(促成节点权重 × 状态系数) - Σ(阻碍节点权重 × 状态系数)
+   * 传入 feasibilityScale 时，每条关系的贡献再乘以它给出的倍率
+   */
+  private calculateFeasibilityScores(): void {
+    for (const [nodeId, node] of this.nodes) {
+      // 只计算目标、行动、约束的可行性
+      if (![NodeType.GOAL, NodeType.ACTION, NodeType.CONSTRAINT].includes(node.type)) {
+        continue;
+      }
+
+      let feasibilityScore = 0;
+      const inEdges = this.incomingEdges.get(nodeId) || [];
+      for (const edge of inEdges) {
+        const resolved = this.resolve(edge);
+        if (!resolved?.rule.feasibility) continue;
+
+        const coefficient = this.getStatusCoefficient(resolved.input.source);
+        const scale = this.options.feasibilityScale?.(edge) ?? 1;
+        feasibilityScore += resolved.rule.feasibility(resolved.input, coefficient) * scale;
+      }
+
+      node.computedStatus.feasibilityScore = feasibilityScore;
+
+      // 如果得分为负，标记为 threatened
+      if (feasibilityScore < 0) {
+        node.computedStatus.threatened = true;
+        this.log(`  ${node.title} 受威胁 (可行性得分: ${feasibilityScore.toFixed(2)})`);
+      }
+    }
+  }
+
+  // ============================================================
+  // Step 6: 计算 executable/achievable
+  // ============================================================
+
+  /**
+   * 计算行动的 executable 和目标的 achievable 状态
+   * 先算完所有行动，目标的可达成路径才能引用到行动的 executable
+   */
+  private calculateExecutableAchievable(): void {
+    for (const node of this.nodes.values()) {
+      // 行动节点：没有被阻塞、没有矛盾，且状态是 pending，则可执行
+      if (node.type === NodeType.ACTION &&
+          !node.computedStatus.blocked &&
+          !node.computedStatus.conflicted &&
+          node.baseStatus === ActionStatus.PENDING) {
+        node.computedStatus.executable = true;
+        this.log(`  ${node.title} 可执行`);
+      }
+    }
+
+    for (const [nodeId, node] of this.nodes) {
+      if (node.type !== NodeType.GOAL) continue;
+      if (node.computedStatus.blocked || node.computedStatus.conflicted) continue;
+
+      // 已达成，或有入边规则提供了实现路径
+      const inEdges = this.incomingEdges.get(nodeId) || [];
+      const hasPath = inEdges.some(edge => {
+        const resolved = this.resolve(edge);
+        return resolved?.rule.providesPath?.(resolved.input) ?? false;
+      });
+
+      if (hasPath || isPositiveStatus(node.baseStatus)) {
+        node.computedStatus.achievable = true;
+      }
+    }
+  }
+
+  // ============================================================
+  // 辅助方法
+  // ============================================================
+
+  /**
+   * 拓扑排序（只考虑会推导基础状态的关系，保证上游先传播）
+   * 存在循环时，剩余节点按原顺序追加到末尾
+   */
+  private topologicalSort(): string[] {
+    const inDegree = new Map<string, number>();
+    const queue: string[] = [];
+    const result: string[] = [];
+
+    const isOrdering = (edge: E) => !!getRule(edge.type)?.deriveStatus;
+
+    // 初始化入度
+    for (const nodeId of this.nodes.keys()) {
+      inDegree.set(nodeId, 0);
+    }
+
+    for (const edge of this.edges) {
+      if (isOrdering(edge)) {
+        inDegree.set(edge.targetNodeId, inDegree.get(edge.targetNodeId)! + 1);
+      }
+    }
+
+    // 找出入度为 0 的节点
+    for (const [nodeId, degree] of inDegree) {
+      if (degree === 0) {
+        queue.push(nodeId);
+      }
+    }
+
+    // BFS
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      result.push(nodeId);
+
+      const outEdges = this.outgoingEdges.get(nodeId) || [];
+      for (const edge of outEdges) {
+        if (isOrdering(edge)) {
+          const newDegree = inDegree.get(edge.targetNodeId)! - 1;
+          inDegree.set(edge.targetNodeId, newDegree);
+          if (newDegree === 0) {
+            queue.push(edge.targetNodeId);
+          }
+        }
+      }
+    }
+
+    // 如果结果数量不等于节点数量，说明有循环
+    if (result.length < this.nodes.size) {
+      const sorted = new Set(result);
+      for (const nodeId of this.nodes.keys()) {
+        if (!sorted.has(nodeId)) {
+          result.push(nodeId);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取节点的状态系数
+   */
+  private getStatusCoefficient(node: PropagatedNode): number {
+    const baseCoeff = STATUS_COEFFICIENT[node.baseStatus] ?? 0;
+
+    // 假设节点特殊处理：使用置信度（有证据时由证据计算）
+    if (node.type === NodeType.ASSUMPTION) {
+      const confidence = getEffectiveConfidence(node) / 100;  // 转换为 0-1
+      if (node.baseStatus === AssumptionStatus.POSITIVE) {
+        return confidence;
+      }
+      if (node.baseStatus === AssumptionStatus.UNCERTAIN) {
+        return confidence * 0.5;
+      }
+    }
+
+    return baseCoeff;
+  }
+}
+
+/**
+ * 便捷函数：执行状态传播
+ */
+export function propagateStates<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  options?: PropagationOptions<E>
+): PropagationResult<N> {
+  const engine = new StatePropagationEngine<N, E>(nodes, edges, options);
+  return engine.propagate();
+}
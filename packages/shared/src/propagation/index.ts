@@ -0,0 +1,52 @@
+/**
+ * 状态传播系统 - 主入口
+ *
+ * 使用方式：
+ *
+ * ```typescript
+ * import { StatePropagationEngine, propagateStates } from '@solvechain/shared';
+ *
+ * const result = new StatePropagationEngine(nodes, edges).propagate();
+ * // 或
+ * const result = propagateStates(nodes, edges);
+ * ```
+ *
+ * 扩展规则：
+ *
+ * ```typescript
+ * import { registerRule, PropagationRule } from '@solvechain/shared';
+ *
+ * class MyCustomRule implements PropagationRule {
+ *   // 实现规则接口（只需实现关心的阶段钩子）
+ * }
+ *
+ * registerRule(new MyCustomRule());
+ * ```
+ */
+
+export type {
+  PropagatedNode,
+  RuleInput,
+  StatusDerivation,
+  RuleCheckOutput,
+  PropagationRule,
+  BaseStatusUpdate,
+  PropagationResult,
+  PropagationOptions,
+} from './types.js';
+
+export { StatePropagationEngine, propagateStates } from './engine.js';
+
+export {
+  registerRule,
+  getRule,
+  getAllRules,
+  hasRule,
+  // 内置规则类
+  DependsRule,
+  SupportsRule,
+  AchievesRule,
+  HindersRule,
+  CausesRule,
+  ConflictsRule,
+} from './rules/index.js';
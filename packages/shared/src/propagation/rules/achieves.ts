@@ -0,0 +1,47 @@
+/**
+ * ACHIEVES 关系的传播规则
+ *
+ * 语义：A 实现约束/目标 B（A ⊢ B）
+ * - 如果 A 为肯定态（行动成功、事实确认等），且 B 开启了 autoUpdate，则 B 被满足/达成
+ * - 实现关系同时计入 B 的可行性得分（与 SUPPORTS 相同）
+ * - 可执行的行动为目标提供了可达成路径
+ *
+ * 这是一种"实现"关系，比 SUPPORTS 更强
+ */
+
+import {
+  EdgeType,
+  NodeType,
+  GoalStatus,
+  ConstraintStatus,
+  isPositiveStatus,
+} from '../../types.js';
+import { PropagationRule, RuleInput, StatusDerivation } from '../types.js';
+
+export class AchievesRule implements PropagationRule {
+  edgeType = EdgeType.ACHIEVES;
+  name = '实现传播';
+  description = '行动成功或事实确认后，其目标/约束被满足';
+  dependency = false;
+
+  deriveStatus({ source, target }: RuleInput): StatusDerivation | null {
+    // 只有约束和目标可以被"实现"
+    if (target.type !== NodeType.CONSTRAINT && target.type !== NodeType.GOAL) return null;
+    if (!isPositiveStatus(source.baseStatus)) return null;
+
+    return {
+      newStatus: target.type === NodeType.CONSTRAINT
+        ? ConstraintStatus.SATISFIED
+        : GoalStatus.ACHIEVED,
+      reason: `由「${source.title}」实现`,
+    };
+  }
+
+  feasibility({ source }: RuleInput, coefficient: number): number {
+    return source.weight * coefficient;
+  }
+
+  providesPath({ source }: RuleInput): boolean {
+    return source.computedStatus.executable;
+  }
+}
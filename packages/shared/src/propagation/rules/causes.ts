@@ -0,0 +1,26 @@
+/**
+ * CAUSES 关系的传播规则
+ *
+ * 语义：A 导致 B（A ⇒ B，逻辑蕴含）
+ * - 如果 A 为肯定态，且 B 开启了 autoUpdate，则 B 变为其类型的肯定态
+ * - 如果 A 不成立，不能推出 B 不成立（B 可能由其他原因导致）
+ */
+
+import { EdgeType, isPositiveStatus, getPositiveStatusForType } from '../../types.js';
+import { PropagationRule, RuleInput, StatusDerivation } from '../types.js';
+
+export class CausesRule implements PropagationRule {
+  edgeType = EdgeType.CAUSES;
+  name = '导致传播';
+  description = 'A 成立则 B 成立（A ⇒ B）';
+  dependency = true;
+
+  deriveStatus({ source, target }: RuleInput): StatusDerivation | null {
+    if (!isPositiveStatus(source.baseStatus)) return null;
+
+    return {
+      newStatus: getPositiveStatusForType(target.type),
+      reason: `由「${source.title}」导致`,
+    };
+  }
+}
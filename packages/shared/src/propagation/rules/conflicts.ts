@@ -0,0 +1,28 @@
+/**
+ * CONFLICTS 关系的传播规则
+ *
+ * 语义：A 与 B 矛盾（A ⊥ B），双向
+ * - 如果 A 和 B 同时为肯定态，则双方都标记为矛盾（conflicted）
+ * - 矛盾只做检测和提示，不自动修改任何一方的基础状态
+ */
+
+import { EdgeType, isPositiveStatus } from '../../types.js';
+import { PropagationRule, RuleInput, RuleCheckOutput } from '../types.js';
+
+export class ConflictsRule implements PropagationRule {
+  edgeType = EdgeType.CONFLICTS;
+  name = '矛盾检测';
+  description = '互斥的两个命题不能同时成立';
+  dependency = false;
+
+  check({ source, target }: RuleInput): RuleCheckOutput | null {
+    if (!isPositiveStatus(source.baseStatus) || !isPositiveStatus(target.baseStatus)) {
+      return null;
+    }
+
+    return {
+      conflict: { nodeA: source.id, nodeB: target.id },
+      message: `检测到冲突: ${source.title} ⊥ ${target.title}`,
+    };
+  }
+}
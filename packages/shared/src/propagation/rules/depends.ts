@@ -0,0 +1,28 @@
+/**
+ * DEPENDS 关系的传播规则
+ *
+ * 语义：B 依赖 A（B --依赖--> A，存储为 source=B, target=A）
+ * - 如果 A 是否定态或中间态，则 B 被阻塞（blocked）
+ * - A 为肯定态只表示该前提已满足，不能直接推出 B 成立
+ */
+
+import { EdgeType, isNegativeStatus, isNeutralStatus } from '../../types.js';
+import { PropagationRule, RuleInput, RuleCheckOutput } from '../types.js';
+
+export class DependsRule implements PropagationRule {
+  edgeType = EdgeType.DEPENDS;
+  name = '依赖传播';
+  description = '被依赖项未满足时，依赖方被阻塞';
+  dependency = true;
+
+  check({ source, target }: RuleInput): RuleCheckOutput | null {
+    if (!isNegativeStatus(target.baseStatus) && !isNeutralStatus(target.baseStatus)) {
+      return null;
+    }
+
+    return {
+      blocked: { nodeId: source.id, by: target.id },
+      message: `${source.title} 被阻塞，依赖 ${target.title} 未满足`,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * HINDERS 关系的传播规则
+ *
+ * 语义：A 阻碍 B（A ⊣ B）
+ * - 软影响：按 A 的权重和状态系数降低 B 的可行性得分
+ * - 得分为负时，引擎会将 B 标记为受威胁（threatened）
+ */
+
+import { EdgeType } from '../../types.js';
+import { PropagationRule, RuleInput } from '../types.js';
+
+export class HindersRule implements PropagationRule {
+  edgeType = EdgeType.HINDERS;
+  name = '阻碍传播';
+  description = '阻碍方按权重和状态系数降低目标的可行性得分';
+  dependency = false;
+
+  feasibility({ source }: RuleInput, coefficient: number): number {
+    return -source.weight * coefficient;
+  }
+}
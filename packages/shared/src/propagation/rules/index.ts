@@ -5,19 +5,19 @@
  * 新增规则只需在此文件导入并注册
  */
 
-import { EdgeType } from '../../../types';
-import { PropagationRule } from '../types';
-import { DependsRule } from './depends';
-import { SupportsRule } from './supports';
-import { AchievesRule } from './achieves';
-import { HindersRule } from './hinders';
-import { CausesRule } from './causes';
-import { ConflictsRule } from './conflicts';
+import { EdgeType } from '../../types.js';
+import { PropagationRule } from '../types.js';
+import { DependsRule } from './depends.js';
+import { SupportsRule } from './supports.js';
+import { AchievesRule } from './achieves.js';
+import { HindersRule } from './hinders.js';
+import { CausesRule } from './causes.js';
+import { ConflictsRule } from './conflicts.js';
 
 /** 规则注册表 */
 const ruleRegistry = new Map<EdgeType, PropagationRule>();
 
-/** 注册规则 */
+/** 注册规则（同一关系类型的旧规则会被替换） */
 export function registerRule(rule: PropagationRule): void {
   ruleRegistry.set(rule.edgeType, rule);
 }
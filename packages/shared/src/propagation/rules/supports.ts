@@ -0,0 +1,20 @@
+/**
+ * SUPPORTS 关系的传播规则
+ *
+ * 语义：A 促成 B（A → B）
+ * - 软影响：不改变 B 的基础状态，只按 A 的权重和状态系数提高 B 的可行性得分
+ */
+
+import { EdgeType } from '../../types.js';
+import { PropagationRule, RuleInput } from '../types.js';
+
+export class SupportsRule implements PropagationRule {
+  edgeType = EdgeType.SUPPORTS;
+  name = '促成传播';
+  description = '促成方按权重和状态系数提高目标的可行性得分';
+  dependency = false;
+
+  feasibility({ source }: RuleInput, coefficient: number): number {
+    return source.weight * coefficient;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * 状态传播系统 - 类型定义 (v2.2)
+ *
+ * 可插拔架构：
+ * - StatePropagationEngine: 核心引擎，按固定阶段协调传播过程
+ * - PropagationRule: 各关系类型的传播规则（可插拔），只需实现关心的阶段
+ * - PropagatedNode: 传播过程中的节点（baseStatus / autoUpdate / computedStatus 已补齐）
+ */
+
+import {
+  AnalysisNode,
+  AnalysisEdge,
+  EdgeType,
+  BaseStatus,
+  ComputedStatus,
+} from '../types.js';
+
+// ============ 节点 ============
+
+/** 传播过程中使用的节点：baseStatus / autoUpdate / computedStatus 均已补齐 */
+export type PropagatedNode<N extends AnalysisNode = AnalysisNode> = N & {
+  baseStatus: BaseStatus;
+  autoUpdate: boolean;
+  computedStatus: ComputedStatus;
+};
+
+// ============ 传播规则接口 ============
+
+/** 传播规则的输入（沿一条边：source → target） */
+export interface RuleInput {
+  edge: AnalysisEdge;
+  source: PropagatedNode;
+  target: PropagatedNode;
+}
+
+/** 基础状态推导结果 */
+export interface StatusDerivation {
+  newStatus: BaseStatus;
+  reason: string;             // 写入 computedStatus.statusSource
+}
+
+/** 计算状态检查结果 */
+export interface RuleCheckOutput {
+  blocked?: { nodeId: string; by: string };     // nodeId 被 by 阻塞
+  conflict?: { nodeA: string; nodeB: string };  // 双方互相矛盾
+  message: string;
+}
+
+/**
+ * 传播规则接口（可插拔）
+ *
+ * 引擎按阶段调用规则，规则只需实现自己关心的钩子：
+ * 1. deriveStatus  - 基础状态推导（按拓扑序，仅对开启 autoUpdate 的目标节点）
+ * 2. check         - 计算状态检查（阻塞 / 矛盾）
+ * 3. feasibility   - 对目标节点可行性得分的贡献（正为促成，负为阻碍）
+ * 4. providesPath  - 源节点是否为目标提供了可达成路径
+ */
+export interface PropagationRule {
+  /** 规则适用的关系类型 */
+  edgeType: EdgeType;
+
+  /** 规则名称 */
+  name: string;
+
+  /** 规则描述 */
+  description: string;
+
+  /** 是否构成逻辑依赖链（参与循环依赖检测） */
+  dependency: boolean;
+
+  deriveStatus?(input: RuleInput): StatusDerivation | null;
+
+  check?(input: RuleInput): RuleCheckOutput | null;
+
+  /**
+   * @param coefficient 源节点的状态系数（见 STATUS_COEFFICIENT，假设节点按置信度折算）
+   */
+  feasibility?(input: RuleInput, coefficient: number): number;
+
+  providesPath?(input: RuleInput): boolean;
+}
+
+// ============ 传播选项 ============
+
+export interface PropagationOptions<E extends AnalysisEdge = AnalysisEdge> {
+  /**
+   * 关系对可行性得分贡献的倍率，缺省为 1。
+   * 正式传播不使用关系强度；假设推演用它体现临时调整的强度
+   */
+  feasibilityScale?: (edge: E) => number;
+}
+
+// ============ 传播结果 ============
+
+/** 一次基础状态自动更新 */
+export interface BaseStatusUpdate {
+  nodeId: string;
+  oldStatus: BaseStatus;
+  newStatus: BaseStatus;
+  sourceNodeId: string;       // 触发更新的源节点
+  edgeId: string;
+  edgeType: EdgeType;
+  reason: string;
+}
+
+/** 传播结果 */
+export interface PropagationResult<N extends AnalysisNode = AnalysisNode> {
+  // 更新后的节点（包含 computedStatus，且 baseStatus/autoUpdate 已按类型补齐默认值）
+  nodes: PropagatedNode<N>[];
+  // 基础状态发生变化的节点（因自动更新），按发生顺序
+  updatedBaseStatuses: BaseStatusUpdate[];
+  // 检测到的循环依赖
+  cyclicDependencies: string[][];
+  // 检测到的冲突
+  conflicts: Array<{ nodeA: string; nodeB: string }>;
+  // 日志
+  logs: string[];
+}
@@ -0,0 +1,205 @@
+/**
+ * 敏感性分析（龙卷风图）
+ *
+ * 回答「哪个判断对这个目标影响最大」：对目标/行动上游的每个事实、假设和关系，
+ * 分别把它推到两个极端（事实/假设取真或假，按置信度计算的假设把置信度上下调整 25，
+ * 关系强度取 0.1 或 2.0），
+ * 重新运行状态传播和可行性评估（AnalysisEngine.evaluateFeasibility，证据由 collectEvidence 收集），
+ * 记录目标可行性评分与 achievable / executable 的变化，按影响排序。
+ */
+
+import {
+  AnalysisNode,
+  AnalysisEdge,
+  AssumptionStatus,
+  DEFAULT_BASE_STATUS,
+  NodeType,
+  EdgeType,
+  NodeTypeWeights,
+  SensitivityItem,
+  SensitivityResult,
+  SensitivitySwing,
+} from './types.js';
+import { StatePropagationEngine } from './propagation/index.js';
+import { AnalysisEngine } from './analysisEngine.js';
+import { withResolvedStatus } from './simulation.js';
+import { getEffectiveConfidence } from './evidence.js';
+
+// 强度参与可行性评估的关系类型（与 collectEvidence 一致）
+const STRENGTH_EDGE_TYPES = new Set<EdgeType>([
+  EdgeType.SUPPORTS,
+  EdgeType.ACHIEVES,
+  EdgeType.HINDERS,
+  EdgeType.CONFLICTS,
+]);
+
+const MIN_STRENGTH = 0.1;
+const MAX_STRENGTH = 2.0;
+
+// 置信度上下调整的幅度
+const CONFIDENCE_SWING = 25;
+
+/** 假设为真或存疑时可行性按置信度计算（见传播引擎的状态系数），其余节点的置信度不影响结果 */
+function usesConfidence(node: AnalysisNode): boolean {
+  const baseStatus = node.baseStatus ?? DEFAULT_BASE_STATUS[node.type];
+  return node.type === NodeType.ASSUMPTION &&
+    (baseStatus === AssumptionStatus.POSITIVE || baseStatus === AssumptionStatus.UNCERTAIN);
+}
+
+/**
+ * 找出影响目标的上游节点和关系。
+ * 指向节点的关系的起点是它的上游；DEPENDS 方向相反（A 依赖 B 时 B 是 A 的上游）。
+ */
+function collectUpstream<E extends AnalysisEdge>(
+  targetId: string,
+  edges: E[]
+): { nodeIds: Set<string>; edges: E[] } {
+  const nodeIds = new Set<string>([targetId]);
+  const upstreamEdges = new Set<E>();
+  const queue = [targetId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      let upstream: string | null = null;
+      if (edge.type === EdgeType.DEPENDS) {
+        if (edge.sourceNodeId === current) upstream = edge.targetNodeId;
+      } else if (edge.targetNodeId === current) {
+        upstream = edge.sourceNodeId;
+      }
+      if (!upstream) continue;
+      upstreamEdges.add(edge);
+      if (!nodeIds.has(upstream)) {
+        nodeIds.add(upstream);
+        queue.push(upstream);
+      }
+    }
+  }
+
+  nodeIds.delete(targetId);
+  return { nodeIds, edges: Array.from(upstreamEdges) };
+}
+
+/**
+ * 分析目标或行动对上游输入的敏感性
+ */
+export function analyzeSensitivity<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  targetId: string,
+  weightConfig?: NodeTypeWeights
+): SensitivityResult<N, E> {
+  const targetNode = nodes.find(n => n.id === targetId);
+  if (!targetNode) {
+    throw new Error(`节点不存在: ${targetId}`);
+  }
+  if (targetNode.type !== NodeType.GOAL && targetNode.type !== NodeType.ACTION) {
+    throw new Error('敏感性分析只支持目标或行动节点');
+  }
+  const metric = targetNode.type === NodeType.GOAL ? 'achievable' : 'executable';
+
+  // 传播 + 评估一次，返回目标的评分和结果
+  const evaluate = (variantNodes: N[], variantEdges: E[]) => {
+    const { nodes: propagated } = new StatePropagationEngine<N, E>(variantNodes, variantEdges).propagate();
+    const engine = new AnalysisEngine<N, E>(propagated, variantEdges, weightConfig);
+    const score = engine.evaluateFeasibility(targetId).normalizedScore;
+    const status = propagated.find(n => n.id === targetId)!.computedStatus;
+    return { score, ok: status[metric] };
+  };
+
+  const baseline = evaluate(nodes, edges);
+  const upstream = collectUpstream(targetId, edges);
+  const titleOf = (id: string) => nodes.find(n => n.id === id)?.title ?? id;
+  const items: SensitivityItem<N, E>[] = [];
+
+  const pushItem = (item: Omit<SensitivityItem<N, E>, 'impact' | 'flipsOutcome'>) => {
+    items.push({
+      ...item,
+      impact: Math.abs(item.high.score - item.low.score),
+      flipsOutcome: item.high.ok !== item.low.ok,
+    });
+  };
+
+  // 事实/假设：取假 / 取真
+  for (const node of nodes) {
+    if (!upstream.nodeIds.has(node.id)) continue;
+    if (node.type !== NodeType.FACT && node.type !== NodeType.ASSUMPTION) continue;
+    const isFact = node.type === NodeType.FACT;
+    const swing = (isTrue: boolean, label: string): SensitivitySwing => ({
+      label,
+      ...evaluate(nodes.map(n => (n.id === node.id ? withResolvedStatus(n, isTrue) : n)), edges),
+    });
+    pushItem({
+      kind: 'node',
+      node,
+      focusNodeId: node.id,
+      label: node.title,
+      low: swing(false, isFact ? '否定' : '为假'),
+      high: swing(true, isFact ? '确认' : '为真'),
+    });
+  }
+
+  // 按置信度计算的假设：状态不变，置信度下调 / 上调（有证据时以证据算出的置信度为准，调整时去掉证据）
+  for (const node of nodes) {
+    if (!upstream.nodeIds.has(node.id) || !usesConfidence(node)) continue;
+    const confidence = getEffectiveConfidence(node);
+    const swing = (value: number): SensitivitySwing => ({
+      label: `置信度 ${value}`,
+      ...evaluate(nodes.map(n => (n.id === node.id ? { ...n, confidence: value, evidence: undefined } : n)), edges),
+    });
+    pushItem({
+      kind: 'confidence',
+      node,
+      focusNodeId: node.id,
+      label: node.title,
+      low: swing(Math.max(0, Math.round(confidence - CONFIDENCE_SWING))),
+      high: swing(Math.min(100, Math.round(confidence + CONFIDENCE_SWING))),
+    });
+  }
+
+  // 关系：强度取最小 / 最大
+  for (const edge of upstream.edges) {
+    if (!STRENGTH_EDGE_TYPES.has(edge.type)) continue;
+    const swing = (strength: number): SensitivitySwing => ({
+      label: `强度 ${strength.toFixed(1)}`,
+      ...evaluate(nodes, edges.map(e => (e.id === edge.id ? { ...e, strength } : e))),
+    });
+    pushItem({
+      kind: 'edge',
+      edge,
+      focusNodeId: edge.sourceNodeId,
+      label: `${titleOf(edge.sourceNodeId)} → ${titleOf(edge.targetNodeId)}`,
+      low: swing(MIN_STRENGTH),
+      high: swing(MAX_STRENGTH),
+    });
+  }
+
+  // 能改变成败的输入排在前面，其次按评分变化幅度
+  items.sort((a, b) => Number(b.flipsOutcome) - Number(a.flipsOutcome) || b.impact - a.impact);
+
+  return {
+    targetNode,
+    metric,
+    baseline,
+    items,
+    summary: generateSummary(targetNode, metric, items),
+  };
+}
+
+function generateSummary<N extends AnalysisNode, E extends AnalysisEdge>(
+  targetNode: N,
+  metric: 'achievable' | 'executable',
+  items: SensitivityItem<N, E>[]
+): string {
+  if (items.length === 0) {
+    return `「${targetNode.title}」上游没有事实、假设或带强度的关系。`;
+  }
+  const decisive = items.filter(i => i.flipsOutcome);
+  const metricText = metric === 'achievable' ? '能否达成' : '能否执行';
+  if (decisive.length > 0) {
+    return `${decisive.length} 个输入决定「${targetNode.title}」${metricText}，影响最大的是「${decisive[0].label}」。`;
+  }
+  const top = items[0];
+  return `没有单个输入能改变「${targetNode.title}」${metricText}；` +
+    `对可行性评分影响最大的是「${top.label}」（±${Math.round(top.impact / 2)} 分）。`;
+}
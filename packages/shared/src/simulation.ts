@@ -0,0 +1,182 @@
+/**
+ * 概率模拟（蒙特卡洛）
+ *
+ * 可行性评分用固定的状态系数把不确定性压成一个数，无法回答「这个方案有多大把握」。
+ * 这里把每个未确定的事实/假设按置信度随机取真或假，逐次运行状态传播，
+ * 统计每个目标 achievable、每个行动 executable 的比例。
+ *
+ * 参与抽样的节点与传播引擎使用置信度的范围一致：
+ * - 假设：uncertain 或 positive（positive 只是「假设为真」，仍按置信度抽样）
+ * - 事实：uncertain
+ * 已确认/已否定的事实和 negative 的假设视为确定，不参与抽样。
+ */
+
+import {
+  AnalysisNode,
+  AnalysisEdge,
+  NodeType,
+  FactStatus,
+  AssumptionStatus,
+  DEFAULT_BASE_STATUS,
+  HistogramBin,
+  OutcomeProbability,
+  MonteCarloResult,
+} from './types.js';
+import { StatePropagationEngine } from './propagation/index.js';
+import { getEffectiveConfidence } from './evidence.js';
+
+export interface MonteCarloOptions {
+  samples?: number;   // 抽样次数，默认 1000
+  seed?: number;      // 随机种子，相同输入和种子得到相同结果
+  bins?: number;      // 可行性得分直方图的区间数，默认 10
+}
+
+const DEFAULT_SAMPLES = 1000;
+const DEFAULT_SEED = 20240601;
+const DEFAULT_BINS = 10;
+const Z_95 = 1.96;
+
+/** mulberry32：可设种子的伪随机数，返回 [0, 1) */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 节点是否参与抽样 */
+export function isUncertainNode(node: AnalysisNode): boolean {
+  const baseStatus = node.baseStatus ?? DEFAULT_BASE_STATUS[node.type];
+  if (node.type === NodeType.ASSUMPTION) {
+    return baseStatus === AssumptionStatus.UNCERTAIN || baseStatus === AssumptionStatus.POSITIVE;
+  }
+  if (node.type === NodeType.FACT) {
+    return baseStatus === FactStatus.UNCERTAIN;
+  }
+  return false;
+}
+
+/**
+ * 把节点固定为真或假。置信度设为 100 并去掉证据，
+ * 使为真的假设在传播引擎中按确定为真计算。
+ */
+export function withResolvedStatus<N extends AnalysisNode>(node: N, isTrue: boolean): N {
+  const baseStatus = node.type === NodeType.ASSUMPTION
+    ? (isTrue ? AssumptionStatus.POSITIVE : AssumptionStatus.NEGATIVE)
+    : (isTrue ? FactStatus.CONFIRMED : FactStatus.DENIED);
+  return { ...node, baseStatus, confidence: 100, evidence: undefined };
+}
+
+/** 二项比例的 95% Wilson 区间 */
+function wilsonInterval(successes: number, n: number): [number, number] {
+  if (n === 0) return [0, 1];
+  const p = successes / n;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max - min < 1e-9) return [{ from: min, to: max, count: values.length }];
+
+  const width = (max - min) / bins;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    // 最大值落在最后一个区间
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  }
+  return histogram;
+}
+
+/**
+ * 运行概率模拟。
+ * 没有需要抽样的节点时结果是确定的，只运行一次传播。
+ */
+export function simulateOutcomes<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  options: MonteCarloOptions = {}
+): MonteCarloResult<N> {
+  const sampledNodes = nodes.filter(isUncertainNode);
+  const samples = sampledNodes.length > 0 ? Math.max(1, Math.floor(options.samples ?? DEFAULT_SAMPLES)) : 1;
+  const bins = options.bins ?? DEFAULT_BINS;
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+  const probabilities = new Map(sampledNodes.map(n => [n.id, getEffectiveConfidence(n) / 100]));
+  const targets = nodes.filter(n => n.type === NodeType.GOAL || n.type === NodeType.ACTION);
+  const successes = new Map<string, number>(targets.map(n => [n.id, 0]));
+  const scores = new Map<string, number[]>(targets.map(n => [n.id, []]));
+
+  for (let i = 0; i < samples; i++) {
+    const sample = nodes.map(n => {
+      const p = probabilities.get(n.id);
+      return p === undefined ? n : withResolvedStatus(n, random() < p);
+    });
+    const { nodes: propagated } = new StatePropagationEngine<N, E>(sample, edges).propagate();
+    for (const node of propagated) {
+      if (!successes.has(node.id)) continue;
+      const status = node.computedStatus;
+      const ok = node.type === NodeType.GOAL ? status.achievable : status.executable;
+      if (ok) successes.set(node.id, successes.get(node.id)! + 1);
+      scores.get(node.id)!.push(status.feasibilityScore);
+    }
+  }
+
+  const toOutcome = (node: N): OutcomeProbability<N> => {
+    const count = successes.get(node.id)!;
+    const values = scores.get(node.id)!;
+    const probability = count / samples;
+    return {
+      node,
+      probability,
+      interval: sampledNodes.length > 0 ? wilsonInterval(count, samples) : [probability, probability],
+      meanScore: values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length),
+      histogram: buildHistogram(values, bins),
+    };
+  };
+  const byProbability = (a: OutcomeProbability<N>, b: OutcomeProbability<N>) => b.probability - a.probability;
+
+  const goals = targets.filter(n => n.type === NodeType.GOAL).map(toOutcome).sort(byProbability);
+  const actions = targets.filter(n => n.type === NodeType.ACTION).map(toOutcome).sort(byProbability);
+
+  return {
+    samples,
+    sampledNodes,
+    goals,
+    actions,
+    summary: generateSummary(samples, sampledNodes.length, goals),
+  };
+}
+
+function generateSummary<N extends AnalysisNode>(
+  samples: number,
+  sampledCount: number,
+  goals: OutcomeProbability<N>[]
+): string {
+  const percent = (p: number) => `${Math.round(p * 100)}%`;
+  let summary = sampledCount === 0
+    ? '没有未确定的事实或假设，结果是确定的。'
+    : `按置信度对 ${sampledCount} 个未确定的事实/假设抽样 ${samples} 次。`;
+  if (goals.length === 0) {
+    summary += '项目中没有目标节点。';
+  } else {
+    const best = goals[0];
+    summary += `最有把握的目标是「${best.node.title}」，可达成概率 ${percent(best.probability)}` +
+      (sampledCount > 0 ? `（95% 区间 ${percent(best.interval[0])}–${percent(best.interval[1])}）。` : '。');
+  }
+  return summary;
+}
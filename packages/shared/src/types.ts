@@ -0,0 +1,690 @@
+/**
+ * 共享领域类型（前后端共用）
+ * v2.2 - 基础状态与计算状态分离
+ *
+ * 这里只放与存储无关的部分：节点/关系类型、基础状态、计算状态，
+ * 以及分析引擎的输入输出结构。带 id/时间戳等持久化字段的实体类型
+ * 仍由 client / server 各自定义，只要在结构上满足 AnalysisNode / AnalysisEdge 即可。
+ */
+
+// ============ 节点类型 ============
+export enum NodeType {
+  GOAL = 'goal',              // 目标：期望达成的终态
+  ACTION = 'action',          // 行动：可执行的操作（原"决策"）
+  FACT = 'fact',              // 事实：已确认为真的命题
+  ASSUMPTION = 'assumption',  // 假设：未经验证、可能为真的命题
+  CONSTRAINT = 'constraint',  // 约束：必须满足的条件（原"推理"拆分）
+  CONCLUSION = 'conclusion',  // 结论：从其他节点推导出的命题（原"推理"拆分）
+
+  // 废弃类型（仅用于数据迁移兼容）
+  /** @deprecated 使用 ACTION 替代 */
+  DECISION = 'decision',
+  /** @deprecated 使用 CONSTRAINT 或 CONCLUSION 替代 */
+  INFERENCE = 'inference',
+}
+
+// ============ 基础状态枚举（每种节点类型专属） ============
+
+/** 目标节点状态 */
+export enum GoalStatus {
+  ACHIEVED = 'achieved',         // 已达成
+  NOT_ACHIEVED = 'notAchieved',  // 未达成（默认）
+}
+
+/** 行动节点状态 */
+export enum ActionStatus {
+  SUCCESS = 'success',       // 成功：执行了且达到预期效果
+  FAILED = 'failed',         // 失败：执行了但没达到预期效果
+  IN_PROGRESS = 'inProgress', // 进行中：正在执行
+  PENDING = 'pending',       // 待执行（默认）
+}
+
+/** 事实节点状态 */
+export enum FactStatus {
+  CONFIRMED = 'confirmed',   // 确认：这是真的（默认）
+  DENIED = 'denied',         // 否定：这是假的（情况已改变）
+  UNCERTAIN = 'uncertain',   // 存疑：还不确定
+}
+
+/** 假设节点状态 */
+export enum AssumptionStatus {
+  POSITIVE = 'positive',     // 当作真的：在规划中假设它成立
+  NEGATIVE = 'negative',     // 当作假的：在规划中假设它不成立
+  UNCERTAIN = 'uncertain',   // 不确定（默认） - 与 FactStatus.UNCERTAIN 相同值，通过节点类型区分
+}
+
+/** 约束节点状态 */
+export enum ConstraintStatus {
+  SATISFIED = 'satisfied',     // 已满足
+  UNSATISFIED = 'unsatisfied', // 未满足（默认）
+}
+
+/** 结论节点状态 */
+export enum ConclusionStatus {
+  ESTABLISHED = 'established',       // 成立：根据证据，结论为真
+  NOT_ESTABLISHED = 'notEstablished', // 不成立：根据证据，结论为假
+  PENDING = 'pending',               // 待定：证据不足（默认） - 与 ActionStatus.PENDING 相同值，通过节点类型区分
+}
+
+/** 所有基础状态的联合类型 */
+export type BaseStatus =
+  | GoalStatus
+  | ActionStatus
+  | FactStatus
+  | AssumptionStatus
+  | ConstraintStatus
+  | ConclusionStatus;
+
+/** 节点类型到默认基础状态的映射 */
+export const DEFAULT_BASE_STATUS: Record<NodeType, BaseStatus> = {
+  [NodeType.GOAL]: GoalStatus.NOT_ACHIEVED,
+  [NodeType.ACTION]: ActionStatus.PENDING,
+  [NodeType.FACT]: FactStatus.CONFIRMED,
+  [NodeType.ASSUMPTION]: AssumptionStatus.UNCERTAIN,
+  [NodeType.CONSTRAINT]: ConstraintStatus.UNSATISFIED,
+  [NodeType.CONCLUSION]: ConclusionStatus.PENDING,
+  // 废弃类型
+  [NodeType.DECISION]: ActionStatus.PENDING,
+  [NodeType.INFERENCE]: ConclusionStatus.PENDING,
+};
+
+/**
+ * 基础状态到状态系数的映射（用于可行性计算）
+ *
+ * 注意：某些不同类型的状态有相同的字符串值（如 'pending', 'uncertain'），
+ * 但它们的系数相同，所以只需要存储一次。
+ */
+export const STATUS_COEFFICIENT: Record<string, number> = {
+  // Goal
+  achieved: 1.0,
+  notAchieved: 0.0,
+  // Action / Conclusion
+  success: 1.0,
+  failed: 0.0,
+  inProgress: 0.5,
+  pending: 0.5,  // ActionStatus.PENDING = 0.0 但 ConclusionStatus.PENDING = 0.5，使用 0.5
+  // Fact / Assumption
+  confirmed: 1.0,
+  denied: 0.0,
+  uncertain: 0.5,  // 共享: FactStatus.UNCERTAIN 和 AssumptionStatus.UNCERTAIN
+  // Assumption
+  positive: 1.0,   // 实际计算时使用 confidence 值
+  negative: 0.0,
+  // Constraint
+  satisfied: 1.0,
+  unsatisfied: 0.0,
+  // Conclusion
+  established: 1.0,
+  notEstablished: 0.0,
+};
+
+/** 判断基础状态是否为"肯定态"（用于传播规则） */
+export function isPositiveStatus(status: BaseStatus): boolean {
+  return [
+    GoalStatus.ACHIEVED,
+    ActionStatus.SUCCESS,
+    FactStatus.CONFIRMED,
+    AssumptionStatus.POSITIVE,
+    ConstraintStatus.SATISFIED,
+    ConclusionStatus.ESTABLISHED,
+  ].includes(status as any);
+}
+
+/** 判断基础状态是否为"否定态" */
+export function isNegativeStatus(status: BaseStatus): boolean {
+  return [
+    GoalStatus.NOT_ACHIEVED,
+    ActionStatus.FAILED,
+    FactStatus.DENIED,
+    AssumptionStatus.NEGATIVE,
+    ConstraintStatus.UNSATISFIED,
+    ConclusionStatus.NOT_ESTABLISHED,
+  ].includes(status as any);
+}
+
+/** 判断基础状态是否为"中间态"（未决状态） */
+export function isNeutralStatus(status: BaseStatus): boolean {
+  return [
+    ActionStatus.IN_PROGRESS,
+    ActionStatus.PENDING,
+    FactStatus.UNCERTAIN,
+    AssumptionStatus.UNCERTAIN,
+    ConclusionStatus.PENDING,
+  ].includes(status as any);
+}
+
+/** 获取节点类型对应的"肯定态" */
+export function getPositiveStatusForType(type: NodeType): BaseStatus {
+  switch (type) {
+    case NodeType.GOAL:
+      return GoalStatus.ACHIEVED;
+    case NodeType.ACTION:
+    case NodeType.DECISION:
+      return ActionStatus.SUCCESS;
+    case NodeType.FACT:
+      return FactStatus.CONFIRMED;
+    case NodeType.ASSUMPTION:
+      return AssumptionStatus.POSITIVE;
+    case NodeType.CONSTRAINT:
+      return ConstraintStatus.SATISFIED;
+    case NodeType.CONCLUSION:
+    case NodeType.INFERENCE:
+    default:
+      return ConclusionStatus.ESTABLISHED;
+  }
+}
+
+/** 获取节点类型的默认 autoUpdate 值（只有结论节点默认开启） */
+export function getDefaultAutoUpdate(type: NodeType): boolean {
+  return type === NodeType.CONCLUSION;
+}
+
+// ============ 计算状态（系统计算，用户只读） ============
+
+/** 计算状态结构 */
+export interface ComputedStatus {
+  blocked: boolean;           // 是否受阻（有依赖未满足）
+  blockedBy: string[];        // 受阻原因（节点ID列表）
+  threatened: boolean;        // 是否受威胁（可行性得分为负）
+  feasibilityScore: number;   // 可行性得分
+  conflicted: boolean;        // 是否存在矛盾
+  conflictWith: string[];     // 矛盾对象（节点ID列表）
+  executable: boolean;        // 是否可执行（仅行动节点有效）
+  achievable: boolean;        // 是否可达成（仅目标节点有效）
+  statusSource?: string;      // 状态来源说明（如"由XX节点导致"）
+}
+
+/** 默认计算状态 */
+export const DEFAULT_COMPUTED_STATUS: ComputedStatus = {
+  blocked: false,
+  blockedBy: [],
+  threatened: false,
+  feasibilityScore: 0,
+  conflicted: false,
+  conflictWith: [],
+  executable: false,
+  achievable: false,
+  statusSource: undefined,
+};
+
+// ============ 关系类型 ============
+export enum EdgeType {
+  DEPENDS = 'depends',        // 依赖：B要成立，必须先有A（A←B）
+  SUPPORTS = 'supports',      // 促成：A成立会帮助B成立（A→B）
+  ACHIEVES = 'achieves',      // 实现：行动A可以满足约束或目标B（A⊢B）
+  HINDERS = 'hinders',        // 阻碍：A成立会妨碍B成立（A⊣B）
+  CAUSES = 'causes',          // 导致：A发生会引起B发生（A⇒B）
+  CONFLICTS = 'conflicts',    // 矛盾：A和B不能同时为真（A⊥B）
+
+  // 废弃类型（仅用于数据迁移兼容）
+  /** @deprecated 使用 DEPENDS 替代（注意方向反转） */
+  PREREQUISITE = 'prerequisite',
+  /** @deprecated 使用 HINDERS 替代 */
+  OPPOSES = 'opposes',
+  /** @deprecated 使用 CAUSES 替代 */
+  LEADS_TO = 'leads_to',
+  /** @deprecated 已删除，信息量太低 */
+  RELATED = 'related',
+}
+
+// ============ 结构化证据 ============
+
+/** 证据方向：支持 / 反驳 */
+export type EvidenceStance = 'supporting' | 'refuting';
+
+/** 挂在事实/假设节点上的一条证据（对应旧表 evidence） */
+export interface EvidenceItem {
+  id: string;
+  stance: EvidenceStance;
+  source: string;        // 来源：文字说明或 URL
+  reliability: number;   // 可靠度 0-100
+  date?: string;         // 证据日期（YYYY-MM-DD）
+}
+
+// ============ 引擎输入 ============
+
+/**
+ * 分析/传播引擎需要的最小节点结构。
+ * client 的 GraphNode 与 server 的 Node 都在结构上满足它；
+ * baseStatus / autoUpdate 缺省时按节点类型取默认值。
+ */
+export interface AnalysisNode {
+  id: string;
+  type: NodeType;
+  title: string;
+  confidence: number;
+  weight: number;
+  baseStatus?: BaseStatus;
+  autoUpdate?: boolean;
+  computedStatus?: ComputedStatus;
+  customWeight?: number | null;  // 节点自定义权重，优先于项目权重配置
+  evidence?: EvidenceItem[];     // 结构化证据（仅事实/假设节点），有证据时置信度由证据计算
+}
+
+/** 分析/传播引擎需要的最小边结构 */
+export interface AnalysisEdge {
+  id: string;
+  sourceNodeId: string;
+  targetNodeId: string;
+  type: EdgeType;
+  strength: number;
+  description?: string;
+}
+
+/** 各节点类型的权重（项目级权重配置的数值部分） */
+export interface NodeTypeWeights {
+  goalWeight: number;
+  actionWeight: number;
+  factWeight: number;
+  assumptionWeight: number;
+  constraintWeight: number;
+  conclusionWeight: number;
+}
+
+/** 默认权重配置 */
+export const DEFAULT_WEIGHTS: Record<NodeType, number> = {
+  [NodeType.GOAL]: 1.0,
+  [NodeType.ACTION]: 1.0,
+  [NodeType.FACT]: 1.0,
+  [NodeType.ASSUMPTION]: 0.5,
+  [NodeType.CONSTRAINT]: 1.0,
+  [NodeType.CONCLUSION]: 0.8,
+  // 废弃类型使用默认权重
+  [NodeType.DECISION]: 1.0,
+  [NodeType.INFERENCE]: 0.8,
+};
+
+// ============ 分析模块输出 ============
+
+/** 节点满足状态（用于目标树分析） */
+export enum SatisfactionStatus {
+  SATISFIED = 'satisfied',       // 已满足
+  UNSATISFIED = 'unsatisfied',   // 未满足
+  BLOCKED = 'blocked',           // 被阻塞
+  PENDING = 'pending',           // 待验证（假设节点）
+  ACHIEVABLE = 'achievable',     // 可达成（目标节点）
+}
+
+/** 依赖树节点 */
+export interface DependencyTreeNode<N extends AnalysisNode = AnalysisNode> {
+  nodeId: string;
+  node: N;
+  status: SatisfactionStatus;
+  children: DependencyTreeNode<N>[];
+  achievableBy: N[];  // 可实现该节点的行动
+}
+
+/** 阻塞点信息 */
+export interface BlockingPoint<N extends AnalysisNode = AnalysisNode> {
+  node: N;
+  reason: string;
+  achievableActions: Array<{
+    action: N;
+    isExecutable: boolean;
+    blockedBy: N[];
+  }>;
+}
+
+/** 可执行行动 */
+export interface ExecutableAction<N extends AnalysisNode = AnalysisNode> {
+  action: N;
+  priority: number;
+  unblocks: N[];      // 执行后可解除的阻塞
+  reason: string;
+}
+
+/** 模块一输出：下一步行动建议 */
+export interface NextActionResult<N extends AnalysisNode = AnalysisNode> {
+  rootGoals: N[];
+  blockingPoints: BlockingPoint<N>[];
+  suggestedAction: ExecutableAction<N> | null;
+  followUpActions: ExecutableAction<N>[];
+  summary: string;
+}
+
+/** 正向/负向证据 */
+export interface Evidence<N extends AnalysisNode = AnalysisNode> {
+  node: N;
+  type: 'positive' | 'negative';
+  weight: number;
+  edgeType?: EdgeType;   // 来自节点自身证据条目时为空
+  item?: EvidenceItem;   // 节点自身的证据条目
+  description?: string;
+}
+
+/** 风险信息 */
+export interface Risk<N extends AnalysisNode = AnalysisNode> {
+  type: 'strong_hindrance' | 'dependency_gap' | 'assumption_risk' | 'conflict';
+  severity: 'low' | 'medium' | 'high';
+  node: N;
+  description: string;
+}
+
+/** 前置条件状态 */
+export interface Prerequisite<N extends AnalysisNode = AnalysisNode> {
+  node: N;
+  status: SatisfactionStatus;
+  achievableBy: N[];
+}
+
+/** 模块二输出：可行性评估 */
+export interface FeasibilityResult<N extends AnalysisNode = AnalysisNode> {
+  targetNode: N;
+  feasibilityScore: number;
+  normalizedScore: number;  // 0-100 范围
+
+  positiveEvidence: Evidence<N>[];
+  negativeEvidence: Evidence<N>[];
+  prerequisites: Prerequisite<N>[];
+  risks: Risk<N>[];
+
+  verdict: 'highly_feasible' | 'feasible' | 'uncertain' | 'challenging' | 'infeasible';
+  summary: string;
+  suggestions: string[];
+}
+
+// ============ 概率模拟输出 ============
+
+/** 直方图的一个区间 [from, to) */
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/** 单个目标/行动的模拟结果 */
+export interface OutcomeProbability<N extends AnalysisNode = AnalysisNode> {
+  node: N;
+  probability: number;            // 目标为 achievable / 行动为 executable 的比例，0-1
+  interval: [number, number];     // 95% 置信区间（Wilson）
+  meanScore: number;              // 可行性得分均值
+  histogram: HistogramBin[];      // 可行性得分分布
+}
+
+/** 概率模拟输出 */
+export interface MonteCarloResult<N extends AnalysisNode = AnalysisNode> {
+  samples: number;
+  sampledNodes: N[];              // 参与抽样的事实/假设
+  goals: OutcomeProbability<N>[];
+  actions: OutcomeProbability<N>[];
+  summary: string;
+}
+
+// ============ 敏感性分析输出 ============
+
+/** 输入取某一端时目标的结果 */
+export interface SensitivitySwing {
+  label: string;        // 如「为真」「强度 2.0」
+  score: number;        // 目标的可行性评分（0-100）
+  ok: boolean;          // 目标是否 achievable / 行动是否 executable
+}
+
+/** 一个上游输入（事实、假设或关系）的影响 */
+export interface SensitivityItem<N extends AnalysisNode = AnalysisNode, E extends AnalysisEdge = AnalysisEdge> {
+  kind: 'node' | 'confidence' | 'edge';  // 事实/假设取真假、假设的置信度、关系强度
+  node?: N;
+  edge?: E;
+  focusNodeId: string;   // 跳转用：节点本身，或关系的起点
+  label: string;
+  low: SensitivitySwing;
+  high: SensitivitySwing;
+  impact: number;        // |high.score - low.score|
+  flipsOutcome: boolean; // 两端的 achievable / executable 不同
+}
+
+/** 敏感性分析输出 */
+export interface SensitivityResult<N extends AnalysisNode = AnalysisNode, E extends AnalysisEdge = AnalysisEdge> {
+  targetNode: N;
+  metric: 'achievable' | 'executable';
+  baseline: { score: number; ok: boolean };
+  items: SensitivityItem<N, E>[];   // 按影响从大到小
+  summary: string;
+}
+
+// ============ 核实价值排序输出 ============
+
+/** 一个未确定的事实/假设的核实价值 */
+export interface VerificationItem<N extends AnalysisNode = AnalysisNode> {
+  node: N;
+  confidence: number;               // 有效置信度（0-100），即为真的概率
+  value: number;                    // 核实后结论的期望变化量（目标可达成数变化 + 建议行动是否改变）
+  affectedGoals: N[];               // 核实结果会改变其可达成状态的目标
+  changesSuggestion: boolean;       // 核实结果会改变建议的下一步行动
+  suggestionIfTrue: N | null;       // 为真时的建议行动
+  suggestionIfFalse: N | null;      // 为假时的建议行动
+  reason: string;
+}
+
+/** 核实价值排序输出（与模块一的下一步行动建议配合使用） */
+export interface VerificationResult<N extends AnalysisNode = AnalysisNode> {
+  items: VerificationItem<N>[];     // 按核实价值从高到低
+  summary: string;
+}
+
+// ============ 服务器同步 ============
+
+/** 参与服务器同步的集合（与服务端表对应：projects / scenes / nodes / edges / scene_nodes / comments） */
+export type SyncCollection = 'projects' | 'scenes' | 'nodes' | 'edges' | 'sceneNodes' | 'comments';
+
+/** 同步传输的一条记录；updatedAt 为服务器时间，deletedAt 非空表示已删除（墓碑） */
+export interface SyncRecord {
+  id: string;
+  updatedAt?: string;
+  deletedAt?: string | null;
+  [field: string]: unknown;
+}
+
+export type SyncRecordSet = Partial<Record<SyncCollection, SyncRecord[]>>;
+
+/** 拉取：since 之后服务器上变化的记录（含已删除的墓碑） */
+export interface SyncPullResponse {
+  serverTime: string;               // 下次拉取的 since
+  changes: SyncRecordSet;
+}
+
+/** 推送的一条记录；baseUpdatedAt 为客户端上次同步时的服务器版本，新记录为 null */
+export interface SyncPushRecord {
+  record: SyncRecord;
+  baseUpdatedAt: string | null;
+}
+
+export type SyncPushRequest = Partial<Record<SyncCollection, SyncPushRecord[]>>;
+
+/**
+ * 推送结果：服务器版本与 baseUpdatedAt 不一致时不写入（conflict），返回服务器上的记录；
+ * 违反约束（如重复的关系）的记录被拒绝（rejected）
+ */
+export interface SyncPushResult {
+  collection: SyncCollection;
+  id: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  updatedAt?: string;               // applied 时的新版本
+  server?: SyncRecord;              // conflict 时服务器上的记录
+  message?: string;                 // rejected 的原因
+}
+
+// ============ 账户 ============
+
+/** 服务器账户（不含密码哈希） */
+export interface AccountUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  name: string;
+  password: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+/** 注册/登录成功：之后的请求带上 Authorization: Bearer <token> */
+export interface AuthResponse {
+  token: string;
+  expiresAt: string;
+  user: AccountUser;
+}
+
+// ============ 项目共享 ============
+
+/** 项目中的角色；owner 为创建者，其余由邀请加入。权限依次递增：viewer < commenter < editor < owner */
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+/** 可以授予成员的角色 */
+export type MemberRole = Exclude<ProjectRole, 'owner'>;
+
+export const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: '所有者',
+  editor: '编辑者',
+  commenter: '评论者',
+  viewer: '查看者',
+};
+
+/** role 是否至少具备 required 的权限 */
+export function hasProjectRole(role: ProjectRole | null | undefined, required: ProjectRole): boolean {
+  return !!role && PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[required];
+}
+
+export interface ProjectMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: ProjectRole;
+  joinedAt: string;
+}
+
+/**
+ * 邀请：指定 email 时只有该邮箱的账户能接受；不指定时是分享码，任何拿到码的登录用户都能加入
+ */
+export interface ProjectInvite {
+  id: string;
+  projectId: string;
+  projectTitle?: string;
+  email: string | null;
+  code: string;
+  role: MemberRole;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+export interface CreateInviteRequest {
+  email?: string;
+  role: MemberRole;
+}
+
+export interface UpdateMemberRequest {
+  role: MemberRole;
+}
+
+export interface AcceptInviteRequest {
+  code: string;
+}
+
+/** 项目的共享设置：成员（所有者在前）与未过期的邀请 */
+export interface ProjectSharing {
+  members: ProjectMember[];
+  invites: ProjectInvite[];
+}
+
+/** 接受邀请后加入的项目及角色 */
+export interface AcceptInviteResponse {
+  projectId: string;
+  projectTitle?: string;
+  role: ProjectRole;
+}
+
+// ============ 实时协作 ============
+
+/** 实时广播的记录集合：节点、关系，以及场景-节点关联（场景成员与场景中的位置） */
+export type RealtimeCollection = 'nodes' | 'edges' | 'sceneNodes';
+
+/**
+ * 字段写入的时间戳（混合逻辑时钟）。
+ * 先比较 time，相同再比较 clientId，各端对同一字段的并发写入总能选出同一个胜者
+ */
+export interface FieldStamp {
+  time: number;
+  clientId: string;
+}
+
+/**
+ * 一条记录的字段级修改，只带变化的字段，每个字段附时间戳。
+ * 删除表示为 deletedAt 字段的写入（场景-节点关联收到后在本地移除）
+ */
+export interface RealtimeChange {
+  collection: RealtimeCollection;
+  id: string;
+  projectId: string;
+  fields: Record<string, unknown>;
+  stamps: Record<string, FieldStamp>;
+  updatedAt?: string; // 服务器写入后的版本，由服务器转发时填写
+}
+
+/** 服务器写入实时修改后记录的版本（updatedAt），客户端据此前移同步基线 */
+export interface RealtimeVersion {
+  collection: RealtimeCollection;
+  id: string;
+  updatedAt: string;
+}
+
+/** 协作者在线状态：正在看哪个场景（null 为概览）、选中了哪个节点 */
+export interface PresenceInfo {
+  clientId: string; // 每个标签页一个
+  userId: string;
+  name: string;
+  color: string;
+  sceneId: string | null;
+  selectedNodeId: string | null;
+}
+
+/** 客户端发给服务器的消息 */
+export type RealtimeClientMessage =
+  | { type: 'join'; projectId: string; clientId: string }
+  | { type: 'presence'; sceneId: string | null; selectedNodeId: string | null }
+  | { type: 'changes'; changes: RealtimeChange[] };
+
+/** 服务器发给客户端的消息；presence 总是项目中全部在线的连接（含自己） */
+export type RealtimeServerMessage =
+  | { type: 'joined'; projectId: string; role: ProjectRole; presence: PresenceInfo[] }
+  | { type: 'presence'; presence: PresenceInfo[] }
+  | { type: 'changes'; from: string; changes: RealtimeChange[] }
+  | { type: 'saved'; versions: RealtimeVersion[] } // 本连接发出的修改已写入服务器
+  | { type: 'error'; message: string };
+
+// ============ 评论 ============
+
+/** 评论挂在节点或关系上 */
+export type CommentTargetType = 'node' | 'edge';
+
+/**
+ * 节点/关系上的评论。parentId 为空的是讨论串的第一条，回复的 parentId 指向它；
+ * 解决状态记在第一条上，整个讨论串一起解决或重新打开
+ */
+export interface GraphComment {
+  id: string;
+  projectId: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  parentId: string | null;
+  authorId: string | null;          // 服务器账户 ID；未登录时本地写的评论为空
+  authorName: string;
+  body: string;
+  mentions: string[];               // 正文中 @ 提到的名字
+  resolved: boolean;
+  resolvedBy?: string | null;       // 解决者的名字
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
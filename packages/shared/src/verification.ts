@@ -0,0 +1,129 @@
+/**
+ * 核实价值排序（信息价值）
+ *
+ * 模块一只回答「下一步做什么」，这里回答「做之前先核实什么」：
+ * 对每个未确定的事实/假设，分别假定它为真、为假，重新运行状态传播和下一步行动分析，
+ * 按置信度加权统计结论的变化——有多少目标的可达成状态改变、建议的行动是否改变。
+ * 变化越大，越值得在行动前先去核实。
+ */
+
+import {
+  AnalysisNode,
+  AnalysisEdge,
+  NodeType,
+  NodeTypeWeights,
+  VerificationItem,
+  VerificationResult,
+} from './types.js';
+import { StatePropagationEngine } from './propagation/index.js';
+import { AnalysisEngine } from './analysisEngine.js';
+import { getEffectiveConfidence } from './evidence.js';
+import { isUncertainNode, withResolvedStatus } from './simulation.js';
+
+interface Outcome<N> {
+  achievableGoals: Set<string>;
+  suggestion: N | null;
+}
+
+/**
+ * 对未确定的事实/假设按核实价值排序
+ */
+export function rankVerifications<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  weightConfig?: NodeTypeWeights
+): VerificationResult<N> {
+  const evaluate = (variantNodes: N[]): Outcome<N> => {
+    const { nodes: propagated } = new StatePropagationEngine<N, E>(variantNodes, edges).propagate();
+    const nextAction = new AnalysisEngine<N, E>(propagated, edges, weightConfig).getNextAction();
+    return {
+      achievableGoals: new Set(
+        propagated.filter(n => n.type === NodeType.GOAL && n.computedStatus.achievable).map(n => n.id)
+      ),
+      // 返回原始节点，避免把传播后的副本交给调用方
+      suggestion: nodes.find(n => n.id === nextAction.suggestedAction?.action.id) ?? null,
+    };
+  };
+
+  const baseline = evaluate(nodes);
+  const goals = nodes.filter(n => n.type === NodeType.GOAL);
+  const changedGoals = (outcome: Outcome<N>) =>
+    goals.filter(g => outcome.achievableGoals.has(g.id) !== baseline.achievableGoals.has(g.id));
+
+  const items: VerificationItem<N>[] = nodes.filter(isUncertainNode).map(node => {
+    const confidence = getEffectiveConfidence(node);
+    const p = confidence / 100;
+    const ifTrue = evaluate(nodes.map(n => (n.id === node.id ? withResolvedStatus(n, true) : n)));
+    const ifFalse = evaluate(nodes.map(n => (n.id === node.id ? withResolvedStatus(n, false) : n)));
+
+    const goalsIfTrue = changedGoals(ifTrue);
+    const goalsIfFalse = changedGoals(ifFalse);
+    const suggestionChangedIfTrue = ifTrue.suggestion?.id !== baseline.suggestion?.id;
+    const suggestionChangedIfFalse = ifFalse.suggestion?.id !== baseline.suggestion?.id;
+
+    const value = p * (goalsIfTrue.length + Number(suggestionChangedIfTrue)) +
+      (1 - p) * (goalsIfFalse.length + Number(suggestionChangedIfFalse));
+    const affectedGoals = goals.filter(g => goalsIfTrue.includes(g) || goalsIfFalse.includes(g));
+
+    return {
+      node,
+      confidence,
+      value: Math.round(value * 100) / 100,
+      affectedGoals,
+      changesSuggestion: suggestionChangedIfTrue || suggestionChangedIfFalse,
+      suggestionIfTrue: ifTrue.suggestion,
+      suggestionIfFalse: ifFalse.suggestion,
+      reason: describeReason(node, p, baseline.suggestion, ifTrue, ifFalse, affectedGoals),
+    };
+  });
+
+  // 核实价值相同时，置信度越接近 50%（越拿不准）越靠前；仍相同时保持节点原有顺序
+  items.sort((a, b) => b.value - a.value || Math.abs(a.confidence - 50) - Math.abs(b.confidence - 50));
+
+  return { items, summary: generateSummary(items, baseline.suggestion) };
+}
+
+function describeReason<N extends AnalysisNode>(
+  node: N,
+  p: number,
+  current: N | null,
+  ifTrue: Outcome<N>,
+  ifFalse: Outcome<N>,
+  affectedGoals: N[]
+): string {
+  const falseLabel = node.type === NodeType.FACT ? '不成立' : '为假';
+  const trueLabel = node.type === NodeType.FACT ? '成立' : '为真';
+  // 优先描述更可能发生、且会改变建议的那种结果
+  const branches = [
+    { outcome: ifTrue, label: trueLabel, p },
+    { outcome: ifFalse, label: falseLabel, p: 1 - p },
+  ]
+    .filter(b => b.outcome.suggestion?.id !== current?.id)
+    .sort((a, b) => b.p - a.p);
+
+  if (branches.length > 0) {
+    const { outcome, label } = branches[0];
+    const next = outcome.suggestion ? `变为「${outcome.suggestion.title}」` : '没有可执行的行动';
+    return current
+      ? `执行「${current.title}」前先核实：若它${label}，建议的下一步会${next}`
+      : `若它${label}，建议的下一步会${next}`;
+  }
+  if (affectedGoals.length > 0) {
+    return `决定「${affectedGoals.map(g => g.title).join('、')}」能否达成`;
+  }
+  return '核实与否不影响当前结论';
+}
+
+function generateSummary<N extends AnalysisNode>(items: VerificationItem<N>[], current: N | null): string {
+  const worth = items.filter(i => i.value > 0);
+  if (items.length === 0) {
+    return '没有未确定的事实或假设。';
+  }
+  if (worth.length === 0) {
+    return `${items.length} 个未确定的事实/假设都不影响当前结论。`;
+  }
+  const top = worth[0];
+  return `建议先核实「${top.node.title}」（置信度 ${top.confidence}%）` +
+    (current && top.changesSuggestion ? `，再决定是否执行「${current.title}」。` : '。') +
+    (worth.length > 1 ? ` 共 ${worth.length} 项值得核实。` : '');
+}
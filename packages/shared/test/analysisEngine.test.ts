@@ -0,0 +1,30 @@
+/**
+ * 「下一步行动」分析回归测试
+ *
+ * fixtures/analysis/*.json 每个用例给出输入图和期望识别出的根目标（expected.rootGoals，顺序无关）。
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { AnalysisEdge, AnalysisNode, analyzeNextAction } from '../src/index.js';
+
+interface AnalysisFixture {
+  description: string;
+  nodes: AnalysisNode[];
+  edges: AnalysisEdge[];
+  expected: { rootGoals: string[] };
+}
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'analysis');
+
+for (const file of readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).sort()) {
+  const fixture: AnalysisFixture = JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf-8'));
+
+  test(`${file}: ${fixture.description}`, () => {
+    const result = analyzeNextAction(fixture.nodes, fixture.edges);
+
+    assert.deepEqual(result.rootGoals.map(g => g.id).sort(), [...fixture.expected.rootGoals].sort());
+  });
+}
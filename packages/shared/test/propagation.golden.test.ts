@@ -0,0 +1,78 @@
+/**
+ * 状态传播黄金文件测试
+ *
+ * fixtures/propagation/*.json 每个用例给出输入图（nodes/edges）和期望的传播结果（expected）。
+ * 前端把节点原样交给 propagateStates（baseStatus/autoUpdate 可能缺省）；
+ * 后端 analysis 路由把数据库行交给 services/analysisInput.ts 补齐缺省值，再交给 StatePropagationEngine。
+ * 两条路径的输出都必须与 expected 完全一致，从而保证前后端结果相同。
+ *
+ * example-project.json、godfather.json 由示例项目和教父种子数据生成：npm run test:generate-fixtures -w @solvechain/shared
+ * 有意修改传播规则后重新生成期望结果：npm run test:update-golden -w @solvechain/shared
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  AnalysisEdge,
+  AnalysisNode,
+  PropagationResult,
+  StatePropagationEngine,
+  propagateStates,
+} from '../src/index.js';
+import { toAnalysisEdges, toAnalysisNodes } from '../../server/src/services/analysisInput.js';
+
+interface PropagationFixture {
+  description: string;
+  nodes: AnalysisNode[];
+  edges: AnalysisEdge[];
+  expected?: unknown;
+}
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'propagation');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+/** 结果中参与比对的部分（日志只是说明文字，不比对） */
+function snapshot(result: PropagationResult): unknown {
+  return JSON.parse(JSON.stringify({
+    nodes: Object.fromEntries(result.nodes.map(n => [n.id, { baseStatus: n.baseStatus, computedStatus: n.computedStatus }])),
+    updatedBaseStatuses: result.updatedBaseStatuses,
+    cyclicDependencies: result.cyclicDependencies,
+    conflicts: result.conflicts,
+  }));
+}
+
+/**
+ * 后端路径：先还原成 getProjectData 查询出的行（DECIMAL 列为字符串，未设置的列为 null），
+ * 再经服务器的 toAnalysisNodes/toAnalysisEdges 整理
+ */
+function propagateAsServer(nodes: AnalysisNode[], edges: AnalysisEdge[]): PropagationResult {
+  const nodeRows = nodes.map(n => ({
+    ...n,
+    confidence: String(n.confidence),
+    weight: String(n.weight),
+    baseStatus: n.baseStatus ?? null,
+    autoUpdate: n.autoUpdate ?? null,
+  }));
+  const edgeRows = edges.map(e => ({ ...e, strength: String(e.strength) }));
+  return new StatePropagationEngine(toAnalysisNodes(nodeRows), toAnalysisEdges(edgeRows)).propagate();
+}
+
+for (const file of readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).sort()) {
+  const path = join(FIXTURE_DIR, file);
+  const fixture: PropagationFixture = JSON.parse(readFileSync(path, 'utf-8'));
+
+  test(`${file}: ${fixture.description}`, () => {
+    const client = snapshot(propagateStates(fixture.nodes, fixture.edges));
+    const server = snapshot(propagateAsServer(fixture.nodes, fixture.edges));
+    assert.deepEqual(server, client, '前后端传播结果不一致');
+
+    if (UPDATE_GOLDEN) {
+      writeFileSync(path, JSON.stringify({ ...fixture, expected: client }, null, 2) + '\n');
+      return;
+    }
+    assert.ok(fixture.expected, '缺少 expected，先运行 test:update-golden 生成');
+    assert.deepEqual(client, fixture.expected);
+  });
+}
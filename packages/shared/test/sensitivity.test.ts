@@ -0,0 +1,73 @@
+/**
+ * 敏感性分析（analyzeSensitivity）测试：各类扰动的两端取值与影响排序
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AnalysisEdge,
+  AnalysisNode,
+  AssumptionStatus,
+  EdgeType,
+  FactStatus,
+  NodeType,
+  analyzeSensitivity,
+} from '../src/index.js';
+
+// 行动依赖「渠道愿意合作」并实现目标；「用户愿意付费」促成目标，「竞品在降价」阻碍目标
+const nodes: AnalysisNode[] = [
+  { id: 'G', type: NodeType.GOAL, title: '进入市场', confidence: 50, weight: 1 },
+  { id: 'ACT', type: NodeType.ACTION, title: '签约渠道', confidence: 50, weight: 1 },
+  { id: 'A1', type: NodeType.ASSUMPTION, title: '渠道愿意合作', confidence: 60, weight: 1, baseStatus: AssumptionStatus.POSITIVE },
+  { id: 'A2', type: NodeType.ASSUMPTION, title: '用户愿意付费', confidence: 50, weight: 1, baseStatus: AssumptionStatus.POSITIVE },
+  { id: 'F1', type: NodeType.FACT, title: '竞品在降价', confidence: 50, weight: 1, baseStatus: FactStatus.CONFIRMED },
+];
+const edges: AnalysisEdge[] = [
+  { id: 'e1', sourceNodeId: 'ACT', targetNodeId: 'A1', type: EdgeType.DEPENDS, strength: 1 },
+  { id: 'e2', sourceNodeId: 'ACT', targetNodeId: 'G', type: EdgeType.ACHIEVES, strength: 1 },
+  { id: 'e3', sourceNodeId: 'A2', targetNodeId: 'G', type: EdgeType.SUPPORTS, strength: 1 },
+  { id: 'e4', sourceNodeId: 'F1', targetNodeId: 'G', type: EdgeType.HINDERS, strength: 1 },
+];
+
+test('决定成败的输入排在最前，其余按评分变化幅度排序（相同幅度保持事实/假设、置信度、关系的顺序）', () => {
+  const result = analyzeSensitivity(nodes, edges, 'G');
+
+  assert.equal(result.metric, 'achievable');
+  assert.deepEqual(result.baseline, { score: 44, ok: true });
+  assert.deepEqual(
+    result.items.map(i => [i.kind, i.label, i.impact, i.flipsOutcome]),
+    [
+      ['node', '渠道愿意合作', 0, true],
+      ['edge', '竞品在降价 → 进入市场', 44, false],
+      ['node', '竞品在降价', 24, false],
+      ['edge', '签约渠道 → 进入市场', 23, false],
+      ['node', '用户愿意付费', 12, false],
+      ['edge', '用户愿意付费 → 进入市场', 12, false],
+      ['confidence', '用户愿意付费', 6, false],
+      ['confidence', '渠道愿意合作', 0, false],
+    ]
+  );
+  assert.match(result.summary, /影响最大的是「渠道愿意合作」/);
+});
+
+test('置信度扰动：只针对按置信度计算的假设，上下调整 25 并限制在 0-100', () => {
+  const confident = nodes.map(n => (n.id === 'A2' ? { ...n, confidence: 90 } : n));
+  const items = analyzeSensitivity(confident, edges, 'G').items.filter(i => i.kind === 'confidence');
+
+  assert.deepEqual(items.map(i => i.node!.id).sort(), ['A1', 'A2']);
+  const a2 = items.find(i => i.node!.id === 'A2')!;
+  assert.deepEqual([a2.low.label, a2.high.label], ['置信度 65', '置信度 100']);
+  assert.ok(a2.high.score > a2.low.score);
+});
+
+test('关系强度扰动：阻碍关系越强评分越低，促成关系越强评分越高', () => {
+  const items = analyzeSensitivity(nodes, edges, 'G').items.filter(i => i.kind === 'edge');
+  const hinders = items.find(i => i.edge!.id === 'e4')!;
+  const supports = items.find(i => i.edge!.id === 'e3')!;
+
+  assert.deepEqual([hinders.low.label, hinders.high.label], ['强度 0.1', '强度 2.0']);
+  assert.ok(hinders.low.score > hinders.high.score);
+  assert.ok(supports.low.score < supports.high.score);
+  // DEPENDS 关系的强度不参与评估
+  assert.equal(items.some(i => i.edge!.id === 'e1'), false);
+});
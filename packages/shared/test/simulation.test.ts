@@ -0,0 +1,90 @@
+/**
+ * 概率模拟（simulateOutcomes）测试
+ *
+ * 用例图：行动依赖一个假设并实现目标，假设为假时行动受阻、目标不可达成，
+ * 因此目标可达成、行动可执行的概率都等于假设的置信度。
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AnalysisEdge,
+  AnalysisNode,
+  AssumptionStatus,
+  EdgeType,
+  FactStatus,
+  NodeType,
+  simulateOutcomes,
+} from '../src/index.js';
+
+function graph(assumption: Partial<AnalysisNode>): { nodes: AnalysisNode[]; edges: AnalysisEdge[] } {
+  return {
+    nodes: [
+      { id: 'A', type: NodeType.ASSUMPTION, title: '渠道愿意合作', confidence: 70, weight: 1, ...assumption },
+      { id: 'ACT', type: NodeType.ACTION, title: '签约渠道', confidence: 50, weight: 1 },
+      { id: 'G', type: NodeType.GOAL, title: '进入市场', confidence: 50, weight: 1 },
+    ],
+    edges: [
+      { id: 'e1', sourceNodeId: 'ACT', targetNodeId: 'A', type: EdgeType.DEPENDS, strength: 1 },
+      { id: 'e2', sourceNodeId: 'ACT', targetNodeId: 'G', type: EdgeType.ACHIEVES, strength: 1 },
+    ],
+  };
+}
+
+// 与 simulation.ts 相同的 95% Wilson 区间
+function wilson(successes: number, n: number): [number, number] {
+  const z = 1.96;
+  const p = successes / n;
+  const center = (p + (z * z) / (2 * n)) / (1 + (z * z) / n);
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / (1 + (z * z) / n);
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+test('相同的种子得到相同的结果，概率接近置信度', () => {
+  const { nodes, edges } = graph({});
+  const first = simulateOutcomes(nodes, edges, { samples: 2000, seed: 42 });
+  const second = simulateOutcomes(nodes, edges, { samples: 2000, seed: 42 });
+
+  assert.deepEqual(first, second);
+  assert.equal(first.samples, 2000);
+  assert.deepEqual(first.sampledNodes.map(n => n.id), ['A']);
+  const [goal] = first.goals;
+  const [action] = first.actions;
+  assert.equal(goal.probability, action.probability);
+  assert.ok(Math.abs(goal.probability - 0.7) < 0.05, `概率 ${goal.probability} 应接近 0.7`);
+  assert.ok(goal.interval[0] <= 0.7 && 0.7 <= goal.interval[1]);
+});
+
+test('没有未确定的节点时只传播一次，区间退化为一点', () => {
+  const { nodes, edges } = graph({ baseStatus: AssumptionStatus.NEGATIVE });
+  nodes.push({ id: 'F', type: NodeType.FACT, title: '已有销售团队', confidence: 50, weight: 1, baseStatus: FactStatus.CONFIRMED });
+  const result = simulateOutcomes(nodes, edges, { samples: 500 });
+
+  assert.equal(result.samples, 1);
+  assert.deepEqual(result.sampledNodes, []);
+  assert.equal(result.goals[0].probability, 0);
+  assert.deepEqual(result.goals[0].interval, [0, 0]);
+  assert.match(result.summary, /结果是确定的/);
+});
+
+test('Wilson 区间：与公式一致，全部成功或全部失败时贴住 1 或 0', () => {
+  const samples = 1000;
+  const run = (confidence: number, seed?: number) => {
+    const { nodes, edges } = graph({ confidence });
+    return simulateOutcomes(nodes, edges, { samples, seed }).goals[0];
+  };
+
+  const goal = run(100);
+  assert.equal(goal.probability, 1);
+  assert.equal(goal.interval[1], 1);
+  assert.ok(Math.abs(goal.interval[0] - samples / (samples + 1.96 * 1.96)) < 1e-12);
+
+  const impossible = run(0);
+  assert.equal(impossible.probability, 0);
+  assert.equal(impossible.interval[0], 0);
+  assert.ok(impossible.interval[1] > 0 && impossible.interval[1] < 0.01);
+
+  const partial = run(30, 7);
+  const successes = Math.round(partial.probability * samples);
+  assert.deepEqual(partial.interval, wilson(successes, samples));
+});
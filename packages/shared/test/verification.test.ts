@@ -0,0 +1,40 @@
+/**
+ * 核实优先级（信息价值）回归测试
+ *
+ * fixtures/verification/*.json 每个用例给出输入图和期望的排序（expected.order，节点 ID，顺序有关）、
+ * 各节点的核实价值（expected.values）和摘要（expected.summary）。
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { AnalysisEdge, AnalysisNode, rankVerifications } from '../src/index.js';
+
+interface VerificationFixture {
+  description: string;
+  nodes: AnalysisNode[];
+  edges: AnalysisEdge[];
+  expected: { order: string[]; values: Record<string, number>; summary: string };
+}
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'verification');
+
+for (const file of readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).sort()) {
+  const fixture: VerificationFixture = JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf-8'));
+
+  test(`${file}: ${fixture.description}`, () => {
+    const { items, summary } = rankVerifications(fixture.nodes, fixture.edges);
+
+    assert.deepEqual(items.map(item => item.node.id), fixture.expected.order);
+    assert.deepEqual(Object.fromEntries(items.map(item => [item.node.id, item.value])), fixture.expected.values);
+    assert.equal(summary, fixture.expected.summary);
+  });
+}
+
+test('没有未确定的事实或假设时没有可核实的项', () => {
+  const { items, summary } = rankVerifications([], []);
+
+  assert.deepEqual(items, []);
+  assert.equal(summary, '没有未确定的事实或假设。');
+});